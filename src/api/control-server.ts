@@ -0,0 +1,394 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import type { TradingEngine } from '../engine/trading-engine.js';
+import type { OrderManager } from '../engine/order-manager.js';
+import type { BalanceTracker } from '../engine/balance-tracker.js';
+import type { PnLCalculator } from '../engine/pnl-calculator.js';
+import type { FeeReconciler } from '../engine/fee-reconciler.js';
+import type { SubmissionPipeline } from '../engine/submission-pipeline.js';
+import type { MarketDataService } from '../engine/market-data.js';
+import type { Market } from '../types/market.js';
+import type { StrategyPreset } from '../types/strategy.js';
+import { strategyKey } from '../types/strategy.js';
+import { roundDownToMarketPrecision, scaleUpAndTruncateToInt } from '../utils/price-math.js';
+
+export interface ControlServerDeps {
+  engine: TradingEngine;
+  orderManager: OrderManager;
+  balanceTracker: BalanceTracker;
+  pnlCalc: PnLCalculator;
+  feeReconciler?: FeeReconciler;
+  submissionPipeline?: Pick<SubmissionPipeline, 'getStats'>;
+  marketData: Pick<MarketDataService, 'getMidPrice'>; // Reference price of marketable orders without one
+  markets: Market[];
+}
+
+export interface ControlServerOptions {
+  token: string;
+  port: number;
+  host?: string; // Default 127.0.0.1
+}
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+const ok = (body: unknown): Reply => ({ status: 200, body });
+const fail = (status: number, error: string): Reply => ({ status, body: { error } });
+
+const PRESETS: StrategyPreset[] = ['simple', 'volumeMaximizing', 'profitTaking', 'competitionMode', 'custom'];
+const ORDER_TYPES = ['Spot', 'PostOnly', 'Market', 'BoundedMarket', 'IOC', 'FOK'];
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * ControlServer - opt-in HTTP control API for a running bot.
+ *
+ * Mirrors the Telegram commands and dashboard keybindings for scripts and web
+ * panels: status, global / per-market pause and resume, cancel, flatten, preset
+ * switch and manual orders, plus read access to PnL, balances and the last
+ * cycle's diagnostics. Every request needs `Authorization: Bearer <token>`.
+ *
+ * Markets are addressed by pair (`ETH_USDC`) or a market-id prefix, in the
+ * `market` query parameter for GETs and the JSON body for POSTs; a tagged
+ * strategy on a market is addressed with `strategy` next to it. Prices and
+ * quantities are human units.
+ *
+ * Events: 'command' (method, path, status) for every mutating request.
+ */
+export class ControlServer extends EventEmitter {
+  private deps: ControlServerDeps;
+  private token: Buffer;
+  private port: number;
+  private host: string;
+  private http: Server;
+
+  constructor(deps: ControlServerDeps, opts: ControlServerOptions) {
+    super();
+    if (!opts.token) throw new Error('Control API requires a token');
+    this.deps = deps;
+    this.token = Buffer.from(opts.token);
+    this.port = opts.port;
+    this.host = opts.host ?? '127.0.0.1';
+    this.http = createServer((req, res) => {
+      this.handleHttp(req, res).catch((err) => {
+        this.send(res, fail(500, err?.message ?? String(err)));
+      });
+    });
+  }
+
+  /** Start listening. Resolves to the base URL. */
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.http.once('error', reject);
+      this.http.listen(this.port, this.host, () => {
+        this.http.off('error', reject);
+        resolve();
+      });
+    });
+    const addr = this.http.address();
+    const boundPort = typeof addr === 'object' && addr ? addr.port : this.port;
+    return `http://${this.host}:${boundPort}`;
+  }
+
+  async stop(): Promise<void> {
+    this.http.closeAllConnections();
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+  }
+
+  // =========================================================================
+  // HTTP
+  // =========================================================================
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+
+    if (!this.isAuthorized(req.headers.authorization)) {
+      this.send(res, fail(401, 'Unauthorized'));
+      return;
+    }
+
+    let body: any = null;
+    if (method !== 'GET') {
+      try {
+        body = await this.readBody(req);
+      } catch (err: any) {
+        this.send(res, fail(400, err?.message ?? 'Invalid body'));
+        return;
+      }
+    }
+    const reply = await this.route(method, url.pathname, url.searchParams, body ?? {});
+    if (method !== 'GET') this.emit('command', method, url.pathname, reply.status);
+    this.send(res, reply);
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+    if (!match) return false;
+    const presented = Buffer.from(match[1].trim());
+    return presented.length === this.token.length && timingSafeEqual(presented, this.token);
+  }
+
+  private async route(method: string, path: string, q: URLSearchParams, body: any): Promise<Reply> {
+    const { engine, orderManager, balanceTracker, pnlCalc, feeReconciler } = this.deps;
+
+    switch (`${method} ${path}`) {
+      case 'GET /v1/status':
+        return ok({
+          running: engine.isRunning,
+          markets: this.deps.markets.map((m) => this.marketStatus(m)),
+          portfolioRisk: engine.getPortfolioRiskSnapshot(),
+          submissions: this.deps.submissionPipeline?.getStats() ?? null,
+        });
+
+      case 'GET /v1/markets':
+        return ok({
+          markets: this.deps.markets.map((m) => ({
+            marketId: m.market_id,
+            pair: this.pairTag(m),
+            paused: engine.isMarketPaused(m.market_id),
+          })),
+        });
+
+      case 'POST /v1/pause':
+      case 'POST /v1/resume': {
+        const pause = path === '/v1/pause';
+        if (!body.market) {
+          if (pause) engine.stop();
+          else if (!engine.isRunning) engine.start();
+          return ok({ running: engine.isRunning });
+        }
+        const market = this.findMarket(body.market);
+        if (!market) return fail(404, `Market not found: ${body.market}`);
+        if (body.strategy) {
+          const key = strategyKey(market.market_id, String(body.strategy));
+          if (!engine.getStrategyConfig(key)) return fail(404, `Strategy not found on ${this.pairTag(market)}: ${body.strategy}`);
+          if (pause) engine.pauseStrategy(key);
+          else engine.resumeStrategy(key);
+          return ok({ market: this.pairTag(market), strategy: body.strategy, paused: engine.isStrategyPaused(key) });
+        }
+        if (pause) engine.pauseMarket(market.market_id);
+        else engine.resumeMarket(market.market_id);
+        return ok({ market: this.pairTag(market), paused: engine.isMarketPaused(market.market_id) });
+      }
+
+      case 'POST /v1/cancel': {
+        if (!body.market) {
+          await engine.cancelAllOrders();
+          return ok({ cancelled: 'all' });
+        }
+        const market = this.findMarket(body.market);
+        if (!market) return fail(404, `Market not found: ${body.market}`);
+        await orderManager.cancelAllOrders(market);
+        return ok({ cancelled: this.pairTag(market) });
+      }
+
+      case 'POST /v1/flatten': {
+        // No default market here: a script typo shouldn't sell the first market's base.
+        const market = this.findMarket(body.market);
+        if (!market) return fail(body.market ? 404 : 400, body.market ? `Market not found: ${body.market}` : 'market is required');
+        await orderManager.cancelAllOrders(market);
+        const result = await engine.flattenMarket(market);
+        if (!result) return fail(503, `No mid price for ${this.pairTag(market)}; orders cancelled, nothing sold`);
+        return ok({
+          market: this.pairTag(market),
+          sold: result.sold.toString(),
+          ...(result.txId ? { txId: result.txId } : {}),
+        });
+      }
+
+      case 'POST /v1/strategy': {
+        const preset = String(body.preset ?? '') as StrategyPreset;
+        if (!PRESETS.includes(preset)) return fail(400, `Unknown preset "${body.preset}". Choices: ${PRESETS.join(', ')}`);
+        const targets = body.market ? [this.findMarket(body.market)].filter((m): m is Market => !!m) : this.deps.markets;
+        if (targets.length === 0) return fail(404, `Market not found: ${body.market}`);
+        for (const m of targets) await engine.setStrategyPreset(m.market_id, preset);
+        return ok({ preset, markets: targets.map((m) => this.pairTag(m)) });
+      }
+
+      case 'GET /v1/orders': {
+        const market = this.findMarket(q.get('market') ?? undefined);
+        if (!market) return fail(404, `Market not found: ${q.get('market')}`);
+        return ok({ market: this.pairTag(market), orders: await orderManager.getOpenOrders(market) });
+      }
+
+      case 'POST /v1/orders':
+        return this.placeManualOrder(body);
+
+      case 'GET /v1/pnl': {
+        const tag = q.get('market');
+        if (!tag) return ok(pnlCalc.getSnapshot());
+        const market = this.findMarket(tag);
+        if (!market) return fail(404, `Market not found: ${tag}`);
+        const strategies = engine.getStrategyKeys(market.market_id);
+        if (strategies.length <= 1) return ok(pnlCalc.getSnapshot(market.market_id));
+        return ok({
+          ...pnlCalc.getSnapshot(market.market_id),
+          strategies: strategies.map((key) => ({
+            strategy: engine.getStrategyConfig(key)?.strategyTag ?? null,
+            ...pnlCalc.getStrategySnapshot(key),
+          })),
+        });
+      }
+
+      case 'GET /v1/fees': {
+        const snap = pnlCalc.getSnapshot();
+        return ok({
+          maker: { fills: snap.makerCount, fees: snap.makerFees },
+          taker: { fills: snap.takerCount, fees: snap.takerFees },
+          reconciliation: feeReconciler ? await feeReconciler.reconcile() : [],
+        });
+      }
+
+      case 'GET /v1/balances': {
+        const tag = q.get('market');
+        const targets = tag ? [this.findMarket(tag)].filter((m): m is Market => !!m) : this.deps.markets;
+        if (targets.length === 0) return fail(404, `Market not found: ${tag}`);
+        const out = [];
+        for (const m of targets) {
+          const b = await balanceTracker.getMarketBalances(m.market_id);
+          out.push({
+            market: this.pairTag(m),
+            base: { symbol: m.base.symbol, ...this.humanBalance(b.base, m.base.decimals) },
+            quote: { symbol: m.quote.symbol, ...this.humanBalance(b.quote, m.quote.decimals) },
+          });
+        }
+        return ok({ balances: out });
+      }
+
+      case 'GET /v1/diagnostics': {
+        const market = this.findMarket(q.get('market') ?? undefined);
+        if (!market) return fail(404, `Market not found: ${q.get('market')}`);
+        const last = engine.getLastExecutionResult(market.market_id);
+        return ok({ market: this.pairTag(market), diagnostics: last?.diagnostics ?? null });
+      }
+
+      default:
+        return fail(404, `No route for ${method} ${path}`);
+    }
+  }
+
+  private async placeManualOrder(body: any): Promise<Reply> {
+    const market = this.findMarket(body.market);
+    if (!market) return fail(body.market ? 404 : 400, body.market ? `Market not found: ${body.market}` : 'market is required');
+    if (body.side !== 'Buy' && body.side !== 'Sell') return fail(400, 'side must be "Buy" or "Sell"');
+    const orderType = String(body.orderType ?? 'Spot');
+    if (!ORDER_TYPES.includes(orderType)) return fail(400, `orderType must be one of ${ORDER_TYPES.join(', ')}`);
+
+    let quantity: Decimal;
+    let price: Decimal;
+    try {
+      quantity = roundDownToMarketPrecision(new Decimal(body.quantity), market);
+      price = new Decimal(body.price ?? 0);
+    } catch {
+      return fail(400, 'price and quantity must be numbers');
+    }
+    if (quantity.lte(0)) return fail(400, 'quantity must be > 0 after rounding to the market step size');
+    const marketable = orderType === 'Market' || orderType === 'BoundedMarket';
+    if (!marketable && price.lte(0)) return fail(400, `price is required for ${orderType} orders`);
+    if (price.lte(0)) {
+      // Marketable without a price: bound it around the mid, as the engine does
+      const mid = this.deps.marketData.getMidPrice(market.market_id);
+      if (!mid) return fail(503, `No mid price for ${this.pairTag(market)}; pass a price`);
+      price = new Decimal(mid);
+    }
+
+    const priceScaled = scaleUpAndTruncateToInt(price, market.quote.decimals, market.quote.max_precision, market.tick_size).toFixed(0);
+    const quantityScaled = quantity.mul(new Decimal(10).pow(market.base.decimals)).toFixed(0);
+    const resp = await this.deps.orderManager.placeOrder(market, body.side, orderType, priceScaled, quantityScaled);
+    this.deps.balanceTracker.clearCache(market.market_id);
+    return ok({
+      market: this.pairTag(market),
+      orderIds: (resp.orders ?? []).map((o) => o.order_id).filter(Boolean),
+      txId: resp.tx_id,
+    });
+  }
+
+  // =========================================================================
+  // HELPERS
+  // =========================================================================
+
+  private marketStatus(m: Market) {
+    const { engine } = this.deps;
+    const last = engine.getLastExecutionResult(m.market_id);
+    return {
+      marketId: m.market_id,
+      pair: this.pairTag(m),
+      paused: engine.isMarketPaused(m.market_id),
+      preset: engine.getStrategyPresetName(m.market_id) ?? 'custom',
+      strategy: engine.getStrategyConfig(m.market_id)?.name ?? null,
+      nextRunAt: engine.getNextRunTime(m.market_id),
+      lastCycle: last
+        ? {
+            executed: last.executed,
+            orders: last.orders.length,
+            skipReason: last.skipReason ?? null,
+            skipCategory: last.skipCategory ?? null,
+          }
+        : null,
+      // Primary first; `strategy` is the tag (null for the primary)
+      strategies: engine.getStrategyKeys(m.market_id).map((key) => ({
+        strategy: engine.getStrategyConfig(key)?.strategyTag ?? null,
+        name: engine.getStrategyConfig(key)?.name ?? null,
+        preset: engine.getStrategyPresetName(key) ?? 'custom',
+        paused: engine.isStrategyPaused(key),
+        nextRunAt: engine.getNextRunTime(key),
+      })),
+    };
+  }
+
+  /** Pair tag (ETH_USDC, case-insensitive) or market-id prefix. */
+  private findMarket(tag: unknown): Market | null {
+    if (typeof tag !== 'string' || !tag) return null;
+    const upper = tag.toUpperCase();
+    return (
+      this.deps.markets.find((m) => this.pairTag(m).toUpperCase() === upper) ||
+      this.deps.markets.find((m) => m.market_id.toLowerCase().startsWith(tag.toLowerCase())) ||
+      null
+    );
+  }
+
+  private pairTag(m: Market): string {
+    return `${m.base.symbol}_${m.quote.symbol}`;
+  }
+
+  private humanBalance(b: { unlocked: string; locked: string; total: string }, decimals: number) {
+    const scale = new Decimal(10).pow(decimals);
+    return {
+      unlocked: new Decimal(b.unlocked || '0').div(scale).toNumber(),
+      locked: new Decimal(b.locked || '0').div(scale).toNumber(),
+      total: new Decimal(b.total || '0').div(scale).toNumber(),
+    };
+  }
+
+  private readBody(req: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      req.setEncoding('utf-8');
+      req.on('data', (chunk) => {
+        raw += chunk;
+        if (raw.length > MAX_BODY_BYTES) {
+          reject(new Error('Body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => {
+        try {
+          resolve(raw ? JSON.parse(raw) : null);
+        } catch {
+          reject(new Error('Body must be JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, reply: Reply): void {
+    if (res.headersSent) return;
+    res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  }
+}
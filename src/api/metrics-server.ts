@@ -0,0 +1,48 @@
+import { createServer, type Server } from 'http';
+import type { MetricsCollector } from '../engine/metrics-collector.js';
+
+/**
+ * Serves `GET /metrics` for Prometheus scrapes. No auth — bind it to loopback
+ * (the default) or a private interface.
+ */
+export class MetricsServer {
+  private http: Server;
+
+  constructor(private collector: MetricsCollector, private port: number, private host = '127.0.0.1') {
+    this.http = createServer((req, res) => {
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+      if (req.method !== 'GET' || path !== '/metrics') {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+      try {
+        const body = this.collector.render();
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(body);
+      } catch (err: any) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(`${err?.message ?? err}\n`);
+      }
+    });
+  }
+
+  /** Start listening. Resolves to the metrics URL. */
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.http.once('error', reject);
+      this.http.listen(this.port, this.host, () => {
+        this.http.off('error', reject);
+        resolve();
+      });
+    });
+    const addr = this.http.address();
+    const boundPort = typeof addr === 'object' && addr ? addr.port : this.port;
+    return `http://${this.host}:${boundPort}/metrics`;
+  }
+
+  async stop(): Promise<void> {
+    this.http.closeAllConnections();
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+  }
+}
@@ -17,6 +17,8 @@ export class O2WebSocketClient extends EventEmitter {
   private currentReconnectDelay: number;
   private shouldReconnect = true;
   private subscriptions: Array<{ action: string; payload: any }> = [];
+  private connectCount = 0;
+  private lastMessageAt = 0;
 
   constructor(config: WsConfig) {
     super();
@@ -40,6 +42,7 @@ export class O2WebSocketClient extends EventEmitter {
 
     this.ws.on('open', () => {
       this.currentReconnectDelay = this.config.reconnectDelay;
+      this.connectCount++;
       this.emit('connected');
       // Re-subscribe to all previous subscriptions
       for (const sub of this.subscriptions) {
@@ -50,6 +53,7 @@ export class O2WebSocketClient extends EventEmitter {
     });
 
     this.ws.on('message', (data) => {
+      this.lastMessageAt = Date.now();
       try {
         const msg: WsMessage = JSON.parse(data.toString());
         this.handleMessage(msg);
@@ -217,4 +221,14 @@ export class O2WebSocketClient extends EventEmitter {
   get isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
+
+  /** Successful connects after the first one. */
+  get reconnectCount(): number {
+    return Math.max(0, this.connectCount - 1);
+  }
+
+  /** ms epoch of the last message received (0 before the first). */
+  get lastMessageTime(): number {
+    return this.lastMessageAt;
+  }
 }
@@ -13,8 +13,53 @@ import {
   type CallContractArg,
 } from './encoders.js';
 import { O2RestClient } from '../api/rest-client.js';
-import type { SessionAction, SessionActionsResponse } from '../types/api.js';
+import type { SessionAction, SessionActionsResponse, SessionActionsSubmission } from '../types/api.js';
 import type { Market } from '../types/market.js';
+import type { Order } from '../types/order.js';
+
+const NONCE_RESYNC_ATTEMPTS = 3;
+const NONCE_RESYNC_DELAY_MS = 500;
+const LANDED_ORDER_SLACK_MS = 60_000; // Clock skew allowed when matching a lost submission's orders
+
+// The API's stale-nonce rejection, carrying the nonce it expects
+const STALE_NONCE_PATTERN = /nonce in the database\((\d+)\)/;
+// Receipts of a reverted transaction, carrying the nonce it consumed
+const REVERTED_PATTERN = /IncrementNonceEvent\s*\{\s*nonce:\s*(\d+)\s*\}/;
+
+/**
+ * A submission that provably did not execute: the API turned its nonce away,
+ * or the transaction reverted. Keeps the message and API response of the
+ * error it wraps. Any other submission error may mean the actions landed, so
+ * they must not be signed again.
+ */
+export class SubmissionNotExecutedError extends Error {
+  readonly response: any;
+
+  constructor(cause: any) {
+    super(cause?.message ?? String(cause), { cause });
+    this.name = 'SubmissionNotExecutedError';
+    this.response = cause?.response;
+  }
+}
+
+/** The API rejected the nonce itself (not a reverted transaction). */
+function isNonceError(errStr: string): boolean {
+  return STALE_NONCE_PATTERN.test(errStr) && !errStr.includes('IncrementNonceEvent');
+}
+
+/** No answer that says whether the transaction executed: timeouts, resets, gateway errors. */
+function isUnknownOutcome(err: any): boolean {
+  const status = err?.response?.status;
+  if (status === undefined) return err?.isAxiosError === true;
+  return status === 408 || status === 502 || status === 503 || status === 504;
+}
+
+const outcomeUnknown = (submitted: BN) => new Error(
+  `Submission outcome unknown: nonce ${submitted.toString()} was used, but its orders could not all be found; not resubmitted`
+);
+
+// Order timestamps come back in seconds or milliseconds depending on the endpoint
+const toMs = (ts: number) => (ts < 1e12 ? ts * 1000 : ts);
 
 // Import the TradeAccount and OrderBook contract types
 // These need to be copied from market-maker/backend/src/exchanges/o2-contracts/
@@ -29,6 +74,26 @@ export interface SessionInfo {
   createdAt: number;
 }
 
+// Why the nonce was re-read after a failed submission:
+// - stale: the API rejected the nonce (another signer used the account, or a
+//   response was lost earlier); nothing executed, so the actions are re-signed
+// - reverted: the transaction reverted on chain and still consumed the nonce
+// - unknown_outcome: no usable response (timeout, reset, gateway error); the
+//   account nonce tells whether the transaction landed
+export type NonceResyncReason = 'stale' | 'reverted' | 'unknown_outcome';
+
+export interface NonceResyncEvent {
+  reason: NonceResyncReason;
+  submittedNonce: string;
+  nonce: string; // Next nonce after the resync
+  skipped: number; // Nonces used outside this submission (other signers, lost responses)
+  landed: boolean | null; // unknown_outcome: whether the submission executed (null: can't tell)
+  recoveredOrders: number; // Orders of a landed submission found through the API
+  retried: boolean;
+  error: string;
+  timestamp: number;
+}
+
 export interface SessionManagerConfig {
   walletManager: WalletManager;
   restClient: O2RestClient;
@@ -50,6 +115,7 @@ export class SessionManager extends EventEmitter {
   // Contract instances for ABI encoding
   private tradeAccountContract: any = null;
   private orderBookContracts: Map<string, Contract> = new Map();
+  private contractMarkets: Map<string, Market> = new Map();
 
   // OrderBook ABI (loaded at runtime)
   private orderBookAbi: any = null;
@@ -64,6 +130,7 @@ export class SessionManager extends EventEmitter {
   // Callbacks for persistence
   public onSessionCreated?: (info: SessionInfo, encryptedKey: EncryptedData) => Promise<void>;
   public onNonceUpdate?: (tradeAccountId: string, nonce: string) => Promise<void>;
+  public loadNonce?: (tradeAccountId: string) => string | null;
 
   constructor(config: SessionManagerConfig) {
     super();
@@ -207,6 +274,7 @@ export class SessionManager extends EventEmitter {
         this.walletManager.provider
       );
       this.orderBookContracts.set(market.market_id, contract);
+      this.contractMarkets.set(market.market_id, market);
     }
   }
 
@@ -216,7 +284,24 @@ export class SessionManager extends EventEmitter {
     market: Market,
     actions: SessionAction[]
   ): Promise<SessionActionsResponse> {
-    return this.enqueue(() => this.submitActionsImpl(marketId, market, actions, false));
+    return this.enqueue(() => this.submitActionsImpl([{ market, actions }], false));
+  }
+
+  /**
+   * Submit action groups for several markets as one signed request (one nonce,
+   * one transaction). Every market must have been initialized with initMarketContract.
+   */
+  async submitBatch(
+    groups: Array<{ market_id: string; actions: SessionAction[] }>
+  ): Promise<SessionActionsResponse> {
+    const resolved = groups.map((g) => {
+      const market = this.contractMarkets.get(g.market_id);
+      if (!market) {
+        throw new Error(`OrderBook contract not initialized for market ${g.market_id}`);
+      }
+      return { market, actions: g.actions };
+    });
+    return this.enqueue(() => this.submitActionsImpl(resolved, false));
   }
 
   private enqueue<T>(fn: () => Promise<T>): Promise<T> {
@@ -226,80 +311,80 @@ export class SessionManager extends EventEmitter {
   }
 
   private async submitActionsImpl(
-    marketId: string,
-    market: Market,
-    actions: SessionAction[],
+    groups: Array<{ market: Market; actions: SessionAction[] }>,
     isRetry: boolean
   ): Promise<SessionActionsResponse> {
     if (!this.sessionSigner) {
       throw new Error('No active session. Call createNewSession() first.');
     }
 
-    const orderBookContract = this.orderBookContracts.get(marketId);
-    if (!orderBookContract) {
-      throw new Error(`OrderBook contract not initialized for market ${marketId}`);
-    }
-
-    // Build CallContractArg array for each action
+    // Build CallContractArg array for each action, in request order across markets
     const callContractArgs: CallContractArg[] = [];
     let totalVariableOutputs = 0;
 
-    for (const action of actions) {
-      let invocationScope: any;
-
-      if (action.SettleBalance) {
-        const to = action.SettleBalance.to;
-        const identity = 'ContractId' in to
-          ? { ContractId: { bits: (to as any).ContractId } }
-          : { Address: { bits: (to as any).Address } };
-        invocationScope = orderBookContract.functions.settle_balance(identity);
-      } else if (action.CreateOrder) {
-        const { side, price, quantity, order_type, max_price, min_price } = action.CreateOrder;
-        let swayOrderType: any;
-        switch (order_type) {
-          case 'PostOnly': swayOrderType = { PostOnly: undefined }; break;
-          case 'Limit': swayOrderType = { Limit: undefined }; break;
-          case 'Spot': swayOrderType = { Spot: undefined }; break;
-          case 'Market': swayOrderType = { Market: undefined }; break;
-          case 'FillOrKill': swayOrderType = { FillOrKill: undefined }; break;
-          case 'BoundedMarket':
-            // Sway variant is a (max_price, min_price) tuple of u64.
-            swayOrderType = {
-              BoundedMarket: [
-                bn((max_price ?? price).toString()),
-                bn((min_price ?? '0').toString()),
-              ],
-            };
-            break;
-          default: swayOrderType = { Market: undefined };
+    for (const { market, actions } of groups) {
+      const orderBookContract = this.orderBookContracts.get(market.market_id);
+      if (!orderBookContract) {
+        throw new Error(`OrderBook contract not initialized for market ${market.market_id}`);
+      }
+
+      for (const action of actions) {
+        let invocationScope: any;
+
+        if (action.SettleBalance) {
+          const to = action.SettleBalance.to;
+          const identity = 'ContractId' in to
+            ? { ContractId: { bits: (to as any).ContractId } }
+            : { Address: { bits: (to as any).Address } };
+          invocationScope = orderBookContract.functions.settle_balance(identity);
+        } else if (action.CreateOrder) {
+          const { side, price, quantity, order_type, max_price, min_price } = action.CreateOrder;
+          let swayOrderType: any;
+          switch (order_type) {
+            case 'PostOnly': swayOrderType = { PostOnly: undefined }; break;
+            case 'Limit': swayOrderType = { Limit: undefined }; break;
+            case 'Spot': swayOrderType = { Spot: undefined }; break;
+            case 'Market': swayOrderType = { Market: undefined }; break;
+            case 'FillOrKill': swayOrderType = { FillOrKill: undefined }; break;
+            case 'BoundedMarket':
+              // Sway variant is a (max_price, min_price) tuple of u64.
+              swayOrderType = {
+                BoundedMarket: [
+                  bn((max_price ?? price).toString()),
+                  bn((min_price ?? '0').toString()),
+                ],
+              };
+              break;
+            default: swayOrderType = { Market: undefined };
+          }
+
+          const isBuy = side === 'Buy';
+          const forwardAssetId = isBuy ? market.quote.asset : market.base.asset;
+          const forwardAmount = isBuy
+            ? bn(((BigInt(price) * BigInt(quantity)) / BigInt(10 ** market.base.decimals)).toString())
+            : bn(quantity);
+
+          invocationScope = orderBookContract.functions.create_order({
+            price: bn(price),
+            quantity: bn(quantity),
+            order_type: swayOrderType,
+          }).callParams({
+            forward: {
+              assetId: forwardAssetId,
+              amount: forwardAmount,
+            },
+            gasLimit: GAS_LIMIT_DEFAULT,
+          });
+        } else if (action.CancelOrder) {
+          invocationScope = orderBookContract.functions.cancel_order(action.CancelOrder.order_id);
+        } else {
+          continue;
         }
 
-        const isBuy = side === 'Buy';
-        const forwardAssetId = isBuy ? market.quote.asset : market.base.asset;
-        const forwardAmount = isBuy
-          ? bn(((BigInt(price) * BigInt(quantity)) / BigInt(10 ** market.base.decimals)).toString())
-          : bn(quantity);
-
-        invocationScope = orderBookContract.functions.create_order({
-          price: bn(price),
-          quantity: bn(quantity),
-          order_type: swayOrderType,
-        }).callParams({
-          forward: {
-            assetId: forwardAssetId,
-            amount: forwardAmount,
-          },
-          gasLimit: GAS_LIMIT_DEFAULT,
-        });
-      } else if (action.CancelOrder) {
-        invocationScope = orderBookContract.functions.cancel_order(action.CancelOrder.order_id);
-      } else {
-        continue;
+        const { callContractArg, variableOutputs } = createCallContractArg(invocationScope);
+        callContractArgs.push(callContractArg);
+        totalVariableOutputs += variableOutputs;
       }
-
-      const { callContractArg, variableOutputs } = createCallContractArg(invocationScope);
-      callContractArgs.push(callContractArg);
-      totalVariableOutputs += variableOutputs;
     }
 
     // Sign with session signer
@@ -311,73 +396,235 @@ export class SessionManager extends EventEmitter {
       session_id: { Address: this.sessionSigner.address.toB256() },
       trade_account_id: this.tradeAccountId,
       signature: { Secp256k1: hexlify(Uint8Array.from(sig.Secp256k1.bits)) },
-      actions: [{ market_id: marketId, actions }],
+      actions: groups.map((g) => ({ market_id: g.market.market_id, actions: g.actions })),
       variable_outputs: totalVariableOutputs,
       min_gas_limit: '20000000',
       collect_orders: true,
     };
 
+    const submittedAt = Date.now();
     try {
       const resp = await this.restClient.submitSessionActions(payload, this.ownerAddress);
+      this.emitSubmission(payload, isRetry, resp.tx_id);
       this.incrementNonce();
-      if (this.onNonceUpdate) {
-        this.onNonceUpdate(this.tradeAccountId, this.nonce.toString()).catch(() => {});
-      }
+      this.persistNonce();
       return resp;
     } catch (err: any) {
       const errStr = JSON.stringify(err?.response?.data ?? err?.message ?? '');
+      this.emitSubmission(payload, isRetry, undefined, errStr.slice(0, 500));
 
-      // Sync nonce from error response
-      let nonceSynced = false;
+      // Handle invalid session — only fire on explicit session address error
+      if (errStr.includes('Invalid session address')) {
+        if (!isRetry) this.emit('sessionInvalid');
+        throw err;
+      }
+
+      const recovered = await this.recoverNonce(groups, err, errStr, bn(payload.nonce), submittedAt, isRetry);
+      if (recovered) return recovered;
 
-      // 1. Parse on-chain nonce from IncrementNonceEvent (reverted transactions still increment)
-      const incrementMatch = errStr.match(/IncrementNonceEvent\s*\{\s*nonce:\s*(\d+)\s*\}/);
-      if (incrementMatch) {
-        this.nonce = bn(incrementMatch[1]);
-        nonceSynced = true;
+      // Log full error for debugging opaque "Failed to process transaction" errors
+      if (errStr.includes('Failed to process transaction')) {
+        console.error(`[SessionManager] Full API error response: ${errStr.slice(0, 500)}`);
       }
 
-      // 2. Parse expected nonce from "less than the nonce in the database(N)" error
-      if (!nonceSynced) {
-        const dbNonceMatch = errStr.match(/nonce in the database\((\d+)\)/);
-        if (dbNonceMatch) {
-          this.nonce = bn(dbNonceMatch[1]);
-          nonceSynced = true;
+      if (err instanceof SubmissionNotExecutedError) throw err;
+      if (isNonceError(errStr) || REVERTED_PATTERN.test(errStr)) throw new SubmissionNotExecutedError(err);
+      throw err;
+    }
+  }
+
+  // =========================================================================
+  // NONCE RECOVERY
+  // =========================================================================
+
+  /**
+   * Bring the nonce back in line after a failed submission and, where that is
+   * safe, finish the submission: re-sign it when nothing executed, or return
+   * the orders it created when it landed but the response was lost. A retry
+   * of an unknown outcome reuses the submitted nonce, so at most one of the
+   * two attempts can execute. When the nonce was used but the submission's
+   * orders can't all be found, it may still have landed (and filled or been
+   * cancelled since), so it is never re-signed: the call fails as unknown.
+   * Returns null when the caller should see the original error.
+   */
+  private async recoverNonce(
+    groups: Array<{ market: Market; actions: SessionAction[] }>,
+    err: any,
+    errStr: string,
+    submitted: BN,
+    submittedAt: number,
+    isRetry: boolean
+  ): Promise<SessionActionsResponse | null> {
+    const event = (reason: NonceResyncReason, extra: Partial<NonceResyncEvent> = {}): NonceResyncEvent => ({
+      reason,
+      submittedNonce: submitted.toString(),
+      nonce: this.nonce.toString(),
+      skipped: 0,
+      landed: null,
+      recoveredOrders: 0,
+      retried: false,
+      error: errStr.slice(0, 200),
+      timestamp: Date.now(),
+      ...extra,
+    });
+
+    // Reverted on chain: the receipts carry the consumed nonce
+    const incrementMatch = errStr.match(REVERTED_PATTERN);
+    if (incrementMatch) {
+      this.nonce = bn(incrementMatch[1]);
+      this.persistNonce();
+      const skipped = Math.max(0, this.nonce.sub(submitted).toNumber() - 1);
+      if (skipped > 0) this.emit('nonceResync', event('reverted', { skipped }));
+      return null;
+    }
+
+    if (isUnknownOutcome(err)) {
+      const chain = await this.resyncNonce();
+      if (!chain) return null; // Can't tell whether it landed; don't risk placing twice
+      if (chain.gt(submitted)) {
+        this.nonce = chain;
+        this.persistNonce();
+        const landed = await this.landedResponse(groups, submittedAt);
+        if (landed) {
+          this.emit('nonceResync', event('unknown_outcome', {
+            skipped: chain.sub(submitted).toNumber() - 1, landed: true, recoveredOrders: landed.orders!.length,
+          }));
+          return landed;
         }
+        this.emit('nonceResync', event('unknown_outcome', { skipped: chain.sub(submitted).toNumber() - 1 }));
+        throw outcomeUnknown(submitted);
       }
-
-      // 3. Fallback: fetch nonce from API
-      if (!nonceSynced) {
-        await this.fetchNonce().catch(() => {});
+      if (isRetry) return null;
+      this.nonce = submitted;
+      this.emit('nonceResync', event('unknown_outcome', { landed: false, retried: true }));
+      try {
+        return await this.submitActionsImpl(groups, true);
+      } catch (retryErr: any) {
+        // The retry lost the race to the first attempt landing late
+        if (this.nonce.gt(submitted) && isNonceError(JSON.stringify(retryErr?.response?.data ?? retryErr?.message ?? ''))) {
+          const landed = await this.landedResponse(groups, submittedAt);
+          if (landed) return landed;
+          throw outcomeUnknown(submitted);
+        }
+        throw retryErr;
       }
+    }
 
-      // Retry once on nonce mismatch (nonce is now synced)
-      if (!isRetry && (errStr.includes('nonce') || errStr.includes('Nonce')) && !errStr.includes('Invalid session')) {
-        return this.submitActionsImpl(marketId, market, actions, true);
-      }
+    if (!isNonceError(errStr)) {
+      await this.fetchNonce();
+      return null;
+    }
 
-      // Handle invalid session — only fire on explicit session address error
-      if (!isRetry && errStr.includes('Invalid session address')) {
-        this.emit('sessionInvalid');
-      }
+    // Stale nonce: nothing executed. Take the API's expected value.
+    this.nonce = bn(errStr.match(STALE_NONCE_PATTERN)![1]);
+    this.persistNonce();
+    const skipped = Math.max(0, this.nonce.sub(submitted).toNumber());
+    this.emit('nonceResync', event('stale', { skipped, retried: !isRetry }));
+    return isRetry ? null : this.submitActionsImpl(groups, true);
+  }
 
-      // Log full error for debugging opaque "Failed to process transaction" errors
-      if (errStr.includes('Failed to process transaction')) {
-        console.error(`[SessionManager] Full API error response: ${errStr.slice(0, 500)}`);
-      }
+  /**
+   * Re-read the account nonce. The API can trail the chain for a moment after
+   * a transaction, so a value below the last persisted nonce (one the API has
+   * already accepted) is read again before it is trusted. Null when the
+   * account can't be read.
+   */
+  private async resyncNonce(): Promise<BN | null> {
+    const persisted = this.loadNonce?.(this.tradeAccountId);
+    const floor = persisted ? bn(persisted) : null;
+    let fetched: BN | null = null;
+    for (let attempt = 0; attempt < NONCE_RESYNC_ATTEMPTS; attempt++) {
+      if (attempt > 0) await new Promise((r) => setTimeout(r, NONCE_RESYNC_DELAY_MS));
+      fetched = await this.readAccountNonce();
+      if (fetched && (!floor || fetched.gte(floor))) return fetched;
+    }
+    return fetched && floor ? floor : fetched;
+  }
 
-      throw err;
+  /**
+   * The response a landed submission would have returned, rebuilt from the
+   * account's orders. Null unless it created orders and every one of them was
+   * found: anything less can't tell a landed submission from a lost one.
+   */
+  private async landedResponse(
+    groups: Array<{ market: Market; actions: SessionAction[] }>,
+    submittedAt: number
+  ): Promise<SessionActionsResponse | null> {
+    const orders = await this.findLandedOrders(groups, submittedAt);
+    if (orders.length === 0 || orders.some((o) => !o.order_id)) return null;
+    return { tx_id: orders.find((o) => o.tx_id)?.tx_id ?? '', orders: orders.map((o) => ({ order_id: o.order_id })) };
+  }
+
+  /**
+   * Orders a submission created, matched by side, price and quantity against
+   * the account's recent orders, in CreateOrder order. Positions without a
+   * match have an empty order_id so they keep their place in the list.
+   */
+  private async findLandedOrders(
+    groups: Array<{ market: Market; actions: SessionAction[] }>,
+    submittedAt: number
+  ): Promise<Array<{ order_id: string; tx_id?: string }>> {
+    const out: Array<{ order_id: string; tx_id?: string }> = [];
+    for (const { market, actions } of groups) {
+      const creates = actions.filter((a) => a.CreateOrder).map((a) => a.CreateOrder!);
+      if (creates.length === 0) continue;
+      const recent = await this.restClient.getOrders({
+        market_id: market.market_id,
+        contract: this.tradeAccountId,
+        direction: 'desc',
+        count: 50,
+      }).catch(() => [] as Order[]);
+      const taken = new Set<string>();
+      for (const c of creates) {
+        const match = recent.find((o) =>
+          !taken.has(o.order_id) &&
+          o.side === c.side &&
+          o.quantity === c.quantity &&
+          (o.price === c.price || c.order_type === 'BoundedMarket' || c.order_type === 'Market') &&
+          toMs(o.created_at) >= submittedAt - LANDED_ORDER_SLACK_MS
+        );
+        if (match) taken.add(match.order_id);
+        out.push({ order_id: match?.order_id ?? '', tx_id: match?.tx_id });
+      }
     }
+    return out;
+  }
+
+  private emitSubmission(
+    payload: { nonce: string; actions: SessionActionsSubmission['groups'] },
+    retry: boolean,
+    txId?: string,
+    error?: string
+  ): void {
+    const event: SessionActionsSubmission = {
+      nonce: payload.nonce,
+      groups: payload.actions,
+      txId,
+      error,
+      retry,
+      timestamp: Date.now(),
+    };
+    this.emit('actionsSubmitted', event);
   }
 
   private async fetchNonce(): Promise<void> {
+    const nonce = await this.readAccountNonce();
+    if (nonce) this.nonce = nonce;
+  }
+
+  private async readAccountNonce(): Promise<BN | null> {
     try {
       const resp = await this.restClient.getAccount(this.tradeAccountId, this.ownerAddress);
-      if (resp?.trade_account?.nonce !== undefined) {
-        this.nonce = bn(resp.trade_account.nonce);
-      }
+      return resp?.trade_account?.nonce !== undefined ? bn(resp.trade_account.nonce) : null;
     } catch (err) {
       console.error(`[SessionManager] Failed to fetch nonce:`, err);
+      return null;
+    }
+  }
+
+  private persistNonce(): void {
+    if (this.onNonceUpdate) {
+      this.onNonceUpdate(this.tradeAccountId, this.nonce.toString()).catch(() => {});
     }
   }
 
@@ -0,0 +1,111 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { encrypt, decrypt, type EncryptedData } from '../auth/encryption.js';
+
+export const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * One wallet/trade account run by the bot. Everything but the name and key
+ * falls back to the `start` flags, so a file can list only what differs.
+ */
+export interface AccountConfig {
+  name: string;
+  walletType: 'fuel' | 'evm';
+  key: EncryptedData; // Private key, encrypted with the session password
+  markets?: string[];
+  strategy?: string;
+  config?: string; // Strategy JSON file (as --config)
+  addStrategy?: string[];
+  allocate?: string[];
+  costBasis?: string[];
+  dataDir?: string; // Defaults to <data dir>/accounts/<name>
+}
+
+interface AccountsFile {
+  accounts: AccountConfig[];
+}
+
+/** Path of the accounts file: the given one, O2_ACCOUNTS_FILE, or ./accounts.json. */
+export function accountsFilePath(path?: string): string {
+  return resolve(process.cwd(), path || process.env.O2_ACCOUNTS_FILE || 'accounts.json');
+}
+
+function stringList(value: unknown, field: string, name: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`Account "${name}": ${field} must be a list of strings`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, field: string, name: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value) throw new Error(`Account "${name}": ${field} must be a string`);
+  return value;
+}
+
+export function loadAccounts(path: string): AccountConfig[] {
+  if (!existsSync(path)) return [];
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Could not read ${path}: ${err?.message || err}`);
+  }
+  if (!raw || !Array.isArray(raw.accounts)) throw new Error(`${path}: expected { "accounts": [...] }`);
+
+  const seen = new Set<string>();
+  return raw.accounts.map((a: any): AccountConfig => {
+    const name = a?.name;
+    if (typeof name !== 'string' || !ACCOUNT_NAME_PATTERN.test(name)) {
+      throw new Error(`${path}: invalid account name ${JSON.stringify(name)} (letters, digits, - and _)`);
+    }
+    if (seen.has(name.toLowerCase())) throw new Error(`${path}: duplicate account "${name}"`);
+    seen.add(name.toLowerCase());
+    if (a.walletType !== 'fuel' && a.walletType !== 'evm') {
+      throw new Error(`Account "${name}": walletType must be "fuel" or "evm"`);
+    }
+    const key = a.key;
+    if (!key || typeof key.encryptedData !== 'string' || typeof key.salt !== 'string' || typeof key.iv !== 'string') {
+      throw new Error(`Account "${name}": missing encrypted key (add it with \`o2-bot accounts add ${name}\`)`);
+    }
+    return {
+      name,
+      walletType: a.walletType,
+      key: { encryptedData: key.encryptedData, salt: key.salt, iv: key.iv },
+      markets: stringList(a.markets, 'markets', name),
+      strategy: optionalString(a.strategy, 'strategy', name),
+      config: optionalString(a.config, 'config', name),
+      addStrategy: stringList(a.addStrategy, 'addStrategy', name),
+      allocate: stringList(a.allocate, 'allocate', name),
+      costBasis: stringList(a.costBasis, 'costBasis', name),
+      dataDir: optionalString(a.dataDir, 'dataDir', name),
+    };
+  });
+}
+
+export function saveAccounts(path: string, accounts: AccountConfig[]): void {
+  const file: AccountsFile = { accounts };
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+}
+
+export function findAccount(accounts: AccountConfig[], name: string): AccountConfig | undefined {
+  return accounts.find((a) => a.name.toLowerCase() === name.toLowerCase());
+}
+
+/** Database, logs and audit trail of an account. */
+export function accountDataDir(account: Pick<AccountConfig, 'name' | 'dataDir'>, dataDir: string): string {
+  return account.dataDir ? resolve(process.cwd(), account.dataDir) : resolve(dataDir, 'accounts', account.name);
+}
+
+export function encryptAccountKey(privateKey: string, password: string): EncryptedData {
+  return encrypt(privateKey, password);
+}
+
+export function decryptAccountKey(account: AccountConfig, password: string): string {
+  try {
+    return decrypt(account.key.encryptedData, password, account.key.salt, account.key.iv);
+  } catch {
+    throw new Error(`Account "${account.name}": wrong password for its key`);
+  }
+}
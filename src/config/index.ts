@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import { resolve } from 'path';
+import type { PortfolioRiskAction, PortfolioRiskConfig } from '../types/strategy.js';
 
 dotenv.config();
 
@@ -26,12 +27,35 @@ export interface Config {
       webhookUrl?: string;
     };
   };
+  control: {
+    token?: string; // Bearer token for the local HTTP control API
+  };
+  risk: PortfolioRiskConfig;
   dataDir: string;
   strategiesDir: string;
 }
 
 export const DEFAULT_SESSION_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
 
+const RISK_ACTIONS: PortfolioRiskAction[] = ['pause', 'cancel', 'flatten'];
+
+function optionalNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = parseFloat(raw);
+  if (!(value > 0)) throw new Error(`Invalid ${name}: "${raw}". Must be a positive number.`);
+  return value;
+}
+
+/** O2_RISK_CORRELATED="ETH,WETH;BTC,WBTC" → [['ETH','WETH'], ['BTC','WBTC']] */
+function parseCorrelatedAssets(raw: string | undefined): string[][] | undefined {
+  if (!raw) return undefined;
+  return raw
+    .split(';')
+    .map((group) => group.split(',').map((s) => s.trim().toUpperCase()).filter(Boolean))
+    .filter((group) => group.length > 1);
+}
+
 export function loadConfig(): Config {
   // Re-read .env in case it was written after initial import
   dotenv.config({ override: true });
@@ -44,6 +68,11 @@ export function loadConfig(): Config {
     throw new Error(`Invalid O2_WALLET_TYPE: "${rawWalletType}". Must be "fuel" or "evm".`);
   }
 
+  const rawRiskAction = process.env.O2_RISK_ACTION || 'pause';
+  if (!RISK_ACTIONS.includes(rawRiskAction as PortfolioRiskAction)) {
+    throw new Error(`Invalid O2_RISK_ACTION: "${rawRiskAction}". Must be one of ${RISK_ACTIONS.join(', ')}.`);
+  }
+
   return {
     o2: {
       apiUrl,
@@ -67,6 +96,19 @@ export function loadConfig(): Config {
         webhookUrl: process.env.DISCORD_WEBHOOK_URL,
       },
     },
+    control: {
+      token: process.env.O2_CONTROL_TOKEN,
+    },
+    risk: {
+      maxExposureUsd: optionalNumber('O2_RISK_MAX_EXPOSURE_USD'),
+      maxDrawdownPercent: optionalNumber('O2_RISK_MAX_DRAWDOWN_PERCENT'),
+      maxDrawdownUsd: optionalNumber('O2_RISK_MAX_DRAWDOWN_USD'),
+      maxOpenNotionalUsd: optionalNumber('O2_RISK_MAX_OPEN_NOTIONAL_USD'),
+      maxConcentrationPercent: optionalNumber('O2_RISK_MAX_CONCENTRATION_PERCENT'),
+      correlatedAssets: parseCorrelatedAssets(process.env.O2_RISK_CORRELATED),
+      action: rawRiskAction as PortfolioRiskAction,
+      checkIntervalMs: parseInt(process.env.O2_RISK_CHECK_INTERVAL_MS || '') || 15_000,
+    },
     dataDir: resolve(process.cwd(), process.env.O2_DATA_DIR || 'data'),
     strategiesDir: resolve(process.cwd(), process.env.O2_STRATEGIES_DIR || 'strategies'),
   };
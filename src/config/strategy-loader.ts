@@ -1,7 +1,9 @@
 import { readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync, watch } from 'fs';
 import type { FSWatcher } from 'fs';
-import { resolve, basename } from 'path';
+import { resolve, basename, extname } from 'path';
+import { pathToFileURL } from 'url';
 import type { StrategyConfig } from '../types/strategy.js';
+import type { StrategyModule } from '../types/strategy-module.js';
 import { getDefaultStrategyConfig, getPresetStrategyConfig } from '../types/strategy.js';
 import type { StrategyPreset } from '../types/strategy.js';
 
@@ -81,6 +83,56 @@ export function resolveStrategy(
   process.exit(1);
 }
 
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.ts'];
+
+/**
+ * Find a custom strategy module for `source`: `<strategiesDir>/<source>.{js,mjs,ts}`
+ * or a path to such a file. Returns null for presets and JSON strategies.
+ */
+export function findStrategyModule(source: string, strategiesDir: string): string | null {
+  if (MODULE_EXTENSIONS.includes(extname(source)) && existsSync(source)) {
+    return resolve(source);
+  }
+  for (const ext of MODULE_EXTENSIONS) {
+    const filePath = resolve(strategiesDir, `${source}${ext}`);
+    if (existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Import a custom strategy module and build the market's config from its
+ * `config` export merged over the defaults, in `strategyMode: 'module'`.
+ * Throws when the file can't be imported or doesn't implement `onCycle`.
+ */
+export async function loadStrategyModule(
+  filePath: string,
+  marketId: string
+): Promise<{ module: StrategyModule; config: StrategyConfig }> {
+  let imported: any;
+  try {
+    imported = await import(pathToFileURL(filePath).href);
+  } catch (err) {
+    const hint = filePath.endsWith('.ts')
+      ? ' (.ts modules need a TypeScript-aware runtime such as tsx; compile to .js otherwise)'
+      : '';
+    throw new Error(`Failed to import strategy module ${filePath}: ${(err as Error).message}${hint}`);
+  }
+
+  const module: StrategyModule | undefined = imported.default ?? imported.strategy;
+  if (!module || typeof module.onCycle !== 'function') {
+    throw new Error(`Strategy module ${filePath} must export (default or \`strategy\`) an object with an onCycle(context) function`);
+  }
+
+  const name = basename(filePath, extname(filePath));
+  const defaults = getDefaultStrategyConfig(marketId);
+  const config = mergeWithDefaults(module.config ?? {}, defaults, marketId);
+  config.name = module.name ?? module.config?.name ?? name;
+  config.strategyMode = 'module';
+  config.strategyModule = name;
+  return { module, config };
+}
+
 /**
  * Initialize the strategies directory with preset files.
  */
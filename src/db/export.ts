@@ -0,0 +1,231 @@
+import Decimal from 'decimal.js';
+import type { Market } from '../types/market.js';
+import { FEE_ASSET_SIDE, OrderSide } from '../types/order.js';
+import type { LotMatchRow } from './queries.js';
+
+export type ExportFormat = 'csv' | 'json' | 'generic' | 'koinly' | 'cointracking';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'generic', 'koinly', 'cointracking'];
+
+// One fill from the trades table, in human units with the pair's symbols.
+// Amounts are gross; the fee is charged on top, in the asset FEE_ASSET_SIDE
+// assigns to the side.
+export interface LedgerEntry {
+  timestamp: number;
+  date: string; // ISO 8601, UTC
+  marketId: string;
+  pair: string;
+  base: string;
+  quote: string;
+  side: 'Buy' | 'Sell';
+  price: number;
+  quantity: number; // Base
+  total: number; // Quote, price × quantity
+  fee: number; // Quote value of the fee
+  feeAmount: number; // In feeAsset
+  feeAsset: string;
+  liquidity: string | null;
+  realizedPnl: number | null; // Quote, against the running average buy price (sells)
+  lotPnl: number | null; // Quote, from the lot matches of this fill (sells)
+  costBasis: string | null; // Lot method behind lotPnl
+  strategy: string | null;
+  orderId: string;
+}
+
+export interface OrderEntry {
+  createdAt: number;
+  date: string;
+  marketId: string;
+  pair: string;
+  side: string;
+  orderType: string;
+  status: string;
+  price: number;
+  quantity: number;
+  filledQuantity: number;
+  fillPrice: number | null;
+  strategy: string | null;
+  orderId: string;
+  txId: string | null;
+  replacesOrderId: string | null;
+  replacedByOrderId: string | null;
+}
+
+type PairInfo = Pick<Market, 'base' | 'quote'>;
+
+// Trades of markets the API no longer lists keep a recognizable placeholder
+function pairOf(marketId: string, markets: Map<string, PairInfo>): { base: string; quote: string; pair: string } {
+  const market = markets.get(marketId);
+  if (market) return { base: market.base.symbol, quote: market.quote.symbol, pair: `${market.base.symbol}_${market.quote.symbol}` };
+  const tag = marketId.slice(0, 10);
+  return { base: `${tag}-BASE`, quote: `${tag}-QUOTE`, pair: tag };
+}
+
+/** Join trades with their market symbols and lot P&L (lot matches are keyed by sell order and fill time). */
+export function buildLedger(trades: any[], lotMatches: LotMatchRow[], markets: Map<string, PairInfo>): LedgerEntry[] {
+  const lots = new Map<string, { pnl: number | null; method: string }>();
+  for (const m of lotMatches) {
+    const key = `${m.sell_order_id}|${m.sell_timestamp}`;
+    const entry = lots.get(key) ?? { pnl: null, method: m.method };
+    if (m.pnl !== null) entry.pnl = (entry.pnl ?? 0) + m.pnl;
+    lots.set(key, entry);
+  }
+
+  return trades.map((t) => {
+    const { base, quote, pair } = pairOf(t.market_id, markets);
+    const side: 'Buy' | 'Sell' = String(t.side).toLowerCase() === 'buy' ? 'Buy' : 'Sell';
+    const fee = t.fee ?? 0;
+    const inBase = FEE_ASSET_SIDE[side === 'Buy' ? OrderSide.Buy : OrderSide.Sell] === 'base';
+    const lot = lots.get(`${t.order_id}|${t.timestamp}`);
+    return {
+      timestamp: t.timestamp,
+      date: new Date(t.timestamp).toISOString(),
+      marketId: t.market_id,
+      pair,
+      base,
+      quote,
+      side,
+      price: t.price,
+      quantity: t.size,
+      total: t.price * t.size,
+      fee,
+      feeAmount: inBase ? (t.price > 0 ? fee / t.price : 0) : fee,
+      feeAsset: inBase ? base : quote,
+      liquidity: t.liquidity ?? null,
+      realizedPnl: side === 'Sell' ? t.pnl_usdc ?? null : null,
+      lotPnl: lot?.pnl ?? null,
+      costBasis: lot?.method ?? null,
+      strategy: t.strategy_name ?? null,
+      orderId: t.order_id,
+    };
+  });
+}
+
+/** Orders table rows in human units; prices and quantities are stored scaled. */
+export function buildOrders(orders: any[], markets: Map<string, Market>): OrderEntry[] {
+  return orders.map((o) => {
+    const market = markets.get(o.market_id);
+    const priceScale = market ? 10 ** market.quote.decimals : 1;
+    const quantityScale = market ? 10 ** market.base.decimals : 1;
+    const fillPrice = parseFloat(o.price_fill || '0');
+    return {
+      createdAt: o.created_at,
+      date: o.created_at ? new Date(o.created_at).toISOString() : '',
+      marketId: o.market_id,
+      pair: pairOf(o.market_id, markets).pair,
+      side: o.side,
+      orderType: o.order_type,
+      status: o.status,
+      price: parseFloat(o.price) / priceScale,
+      quantity: parseFloat(o.quantity) / quantityScale,
+      filledQuantity: parseFloat(o.quantity_fill || '0') / quantityScale,
+      fillPrice: fillPrice > 0 ? fillPrice / priceScale : null,
+      strategy: o.strategy_name ?? null,
+      orderId: o.order_id,
+      txId: o.tx_id ?? null,
+      replacesOrderId: o.replaces_order_id ?? null,
+      replacedByOrderId: o.replaced_by_order_id ?? null,
+    };
+  });
+}
+
+// =========================================================================
+// FORMATS
+// =========================================================================
+
+// Plain decimal notation (no exponents), trailing zeros dropped
+function amount(n: number | null): string {
+  if (n === null || !Number.isFinite(n)) return '';
+  return new Decimal(n).toDecimalPlaces(12).toFixed();
+}
+
+function cell(value: string | number | null): string {
+  const s = typeof value === 'number' ? amount(value) : value ?? '';
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csv(header: string[], rows: Array<Array<string | number | null>>): string {
+  return [header, ...rows].map((r) => r.map(cell).join(',')).join('\n') + '\n';
+}
+
+// 2026-01-31 14:05:09 (UTC)
+function utcDateTime(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  return csv(
+    ['date', 'market_id', 'pair', 'side', 'price', 'quantity', 'base', 'total', 'quote', 'fee_amount', 'fee_asset', 'fee_quote',
+      'liquidity', 'realized_pnl', 'lot_pnl', 'cost_basis', 'strategy', 'order_id'],
+    entries.map((e) => [
+      e.date, e.marketId, e.pair, e.side, e.price, e.quantity, e.base, e.total, e.quote, e.feeAmount, e.feeAsset, e.fee,
+      e.liquidity, e.realizedPnl, e.lotPnl, e.costBasis, e.strategy ?? 'primary', e.orderId,
+    ])
+  );
+}
+
+export function ordersToCsv(orders: OrderEntry[]): string {
+  return csv(
+    ['date', 'market_id', 'pair', 'side', 'order_type', 'status', 'price', 'quantity', 'filled_quantity', 'fill_price',
+      'strategy', 'order_id', 'tx_id', 'replaces_order_id', 'replaced_by_order_id'],
+    orders.map((o) => [
+      o.date, o.marketId, o.pair, o.side, o.orderType, o.status, o.price, o.quantity, o.filledQuantity, o.fillPrice,
+      o.strategy ?? 'primary', o.orderId, o.txId, o.replacesOrderId, o.replacedByOrderId,
+    ])
+  );
+}
+
+/**
+ * Crypto-tax import files: one trade per fill, gross amounts with the fee as
+ * a separate column (the convention of the import formats, which deduct it
+ * from the balance of the fee asset themselves).
+ *
+ * - `generic`: buy/sell/fee columns most tax tools can map on import
+ * - `koinly`: Koinly universal CSV
+ * - `cointracking`: CoinTracking CSV import
+ */
+export function ledgerToTaxCsv(format: 'generic' | 'koinly' | 'cointracking', entries: LedgerEntry[]): string {
+  const legs = (e: LedgerEntry) =>
+    e.side === 'Buy'
+      ? { received: e.quantity, receivedAsset: e.base, sent: e.total, sentAsset: e.quote }
+      : { received: e.total, receivedAsset: e.quote, sent: e.quantity, sentAsset: e.base };
+
+  switch (format) {
+    case 'generic':
+      return csv(
+        ['Date (UTC)', 'Type', 'Received Quantity', 'Received Currency', 'Sent Quantity', 'Sent Currency', 'Fee Amount',
+          'Fee Currency', 'Price', 'Price Currency', 'Realized P&L', 'P&L Currency', 'Exchange', 'Order ID'],
+        entries.map((e) => {
+          const l = legs(e);
+          return [
+            utcDateTime(e.timestamp), e.side.toUpperCase(), l.received, l.receivedAsset, l.sent, l.sentAsset, e.feeAmount,
+            e.feeAsset, e.price, e.quote, e.lotPnl ?? e.realizedPnl, e.quote, 'O2', e.orderId,
+          ];
+        })
+      );
+    case 'koinly':
+      return csv(
+        ['Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency', 'Fee Amount', 'Fee Currency',
+          'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash'],
+        entries.map((e) => {
+          const l = legs(e);
+          return [
+            `${utcDateTime(e.timestamp)} UTC`, l.sent, l.sentAsset, l.received, l.receivedAsset, e.feeAmount, e.feeAsset,
+            null, null, null, `O2 ${e.pair} ${e.side.toLowerCase()} order ${e.orderId}`, null,
+          ];
+        })
+      );
+    case 'cointracking':
+      return csv(
+        ['Type', 'Buy Amount', 'Buy Currency', 'Sell Amount', 'Sell Currency', 'Fee', 'Fee Currency', 'Exchange',
+          'Trade-Group', 'Comment', 'Date'],
+        entries.map((e) => {
+          const l = legs(e);
+          return [
+            'Trade', l.received, l.receivedAsset, l.sent, l.sentAsset, e.feeAmount, e.feeAsset, 'O2',
+            e.strategy ?? 'primary', `Order ${e.orderId}`, utcDateTime(e.timestamp),
+          ];
+        })
+      );
+  }
+}
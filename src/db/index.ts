@@ -1,10 +1,20 @@
 import initSqlJs, { Database } from 'sql.js';
+import { AsyncLocalStorage } from 'async_hooks';
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { resolve, dirname } from 'path';
 
-let db: Database | null = null;
-let dbPath: string = '';
-let saveInterval: ReturnType<typeof setInterval> | null = null;
+// An open database file. The bot has one default database (initDb); with
+// several accounts in one process each account opens its own and runs its
+// components inside runWithDb(), so the queries module needs no account
+// parameter.
+export interface DbHandle {
+  db: Database | null;
+  path: string; // '' when not persisted
+  saveInterval: ReturnType<typeof setInterval> | null;
+}
+
+let defaultHandle: DbHandle | null = null;
+const scoped = new AsyncLocalStorage<DbHandle>();
 
 const SCHEMA = `
   CREATE TABLE IF NOT EXISTS sessions (
@@ -38,7 +48,9 @@ const SCHEMA = `
     created_at INTEGER,
     updated_at INTEGER,
     tx_id TEXT,
-    strategy_name TEXT
+    strategy_name TEXT,
+    replaces_order_id TEXT,
+    replaced_by_order_id TEXT
   );
 
   CREATE TABLE IF NOT EXISTS trades (
@@ -50,7 +62,9 @@ const SCHEMA = `
     size REAL NOT NULL,
     fee REAL DEFAULT 0,
     timestamp INTEGER NOT NULL,
-    pnl_usdc REAL
+    pnl_usdc REAL,
+    strategy_name TEXT,
+    liquidity TEXT
   );
 
   CREATE TABLE IF NOT EXISTS strategy_configs (
@@ -72,7 +86,25 @@ const SCHEMA = `
     current_price REAL,
     realized_pnl REAL DEFAULT 0,
     unrealized_pnl REAL DEFAULT 0,
-    session_pnl REAL DEFAULT 0
+    session_pnl REAL DEFAULT 0,
+    equity REAL
+  );
+
+  CREATE TABLE IF NOT EXISTS lot_matches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    market_id TEXT NOT NULL,
+    strategy_name TEXT,
+    method TEXT NOT NULL,
+    buy_order_id TEXT,
+    sell_order_id TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    buy_price REAL,
+    sell_price REAL NOT NULL,
+    buy_fee REAL DEFAULT 0,
+    sell_fee REAL DEFAULT 0,
+    buy_timestamp INTEGER,
+    sell_timestamp INTEGER NOT NULL,
+    pnl REAL
   );
 
   CREATE TABLE IF NOT EXISTS nonces (
@@ -86,59 +118,123 @@ const SCHEMA = `
   CREATE INDEX IF NOT EXISTS idx_trades_market ON trades(market_id);
   CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(timestamp);
   CREATE INDEX IF NOT EXISTS idx_snapshots_timestamp ON snapshots(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_lot_matches_market ON lot_matches(market_id);
+  CREATE INDEX IF NOT EXISTS idx_lot_matches_sell_timestamp ON lot_matches(sell_timestamp);
 `;
 
-export async function initDb(dataDir: string): Promise<Database> {
+// Columns added after the first release. CREATE TABLE IF NOT EXISTS leaves
+// existing databases alone, so add whatever an older file is missing.
+const ADDED_COLUMNS: Array<{ table: string; column: string; type: string }> = [
+  { table: 'orders', column: 'replaces_order_id', type: 'TEXT' },
+  { table: 'orders', column: 'replaced_by_order_id', type: 'TEXT' },
+  { table: 'trades', column: 'strategy_name', type: 'TEXT' },
+  { table: 'snapshots', column: 'equity', type: 'REAL' },
+  { table: 'trades', column: 'liquidity', type: 'TEXT' },
+];
+
+function migrate(database: Database): void {
+  for (const { table, column, type } of ADDED_COLUMNS) {
+    const info = database.exec(`PRAGMA table_info(${table})`);
+    const columns = info.length ? info[0].values.map((row) => row[1]) : [];
+    if (!columns.includes(column)) {
+      database.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  }
+}
+
+// `persist: false` opens a throwaway in-memory database (no file read, no
+// auto-save) — used by offline tooling such as the backtester so it never
+// touches the live trade history.
+export async function initDb(dataDir: string, opts: { persist?: boolean } = {}): Promise<Database> {
+  defaultHandle = await openDb(dataDir, opts);
+  return defaultHandle.db!;
+}
+
+/** Open a database without making it the default; use it through runWithDb(). */
+export async function openDb(dataDir: string, opts: { persist?: boolean } = {}): Promise<DbHandle> {
   const SQL = await initSqlJs();
 
-  dbPath = resolve(dataDir, 'o2-cli-bot.db');
+  if (opts.persist === false) {
+    const db = new SQL.Database();
+    db.run(SCHEMA);
+    return { db, path: '', saveInterval: null };
+  }
+
+  const dbPath = resolve(dataDir, 'o2-cli-bot.db');
   const dir = dirname(dbPath);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
 
-  if (existsSync(dbPath)) {
-    const buffer = readFileSync(dbPath);
-    db = new SQL.Database(buffer);
-  } else {
-    db = new SQL.Database();
-  }
+  const db = existsSync(dbPath) ? new SQL.Database(readFileSync(dbPath)) : new SQL.Database();
 
   // Run schema
   db.run(SCHEMA);
+  migrate(db);
 
   // Auto-save every 10 seconds
-  saveInterval = setInterval(() => {
-    saveDb();
+  const handle: DbHandle = { db, path: dbPath, saveInterval: null };
+  handle.saveInterval = setInterval(() => {
+    save(handle);
   }, 10000);
 
-  return db;
+  return handle;
+}
+
+/**
+ * Run `fn` with `handle` as the database of every query it makes, including
+ * those from timers, sockets and promises it starts.
+ */
+export function runWithDb<T>(handle: DbHandle, fn: () => T): T {
+  return scoped.run(handle, fn);
+}
+
+/**
+ * Bind a callback to the current database scope. Listeners on emitters shared
+ * between scopes run in the emitter's context otherwise.
+ */
+export function bindDb<F extends (...args: any[]) => any>(fn: F): F {
+  return AsyncLocalStorage.bind(fn);
+}
+
+function current(): DbHandle | null {
+  return scoped.getStore() ?? defaultHandle;
 }
 
 export function getDb(): Database {
+  const db = current()?.db;
   if (!db) throw new Error('Database not initialized. Call initDb() first.');
   return db;
 }
 
-export function saveDb(): void {
-  if (!db || !dbPath) return;
+function save(handle: DbHandle): void {
+  if (!handle.db || !handle.path) return;
   try {
-    const data = db.export();
+    const data = handle.db.export();
     const buffer = Buffer.from(data);
-    writeFileSync(dbPath, buffer);
+    writeFileSync(handle.path, buffer);
   } catch (err) {
     console.error('[DB] Save failed:', err);
   }
 }
 
+export function saveDb(): void {
+  const handle = current();
+  if (handle) save(handle);
+}
+
+/** Close the current database (the scoped one inside runWithDb, else the default). */
 export function closeDb(): void {
-  if (saveInterval) {
-    clearInterval(saveInterval);
-    saveInterval = null;
+  const handle = current();
+  if (!handle) return;
+  if (handle.saveInterval) {
+    clearInterval(handle.saveInterval);
+    handle.saveInterval = null;
   }
-  saveDb();
-  if (db) {
-    db.close();
-    db = null;
+  save(handle);
+  if (handle.db) {
+    handle.db.close();
+    handle.db = null;
   }
+  if (handle === defaultHandle) defaultHandle = null;
 }
@@ -1,5 +1,6 @@
 import { getDb, saveDb } from './index.js';
 import type { EncryptedData } from '../auth/encryption.js';
+import { strategyKey } from '../types/strategy.js';
 
 // ---- Sessions ----
 
@@ -82,24 +83,26 @@ export interface StrategyConfigRow {
   version: number;
 }
 
+// Rows are keyed by strategyKey(): a tagged config (config.strategyTag) gets
+// its own row next to the market's primary one.
 export function upsertStrategyConfig(marketId: string, config: any, isActive = true): void {
   const db = getDb();
   const now = Date.now();
-  const existing = getStrategyConfig(marketId);
+  const existing = getStrategyConfig(marketId, config?.strategyTag);
   const version = existing ? (existing.version || 0) + 1 : 1;
 
   db.run(
     `INSERT OR REPLACE INTO strategy_configs (id, market_id, config, is_active, created_at, updated_at, version)
      VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [marketId, marketId, JSON.stringify(config), isActive ? 1 : 0, existing?.created_at || now, now, version]
+    [strategyKey(marketId, config?.strategyTag), marketId, JSON.stringify(config), isActive ? 1 : 0, existing?.created_at || now, now, version]
   );
 }
 
-export function getStrategyConfig(marketId: string): StrategyConfigRow | null {
+export function getStrategyConfig(marketId: string, strategyTag?: string): StrategyConfigRow | null {
   const db = getDb();
   const results = db.exec(
-    `SELECT * FROM strategy_configs WHERE market_id = ? LIMIT 1`,
-    [marketId]
+    `SELECT * FROM strategy_configs WHERE id = ? LIMIT 1`,
+    [strategyKey(marketId, strategyTag)]
   );
   if (!results.length || !results[0].values.length) return null;
   const cols = results[0].columns;
@@ -132,13 +135,23 @@ export function insertOrder(order: {
   status: string;
   txId?: string;
   strategyName?: string;
+  replacesOrderId?: string;
 }): void {
   const db = getDb();
   const now = Date.now();
   db.run(
-    `INSERT OR REPLACE INTO orders (order_id, market_id, side, order_type, price, quantity, status, created_at, updated_at, tx_id, strategy_name)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [order.orderId, order.marketId, order.side, order.orderType, order.price, order.quantity, order.status, now, now, order.txId || null, order.strategyName || null]
+    `INSERT OR REPLACE INTO orders (order_id, market_id, side, order_type, price, quantity, status, created_at, updated_at, tx_id, strategy_name, replaces_order_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [order.orderId, order.marketId, order.side, order.orderType, order.price, order.quantity, order.status, now, now, order.txId || null, order.strategyName || null, order.replacesOrderId || null]
+  );
+}
+
+// Close out an order that was cancelled and re-placed as `replacedByOrderId` in the same transaction.
+export function markOrderReplaced(orderId: string, replacedByOrderId: string): void {
+  const db = getDb();
+  db.run(
+    `UPDATE orders SET status = 'cancelled', replaced_by_order_id = ?, updated_at = ? WHERE order_id = ?`,
+    [replacedByOrderId, Date.now(), orderId]
   );
 }
 
@@ -155,6 +168,32 @@ export function updateOrderStatus(orderId: string, status: string, priceFill?: s
   }
 }
 
+// Owning strategy tag per order id (null for the primary strategy). Ids not
+// in the table are left out of the map.
+export function getOrderStrategyNames(orderIds: string[]): Map<string, string | null> {
+  const out = new Map<string, string | null>();
+  if (orderIds.length === 0) return out;
+  const db = getDb();
+  const results = db.exec(
+    `SELECT order_id, strategy_name FROM orders WHERE order_id IN (${orderIds.map(() => '?').join(', ')})`,
+    orderIds
+  );
+  if (!results.length) return out;
+  for (const [orderId, strategyName] of results[0].values) {
+    out.set(orderId as string, (strategyName as string | null) ?? null);
+  }
+  return out;
+}
+
+export function getOrder(orderId: string): any | null {
+  const db = getDb();
+  const results = db.exec(`SELECT * FROM orders WHERE order_id = ? LIMIT 1`, [orderId]);
+  if (!results.length || !results[0].values.length) return null;
+  const row: any = {};
+  results[0].columns.forEach((c, i) => { row[c] = results[0].values[0][i]; });
+  return row;
+}
+
 export function getRecentOrders(marketId?: string, limit = 50): any[] {
   const db = getDb();
   let query = `SELECT * FROM orders`;
@@ -175,6 +214,35 @@ export function getRecentOrders(marketId?: string, limit = 50): any[] {
   });
 }
 
+/** Orders created in a time range (ms epoch, `until` exclusive), oldest first. `marketId` is a prefix. */
+export function getOrdersBetween(opts: { marketId?: string; since?: number; until?: number } = {}): any[] {
+  const db = getDb();
+  const clauses: string[] = [];
+  const params: any[] = [];
+  if (opts.marketId) {
+    clauses.push('market_id LIKE ?');
+    params.push(`${opts.marketId.toLowerCase()}%`);
+  }
+  if (opts.since !== undefined) {
+    clauses.push('created_at >= ?');
+    params.push(opts.since);
+  }
+  if (opts.until !== undefined) {
+    clauses.push('created_at < ?');
+    params.push(opts.until);
+  }
+  const results = db.exec(
+    `SELECT * FROM orders${clauses.length ? ` WHERE ${clauses.join(' AND ')}` : ''} ORDER BY created_at ASC`,
+    params
+  );
+  if (!results.length) return [];
+  return results[0].values.map((vals) => {
+    const row: any = {};
+    results[0].columns.forEach((c, i) => { row[c] = vals[i]; });
+    return row;
+  });
+}
+
 // ---- Trades ----
 
 export function insertTrade(trade: {
@@ -186,23 +254,42 @@ export function insertTrade(trade: {
   fee: number;
   timestamp: number;
   pnlUsdc?: number;
+  strategyName?: string;
+  liquidity?: string; // 'maker' | 'taker'
 }): void {
   const db = getDb();
   db.run(
-    `INSERT INTO trades (order_id, market_id, side, price, size, fee, timestamp, pnl_usdc)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-    [trade.orderId, trade.marketId, trade.side, trade.price, trade.size, trade.fee, trade.timestamp, trade.pnlUsdc ?? null]
+    `INSERT INTO trades (order_id, market_id, side, price, size, fee, timestamp, pnl_usdc, strategy_name, liquidity)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      trade.orderId, trade.marketId, trade.side, trade.price, trade.size, trade.fee, trade.timestamp,
+      trade.pnlUsdc ?? null, trade.strategyName || null, trade.liquidity || null,
+    ]
   );
 }
 
-export function getRecentTrades(marketId?: string, limit = 50): any[] {
-  const db = getDb();
-  let query = `SELECT * FROM trades`;
+// Trade filters: `strategyName` undefined matches every strategy, null only the
+// primary (untagged) one, a string only that tag.
+function tradeFilter(marketId?: string, strategyName?: string | null): { where: string; params: any[] } {
+  const clauses: string[] = [];
   const params: any[] = [];
   if (marketId) {
-    query += ` WHERE market_id = ?`;
+    clauses.push(`market_id = ?`);
     params.push(marketId);
   }
+  if (strategyName === null) {
+    clauses.push(`strategy_name IS NULL`);
+  } else if (strategyName !== undefined) {
+    clauses.push(`strategy_name = ?`);
+    params.push(strategyName);
+  }
+  return { where: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+export function getRecentTrades(marketId?: string, limit = 50, strategyName?: string | null): any[] {
+  const db = getDb();
+  const { where, params } = tradeFilter(marketId, strategyName);
+  let query = `SELECT * FROM trades${where}`;
   query += ` ORDER BY timestamp DESC LIMIT ?`;
   params.push(limit);
 
@@ -215,7 +302,7 @@ export function getRecentTrades(marketId?: string, limit = 50): any[] {
   });
 }
 
-export function getTradeStats(marketId?: string): {
+export function getTradeStats(marketId?: string, strategyName?: string | null): {
   totalTrades: number;
   totalVolume: number;
   totalFees: number;
@@ -232,11 +319,8 @@ export function getTradeStats(marketId?: string): {
     COALESCE(SUM(CASE WHEN UPPER(side) = 'BUY' THEN 1 ELSE 0 END), 0) as buy_count,
     COALESCE(SUM(CASE WHEN UPPER(side) = 'SELL' THEN 1 ELSE 0 END), 0) as sell_count
     FROM trades`;
-  const params: any[] = [];
-  if (marketId) {
-    query += ` WHERE market_id = ?`;
-    params.push(marketId);
-  }
+  const { where, params } = tradeFilter(marketId, strategyName);
+  query += where;
 
   const results = db.exec(query, params);
   if (!results.length || !results[0].values.length) {
@@ -246,23 +330,246 @@ export function getTradeStats(marketId?: string): {
   return { totalTrades, totalVolume, totalFees, realizedPnl, buyCount, sellCount };
 }
 
+/** Base quantity bought and sold, for a strategy's net inventory. */
+export function getTradePosition(marketId: string, strategyName: string | null): { bought: number; sold: number } {
+  const db = getDb();
+  const { where, params } = tradeFilter(marketId, strategyName);
+  const results = db.exec(
+    `SELECT
+      COALESCE(SUM(CASE WHEN UPPER(side) = 'BUY' THEN size ELSE 0 END), 0) as bought,
+      COALESCE(SUM(CASE WHEN UPPER(side) = 'SELL' THEN size ELSE 0 END), 0) as sold
+      FROM trades${where}`,
+    params
+  );
+  if (!results.length || !results[0].values.length) return { bought: 0, sold: 0 };
+  const [bought, sold] = results[0].values[0] as number[];
+  return { bought, sold };
+}
+
+/** Realized P&L of the trades in a time range (ms epoch, `until` exclusive). */
+export function getRealizedPnlBetween(marketId?: string, since?: number, until?: number): number {
+  const db = getDb();
+  const clauses: string[] = [];
+  const params: any[] = [];
+  if (marketId) {
+    clauses.push('market_id = ?');
+    params.push(marketId);
+  }
+  if (since !== undefined) {
+    clauses.push('timestamp >= ?');
+    params.push(since);
+  }
+  if (until !== undefined) {
+    clauses.push('timestamp < ?');
+    params.push(until);
+  }
+  const results = db.exec(
+    `SELECT COALESCE(SUM(pnl_usdc), 0) FROM trades${clauses.length ? ` WHERE ${clauses.join(' AND ')}` : ''}`,
+    params
+  );
+  return results.length ? (results[0].values[0][0] as number) : 0;
+}
+
+/** Every trade of a market, oldest first (for rebuilding open lots). */
+export function getTradesAscending(marketId: string): any[] {
+  const db = getDb();
+  const results = db.exec(`SELECT * FROM trades WHERE market_id = ? ORDER BY timestamp ASC, id ASC`, [marketId]);
+  if (!results.length) return [];
+  return results[0].values.map((vals) => {
+    const row: any = {};
+    results[0].columns.forEach((c, i) => { row[c] = vals[i]; });
+    return row;
+  });
+}
+
+/** Trades in a time range (ms epoch, `until` exclusive), oldest first. `marketId` is a prefix. */
+export function getTradesBetween(opts: { marketId?: string; since?: number; until?: number } = {}): any[] {
+  const db = getDb();
+  const clauses: string[] = [];
+  const params: any[] = [];
+  if (opts.marketId) {
+    clauses.push('market_id LIKE ?');
+    params.push(`${opts.marketId.toLowerCase()}%`);
+  }
+  if (opts.since !== undefined) {
+    clauses.push('timestamp >= ?');
+    params.push(opts.since);
+  }
+  if (opts.until !== undefined) {
+    clauses.push('timestamp < ?');
+    params.push(opts.until);
+  }
+  const results = db.exec(
+    `SELECT * FROM trades${clauses.length ? ` WHERE ${clauses.join(' AND ')}` : ''} ORDER BY timestamp ASC, id ASC`,
+    params
+  );
+  if (!results.length) return [];
+  return results[0].values.map((vals) => {
+    const row: any = {};
+    results[0].columns.forEach((c, i) => { row[c] = vals[i]; });
+    return row;
+  });
+}
+
+// ---- Lot Matches ----
+
+// One row per bought lot (or part of it) a sell consumed. A sell with no open
+// lot left (inventory from before the bot) is stored with a null buy side.
+export interface LotMatchRow {
+  id: number;
+  market_id: string;
+  strategy_name: string | null;
+  method: string;
+  buy_order_id: string | null;
+  sell_order_id: string;
+  quantity: number;
+  buy_price: number | null;
+  sell_price: number;
+  buy_fee: number;
+  sell_fee: number;
+  buy_timestamp: number | null;
+  sell_timestamp: number;
+  pnl: number | null;
+}
+
+export function insertLotMatch(match: {
+  marketId: string;
+  strategyName?: string;
+  method: string;
+  buyOrderId: string | null;
+  sellOrderId: string;
+  quantity: number;
+  buyPrice: number | null;
+  sellPrice: number;
+  buyFee: number;
+  sellFee: number;
+  buyTimestamp: number | null;
+  sellTimestamp: number;
+  pnl: number | null;
+}): void {
+  const db = getDb();
+  db.run(
+    `INSERT INTO lot_matches (market_id, strategy_name, method, buy_order_id, sell_order_id, quantity, buy_price, sell_price, buy_fee, sell_fee, buy_timestamp, sell_timestamp, pnl)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      match.marketId, match.strategyName || null, match.method, match.buyOrderId, match.sellOrderId, match.quantity,
+      match.buyPrice, match.sellPrice, match.buyFee, match.sellFee, match.buyTimestamp, match.sellTimestamp, match.pnl,
+    ]
+  );
+}
+
+/** Lot matches by sell time, oldest first. `strategyName` as in tradeFilter. */
+export function getLotMatches(opts: {
+  marketId?: string;
+  strategyName?: string | null;
+  since?: number;
+  until?: number;
+} = {}): LotMatchRow[] {
+  const db = getDb();
+  const clauses: string[] = [];
+  const params: any[] = [];
+  if (opts.strategyName === null) {
+    clauses.push('strategy_name IS NULL');
+  } else if (opts.strategyName !== undefined) {
+    clauses.push('strategy_name = ?');
+    params.push(opts.strategyName);
+  }
+  if (opts.marketId) {
+    clauses.push('market_id LIKE ?');
+    params.push(`${opts.marketId.toLowerCase()}%`);
+  }
+  if (opts.since !== undefined) {
+    clauses.push('sell_timestamp >= ?');
+    params.push(opts.since);
+  }
+  if (opts.until !== undefined) {
+    clauses.push('sell_timestamp < ?');
+    params.push(opts.until);
+  }
+  const results = db.exec(
+    `SELECT * FROM lot_matches${clauses.length ? ` WHERE ${clauses.join(' AND ')}` : ''} ORDER BY sell_timestamp ASC, id ASC`,
+    params
+  );
+  if (!results.length) return [];
+  return results[0].values.map((vals) => {
+    const row: any = {};
+    results[0].columns.forEach((c, i) => { row[c] = vals[i]; });
+    return row as LotMatchRow;
+  });
+}
+
 // ---- Snapshots ----
 
+// Rows with a null market_id are account-wide (equity in USD, every asset
+// counted once); per-market equity is base at mid plus quote, in quote units.
+export interface SnapshotRow {
+  timestamp: number;
+  market_id: string | null;
+  base_balance: number | null;
+  quote_balance: number | null;
+  current_price: number | null;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  session_pnl: number;
+  equity: number | null;
+}
+
 export function insertSnapshot(snapshot: {
   marketId?: string;
-  baseBalance: number;
-  quoteBalance: number;
-  currentPrice: number;
+  baseBalance: number | null;
+  quoteBalance: number | null;
+  currentPrice: number | null;
   realizedPnl: number;
   unrealizedPnl: number;
   sessionPnl: number;
+  equity?: number;
+  timestamp?: number;
 }): void {
   const db = getDb();
   db.run(
-    `INSERT INTO snapshots (timestamp, market_id, base_balance, quote_balance, current_price, realized_pnl, unrealized_pnl, session_pnl)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-    [Date.now(), snapshot.marketId || null, snapshot.baseBalance, snapshot.quoteBalance, snapshot.currentPrice, snapshot.realizedPnl, snapshot.unrealizedPnl, snapshot.sessionPnl]
+    `INSERT INTO snapshots (timestamp, market_id, base_balance, quote_balance, current_price, realized_pnl, unrealized_pnl, session_pnl, equity)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      snapshot.timestamp ?? Date.now(), snapshot.marketId || null, snapshot.baseBalance, snapshot.quoteBalance, snapshot.currentPrice,
+      snapshot.realizedPnl, snapshot.unrealizedPnl, snapshot.sessionPnl, snapshot.equity ?? null,
+    ]
+  );
+}
+
+/**
+ * Snapshots with an equity value, oldest first. `marketId` null selects the
+ * account-wide rows, undefined every row.
+ */
+export function getEquitySnapshots(opts: { marketId?: string | null; since?: number; until?: number } = {}): SnapshotRow[] {
+  const db = getDb();
+  const clauses = ['equity IS NOT NULL'];
+  const params: any[] = [];
+  if (opts.marketId === null) {
+    clauses.push('market_id IS NULL');
+  } else if (opts.marketId !== undefined) {
+    clauses.push('market_id = ?');
+    params.push(opts.marketId);
+  }
+  if (opts.since !== undefined) {
+    clauses.push('timestamp >= ?');
+    params.push(opts.since);
+  }
+  if (opts.until !== undefined) {
+    clauses.push('timestamp < ?');
+    params.push(opts.until);
+  }
+
+  const results = db.exec(
+    `SELECT timestamp, market_id, base_balance, quote_balance, current_price, realized_pnl, unrealized_pnl, session_pnl, equity
+     FROM snapshots WHERE ${clauses.join(' AND ')} ORDER BY timestamp ASC`,
+    params
   );
+  if (!results.length) return [];
+  return results[0].values.map((vals) => {
+    const row: any = {};
+    results[0].columns.forEach((c, i) => { row[c] = vals[i]; });
+    return row as SnapshotRow;
+  });
 }
 
 // ---- Nonces ----
@@ -0,0 +1,312 @@
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import type { Market, OrderBookDepth } from '../types/market.js';
+import type { MarketDataService } from './market-data.js';
+import type { BalanceTracker } from './balance-tracker.js';
+import type { OrderManager, OrderLeg } from './order-manager.js';
+import { roundDownToMarketPrecision } from '../utils/price-math.js';
+import { getAssetUsdPrice } from './capital-allocator.js';
+
+export interface ArbitrageConfig {
+  minProfitPercent: number; // Net of taker fees on all three legs
+  maxStartUsd: number; // Per attempt, USD value of the starting asset (start assets differ per cycle)
+  intervalMs?: number; // Book scan interval (default 2000)
+  cooldownMs?: number; // Pause after an attempt so balances/books refresh (default 10000)
+  dryRun?: boolean; // Detect and report only
+}
+
+export interface ArbitrageLeg {
+  market: Market;
+  side: 'Buy' | 'Sell';
+  from: string; // asset id spent
+  to: string; // asset id received
+}
+
+export interface ArbitrageCycle {
+  label: string; // e.g. "USDC → ETH → FUEL → USDC"
+  legs: [ArbitrageLeg, ArbitrageLeg, ArbitrageLeg];
+}
+
+export interface ArbitrageLegQuote {
+  leg: ArbitrageLeg;
+  amountIn: Decimal; // human units of leg.from
+  amountOut: Decimal; // human units of leg.to, after taker fee
+  quantity: Decimal; // base quantity of the order
+  limitPriceScaled: string; // worst book level the order may reach
+}
+
+export interface ArbitrageOpportunity {
+  cycle: ArbitrageCycle;
+  startAmount: Decimal;
+  endAmount: Decimal;
+  profitPercent: number;
+  legs: ArbitrageLegQuote[];
+}
+
+export interface ArbitrageStats {
+  cycles: number;
+  scans: number;
+  opportunities: number;
+  attempts: number;
+  executed: number;
+  failed: number;
+}
+
+function feeRate(market: Market): Decimal {
+  return new Decimal(market.taker_fee || '0').div(1_000_000);
+}
+
+/**
+ * Enumerate directed three-asset cycles across the given markets. Each triangle
+ * yields both directions, starting from the asset that is quote in the most of
+ * its markets (USDC in ETH_USDC / FUEL_USDC / ETH_FUEL).
+ */
+export function findTriangularCycles(markets: Market[]): ArbitrageCycle[] {
+  const symbols = new Map<string, string>();
+  for (const m of markets) {
+    symbols.set(m.base.asset, m.base.symbol);
+    symbols.set(m.quote.asset, m.quote.symbol);
+  }
+  const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const byPair = new Map<string, Market>();
+  for (const m of markets) {
+    if (m.base.asset !== m.quote.asset) byPair.set(pairKey(m.base.asset, m.quote.asset), m);
+  }
+
+  const legFor = (from: string, to: string): ArbitrageLeg | null => {
+    const market = byPair.get(pairKey(from, to));
+    if (!market) return null;
+    return { market, side: market.quote.asset === from ? 'Buy' : 'Sell', from, to };
+  };
+
+  const assets = [...symbols.keys()].sort();
+  const cycles: ArbitrageCycle[] = [];
+  for (let i = 0; i < assets.length; i++) {
+    for (let j = i + 1; j < assets.length; j++) {
+      for (let k = j + 1; k < assets.length; k++) {
+        const tri = [assets[i], assets[j], assets[k]];
+        const markets3 = [pairKey(tri[0], tri[1]), pairKey(tri[1], tri[2]), pairKey(tri[0], tri[2])]
+          .map((key) => byPair.get(key));
+        if (markets3.some((m) => !m)) continue;
+
+        const quoteCount = (asset: string) => markets3.filter((m) => m!.quote.asset === asset).length;
+        const start = [...tri].sort((a, b) => quoteCount(b) - quoteCount(a))[0];
+        const [x, y] = tri.filter((a) => a !== start);
+        for (const [mid1, mid2] of [[x, y], [y, x]]) {
+          const legs = [legFor(start, mid1), legFor(mid1, mid2), legFor(mid2, start)];
+          if (legs.some((l) => !l)) continue;
+          cycles.push({
+            label: [start, mid1, mid2, start].map((a) => symbols.get(a)).join(' → '),
+            legs: legs as [ArbitrageLeg, ArbitrageLeg, ArbitrageLeg],
+          });
+        }
+      }
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Walk one leg through the book. Buys spend `amountIn` quote against the asks,
+ * sells offer `amountIn` base into the bids. The order quantity is sized against
+ * the worst level reached, so the funds locked at that limit never exceed
+ * `amountIn`. Returns null when the book is too thin.
+ */
+export function quoteLeg(leg: ArbitrageLeg, book: OrderBookDepth, amountIn: Decimal): ArbitrageLegQuote | null {
+  const { market } = leg;
+  const qScale = new Decimal(10).pow(market.quote.decimals);
+  const bScale = new Decimal(10).pow(market.base.decimals);
+  const levels = leg.side === 'Buy' ? book.asks : book.bids;
+  if (!levels?.length || amountIn.lte(0)) return null;
+
+  let remaining = amountIn;
+  let filledBase = new Decimal(0);
+  let filledQuote = new Decimal(0);
+  let limitPriceScaled = '';
+  for (const [priceRaw, qtyRaw] of levels) {
+    if (remaining.lte(0)) break;
+    const price = new Decimal(priceRaw).div(qScale);
+    const qty = new Decimal(qtyRaw).div(bScale);
+    if (price.lte(0) || qty.lte(0)) continue;
+    limitPriceScaled = priceRaw;
+    if (leg.side === 'Buy') {
+      const take = Decimal.min(qty, remaining.div(price));
+      filledBase = filledBase.plus(take);
+      filledQuote = filledQuote.plus(take.mul(price));
+      remaining = remaining.minus(take.mul(price));
+    } else {
+      const take = Decimal.min(qty, remaining);
+      filledBase = filledBase.plus(take);
+      filledQuote = filledQuote.plus(take.mul(price));
+      remaining = remaining.minus(take);
+    }
+  }
+  // Anything but rounding dust left over means the book couldn't absorb the leg.
+  if (remaining.gt(amountIn.mul(1e-9)) || !limitPriceScaled) return null;
+
+  const fee = new Decimal(1).minus(feeRate(market));
+  const limitPrice = new Decimal(limitPriceScaled).div(qScale);
+  if (leg.side === 'Buy') {
+    const quantity = roundDownToMarketPrecision(amountIn.div(limitPrice), market);
+    if (quantity.lte(0)) return null;
+    return { leg, amountIn, amountOut: quantity.mul(fee), quantity, limitPriceScaled };
+  }
+  const quantity = roundDownToMarketPrecision(amountIn, market);
+  if (quantity.lte(0)) return null;
+  const vwap = filledQuote.div(filledBase);
+  return { leg, amountIn, amountOut: quantity.mul(vwap).mul(fee), quantity, limitPriceScaled };
+}
+
+/** Quote a full cycle for a starting amount; null if any leg can't be filled. */
+export function evaluateCycle(
+  cycle: ArbitrageCycle,
+  books: Map<string, OrderBookDepth>,
+  startAmount: Decimal,
+): ArbitrageOpportunity | null {
+  const legs: ArbitrageLegQuote[] = [];
+  let amount = startAmount;
+  for (const leg of cycle.legs) {
+    const book = books.get(leg.market.market_id);
+    if (!book) return null;
+    const quote = quoteLeg(leg, book, amount);
+    if (!quote) return null;
+    legs.push(quote);
+    amount = quote.amountOut;
+  }
+  const profitPercent = amount.minus(startAmount).div(startAmount).mul(100).toNumber();
+  return { cycle, startAmount, endAmount: amount, profitPercent, legs };
+}
+
+/**
+ * ArbitrageEngine - triangular arbitrage across O2 markets that share assets.
+ *
+ * Scans the books of every three-market cycle on an interval, prices each
+ * direction after taker fees, and when the best one clears `minProfitPercent`
+ * submits all three legs as FillOrKill orders in one multi-market session
+ * request, so either every leg fills or the request fails as a whole.
+ *
+ * Runs alongside TradingEngine and shares its OrderManager and balances; it
+ * does not coordinate with per-market strategies beyond that.
+ *
+ * Events: 'opportunity' (ArbitrageOpportunity), 'executed' (opportunity, txId),
+ * 'failed' (opportunity, error).
+ */
+export class ArbitrageEngine extends EventEmitter {
+  private marketData: MarketDataService;
+  private orderManager: OrderManager;
+  private balanceTracker: BalanceTracker;
+  private config: ArbitrageConfig;
+  private markets: Market[];
+  private cycles: ArbitrageCycle[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private busy = false;
+  private cooldownUntil = 0;
+  private stats: ArbitrageStats;
+
+  constructor(
+    marketData: MarketDataService,
+    orderManager: OrderManager,
+    balanceTracker: BalanceTracker,
+    markets: Market[],
+    config: ArbitrageConfig,
+  ) {
+    super();
+    this.marketData = marketData;
+    this.orderManager = orderManager;
+    this.balanceTracker = balanceTracker;
+    this.config = config;
+    this.markets = markets;
+    this.cycles = findTriangularCycles(markets);
+    this.stats = { cycles: this.cycles.length, scans: 0, opportunities: 0, attempts: 0, executed: 0, failed: 0 };
+  }
+
+  get cycleLabels(): string[] {
+    return this.cycles.map((c) => c.label);
+  }
+
+  getStats(): ArbitrageStats {
+    return { ...this.stats };
+  }
+
+  start(): void {
+    if (this.timer || this.cycles.length === 0) return;
+    this.timer = setInterval(() => {
+      this.scan().catch((err) => this.emit('error', err));
+    }, this.config.intervalMs ?? 2000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** One pass over all cycles; executes the most profitable one above threshold. */
+  async scan(): Promise<ArbitrageOpportunity | null> {
+    if (this.busy || Date.now() < this.cooldownUntil) return null;
+    this.busy = true;
+    try {
+      this.stats.scans++;
+      const books = new Map<string, OrderBookDepth>();
+      for (const cycle of this.cycles) {
+        for (const { market } of cycle.legs) {
+          if (books.has(market.market_id)) continue;
+          const book = await this.marketData.getOrderBook(market.market_id);
+          if (book) books.set(market.market_id, book);
+        }
+      }
+
+      let best: ArbitrageOpportunity | null = null;
+      for (const cycle of this.cycles) {
+        const startAmount = await this.startAmount(cycle);
+        if (startAmount.lte(0)) continue;
+        const opp = evaluateCycle(cycle, books, startAmount);
+        if (opp && (!best || opp.profitPercent > best.profitPercent)) best = opp;
+      }
+      if (!best || best.profitPercent < this.config.minProfitPercent) return null;
+
+      this.stats.opportunities++;
+      this.emit('opportunity', best);
+      this.cooldownUntil = Date.now() + (this.config.cooldownMs ?? 10_000);
+      if (!this.config.dryRun) await this.execute(best);
+      return best;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async startAmount(cycle: ArbitrageCycle): Promise<Decimal> {
+    const first = cycle.legs[0];
+    const balances = await this.balanceTracker.getMarketBalances(first.market.market_id);
+    const available = first.side === 'Buy'
+      ? new Decimal(balances.quote.unlocked).div(new Decimal(10).pow(first.market.quote.decimals))
+      : new Decimal(balances.base.unlocked).div(new Decimal(10).pow(first.market.base.decimals));
+    // An unpriced start asset has no cap to size against, so the cycle is skipped
+    const usdPrice = getAssetUsdPrice(this.markets, this.marketData, first.from);
+    if (!usdPrice) return new Decimal(0);
+    return Decimal.min(available, new Decimal(this.config.maxStartUsd).div(usdPrice));
+  }
+
+  private async execute(opp: ArbitrageOpportunity): Promise<void> {
+    this.stats.attempts++;
+    const legs: OrderLeg[] = opp.legs.map((q) => ({
+      market: q.leg.market,
+      side: q.leg.side,
+      orderType: 'FOK',
+      priceScaled: q.limitPriceScaled,
+      quantityScaled: q.quantity.mul(new Decimal(10).pow(q.leg.market.base.decimals)).toFixed(0),
+    }));
+    try {
+      const resp = await this.orderManager.placeOrderBatch(legs);
+      this.stats.executed++;
+      this.emit('executed', opp, resp.tx_id);
+    } catch (err: any) {
+      this.stats.failed++;
+      const message = err?.response?.data ? JSON.stringify(err.response.data).slice(0, 200) : err?.message || String(err);
+      this.emit('failed', opp, message);
+    } finally {
+      for (const q of opp.legs) this.balanceTracker.clearCache(q.leg.market.market_id);
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import type { EventEmitter } from 'events';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Market } from '../types/market.js';
+import type { SessionActionsSubmission } from '../types/api.js';
+import type { StrategyExecutionResult } from '../types/strategy.js';
+import type { AuditEvent, AuditEventType, AuditFilter } from '../types/audit.js';
+import type { TradingEngine } from './trading-engine.js';
+import type { OrderManager, FillEvent } from './order-manager.js';
+
+const FILE_PATTERN = /^audit-\d{4}-\d{2}-\d{2}\.jsonl$/;
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = [
+  'cycle', 'actions', 'fill', 'config_reload', 'auto_pause',
+  'market_pause', 'market_resume', 'engine_start', 'engine_stop', 'error',
+];
+
+export interface AuditSources {
+  engine: TradingEngine;
+  orderManager: OrderManager;
+  submitter: Pick<EventEmitter, 'on'>; // SessionManager or SimulatedExchange ('actionsSubmitted')
+  markets: Market[];
+}
+
+/**
+ * AuditLog - append-only JSONL record of every trading decision.
+ *
+ * Each cycle result (with diagnostics), every session-action submission (with
+ * nonce and tx id or error), fills, config reloads, pauses and auto-pauses go
+ * to data/audit/audit-YYYY-MM-DD.jsonl, one event per line. Read it back with
+ * `readAuditEvents` / `o2-bot audit`.
+ */
+export class AuditLog {
+  private dir: string;
+  private paper: boolean;
+  private pairs = new Map<string, Market>();
+
+  constructor(dataDir: string, opts: { paper?: boolean } = {}) {
+    this.dir = resolve(dataDir, 'audit');
+    if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true });
+    this.paper = opts.paper === true;
+  }
+
+  get directory(): string {
+    return this.dir;
+  }
+
+  record(event: AuditEvent): void {
+    if (this.paper) event.paper = true;
+    const file = resolve(this.dir, `audit-${new Date(event.ts).toISOString().slice(0, 10)}.jsonl`);
+    try {
+      appendFileSync(file, JSON.stringify(event) + '\n');
+    } catch {
+      // Never let auditing break trading
+    }
+  }
+
+  attach(sources: AuditSources): void {
+    for (const m of sources.markets) this.pairs.set(m.market_id, m);
+    const { engine, orderManager, submitter } = sources;
+    const marketFields = (marketId: string, strategy?: string) => ({
+      market: this.pairTag(marketId),
+      marketId,
+      ...(strategy ? { strategy } : {}),
+    });
+
+    engine.on('cycle', (marketId: string, result: StrategyExecutionResult, strategyTag?: string) => {
+      this.record({
+        ts: Date.now(),
+        type: 'cycle',
+        ...marketFields(marketId, strategyTag),
+        executed: result.executed,
+        skipReason: result.skipReason,
+        skipCategory: result.skipCategory,
+        trigger: result.trigger,
+        orders: result.orders.map((o) => ({
+          orderId: o.orderId,
+          side: o.side,
+          success: o.success,
+          price: o.priceHuman,
+          quantity: o.quantityHuman,
+          error: o.error,
+        })),
+        diagnostics: result.diagnostics,
+      });
+    });
+    engine.on('error', (marketId: string, err: Error, strategyTag?: string) => {
+      this.record({ ts: Date.now(), type: 'error', ...marketFields(marketId, strategyTag), message: err?.message ?? String(err) });
+    });
+    engine.on('configReloaded', (marketId: string, preset: string, strategyTag?: string) => {
+      this.record({ ts: Date.now(), type: 'config_reload', ...marketFields(marketId, strategyTag), preset });
+    });
+    engine.on('autoPaused', (info: { marketId: string; reason: string; strategyTag?: string; detail?: string }) => {
+      const fields = info.marketId === '*' ? {} : marketFields(info.marketId, info.strategyTag);
+      this.record({ ts: Date.now(), type: 'auto_pause', ...fields, reason: info.reason, detail: info.detail });
+    });
+    engine.on('marketPaused', (marketId: string) => {
+      this.record({ ts: Date.now(), type: 'market_pause', ...marketFields(marketId) });
+    });
+    engine.on('marketResumed', (marketId: string) => {
+      this.record({ ts: Date.now(), type: 'market_resume', ...marketFields(marketId) });
+    });
+    engine.on('started', () => this.record({ ts: Date.now(), type: 'engine_start' }));
+    engine.on('stopped', () => this.record({ ts: Date.now(), type: 'engine_stop' }));
+
+    submitter.on('actionsSubmitted', (sub: SessionActionsSubmission) => {
+      const markets = sub.groups.map((g) => this.pairTag(g.market_id));
+      this.record({
+        ts: sub.timestamp,
+        type: 'actions',
+        ...(sub.groups.length === 1 ? marketFields(sub.groups[0].market_id) : {}),
+        markets,
+        nonce: sub.nonce,
+        txId: sub.txId,
+        error: sub.error,
+        retry: sub.retry,
+        groups: sub.groups,
+      });
+    });
+
+    orderManager.on('fill', (fill: FillEvent) => {
+      const market = this.pairs.get(fill.marketId);
+      this.record({
+        ts: Date.now(),
+        type: 'fill',
+        ...marketFields(fill.marketId),
+        orderId: fill.orderId,
+        side: fill.side,
+        price: market ? fill.price / 10 ** market.quote.decimals : fill.price,
+        quantity: market ? fill.sizeBase / 10 ** market.base.decimals : fill.sizeBase,
+        liquidity: fill.liquidity,
+        fee: fill.fee,
+      });
+    });
+  }
+
+  private pairTag(marketId: string): string {
+    const m = this.pairs.get(marketId);
+    return m ? `${m.base.symbol}_${m.quote.symbol}` : marketId;
+  }
+}
+
+// =========================================================================
+// READING
+// =========================================================================
+
+/** `30m`, `6h`, `2d` ago, or anything Date.parse accepts. */
+export function parseAuditTime(value: string, now = Date.now()): number {
+  const rel = /^(\d+(?:\.\d+)?)\s*([smhd])$/i.exec(value.trim());
+  if (rel) {
+    const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[rel[2].toLowerCase() as 's' | 'm' | 'h' | 'd'];
+    return now - parseFloat(rel[1]) * unit;
+  }
+  const ts = Date.parse(value);
+  if (Number.isNaN(ts)) throw new Error(`Invalid time: ${value} (use e.g. 2h, 1d or an ISO date)`);
+  return ts;
+}
+
+export function matchesAuditFilter(event: AuditEvent, filter: AuditFilter): boolean {
+  if (filter.since !== undefined && event.ts < filter.since) return false;
+  if (filter.until !== undefined && event.ts >= filter.until) return false;
+  if (filter.types?.length && !filter.types.includes(event.type)) return false;
+  if (filter.market) {
+    const tag = filter.market.toUpperCase();
+    const id = filter.market.toLowerCase();
+    const pairs = event.type === 'actions' ? event.markets : event.market ? [event.market] : [];
+    const ids = event.type === 'actions' ? event.groups.map((g) => g.market_id) : event.marketId ? [event.marketId] : [];
+    if (!pairs.some((p) => p.toUpperCase() === tag) && !ids.some((m) => m.toLowerCase().startsWith(id))) return false;
+  }
+  return true;
+}
+
+/**
+ * Read matching events from an audit directory (or a single .jsonl file), in
+ * time order. Day files outside the filter's range are skipped; malformed
+ * lines are ignored.
+ */
+export function readAuditEvents(path: string, filter: AuditFilter = {}): AuditEvent[] {
+  if (!existsSync(path)) return [];
+  const files = path.endsWith('.jsonl')
+    ? [path]
+    : readdirSync(path)
+        .filter((f) => FILE_PATTERN.test(f))
+        .filter((f) => {
+          const dayStart = Date.parse(f.slice(6, 16));
+          if (filter.since !== undefined && dayStart + 86_400_000 <= filter.since) return false;
+          if (filter.until !== undefined && dayStart >= filter.until) return false;
+          return true;
+        })
+        .sort()
+        .map((f) => resolve(path, f));
+
+  const events: AuditEvent[] = [];
+  for (const file of files) {
+    for (const line of readFileSync(file, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      let event: AuditEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (typeof event?.ts === 'number' && matchesAuditFilter(event, filter)) events.push(event);
+    }
+  }
+  return events.sort((a, b) => a.ts - b.ts);
+}
+
+export interface AuditMarketSummary {
+  cycles: number;
+  executed: number;
+  skips: Partial<Record<string, number>>; // By skip category
+  ordersPlaced: number;
+  ordersFailed: number;
+  fills: number;
+  filledQuantity: number;
+  actions: number;
+  actionsFailed: number;
+  autoPauses: number;
+  errors: number;
+}
+
+export interface AuditSummary {
+  events: number;
+  from: number | null;
+  to: number | null;
+  byType: Partial<Record<AuditEventType, number>>;
+  markets: Record<string, AuditMarketSummary>;
+  failedActions: Array<{ ts: number; markets: string[]; nonce: string | null; error: string }>;
+}
+
+export function summarizeAudit(events: AuditEvent[]): AuditSummary {
+  const summary: AuditSummary = {
+    events: events.length,
+    from: events.length ? events[0].ts : null,
+    to: events.length ? events[events.length - 1].ts : null,
+    byType: {},
+    markets: {},
+    failedActions: [],
+  };
+  const forMarket = (market: string | undefined): AuditMarketSummary => {
+    const key = market ?? '(global)';
+    summary.markets[key] ??= {
+      cycles: 0, executed: 0, skips: {}, ordersPlaced: 0, ordersFailed: 0,
+      fills: 0, filledQuantity: 0, actions: 0, actionsFailed: 0, autoPauses: 0, errors: 0,
+    };
+    return summary.markets[key];
+  };
+
+  for (const e of events) {
+    summary.byType[e.type] = (summary.byType[e.type] ?? 0) + 1;
+    switch (e.type) {
+      case 'cycle': {
+        const m = forMarket(e.market);
+        m.cycles++;
+        if (e.executed) m.executed++;
+        else {
+          const category = e.skipCategory ?? 'other';
+          m.skips[category] = (m.skips[category] ?? 0) + 1;
+        }
+        for (const o of e.orders) {
+          if (o.success) m.ordersPlaced++;
+          else m.ordersFailed++;
+        }
+        break;
+      }
+      case 'actions':
+        for (const market of e.markets) {
+          const m = forMarket(market);
+          m.actions++;
+          if (e.error) m.actionsFailed++;
+        }
+        if (e.error) summary.failedActions.push({ ts: e.ts, markets: e.markets, nonce: e.nonce, error: e.error });
+        break;
+      case 'fill': {
+        const m = forMarket(e.market);
+        m.fills++;
+        m.filledQuantity += e.quantity;
+        break;
+      }
+      case 'auto_pause':
+        forMarket(e.market).autoPauses++;
+        break;
+      case 'error':
+        forMarket(e.market).errors++;
+        break;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,116 @@
+import type { Trade } from '../types/order.js';
+
+/**
+ * Avellaneda–Stoikov market-making model.
+ *
+ * All quantities are relative to the mid so the parameters don't depend on the
+ * market's price level: volatility and distances are in percent of mid, the
+ * risk aversion γ is per percent, and inventory q is the normalized deviation
+ * from the target base ratio in [-1, 1] (same scale as inventory skew).
+ *
+ *   reservation r = mid · (1 − q·γ·σ²·τ / 100)
+ *   half-spread δ = γ·σ²·τ / 2 + (1/γ)·ln(1 + γ/k)      (in %)
+ *
+ * σ² is the per-second variance of mid returns and τ the horizon in seconds.
+ * k is the decay of order-arrival intensity λ(δ) = A·e^(−kδ) with distance from
+ * mid, estimated from recent trades.
+ */
+
+const MIN_TRADES_FOR_ESTIMATE = 5;
+
+export interface ArrivalIntensity {
+  ratePerSecond: number; // A — trades per second over the sample
+  k: number; // decay per % distance from mid; 0 when not estimable
+  sampleSize: number;
+}
+
+/** Trade timestamps arrive as seconds or milliseconds depending on the source. */
+function toMs(value: string | number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return n < 1e12 ? n * 1000 : n;
+}
+
+/**
+ * Fit λ(δ) = A·e^(−kδ) to recent trades. With trade distances δᵢ from the current
+ * mid, the maximum-likelihood k of the exponential is 1 / mean(δ); A is the
+ * observed trade rate.
+ */
+export function estimateArrivalIntensity(
+  trades: Trade[],
+  midPrice: number,
+  quoteDecimals: number,
+): ArrivalIntensity {
+  if (midPrice <= 0) return { ratePerSecond: 0, k: 0, sampleSize: 0 };
+  const scale = 10 ** quoteDecimals;
+  const distances: number[] = [];
+  let first = Infinity;
+  let last = -Infinity;
+  for (const t of trades) {
+    const price = Number(t.price) / scale;
+    if (!(price > 0)) continue;
+    distances.push((Math.abs(price - midPrice) / midPrice) * 100);
+    const ts = toMs(t.timestamp);
+    if (ts > 0) {
+      first = Math.min(first, ts);
+      last = Math.max(last, ts);
+    }
+  }
+  if (distances.length < MIN_TRADES_FOR_ESTIMATE) {
+    return { ratePerSecond: 0, k: 0, sampleSize: distances.length };
+  }
+  const spanSec = Number.isFinite(first) && last > first ? (last - first) / 1000 : 0;
+  const meanDistance = distances.reduce((s, d) => s + d, 0) / distances.length;
+  return {
+    ratePerSecond: spanSec > 0 ? distances.length / spanSec : 0,
+    k: meanDistance > 0 ? 1 / meanDistance : 0,
+    sampleSize: distances.length,
+  };
+}
+
+export interface AvellanedaStoikovInput {
+  midPrice: number;
+  inventory: number; // q, normalized to [-1, 1]
+  volPercentPerSample: number; // stddev of mid log-returns per sample, in %
+  sampleIntervalSec: number; // average spacing of the volatility samples
+  riskAversion: number; // γ, per %
+  horizonSec: number; // τ
+  k: number; // arrival decay per %
+  minHalfSpreadPercent: number;
+  maxHalfSpreadPercent: number;
+}
+
+export interface AvellanedaStoikovQuote {
+  reservationPrice: number;
+  reservationOffsetPercent: number; // r below mid when positive
+  halfSpreadPercent: number; // after clamping
+}
+
+export function computeAvellanedaStoikovQuote(input: AvellanedaStoikovInput): AvellanedaStoikovQuote {
+  const gamma = input.riskAversion;
+  const variancePerSec = input.sampleIntervalSec > 0
+    ? input.volPercentPerSample ** 2 / input.sampleIntervalSec
+    : 0;
+  const inventoryRisk = gamma * variancePerSec * input.horizonSec;
+
+  // Bounded by the max half-spread so a volatility spike can't push quotes far through the mid.
+  const reservationOffsetPercent = Math.max(
+    -input.maxHalfSpreadPercent,
+    Math.min(input.maxHalfSpreadPercent, input.inventory * inventoryRisk),
+  );
+  // ln(1 + γ/k)/γ → 1/k as γ → 0
+  const liquidityTerm = input.k > 0
+    ? (gamma > 0 ? Math.log(1 + gamma / input.k) / gamma : 1 / input.k)
+    : 0;
+  const rawHalfSpread = inventoryRisk / 2 + liquidityTerm;
+  const halfSpreadPercent = Math.min(
+    input.maxHalfSpreadPercent,
+    Math.max(input.minHalfSpreadPercent, rawHalfSpread),
+  );
+
+  return {
+    reservationPrice: input.midPrice * (1 - reservationOffsetPercent / 100),
+    reservationOffsetPercent,
+    halfSpreadPercent,
+  };
+}
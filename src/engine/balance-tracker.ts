@@ -1,7 +1,10 @@
 import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
 import type { O2RestClient } from '../api/rest-client.js';
 import type { O2WebSocketClient } from '../api/ws-client.js';
 import type { Market } from '../types/market.js';
+import type { Order } from '../types/order.js';
+import type { StrategyBudget } from '../types/strategy.js';
 
 export interface MarketBalances {
   base: { unlocked: string; locked: string; total: string };
@@ -9,17 +12,65 @@ export interface MarketBalances {
   lastUpdated: number;
 }
 
+// Balance reads and pushes
+export type BalanceRestClient = Pick<O2RestClient, 'getBalance'>;
+export type BalanceWsClient = Pick<EventEmitter, 'on'> & Pick<O2WebSocketClient, 'subscribeBalances'>;
+
+// What a strategy reads balances through: the tracker itself, or a view capped
+// by the strategy's budget (see applyBudget).
+export type StrategyBalances = Pick<BalanceTracker, 'getMarketBalances' | 'clearCache'>;
+
+/**
+ * Narrow market balances to what a budgeted strategy may still commit. `locked`
+ * becomes what the strategy's own open orders lock, and `unlocked` the lesser
+ * of the account's unlocked balance and the budget left after those orders.
+ * Sides without a budget keep the account's unlocked balance.
+ */
+export function applyBudget(
+  balances: MarketBalances,
+  budget: StrategyBudget,
+  market: Market,
+  ownOrders: Order[]
+): MarketBalances {
+  let lockedQuote = new Decimal(0);
+  let lockedBase = new Decimal(0);
+  for (const o of ownOrders) {
+    const remaining = new Decimal(o.quantity || '0').minus(o.quantity_fill || '0');
+    if (remaining.lte(0)) continue;
+    if (o.side === 'Buy') lockedQuote = lockedQuote.plus(remaining.mul(o.price || '0').div(new Decimal(10).pow(market.base.decimals)));
+    else lockedBase = lockedBase.plus(remaining);
+  }
+
+  const narrow = (side: MarketBalances['base'], locked: Decimal, cap: number | undefined, decimals: number) => {
+    let unlocked = new Decimal(side.unlocked || '0');
+    if (cap !== undefined) {
+      const left = new Decimal(cap).mul(new Decimal(10).pow(decimals)).minus(locked);
+      unlocked = Decimal.max(0, Decimal.min(unlocked, left));
+    }
+    const lockedInt = locked.floor();
+    unlocked = unlocked.floor();
+    return { unlocked: unlocked.toFixed(0), locked: lockedInt.toFixed(0), total: unlocked.plus(lockedInt).toFixed(0) };
+  };
+
+  return {
+    base: narrow(balances.base, lockedBase, budget.base, market.base.decimals),
+    quote: narrow(balances.quote, lockedQuote, budget.quote, market.quote.decimals),
+    lastUpdated: balances.lastUpdated,
+  };
+}
+
 export class BalanceTracker extends EventEmitter {
-  private restClient: O2RestClient;
-  private wsClient: O2WebSocketClient;
+  private restClient: BalanceRestClient;
+  private wsClient: BalanceWsClient;
   private balances: Map<string, MarketBalances> = new Map();
   private tradeAccountId: string = '';
   private ownerAddress: string = '';
   private markets: Map<string, Market> = new Map();
+  private feeTotals: Map<string, bigint> = new Map(); // Exchange-reported total_fee per asset (REST only)
   private pollInterval: ReturnType<typeof setInterval> | null = null;
   private cacheTtlMs = 3000;
 
-  constructor(restClient: O2RestClient, wsClient: O2WebSocketClient) {
+  constructor(restClient: BalanceRestClient, wsClient: BalanceWsClient) {
     super();
     this.restClient = restClient;
     this.wsClient = wsClient;
@@ -87,6 +138,9 @@ export class BalanceTracker extends EventEmitter {
       this.restClient.getBalance(market.quote.asset, this.tradeAccountId, this.ownerAddress),
     ]);
 
+    if (baseResp.total_fee !== undefined) this.feeTotals.set(market.base.asset, BigInt(baseResp.total_fee || '0'));
+    if (quoteResp.total_fee !== undefined) this.feeTotals.set(market.quote.asset, BigInt(quoteResp.total_fee || '0'));
+
     const balances: MarketBalances = {
       base: {
         unlocked: baseResp.total_unlocked || '0',
@@ -105,6 +159,16 @@ export class BalanceTracker extends EventEmitter {
     return balances;
   }
 
+  /** Last fetched balances without refreshing (undefined before the first fetch). */
+  getCachedBalances(marketId: string): MarketBalances | undefined {
+    return this.balances.get(marketId);
+  }
+
+  /** Fees the exchange reports charged in an asset (scaled), as of the last REST fetch. */
+  getFeeTotal(assetId: string): bigint | undefined {
+    return this.feeTotals.get(assetId);
+  }
+
   getBaseBalanceHuman(marketId: string): number {
     const cached = this.balances.get(marketId);
     const market = this.markets.get(marketId);
@@ -0,0 +1,172 @@
+import Decimal from 'decimal.js';
+import type { Market } from '../types/market.js';
+import type { Order } from '../types/order.js';
+import type { CapitalAllocation, CapitalUsage } from '../types/strategy.js';
+import { strategyKey } from '../types/strategy.js';
+import type { MarketDataService } from './market-data.js';
+import type { BalanceTracker, MarketBalances } from './balance-tracker.js';
+import * as dbQueries from '../db/queries.js';
+
+export interface AssetHolding {
+  asset: string;
+  symbol: string;
+  total: number; // Human units, unlocked + locked
+  locked: number; // Human units, resting in open orders
+  usdPrice: number | null;
+  stable: boolean; // Only ever a quote among the traded markets, taken at $1
+}
+
+/**
+ * USD price of an asset, or null when none of the traded markets prices it.
+ * An asset that is only ever a quote (USDC and the like) is taken at 1; any
+ * other at the mid of a market where it is the base, following at most `hops`
+ * markets (ETH priced via ETH_USDC, FUEL via FUEL_ETH).
+ */
+export function getAssetUsdPrice(
+  markets: Market[],
+  marketData: Pick<MarketDataService, 'getMidPrice'>,
+  assetId: string,
+  hops = 2
+): number | null {
+  const asBase = markets.filter((m) => m.base.asset === assetId);
+  if (asBase.length === 0) {
+    return markets.some((m) => m.quote.asset === assetId) ? 1 : null;
+  }
+  if (hops === 0) return null;
+  for (const m of asBase) {
+    const mid = marketData.getMidPrice(m.market_id);
+    const quoteUsd = getAssetUsdPrice(markets, marketData, m.quote.asset, hops - 1);
+    if (mid && quoteUsd) return mid * quoteUsd;
+  }
+  return null;
+}
+
+/** Balances of every asset the traded markets touch, each counted once. */
+export async function getAccountHoldings(
+  markets: Market[],
+  balanceTracker: Pick<BalanceTracker, 'getMarketBalances'>,
+  marketData: Pick<MarketDataService, 'getMidPrice'>
+): Promise<AssetHolding[]> {
+  const holdings = new Map<string, AssetHolding>();
+  for (const m of markets) {
+    const b = await balanceTracker.getMarketBalances(m.market_id);
+    for (const [asset, side] of [[m.base, b.base], [m.quote, b.quote]] as const) {
+      // Balances are per asset, so a quote shared by several markets counts once
+      if (holdings.has(asset.asset)) continue;
+      const scale = new Decimal(10).pow(asset.decimals);
+      holdings.set(asset.asset, {
+        asset: asset.asset,
+        symbol: asset.symbol,
+        total: new Decimal(side.total || '0').div(scale).toNumber(),
+        locked: new Decimal(side.locked || '0').div(scale).toNumber(),
+        usdPrice: getAssetUsdPrice(markets, marketData, asset.asset),
+        stable: !markets.some((x) => x.base.asset === asset.asset),
+      });
+    }
+  }
+  return [...holdings.values()];
+}
+
+/**
+ * CapitalAllocator - portfolio-level capital budgets across markets.
+ *
+ * Each market/strategy (by strategyKey) may be given a fixed USD amount or a
+ * percentage of the trade account's USD value. Before a cycle the strategy's
+ * quote balance is capped at what is left of its allocation, so strategies on
+ * markets sharing a quote asset no longer race for the same balance.
+ * Capital is not enforced on a market whose quote has no USD price (see
+ * getAssetUsdPrice).
+ */
+export class CapitalAllocator {
+  private marketData: MarketDataService;
+  private balanceTracker: BalanceTracker;
+  private markets: Market[];
+  private allocations: Map<string, CapitalAllocation> = new Map();
+  private usage: Map<string, CapitalUsage> = new Map();
+
+  constructor(marketData: MarketDataService, balanceTracker: BalanceTracker, markets: Market[]) {
+    this.marketData = marketData;
+    this.balanceTracker = balanceTracker;
+    this.markets = markets;
+  }
+
+  setAllocation(key: string, allocation: CapitalAllocation): void {
+    this.allocations.set(key, allocation);
+  }
+
+  getAllocation(key: string): CapitalAllocation | undefined {
+    return this.allocations.get(key);
+  }
+
+  hasAllocations(): boolean {
+    return this.allocations.size > 0;
+  }
+
+  /** Usage from the strategy's last cycle (undefined before its first or without an allocation). */
+  getLastUsage(key: string): CapitalUsage | undefined {
+    return this.usage.get(key);
+  }
+
+  /** Total (unlocked + locked) value of the traded assets in USD. */
+  async getAccountValueUsd(): Promise<number> {
+    const holdings = await getAccountHoldings(this.markets, this.balanceTracker, this.marketData);
+    return holdings.reduce((sum, h) => sum + (h.usdPrice ? h.total * h.usdPrice : 0), 0);
+  }
+
+  /**
+   * Allocation, capital in use and what is left for one strategy. In use is
+   * the quote locked in its own open buys plus the base it bought and has not
+   * sold (from its recorded trades), valued at mid.
+   */
+  async getUsage(market: Market, strategyTag: string | undefined, ownOrders: Order[]): Promise<CapitalUsage | null> {
+    const key = strategyKey(market.market_id, strategyTag);
+    const allocation = this.allocations.get(key);
+    const quoteUsd = this.quoteUsdPrice(market);
+    if (!allocation || !quoteUsd) return null;
+
+    const allocatedUsd = allocation.usd ?? ((allocation.percent ?? 0) / 100) * await this.getAccountValueUsd();
+
+    let lockedQuote = new Decimal(0);
+    for (const o of ownOrders) {
+      if (o.side !== 'Buy') continue;
+      const remaining = new Decimal(o.quantity || '0').minus(o.quantity_fill || '0');
+      if (remaining.gt(0)) lockedQuote = lockedQuote.plus(remaining.mul(o.price || '0').div(new Decimal(10).pow(market.base.decimals)));
+    }
+    const lockedUsd = lockedQuote.div(new Decimal(10).pow(market.quote.decimals)).toNumber() * quoteUsd;
+
+    const position = dbQueries.getTradePosition(market.market_id, strategyTag ?? null);
+    const inventory = Math.max(0, position.bought - position.sold);
+    const mid = this.marketData.getMidPrice(market.market_id) ?? 0;
+    const usedUsd = lockedUsd + inventory * mid * quoteUsd;
+
+    const usage: CapitalUsage = {
+      allocatedUsd,
+      usedUsd,
+      remainingUsd: Math.max(0, allocatedUsd - usedUsd),
+      updatedAt: Date.now(),
+    };
+    this.usage.set(key, usage);
+    return usage;
+  }
+
+  /** Cap the quote a strategy may spend at what is left of its allocation. */
+  async applyTo(balances: MarketBalances, market: Market, strategyTag: string | undefined, ownOrders: Order[]): Promise<MarketBalances> {
+    const usage = await this.getUsage(market, strategyTag, ownOrders);
+    if (!usage) return balances;
+    const quoteUsd = this.quoteUsdPrice(market)!;
+    const cap = new Decimal(usage.remainingUsd).div(quoteUsd).mul(new Decimal(10).pow(market.quote.decimals)).floor();
+    const unlocked = Decimal.min(new Decimal(balances.quote.unlocked || '0'), cap);
+    return {
+      ...balances,
+      quote: {
+        unlocked: unlocked.toFixed(0),
+        locked: balances.quote.locked,
+        total: unlocked.plus(balances.quote.locked || '0').toFixed(0),
+      },
+    };
+  }
+
+  private quoteUsdPrice(market: Market): number | null {
+    return getAssetUsdPrice(this.markets, this.marketData, market.quote.asset);
+  }
+}
@@ -0,0 +1,335 @@
+import Decimal from 'decimal.js';
+import type { Market, OrderBookDepth } from '../types/market.js';
+import type {
+  StrategyConfig,
+  DcaConfig,
+  DcaProgress,
+  StrategyExecutionResult,
+  OrderExecution,
+  ExecutionDiagnostics,
+  OrderTypeName,
+} from '../types/strategy.js';
+import type { StrategyOrders } from './order-manager.js';
+import type { StrategyBalances } from './balance-tracker.js';
+import { roundDownToMarketPrecision, scaleUpAndTruncateToInt, formatPrice, normalizeB256 } from '../utils/price-math.js';
+import * as dbQueries from '../db/queries.js';
+
+// Runs a child may be off the book while its DB row still reads open (fill
+// update not yet received) before it is settled with whatever fill is recorded.
+const MAX_UNRESOLVED_RUNS = 3;
+
+/**
+ * Estimated-slippage precheck supplied by the executor; returns a skip reason or null.
+ * `orderType` overrides the config's order type when the caller picks its own.
+ */
+export type SlippageCheck = (
+  side: 'Buy' | 'Sell',
+  price: Decimal,
+  quantity: Decimal,
+  orderType?: OrderTypeName,
+) => string | null;
+
+/** Returns a human-readable problem with the DCA config, or null if usable. */
+export function validateDcaConfig(dca: DcaConfig | undefined): string | null {
+  if (!dca) return 'dcaConfig is missing';
+  if (dca.side !== 'Buy' && dca.side !== 'Sell') return 'dcaConfig.side must be "Buy" or "Sell"';
+  if (!(dca.targetQuantity! > 0) && !(dca.targetNotionalUsd! > 0)) {
+    return 'dcaConfig needs a targetQuantity or targetNotionalUsd > 0';
+  }
+  if (!(dca.durationMinutes > 0)) return 'dcaConfig.durationMinutes must be > 0';
+  if (dca.slices !== undefined && !(dca.slices >= 1)) return 'dcaConfig.slices must be >= 1';
+  return null;
+}
+
+function progressKey(dca: DcaConfig): string {
+  return [dca.side, dca.targetQuantity ?? '', dca.targetNotionalUsd ?? '', dca.durationMinutes].join(':');
+}
+
+/** +/- `percent` uniform jitter around 1. */
+function jitter(percent: number | undefined): number {
+  if (!percent || percent <= 0) return 1;
+  return 1 + ((Math.random() * 2 - 1) * percent) / 100;
+}
+
+/**
+ * DcaStrategy - works a target quantity or notional into the market over a
+ * fixed duration (DCA / TWAP).
+ *
+ * Each run places one child order. The child is sized as the remaining target
+ * divided by the slices left before the deadline, so a slice that missed or
+ * under-filled is caught up by later ones. A child that is still resting when
+ * the next slice is due is cancelled, and its unfilled part rolls into the
+ * remaining target. Progress counts only filled quantity (read back from the
+ * orders table) and is stored on `config.dcaProgress`. Once the target is
+ * reached the market idles with `target_reached`.
+ */
+export class DcaStrategy {
+  private orderManager: StrategyOrders;
+  private balanceTracker: StrategyBalances;
+
+  constructor(orderManager: StrategyOrders, balanceTracker: StrategyBalances) {
+    this.orderManager = orderManager;
+    this.balanceTracker = balanceTracker;
+  }
+
+  async execute(
+    market: Market,
+    config: StrategyConfig,
+    orderBook: OrderBookDepth | null,
+    midPrice: Decimal,
+    diagnostics: ExecutionDiagnostics,
+    checkSlippage: SlippageCheck,
+  ): Promise<StrategyExecutionResult> {
+    const pair = `${market.base.symbol}/${market.quote.symbol}`;
+    const now = Date.now();
+    const dca = config.dcaConfig;
+    const sliceIntervalMs = this.sliceInterval(config);
+    const nextRunAt = now + sliceIntervalMs * jitter(dca?.timingRandomizationPercent);
+
+    const invalid = validateDcaConfig(dca);
+    if (invalid || !dca) {
+      return { executed: false, orders: [], nextRunAt, skipReason: `${pair}: DCA disabled — ${invalid}`, skipCategory: 'other', diagnostics };
+    }
+
+    const progress = this.getProgress(market, config, dca, now);
+    const resting = await this.settleChildren(market, progress);
+
+    const useNotional = !(dca.targetQuantity! > 0);
+    const target = new Decimal(useNotional ? dca.targetNotionalUsd! : dca.targetQuantity!);
+    const done = new Decimal(useNotional ? progress.filledNotional : progress.filledQuantity);
+    const remaining = Decimal.max(target.minus(done), 0);
+    diagnostics.dcaProgressPercent = Math.min(100, done.div(target).mul(100).toNumber());
+    const unit = useNotional ? market.quote.symbol : market.base.symbol;
+    diagnostics.reasonDetail = `dca ${dca.side} ${done.toDecimalPlaces(6).toString()}/${target.toString()} ${unit}`;
+
+    const persist = () => dbQueries.upsertStrategyConfig(market.market_id, config);
+    const skip = (reason: string, category: StrategyExecutionResult['skipCategory']): StrategyExecutionResult => {
+      persist();
+      return { executed: false, orders: [], nextRunAt, skipReason: `${pair}: ${reason}`, skipCategory: category, diagnostics };
+    };
+
+    if (progress.completedAt) {
+      return skip(`DCA ${dca.side} target reached (${diagnostics.reasonDetail})`, 'target_reached');
+    }
+    if (!midPrice.gt(0)) return skip('No price for DCA slice', 'ws_down');
+
+    const minUsd = config.positionSizing.minOrderSizeUsd;
+    const remainingUsd = useNotional ? remaining : remaining.mul(midPrice);
+    if (progress.childOrderIds.length === 0 && remainingUsd.toNumber() < minUsd) {
+      progress.completedAt = now;
+      console.log(`[DcaStrategy] ${pair}: ${dca.side} target reached after ${progress.slicesPlaced} slices`);
+      return skip(`DCA ${dca.side} target reached (${diagnostics.reasonDetail})`, 'target_reached');
+    }
+
+    // A child still resting from the previous slice is pulled so its unfilled
+    // size is re-sliced; it is settled (and the slice placed) next run.
+    if (progress.childOrderIds.length > 0) {
+      for (const orderId of resting) {
+        try {
+          await this.orderManager.cancelOrder(orderId, market);
+        } catch (err) {
+          console.error(`[DcaStrategy] ${pair}: failed to cancel unfilled child ${orderId}:`, err);
+        }
+      }
+      return skip(`DCA waiting for ${progress.childOrderIds.length} child order(s) to settle`, 'cooldown');
+    }
+
+    // Size this slice from what is left and how many slices remain before the deadline.
+    const deadline = progress.startedAt + dca.durationMinutes * 60_000;
+    const slicesLeft = Math.max(1, Math.ceil((deadline - now) / sliceIntervalMs));
+    // 1% headroom so rounding to market precision keeps the slice above the minimum.
+    const minSliceUsd = new Decimal(minUsd).mul(1.01);
+    let sliceUsd = remainingUsd.div(slicesLeft).mul(jitter(dca.sizeRandomizationPercent));
+    if (sliceUsd.lt(minSliceUsd)) sliceUsd = minSliceUsd;
+    // Don't leave an unplaceable remainder behind.
+    if (remainingUsd.minus(sliceUsd).lt(minSliceUsd)) sliceUsd = remainingUsd;
+    sliceUsd = Decimal.min(sliceUsd, remainingUsd);
+
+    const price = this.slicePrice(market, config, dca, orderBook, midPrice);
+    if (!price) {
+      return skip(`DCA ${dca.side}: price is beyond limit ${formatPrice(new Decimal(dca.limitPrice!))}`, 'other');
+    }
+    let quantity = useNotional ? sliceUsd.div(price) : Decimal.min(sliceUsd.div(midPrice), remaining);
+
+    this.balanceTracker.clearCache(market.market_id);
+    const balances = await this.balanceTracker.getMarketBalances(market.market_id);
+    const available = dca.side === 'Buy'
+      ? new Decimal(balances.quote.unlocked).div(new Decimal(10).pow(market.quote.decimals)).div(price)
+      : new Decimal(balances.base.unlocked).div(new Decimal(10).pow(market.base.decimals));
+    const balanceLimited = available.lt(quantity);
+    quantity = roundDownToMarketPrecision(Decimal.min(quantity, available), market);
+    if (quantity.mul(price).toNumber() < minUsd) {
+      return balanceLimited
+        ? skip(`DCA ${dca.side}: insufficient balance for a $${minUsd} slice`, 'insufficient_balance')
+        : skip(`DCA ${dca.side}: slice $${quantity.mul(price).toFixed(2)} below min order $${minUsd}`, 'other');
+    }
+
+    const slippageSkip = checkSlippage(dca.side, price, quantity);
+    if (slippageSkip) return skip(slippageSkip, 'slippage_exceeded');
+
+    const exec = await this.placeSlice(market, config, dca.side, price, quantity);
+    if (exec.success) {
+      if (exec.orderId) progress.childOrderIds.push(exec.orderId);
+      progress.slicesPlaced++;
+    }
+    persist();
+
+    const result: StrategyExecutionResult = { executed: exec.success, orders: [exec], nextRunAt, diagnostics };
+    if (!exec.success) {
+      result.skipReason = `${pair}: ${exec.side}: ${exec.error}`;
+      result.skipCategory = 'other';
+    }
+    return result;
+  }
+
+  // =========================================================================
+  // PROGRESS
+  // =========================================================================
+
+  private getProgress(market: Market, config: StrategyConfig, dca: DcaConfig, now: number): DcaProgress {
+    const key = progressKey(dca);
+    if (!config.dcaProgress || config.dcaProgress.key !== key) {
+      if (config.dcaProgress) {
+        console.log(`[DcaStrategy] ${market.base.symbol}/${market.quote.symbol}: DCA target changed, starting a new run`);
+      }
+      config.dcaProgress = {
+        key,
+        startedAt: now,
+        filledQuantity: '0',
+        filledNotional: '0',
+        childOrderIds: [],
+        slicesPlaced: 0,
+      };
+    }
+    return config.dcaProgress;
+  }
+
+  /**
+   * Fold child orders that have left the book into the filled totals, using the
+   * fill size/price OrderManager records on the order row. Returns the children
+   * still resting on the book.
+   */
+  private async settleChildren(market: Market, progress: DcaProgress): Promise<string[]> {
+    if (progress.childOrderIds.length === 0) return [];
+    const open = await this.orderManager.getOpenOrders(market);
+    const openIds = new Set(open.map((o) => normalizeB256(o.order_id)));
+    const bScale = new Decimal(10).pow(market.base.decimals);
+    const qScale = new Decimal(10).pow(market.quote.decimals);
+
+    let filledQty = new Decimal(progress.filledQuantity);
+    let filledNotional = new Decimal(progress.filledNotional);
+    const unsettled: string[] = [];
+    const resting: string[] = [];
+    let unresolved = false;
+    for (const orderId of progress.childOrderIds) {
+      const row = dbQueries.getOrder(normalizeB256(orderId)) ?? dbQueries.getOrder(orderId);
+      const status: string = row?.status ?? '';
+      if (openIds.has(normalizeB256(orderId))) {
+        unsettled.push(orderId);
+        resting.push(orderId);
+        continue;
+      }
+      if (status !== 'filled' && status !== 'cancelled' && (progress.unresolvedRuns ?? 0) < MAX_UNRESOLVED_RUNS) {
+        unsettled.push(orderId);
+        unresolved = true;
+        continue;
+      }
+      const qty = new Decimal(row?.quantity_fill || '0').div(bScale);
+      const px = new Decimal(row?.price_fill || row?.price || '0').div(qScale);
+      filledQty = filledQty.plus(qty);
+      filledNotional = filledNotional.plus(qty.mul(px));
+    }
+    progress.filledQuantity = filledQty.toString();
+    progress.filledNotional = filledNotional.toString();
+    progress.childOrderIds = unsettled;
+    progress.unresolvedRuns = unresolved ? (progress.unresolvedRuns ?? 0) + 1 : 0;
+    return resting;
+  }
+
+  // =========================================================================
+  // SLICING
+  // =========================================================================
+
+  /**
+   * Time between children: the duration split over `slices`, or the strategy's
+   * regular cycle interval when no slice count is configured.
+   */
+  private sliceInterval(config: StrategyConfig): number {
+    const dca = config.dcaConfig;
+    if (dca?.slices && dca.slices >= 1 && dca.durationMinutes > 0) {
+      return (dca.durationMinutes * 60_000) / Math.floor(dca.slices);
+    }
+    const { cycleIntervalMinMs: min, cycleIntervalMaxMs: max } = config.timing;
+    return min + Math.random() * (max - min);
+  }
+
+  /**
+   * Marketable children take the opposite touch; resting children join their own
+   * side. `limitPrice` clamps resting children and blocks marketable ones.
+   */
+  private slicePrice(
+    market: Market,
+    config: StrategyConfig,
+    dca: DcaConfig,
+    orderBook: OrderBookDepth | null,
+    midPrice: Decimal,
+  ): Decimal | null {
+    const qScale = new Decimal(10).pow(market.quote.decimals);
+    const bestBid = orderBook?.bids?.[0]?.[0] ? new Decimal(orderBook.bids[0][0]).div(qScale) : midPrice;
+    const bestAsk = orderBook?.asks?.[0]?.[0] ? new Decimal(orderBook.asks[0][0]).div(qScale) : midPrice;
+    const marketable = !['Spot', 'PostOnly'].includes(config.orderConfig.orderType);
+    const isBuy = dca.side === 'Buy';
+    const price = marketable ? (isBuy ? bestAsk : bestBid) : (isBuy ? bestBid : bestAsk);
+
+    if (dca.limitPrice === undefined || dca.limitPrice <= 0) return price;
+    const limit = new Decimal(dca.limitPrice);
+    const beyond = isBuy ? price.gt(limit) : price.lt(limit);
+    if (!beyond) return price;
+    return marketable ? null : limit;
+  }
+
+  private async placeSlice(
+    market: Market,
+    config: StrategyConfig,
+    side: 'Buy' | 'Sell',
+    price: Decimal,
+    quantity: Decimal,
+  ): Promise<OrderExecution> {
+    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
+    const priceScaled = scaleUpAndTruncateToInt(
+      price,
+      market.quote.decimals,
+      market.quote.max_precision,
+      market.tick_size,
+    ).toFixed(0);
+    const quantityScaled = quantity.mul(new Decimal(10).pow(market.base.decimals)).toFixed(0);
+    const orderType = config.orderConfig.orderType;
+
+    try {
+      const resp = await this.orderManager.placeOrder(
+        market,
+        side,
+        orderType,
+        priceScaled,
+        quantityScaled,
+        config.orderConfig.boundedSlippagePercent,
+      );
+      const quantityPrecision = Math.min(market.base.decimals, 8);
+      return {
+        orderId: resp.orders?.[0]?.order_id || '',
+        side,
+        success: true,
+        price: priceScaled,
+        quantity: quantityScaled,
+        priceHuman: formatPrice(price),
+        quantityHuman: quantity.toFixed(quantityPrecision).replace(/\.?0+$/, ''),
+        marketPair,
+        isLimitOrder: orderType === 'Spot' || orderType === 'PostOnly',
+      };
+    } catch (error: any) {
+      const message = error?.response?.data ? JSON.stringify(error.response.data).slice(0, 200) : error?.message || String(error);
+      console.error(`[DcaStrategy] ${side} slice @ ${formatPrice(price)} failed (${marketPair}): ${message}`);
+      return { orderId: '', side, success: false, error: message, errorDetails: error, marketPair };
+    }
+  }
+}
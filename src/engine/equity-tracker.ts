@@ -0,0 +1,216 @@
+import Decimal from 'decimal.js';
+import type { Market } from '../types/market.js';
+import type { MarketDataService } from './market-data.js';
+import type { BalanceTracker } from './balance-tracker.js';
+import type { PnLCalculator } from './pnl-calculator.js';
+import { getAccountHoldings } from './capital-allocator.js';
+import * as dbQueries from '../db/queries.js';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const HISTORY_MS = 24 * 60 * 60 * 1000; // Loaded from the database on start, for the dashboard
+const MAX_POINTS = 2880; // 24h at the default 30s interval
+const TOTAL = ''; // Curve key of the account-wide equity
+
+export interface EquityPoint {
+  ts: number;
+  equity: number;
+}
+
+export interface EquityStats {
+  from: number;
+  to: number;
+  points: number;
+  startEquity: number;
+  endEquity: number;
+  change: number;
+  changePercent: number;
+  highWaterMark: number;
+  drawdown: number; // Current, below the high-water mark
+  drawdownPercent: number;
+  maxDrawdown: number; // Deepest peak-to-trough
+  maxDrawdownPercent: number;
+  periodMs: number; // Bucket the returns below are measured over
+  periods: number;
+  sharpe: number | null; // Annualized mean / stdev of period returns (risk-free 0)
+  sortino: number | null; // Same, over downside deviation
+}
+
+/** Last point of each `periodMs` bucket, oldest first. */
+export function resampleEquity(points: EquityPoint[], periodMs: number): EquityPoint[] {
+  const out: EquityPoint[] = [];
+  for (const p of points) {
+    const bucket = Math.floor(p.ts / periodMs);
+    const last = out[out.length - 1];
+    if (last && Math.floor(last.ts / periodMs) === bucket) out[out.length - 1] = p;
+    else out.push(p);
+  }
+  return out;
+}
+
+/**
+ * High-water mark, drawdowns and Sharpe/Sortino-like ratios of an equity
+ * curve (null for fewer than two points). Drawdowns use every point; the
+ * ratios use returns between `periodMs` buckets so the 30s snapshot noise
+ * does not dominate. Deposits and withdrawals show up as returns.
+ */
+export function computeEquityStats(points: EquityPoint[], periodMs = 60 * 60 * 1000): EquityStats | null {
+  if (points.length < 2) return null;
+
+  let highWaterMark = points[0].equity;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  for (const p of points) {
+    if (p.equity > highWaterMark) highWaterMark = p.equity;
+    const dd = highWaterMark - p.equity;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+    if (highWaterMark > 0) maxDrawdownPercent = Math.max(maxDrawdownPercent, (dd / highWaterMark) * 100);
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const drawdown = highWaterMark - last.equity;
+
+  const buckets = resampleEquity(points, periodMs);
+  const returns: number[] = [];
+  for (let i = 1; i < buckets.length; i++) {
+    if (buckets[i - 1].equity > 0) returns.push(buckets[i].equity / buckets[i - 1].equity - 1);
+  }
+  const annualize = Math.sqrt(YEAR_MS / periodMs);
+  let sharpe: number | null = null;
+  let sortino: number | null = null;
+  if (returns.length >= 2) {
+    const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1));
+    const downside = Math.sqrt(returns.reduce((s, r) => s + Math.min(0, r) ** 2, 0) / returns.length);
+    if (std > 0) sharpe = (mean / std) * annualize;
+    if (downside > 0) sortino = (mean / downside) * annualize;
+  }
+
+  return {
+    from: first.ts,
+    to: last.ts,
+    points: points.length,
+    startEquity: first.equity,
+    endEquity: last.equity,
+    change: last.equity - first.equity,
+    changePercent: first.equity > 0 ? ((last.equity - first.equity) / first.equity) * 100 : 0,
+    highWaterMark,
+    drawdown,
+    drawdownPercent: highWaterMark > 0 ? (drawdown / highWaterMark) * 100 : 0,
+    maxDrawdown,
+    maxDrawdownPercent,
+    periodMs,
+    periods: returns.length,
+    sharpe,
+    sortino,
+  };
+}
+
+/**
+ * EquityTracker - mark-to-market equity curve per market and for the account.
+ *
+ * Every interval it writes a `snapshots` row per market (base/quote balance,
+ * mid, realized/unrealized P&L and equity = base at mid + quote, in quote
+ * units) and one account-wide row (market_id null, equity in USD with every
+ * asset counted once). The last 24h stay in memory for the dashboard; `o2-bot
+ * report` reads the full history back.
+ */
+export class EquityTracker {
+  private pnlCalc: Pick<PnLCalculator, 'getSnapshot'>;
+  private marketData: MarketDataService;
+  private balanceTracker: BalanceTracker;
+  private markets: Market[];
+  private curves: Map<string, EquityPoint[]> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    pnlCalc: Pick<PnLCalculator, 'getSnapshot'>,
+    marketData: MarketDataService,
+    balanceTracker: BalanceTracker,
+    markets: Market[]
+  ) {
+    this.pnlCalc = pnlCalc;
+    this.marketData = marketData;
+    this.balanceTracker = balanceTracker;
+    this.markets = markets;
+  }
+
+  start(intervalMs = 30_000): void {
+    this.stop();
+    const since = Date.now() - HISTORY_MS;
+    for (const key of [TOTAL, ...this.markets.map((m) => m.market_id)]) {
+      const rows = dbQueries.getEquitySnapshots({ marketId: key === TOTAL ? null : key, since });
+      this.curves.set(key, rows.slice(-MAX_POINTS).map((r) => ({ ts: r.timestamp, equity: r.equity! })));
+    }
+    this.timer = setInterval(() => {
+      this.record().catch((err) => console.error('[EquityTracker] Snapshot failed:', err));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Equity curve of a market, or of the whole account when omitted. */
+  getCurve(marketId?: string): EquityPoint[] {
+    return this.curves.get(marketId ?? TOTAL) ?? [];
+  }
+
+  getStats(marketId?: string, periodMs?: number): EquityStats | null {
+    return computeEquityStats(this.getCurve(marketId), periodMs);
+  }
+
+  /** Snapshot every market and the account. Markets without a mid are skipped. */
+  async record(): Promise<void> {
+    const ts = Date.now();
+    for (const market of this.markets) {
+      const mid = this.marketData.getMidPrice(market.market_id);
+      if (!mid) continue;
+      const balances = await this.balanceTracker.getMarketBalances(market.market_id);
+      const base = new Decimal(balances.base.total || '0').div(new Decimal(10).pow(market.base.decimals)).toNumber();
+      const quote = new Decimal(balances.quote.total || '0').div(new Decimal(10).pow(market.quote.decimals)).toNumber();
+      const pnl = this.pnlCalc.getSnapshot(market.market_id);
+      const unrealizedPnl = pnl.averageBuyPrice > 0 && base > 0 ? (mid - pnl.averageBuyPrice) * base : 0;
+      const equity = base * mid + quote;
+      dbQueries.insertSnapshot({
+        marketId: market.market_id,
+        baseBalance: base,
+        quoteBalance: quote,
+        currentPrice: mid,
+        realizedPnl: pnl.realizedPnl,
+        unrealizedPnl,
+        sessionPnl: pnl.realizedPnl + unrealizedPnl,
+        equity,
+        timestamp: ts,
+      });
+      this.push(market.market_id, { ts, equity });
+    }
+
+    // The account total is only meaningful when every held asset is priced
+    const holdings = await getAccountHoldings(this.markets, this.balanceTracker, this.marketData);
+    if (holdings.some((h) => h.total > 0 && !h.usdPrice)) return;
+    const equity = holdings.reduce((sum, h) => sum + (h.usdPrice ? h.total * h.usdPrice : 0), 0);
+    const pnl = this.pnlCalc.getSnapshot();
+    dbQueries.insertSnapshot({
+      baseBalance: null,
+      quoteBalance: null,
+      currentPrice: null,
+      realizedPnl: pnl.realizedPnl,
+      unrealizedPnl: 0,
+      sessionPnl: pnl.realizedPnl,
+      equity,
+      timestamp: ts,
+    });
+    this.push(TOTAL, { ts, equity });
+  }
+
+  private push(key: string, point: EquityPoint): void {
+    const curve = this.curves.get(key) ?? [];
+    curve.push(point);
+    if (curve.length > MAX_POINTS) curve.splice(0, curve.length - MAX_POINTS);
+    this.curves.set(key, curve);
+  }
+}
@@ -0,0 +1,94 @@
+import Decimal from 'decimal.js';
+import type { Market } from '../types/market.js';
+import type { BalanceTracker } from './balance-tracker.js';
+import type { FillEvent } from './order-manager.js';
+import { FEE_ASSET_SIDE, OrderSide } from '../types/order.js';
+
+export interface FeeReconciliation {
+  asset: string;
+  symbol: string;
+  estimated: number; // Human units of the asset, from the maker/taker estimate of each fill
+  actual: number; // Growth of the exchange's total_fee over the same period
+  difference: number; // actual - estimated
+  fills: number;
+}
+
+/**
+ * FeeReconciler - checks the per-fill fee estimates against what the exchange
+ * reports it charged (`BalanceResponse.total_fee`).
+ *
+ * `init()` takes the current totals as a baseline; from then on each fill's
+ * estimate is added to the asset it is charged in (assumed, see
+ * FEE_ASSET_SIDE), and
+ * `reconcile()` compares the sums with the growth of the reported totals.
+ * Assets whose balance responses carry no total_fee are left out. Other
+ * activity on the same trade account shows up as a difference.
+ */
+export class FeeReconciler {
+  private balanceTracker: Pick<BalanceTracker, 'getMarketBalances' | 'getFeeTotal' | 'clearCache'>;
+  private markets: Map<string, Market> = new Map();
+  private baseline: Map<string, bigint> = new Map();
+  private estimated: Map<string, { amount: Decimal; fills: number }> = new Map();
+
+  constructor(balanceTracker: Pick<BalanceTracker, 'getMarketBalances' | 'getFeeTotal' | 'clearCache'>, markets: Market[]) {
+    this.balanceTracker = balanceTracker;
+    for (const m of markets) this.markets.set(m.market_id, m);
+  }
+
+  async init(): Promise<void> {
+    for (const market of this.markets.values()) {
+      await this.balanceTracker.getMarketBalances(market.market_id).catch(() => {});
+      for (const asset of [market.base.asset, market.quote.asset]) {
+        const total = this.balanceTracker.getFeeTotal(asset);
+        if (total !== undefined && !this.baseline.has(asset)) this.baseline.set(asset, total);
+      }
+    }
+  }
+
+  /** Add a fill's estimated fee (quote units, see FillEvent.fee) to the asset it is charged in. */
+  recordFill(fill: FillEvent): void {
+    const market = this.markets.get(fill.marketId);
+    if (!market || !(fill.fee > 0)) return;
+    const isBuy = fill.side === 'Buy' || fill.side === 'buy';
+    const asset = FEE_ASSET_SIDE[isBuy ? OrderSide.Buy : OrderSide.Sell] === 'base' ? market.base.asset : market.quote.asset;
+    const priceHuman = fill.price / 10 ** market.quote.decimals;
+    if (isBuy && !(priceHuman > 0)) return;
+    const amount = isBuy ? new Decimal(fill.fee).div(priceHuman) : new Decimal(fill.fee);
+    const entry = this.estimated.get(asset) ?? { amount: new Decimal(0), fills: 0 };
+    entry.amount = entry.amount.plus(amount);
+    entry.fills++;
+    this.estimated.set(asset, entry);
+  }
+
+  /**
+   * Estimated vs reported fees per asset since init(), for assets with a
+   * baseline. Balances are re-fetched first so the totals are current.
+   */
+  async reconcile(): Promise<FeeReconciliation[]> {
+    const out: FeeReconciliation[] = [];
+    const seen = new Set<string>();
+    for (const market of this.markets.values()) {
+      this.balanceTracker.clearCache(market.market_id);
+      await this.balanceTracker.getMarketBalances(market.market_id).catch(() => {});
+      for (const side of [market.base, market.quote]) {
+        if (seen.has(side.asset)) continue;
+        seen.add(side.asset);
+        const baseline = this.baseline.get(side.asset);
+        const total = this.balanceTracker.getFeeTotal(side.asset);
+        if (baseline === undefined || total === undefined) continue;
+        const actual = new Decimal((total - baseline).toString()).div(new Decimal(10).pow(side.decimals)).toNumber();
+        const entry = this.estimated.get(side.asset);
+        const estimated = entry?.amount.toNumber() ?? 0;
+        out.push({
+          asset: side.asset,
+          symbol: side.symbol,
+          estimated,
+          actual,
+          difference: actual - estimated,
+          fills: entry?.fills ?? 0,
+        });
+      }
+    }
+    return out;
+  }
+}
@@ -0,0 +1,379 @@
+import Decimal from 'decimal.js';
+import type { Market, OrderBookDepth } from '../types/market.js';
+import type {
+  StrategyConfig,
+  GridConfig,
+  StrategyExecutionResult,
+  OrderExecution,
+  ExecutionDiagnostics,
+} from '../types/strategy.js';
+import type { StrategyOrders } from './order-manager.js';
+import type { StrategyBalances } from './balance-tracker.js';
+import { roundDownToMarketPrecision, scaleUpAndTruncateToInt, formatPrice, normalizeB256 } from '../utils/price-math.js';
+import * as dbQueries from '../db/queries.js';
+
+const DEFAULT_ORDERS_PER_SIDE = 5;
+const MAX_GRID_LEVELS = 500;
+
+// Cycles an order may be missing from the open-orders list without the DB
+// knowing why (fill update not yet received) before its level is released.
+const MAX_UNRESOLVED_CYCLES = 3;
+
+interface GridSlot {
+  orderId: string;
+  side: 'Buy' | 'Sell';
+  unresolvedCycles: number;
+}
+
+interface PendingFlip {
+  level: number;
+  side: 'Buy' | 'Sell';
+  quantity: Decimal; // human base units — the filled size being flipped
+}
+
+interface GridState {
+  key: string;
+  prices: Decimal[];
+  slots: Map<number, GridSlot>;
+  pendingFlips: PendingFlip[];
+}
+
+/**
+ * Grid line prices between the bounds, ascending. `fixed` spacing uses an equal
+ * price step, `geometric` an equal ratio between neighbouring lines.
+ */
+export function computeGridPrices(grid: GridConfig): Decimal[] {
+  const lower = new Decimal(grid.lowerPrice);
+  const upper = new Decimal(grid.upperPrice);
+  const n = Math.floor(grid.gridLevels);
+  const prices: Decimal[] = [];
+  if (grid.spacing === 'geometric') {
+    const ratio = upper.div(lower).pow(new Decimal(1).div(n - 1));
+    for (let i = 0; i < n; i++) prices.push(lower.mul(ratio.pow(i)));
+  } else {
+    const step = upper.minus(lower).div(n - 1);
+    for (let i = 0; i < n; i++) prices.push(lower.plus(step.mul(i)));
+  }
+  return prices;
+}
+
+/** Returns a human-readable problem with the grid config, or null if usable. */
+export function validateGridConfig(grid: GridConfig | undefined): string | null {
+  if (!grid) return 'gridConfig is missing';
+  if (!(grid.lowerPrice > 0)) return 'gridConfig.lowerPrice must be > 0';
+  if (!(grid.upperPrice > grid.lowerPrice)) return 'gridConfig.upperPrice must be above lowerPrice';
+  if (!(grid.gridLevels >= 2) || grid.gridLevels > MAX_GRID_LEVELS) {
+    return `gridConfig.gridLevels must be between 2 and ${MAX_GRID_LEVELS}`;
+  }
+  if (grid.ordersPerSide !== undefined && !(grid.ordersPerSide >= 1)) return 'gridConfig.ordersPerSide must be >= 1';
+  return null;
+}
+
+/**
+ * GridStrategy - maintains a ladder of resting limit orders on fixed price lines.
+ *
+ * Each cycle it reconciles the ladder against the exchange's open orders:
+ *  - a level whose order filled gets the opposite order one line away
+ *    (buy filled at line i → sell at i+1; sell filled at i → buy at i-1),
+ *    sized to the filled quantity so inventory round-trips;
+ *  - each side is topped up outward to `ordersPerSide` orders, never placing
+ *    into the empty line next to the opposite side (the grid's gap);
+ *  - orders beyond `ordersPerSide` on a side are cancelled, farthest first,
+ *    so the window follows the price as flips accumulate on one side.
+ *
+ * Ladder state lives in memory. After a restart, open orders resting on a grid
+ * line are adopted, so only flips for fills that happened while the bot was
+ * down are lost.
+ */
+export class GridStrategy {
+  private orderManager: StrategyOrders;
+  private balanceTracker: StrategyBalances;
+  private states: Map<string, GridState> = new Map();
+
+  constructor(orderManager: StrategyOrders, balanceTracker: StrategyBalances) {
+    this.orderManager = orderManager;
+    this.balanceTracker = balanceTracker;
+  }
+
+  /** Drop ladder state for a market (e.g. after all its orders were cancelled). */
+  reset(marketId: string): void {
+    this.states.delete(marketId);
+  }
+
+  async execute(
+    market: Market,
+    config: StrategyConfig,
+    orderBook: OrderBookDepth | null,
+    midPrice: Decimal,
+    nextRunAt: number,
+    diagnostics: ExecutionDiagnostics,
+  ): Promise<StrategyExecutionResult> {
+    const pair = `${market.base.symbol}/${market.quote.symbol}`;
+    const grid = config.gridConfig;
+    const invalid = validateGridConfig(grid);
+    if (invalid || !grid) {
+      return { executed: false, orders: [], nextRunAt, skipReason: `${pair}: Grid disabled — ${invalid}`, skipCategory: 'other', diagnostics };
+    }
+    if (!midPrice.gt(0)) {
+      return { executed: false, orders: [], nextRunAt, skipReason: `${pair}: No price to position the grid`, skipCategory: 'ws_down', diagnostics };
+    }
+
+    const perSide = Math.floor(grid.ordersPerSide ?? DEFAULT_ORDERS_PER_SIDE);
+    const state = this.getState(market.market_id, grid);
+    const openOrders = await this.orderManager.getOpenOrders(market);
+    const openIds = new Set(openOrders.map((o) => normalizeB256(o.order_id)));
+
+    if (state.slots.size === 0 && state.pendingFlips.length === 0) {
+      this.adoptOpenOrders(market, state, openOrders);
+    }
+    this.reconcile(market, state, openIds);
+
+    const orders: OrderExecution[] = [];
+    const skipReasons: string[] = [];
+    const qScale = new Decimal(10).pow(market.quote.decimals);
+    const bestBid = orderBook?.bids?.[0]?.[0] ? new Decimal(orderBook.bids[0][0]).div(qScale) : null;
+    const bestAsk = orderBook?.asks?.[0]?.[0] ? new Decimal(orderBook.asks[0][0]).div(qScale) : null;
+    const postOnly = config.orderConfig.orderType === 'PostOnly';
+    const wouldCross = (side: 'Buy' | 'Sell', price: Decimal) =>
+      side === 'Buy' ? bestAsk !== null && price.gte(bestAsk) : bestBid !== null && price.lte(bestBid);
+
+    this.balanceTracker.clearCache(market.market_id);
+    const balances = await this.balanceTracker.getMarketBalances(market.market_id);
+    let quoteAvail = new Decimal(balances.quote.unlocked).div(qScale);
+    let baseAvail = new Decimal(balances.base.unlocked).div(new Decimal(10).pow(market.base.decimals));
+    const affordable = (side: 'Buy' | 'Sell', price: Decimal, qty: Decimal) =>
+      side === 'Buy' ? quoteAvail.gte(qty.mul(price)) : baseAvail.gte(qty);
+    const reserve = (side: 'Buy' | 'Sell', price: Decimal, qty: Decimal) => {
+      if (side === 'Buy') quoteAvail = quoteAvail.minus(qty.mul(price));
+      else baseAvail = baseAvail.minus(qty);
+    };
+
+    // 1. Flip filled levels to the opposite side one line away.
+    const stillPending: PendingFlip[] = [];
+    for (const flip of state.pendingFlips) {
+      const price = state.prices[flip.level];
+      if (state.slots.has(flip.level) || (postOnly && wouldCross(flip.side, price))) {
+        stillPending.push(flip);
+        continue;
+      }
+      if (!affordable(flip.side, price, flip.quantity)) {
+        stillPending.push(flip);
+        skipReasons.push(`${flip.side} flip @ ${formatPrice(price)}: insufficient balance`);
+        continue;
+      }
+      const exec = await this.placeLevel(market, config, state, flip.level, flip.side, flip.quantity);
+      orders.push(exec);
+      if (exec.success) reserve(flip.side, price, flip.quantity);
+    }
+    state.pendingFlips = stillPending;
+
+    // 2. Top up each side outward to `perSide` orders.
+    const sizeUsd = grid.orderSizeUsd ?? config.positionSizing.fixedUsdAmount ?? config.positionSizing.minOrderSizeUsd;
+    const reserved = new Set(state.pendingFlips.map((f) => f.level));
+    for (const side of ['Buy', 'Sell'] as const) {
+      let count = this.levelsOf(state, side).length;
+      for (const level of this.topUpCandidates(state, side, midPrice)) {
+        if (count >= perSide) break;
+        if (state.slots.has(level) || reserved.has(level)) continue;
+        const price = state.prices[level];
+        if (postOnly && wouldCross(side, price)) continue;
+        const qty = roundDownToMarketPrecision(new Decimal(sizeUsd).div(price), market);
+        if (qty.mul(price).toNumber() < config.positionSizing.minOrderSizeUsd) {
+          skipReasons.push(`${side} @ ${formatPrice(price)}: grid order size below min $${config.positionSizing.minOrderSizeUsd}`);
+          break;
+        }
+        if (!affordable(side, price, qty)) {
+          skipReasons.push(`${side} @ ${formatPrice(price)}: insufficient balance`);
+          break;
+        }
+        const exec = await this.placeLevel(market, config, state, level, side, qty);
+        orders.push(exec);
+        if (!exec.success) break;
+        reserve(side, price, qty);
+        count++;
+      }
+    }
+
+    // 3. Trim each side back to `perSide`, cancelling the orders farthest from the price.
+    for (const side of ['Buy', 'Sell'] as const) {
+      const levels = this.levelsOf(state, side); // nearest to the price first
+      for (const level of levels.slice(perSide)) {
+        const slot = state.slots.get(level)!;
+        try {
+          await this.orderManager.cancelOrder(slot.orderId, market);
+          state.slots.delete(level);
+        } catch (err) {
+          console.error(`[GridStrategy] ${pair}: failed to cancel out-of-window ${side} ${slot.orderId}:`, err);
+        }
+      }
+    }
+
+    const buys = this.levelsOf(state, 'Buy').length;
+    const sells = this.levelsOf(state, 'Sell').length;
+    diagnostics.openOrdersBuy = buys;
+    diagnostics.openOrdersSell = sells;
+    diagnostics.gridActiveLevels = state.slots.size;
+    diagnostics.gridPendingFlips = state.pendingFlips.length;
+    diagnostics.reasonDetail = `grid ${state.slots.size}/${state.prices.length} levels (${buys} buy / ${sells} sell)`;
+
+    const executed = orders.some((o) => o.success);
+    const result: StrategyExecutionResult = { executed, orders, nextRunAt, diagnostics };
+    if (!executed) {
+      const failed = orders.filter((o) => !o.success && o.error).map((o) => `${o.side}: ${o.error}`);
+      const reasons = [...failed, ...skipReasons];
+      if (reasons.length > 0) {
+        result.skipReason = `${pair}: ${reasons.join('; ')}`;
+        result.skipCategory = failed.length === 0 && skipReasons.some((r) => r.includes('insufficient'))
+          ? 'insufficient_balance'
+          : 'other';
+      } else {
+        result.skipReason = `${pair}: Grid in place (${buys} buy / ${sells} sell resting)`;
+        result.skipCategory = 'max_open_orders';
+      }
+    }
+    return result;
+  }
+
+  // =========================================================================
+  // LADDER STATE
+  // =========================================================================
+
+  private getState(marketId: string, grid: GridConfig): GridState {
+    const key = [grid.lowerPrice, grid.upperPrice, grid.gridLevels, grid.spacing ?? 'fixed'].join(':');
+    let state = this.states.get(marketId);
+    if (!state || state.key !== key) {
+      state = { key, prices: computeGridPrices(grid), slots: new Map(), pendingFlips: [] };
+      this.states.set(marketId, state);
+    }
+    return state;
+  }
+
+  /** Claim open orders that rest on a grid line (within a quarter step). */
+  private adoptOpenOrders(
+    market: Market,
+    state: GridState,
+    openOrders: Awaited<ReturnType<StrategyOrders['getOpenOrders']>>,
+  ): void {
+    const qScale = new Decimal(10).pow(market.quote.decimals);
+    for (const o of openOrders) {
+      const price = new Decimal(o.price).div(qScale);
+      const level = this.nearestLevel(state, price);
+      const neighbour = state.prices[level === 0 ? 1 : level - 1];
+      const tolerance = state.prices[level].minus(neighbour).abs().div(4);
+      if (price.minus(state.prices[level]).abs().gt(tolerance)) continue;
+      if (state.slots.has(level)) continue;
+      state.slots.set(level, { orderId: o.order_id, side: o.side === 'Buy' ? 'Buy' : 'Sell', unresolvedCycles: 0 });
+    }
+  }
+
+  /**
+   * Release levels whose order left the book. Filled size (from the order's DB
+   * row, updated by OrderManager's fill tracking) becomes a pending flip.
+   */
+  private reconcile(market: Market, state: GridState, openIds: Set<string>): void {
+    const bScale = new Decimal(10).pow(market.base.decimals);
+    for (const [level, slot] of [...state.slots]) {
+      if (openIds.has(normalizeB256(slot.orderId))) {
+        slot.unresolvedCycles = 0;
+        continue;
+      }
+      const row = dbQueries.getOrder(normalizeB256(slot.orderId)) ?? dbQueries.getOrder(slot.orderId);
+      const status: string = row?.status ?? '';
+      const known = status === 'filled' || status === 'cancelled';
+      if (!known && ++slot.unresolvedCycles < MAX_UNRESOLVED_CYCLES) continue;
+
+      state.slots.delete(level);
+      const filled = new Decimal(row?.quantity_fill || '0').div(bScale);
+      if (filled.lte(0)) continue;
+      const target = slot.side === 'Buy' ? level + 1 : level - 1;
+      if (target < 0 || target >= state.prices.length) continue; // edge of the grid: nothing to flip into
+      state.pendingFlips.push({ level: target, side: slot.side === 'Buy' ? 'Sell' : 'Buy', quantity: filled });
+    }
+  }
+
+  /** Grid levels holding an order on `side`, nearest to the price first. */
+  private levelsOf(state: GridState, side: 'Buy' | 'Sell'): number[] {
+    const levels = [...state.slots].filter(([, s]) => s.side === side).map(([l]) => l);
+    return side === 'Buy' ? levels.sort((a, b) => b - a) : levels.sort((a, b) => a - b);
+  }
+
+  /**
+   * Levels to extend a side into, in placement order. Buys grow downward from
+   * below the lowest buy (or two lines under the lowest sell, or under the line
+   * nearest the price); sells mirror that upward. Buys stay below the price and
+   * sells above it.
+   */
+  private topUpCandidates(state: GridState, side: 'Buy' | 'Sell', midPrice: Decimal): number[] {
+    const buys = this.levelsOf(state, 'Buy');
+    const sells = this.levelsOf(state, 'Sell');
+    const gap = this.nearestLevel(state, midPrice);
+    const out: number[] = [];
+    if (side === 'Buy') {
+      const start = buys.length > 0 ? buys[buys.length - 1] - 1 : sells.length > 0 ? sells[0] - 2 : gap - 1;
+      for (let l = Math.min(start, gap); l >= 0; l--) {
+        if (state.prices[l].lt(midPrice)) out.push(l);
+      }
+    } else {
+      const start = sells.length > 0 ? sells[sells.length - 1] + 1 : buys.length > 0 ? buys[0] + 2 : gap + 1;
+      for (let l = Math.max(start, gap); l < state.prices.length; l++) {
+        if (state.prices[l].gt(midPrice)) out.push(l);
+      }
+    }
+    return out;
+  }
+
+  private nearestLevel(state: GridState, price: Decimal): number {
+    let best = 0;
+    for (let i = 1; i < state.prices.length; i++) {
+      if (state.prices[i].minus(price).abs().lt(state.prices[best].minus(price).abs())) best = i;
+    }
+    return best;
+  }
+
+  // =========================================================================
+  // ORDER PLACEMENT
+  // =========================================================================
+
+  private async placeLevel(
+    market: Market,
+    config: StrategyConfig,
+    state: GridState,
+    level: number,
+    side: 'Buy' | 'Sell',
+    quantity: Decimal,
+  ): Promise<OrderExecution> {
+    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
+    const price = state.prices[level];
+    const priceScaled = scaleUpAndTruncateToInt(
+      price,
+      market.quote.decimals,
+      market.quote.max_precision,
+      market.tick_size,
+    ).toFixed(0);
+    const quantityRounded = roundDownToMarketPrecision(quantity, market);
+    const quantityScaled = quantityRounded.mul(new Decimal(10).pow(market.base.decimals)).toFixed(0);
+    const orderType = config.orderConfig.orderType === 'PostOnly' ? 'PostOnly' : 'Spot';
+
+    try {
+      const resp = await this.orderManager.placeOrder(market, side, orderType, priceScaled, quantityScaled);
+      const orderId = resp.orders?.[0]?.order_id || '';
+      if (orderId) state.slots.set(level, { orderId, side, unresolvedCycles: 0 });
+      const quantityPrecision = Math.min(market.base.decimals, 8);
+      return {
+        orderId,
+        side,
+        success: true,
+        price: priceScaled,
+        quantity: quantityScaled,
+        priceHuman: formatPrice(price),
+        quantityHuman: quantityRounded.toFixed(quantityPrecision).replace(/\.?0+$/, ''),
+        marketPair,
+        isLimitOrder: true,
+      };
+    } catch (error: any) {
+      const message = error?.response?.data ? JSON.stringify(error.response.data).slice(0, 200) : error?.message || String(error);
+      console.error(`[GridStrategy] ${side} @ ${formatPrice(price)} failed (${marketPair}): ${message}`);
+      return { orderId: '', side, success: false, error: message, errorDetails: error, marketPair };
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import type { Market } from '../types/market.js';
+import type { FillEvent } from './order-manager.js';
+import * as dbQueries from '../db/queries.js';
+import { strategyKey } from '../types/strategy.js';
+import { normalizeB256 } from '../utils/price-math.js';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average'];
+
+const DUST = 1e-12;
+
+// An open (not yet sold) part of a buy fill, in human units
+export interface Lot {
+  orderId: string;
+  quantity: number;
+  price: number;
+  feePerUnit: number;
+  timestamp: number;
+}
+
+export interface LotMatch {
+  buyOrderId: string | null; // null: no open lot left (inventory from before the bot)
+  sellOrderId: string;
+  quantity: number;
+  buyPrice: number | null;
+  sellPrice: number;
+  buyFee: number;
+  sellFee: number;
+  buyTimestamp: number | null;
+  sellTimestamp: number;
+  pnl: number | null;
+  holdingMs: number | null;
+}
+
+interface LotFill {
+  orderId: string;
+  side: string;
+  price: number;
+  size: number;
+  fee: number;
+  timestamp: number;
+}
+
+/**
+ * LotTracker - lot-based realized P&L next to PnLCalculator's average cost.
+ *
+ * Every buy fill opens a lot; every sell consumes open lots of the same
+ * strategy (by strategyKey) in FIFO or LIFO order, or pro rata at their
+ * average cost, and each consumed piece is stored in `lot_matches` with both
+ * prices, fees, timestamps and its P&L. The method is chosen per market.
+ * Open lots are not persisted: `load()` rebuilds them by replaying the trades
+ * table, so switching method between runs re-lots the whole history.
+ */
+export class LotTracker {
+  private defaultMethod: CostBasisMethod;
+  private methods: Map<string, CostBasisMethod> = new Map();
+  private lots: Map<string, Lot[]> = new Map();
+
+  constructor(defaultMethod: CostBasisMethod = 'fifo') {
+    this.defaultMethod = defaultMethod;
+  }
+
+  setMethod(marketId: string, method: CostBasisMethod): void {
+    this.methods.set(marketId, method);
+  }
+
+  getMethod(marketId: string): CostBasisMethod {
+    return this.methods.get(marketId) ?? this.defaultMethod;
+  }
+
+  /** Rebuild the open lots of these markets from their recorded trades. */
+  load(markets: Market[]): void {
+    for (const market of markets) {
+      for (const key of [...this.lots.keys()]) {
+        if (key === market.market_id || key.startsWith(`${market.market_id}:`)) this.lots.delete(key);
+      }
+      for (const t of dbQueries.getTradesAscending(market.market_id)) {
+        this.apply(market.market_id, t.strategy_name ?? undefined, {
+          orderId: t.order_id,
+          side: t.side,
+          price: t.price,
+          size: t.size,
+          fee: t.fee ?? 0,
+          timestamp: t.timestamp,
+        });
+      }
+    }
+  }
+
+  /** Open lots of one strategy (see strategyKey()), oldest first. */
+  getOpenLots(key: string): Lot[] {
+    return [...(this.lots.get(key) ?? [])];
+  }
+
+  /**
+   * Open or consume lots for a fill and store the matches. `fill.fee` must be
+   * set (quote units) before this is called, as for PnLCalculator.recordFill.
+   */
+  recordFill(fill: FillEvent, baseDecimals: number, quoteDecimals: number): LotMatch[] {
+    const strategyName = dbQueries.getOrder(normalizeB256(fill.orderId))?.strategy_name ?? undefined;
+    const method = this.getMethod(fill.marketId);
+    const matches = this.apply(fill.marketId, strategyName, {
+      orderId: fill.orderId,
+      side: fill.side,
+      price: fill.price / 10 ** quoteDecimals,
+      size: fill.sizeBase / 10 ** baseDecimals,
+      fee: fill.fee,
+      timestamp: fill.timestamp,
+    });
+    for (const m of matches) {
+      dbQueries.insertLotMatch({ marketId: fill.marketId, strategyName, method, ...m });
+    }
+    return matches;
+  }
+
+  private apply(marketId: string, strategyName: string | undefined, fill: LotFill): LotMatch[] {
+    if (!(fill.size > 0)) return [];
+    const key = strategyKey(marketId, strategyName);
+    const lots = this.lots.get(key) ?? [];
+    this.lots.set(key, lots);
+
+    if (fill.side.toLowerCase() === 'buy') {
+      lots.push({
+        orderId: fill.orderId,
+        quantity: fill.size,
+        price: fill.price,
+        feePerUnit: fill.fee / fill.size,
+        timestamp: fill.timestamp,
+      });
+      return [];
+    }
+
+    const sellFeePerUnit = fill.fee / fill.size;
+    const method = this.getMethod(marketId);
+    const matches: LotMatch[] = [];
+    const match = (lot: Lot, quantity: number, buyPrice: number) => {
+      const buyFee = quantity * lot.feePerUnit;
+      const sellFee = quantity * sellFeePerUnit;
+      matches.push({
+        buyOrderId: lot.orderId,
+        sellOrderId: fill.orderId,
+        quantity,
+        buyPrice,
+        sellPrice: fill.price,
+        buyFee,
+        sellFee,
+        buyTimestamp: lot.timestamp,
+        sellTimestamp: fill.timestamp,
+        pnl: (fill.price - buyPrice) * quantity - buyFee - sellFee,
+        holdingMs: fill.timestamp - lot.timestamp,
+      });
+      lot.quantity -= quantity;
+    };
+
+    let remaining = fill.size;
+    if (method === 'average') {
+      // Every open lot gives up the same share, all at the pool's average price
+      const open = lots.reduce((sum, l) => sum + l.quantity, 0);
+      if (open > DUST) {
+        const averagePrice = lots.reduce((sum, l) => sum + l.quantity * l.price, 0) / open;
+        const share = Math.min(1, remaining / open);
+        for (const lot of lots) match(lot, lot.quantity * share, averagePrice);
+        remaining -= open * share;
+      }
+    } else {
+      while (remaining > DUST && lots.length > 0) {
+        const lot = method === 'fifo' ? lots[0] : lots[lots.length - 1];
+        match(lot, Math.min(remaining, lot.quantity), lot.price);
+        remaining -= matches[matches.length - 1].quantity;
+        if (lot.quantity <= DUST) lots.splice(method === 'fifo' ? 0 : lots.length - 1, 1);
+      }
+    }
+    for (let i = lots.length - 1; i >= 0; i--) {
+      if (lots[i].quantity <= DUST) lots.splice(i, 1);
+    }
+
+    if (remaining > DUST) {
+      matches.push({
+        buyOrderId: null,
+        sellOrderId: fill.orderId,
+        quantity: remaining,
+        buyPrice: null,
+        sellPrice: fill.price,
+        buyFee: 0,
+        sellFee: remaining * sellFeePerUnit,
+        buyTimestamp: null,
+        sellTimestamp: fill.timestamp,
+        pnl: null,
+        holdingMs: null,
+      });
+    }
+    return matches;
+  }
+}
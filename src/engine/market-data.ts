@@ -2,19 +2,27 @@ import { EventEmitter } from 'events';
 import type { O2RestClient } from '../api/rest-client.js';
 import type { O2WebSocketClient } from '../api/ws-client.js';
 import type { Market, MarketTicker, OrderBookDepth, MarketInfo } from '../types/market.js';
+import type { Trade } from '../types/order.js';
+
+// Markets, tickers, books and trades
+export type MarketDataRestClient = Pick<O2RestClient, 'getMarkets' | 'getTicker' | 'getDepth' | 'getTrades'>;
+
+const TRADES_CACHE_MS = 5000;
+export type MarketDataWsClient = Pick<EventEmitter, 'on'> & Pick<O2WebSocketClient, 'subscribeDepth'>;
 
 export class MarketDataService extends EventEmitter {
-  private restClient: O2RestClient;
-  private wsClient: O2WebSocketClient;
+  private restClient: MarketDataRestClient;
+  private wsClient: MarketDataWsClient;
   private markets: Map<string, Market> = new Map();
   private marketInfos: Map<string, MarketInfo> = new Map();
   private tickers: Map<string, MarketTicker> = new Map();
   private orderBooks: Map<string, OrderBookDepth> = new Map();
+  private recentTrades: Map<string, { trades: Trade[]; count: number; fetchedAt: number }> = new Map();
   private tickerPollInterval: ReturnType<typeof setInterval> | null = null;
   private depthPollInterval: ReturnType<typeof setInterval> | null = null;
   wsDepthCount = 0;  // public diagnostic counter
 
-  constructor(restClient: O2RestClient, wsClient: O2WebSocketClient) {
+  constructor(restClient: MarketDataRestClient, wsClient: MarketDataWsClient) {
     super();
     this.restClient = restClient;
     this.wsClient = wsClient;
@@ -33,6 +41,11 @@ export class MarketDataService extends EventEmitter {
       this.emit('depth', data.marketId, book);
     });
 
+    // Public prints from subscribe_trades, forwarded as ('trades', marketId, trades)
+    this.wsClient.on('trades', (data: { marketId?: string; trades?: Trade[] }) => {
+      if (data?.marketId && data.trades?.length) this.emit('trades', data.marketId, data.trades);
+    });
+
     // Log unknown WS actions for diagnostics
     this.wsClient.on('ws_action', (action: string) => {
       this.emit('ws_debug', `Unknown WS action: ${action}`);
@@ -130,6 +143,17 @@ export class MarketDataService extends EventEmitter {
     return this.orderBooks.get(marketId) || null;
   }
 
+  // Recent public trades, newest first (REST, cached briefly — strategies call this every cycle)
+  async getRecentTrades(marketId: string, count = 100): Promise<Trade[]> {
+    const cached = this.recentTrades.get(marketId);
+    if (cached && cached.count >= count && Date.now() - cached.fetchedAt < TRADES_CACHE_MS) {
+      return cached.trades.slice(0, count);
+    }
+    const trades = await this.restClient.getTrades(marketId, count);
+    this.recentTrades.set(marketId, { trades, count, fetchedAt: Date.now() });
+    return trades;
+  }
+
   getBestBid(marketId: string): number | null {
     const book = this.orderBooks.get(marketId);
     if (!book || !book.bids.length) return null;
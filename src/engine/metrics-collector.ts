@@ -0,0 +1,225 @@
+import type { Market } from '../types/market.js';
+import type { StrategyExecutionResult } from '../types/strategy.js';
+import type { TradingEngine } from './trading-engine.js';
+import type { OrderManager, FillEvent, OrderPlacedEvent, OrderRejectedEvent } from './order-manager.js';
+import type { PnLCalculator } from './pnl-calculator.js';
+import type { BalanceTracker } from './balance-tracker.js';
+import type { O2WebSocketClient } from '../api/ws-client.js';
+import { normalizeB256 } from '../utils/price-math.js';
+
+type Labels = Record<string, string>;
+
+// Placement → first fill, in seconds
+const FILL_LATENCY_BUCKETS = [0.1, 0.5, 1, 2, 5, 10, 30, 60, 300, 900, 3600];
+// Orders waiting for a first fill; oldest are dropped past this
+const MAX_TRACKED_ORDERS = 2000;
+
+function labelString(labels: Labels): string {
+  const parts = Object.entries(labels).map(
+    ([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+function formatValue(v: number): string {
+  if (Number.isNaN(v)) return 'NaN';
+  if (v === Infinity) return '+Inf';
+  if (v === -Infinity) return '-Inf';
+  return String(v);
+}
+
+/** Trade timestamps arrive as seconds or milliseconds depending on the source. */
+function toMs(value: string | number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return n < 1e12 ? n * 1000 : n;
+}
+
+class Counter {
+  private values = new Map<string, number>();
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelString(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, v] of this.values) lines.push(`${this.name}${key} ${formatValue(v)}`);
+    return lines;
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelString(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((b, i) => { if (value <= b) s!.counts[i]++; });
+    s.sum += value;
+    s.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const s of this.series.values()) {
+      this.buckets.forEach((b, i) => {
+        lines.push(`${this.name}_bucket${labelString({ ...s.labels, le: String(b) })} ${s.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${labelString({ ...s.labels, le: '+Inf' })} ${s.count}`);
+      lines.push(`${this.name}_sum${labelString(s.labels)} ${formatValue(s.sum)}`);
+      lines.push(`${this.name}_count${labelString(s.labels)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+function gauge(name: string, help: string, samples: Array<[Labels, number]>): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`];
+  for (const [labels, v] of samples) lines.push(`${name}${labelString(labels)} ${formatValue(v)}`);
+  return lines;
+}
+
+export interface MetricsCollectorDeps {
+  engine: TradingEngine;
+  orderManager: OrderManager;
+  pnlCalc: PnLCalculator;
+  balanceTracker: BalanceTracker;
+  wsClient: O2WebSocketClient;
+  markets: Market[];
+}
+
+/**
+ * MetricsCollector - Prometheus metrics for a running bot.
+ *
+ * Counters are accumulated from component events (engine cycles and skips,
+ * auto-pauses, order placements / rejections / fills); gauges are read from the
+ * components when scraped (P&L snapshots, cached balances, WebSocket state).
+ * `render()` returns the text exposition format. Market labels are pair tags
+ * such as `ETH_USDC`.
+ */
+export class MetricsCollector {
+  private deps: MetricsCollectorDeps;
+  private pairs = new Map<string, string>();
+
+  private cycles = new Counter('o2_engine_cycles_total', 'Strategy cycles run, by outcome');
+  private skips = new Counter('o2_engine_skips_total', 'Cycles that placed nothing, by skip category');
+  private engineErrors = new Counter('o2_engine_errors_total', 'Errors raised while running a market cycle');
+  private autoPauses = new Counter('o2_engine_auto_pauses_total', 'Auto-pause triggers, by reason');
+  private ordersPlaced = new Counter('o2_orders_placed_total', 'Orders accepted by the exchange');
+  private ordersRejected = new Counter('o2_orders_rejected_total', 'Order submissions rejected by the exchange');
+  private fills = new Counter('o2_fills_total', 'Fill events observed');
+  private filledBase = new Counter('o2_filled_base_total', 'Base quantity filled, in human units');
+  private fillLatency = new Histogram('o2_fill_latency_seconds', 'Time from order placement to its first fill', FILL_LATENCY_BUCKETS);
+
+  private placedAt = new Map<string, number>();
+  private tradeLagSeconds = new Map<string, number>();
+
+  constructor(deps: MetricsCollectorDeps) {
+    this.deps = deps;
+    for (const m of deps.markets) this.pairs.set(m.market_id, `${m.base.symbol}_${m.quote.symbol}`);
+    this.attach();
+  }
+
+  private pair(marketId: string): string {
+    return this.pairs.get(marketId) ?? marketId.slice(0, 10);
+  }
+
+  private attach(): void {
+    const { engine, orderManager } = this.deps;
+
+    engine.on('cycle', (marketId: string, result: StrategyExecutionResult) => {
+      const market = this.pair(marketId);
+      this.cycles.inc({ market, outcome: result.executed ? 'executed' : 'skipped' });
+      if (!result.executed) this.skips.inc({ market, category: result.skipCategory ?? 'other' });
+    });
+    engine.on('error', (marketId: string) => {
+      this.engineErrors.inc({ market: this.pair(marketId) });
+    });
+    engine.on('autoPaused', (info: { marketId: string; reason: string }) => {
+      this.autoPauses.inc({ market: info.marketId === '*' ? 'all' : this.pair(info.marketId), reason: info.reason });
+    });
+
+    orderManager.on('orderPlaced', (e: OrderPlacedEvent) => {
+      this.ordersPlaced.inc({ market: this.pair(e.marketId), side: e.side, type: e.orderType });
+      this.placedAt.set(e.orderId, e.timestamp);
+      if (this.placedAt.size > MAX_TRACKED_ORDERS) {
+        this.placedAt.delete(this.placedAt.keys().next().value!);
+      }
+    });
+    orderManager.on('orderRejected', (e: OrderRejectedEvent) => {
+      for (const marketId of e.marketIds) this.ordersRejected.inc({ market: this.pair(marketId) });
+    });
+    orderManager.on('fill', (fill: FillEvent) => {
+      const market = this.deps.markets.find((m) => m.market_id === fill.marketId);
+      const labels = { market: this.pair(fill.marketId), side: fill.side };
+      this.fills.inc(labels);
+      if (market) this.filledBase.inc(labels, fill.sizeBase / 10 ** market.base.decimals);
+
+      const orderId = normalizeB256(fill.orderId);
+      const placed = this.placedAt.get(orderId);
+      if (placed !== undefined) {
+        this.placedAt.delete(orderId);
+        this.fillLatency.observe({ market: labels.market }, Math.max(0, Date.now() - placed) / 1000);
+      }
+    });
+
+    this.deps.wsClient.on('trades', (update: { marketId?: string; trades?: Array<{ timestamp: string | number }> }) => {
+      if (!update?.marketId || !update.trades?.length) return;
+      const newest = Math.max(...update.trades.map((t) => toMs(t.timestamp)));
+      if (newest > 0) this.tradeLagSeconds.set(update.marketId, Math.max(0, Date.now() - newest) / 1000);
+    });
+  }
+
+  /** Prometheus text exposition format. */
+  render(): string {
+    const { engine, pnlCalc, balanceTracker, wsClient, markets } = this.deps;
+    const now = Date.now();
+    const lines: string[] = [];
+
+    lines.push(...gauge('o2_engine_running', 'Whether the trading engine is running', [[{}, engine.isRunning ? 1 : 0]]));
+    lines.push(...gauge('o2_market_paused', 'Whether a market is paused', markets.map((m) => [
+      { market: this.pair(m.market_id) }, engine.isMarketPaused(m.market_id) ? 1 : 0,
+    ])));
+    lines.push(...this.cycles.render(), ...this.skips.render(), ...this.engineErrors.render(), ...this.autoPauses.render());
+    lines.push(...this.ordersPlaced.render(), ...this.ordersRejected.render(), ...this.fills.render(), ...this.filledBase.render());
+    lines.push(...this.fillLatency.render());
+
+    const snapshots = markets.map((m) => [{ market: this.pair(m.market_id) }, pnlCalc.getSnapshot(m.market_id)] as const);
+    lines.push(...gauge('o2_pnl_realized', 'Realized P&L in quote units', snapshots.map(([l, s]) => [l, s.realizedPnl])));
+    lines.push(...gauge('o2_pnl_unrealized', 'Unrealized P&L in quote units', snapshots.map(([l, s]) => [l, s.unrealizedPnl])));
+    lines.push(...gauge('o2_volume', 'Traded volume in quote units', snapshots.map(([l, s]) => [l, s.totalVolume])));
+    lines.push(...gauge('o2_fees', 'Fees paid in quote units', snapshots.map(([l, s]) => [l, s.totalFees])));
+    lines.push(...gauge('o2_trades', 'Trades recorded', snapshots.map(([l, s]) => [l, s.tradeCount])));
+
+    const balanceSamples: Array<[Labels, number]> = [];
+    const balanceAge: Array<[Labels, number]> = [];
+    for (const m of markets) {
+      const b = balanceTracker.getCachedBalances(m.market_id);
+      if (!b) continue;
+      const market = this.pair(m.market_id);
+      for (const [asset, side, decimals] of [[m.base.symbol, b.base, m.base.decimals], [m.quote.symbol, b.quote, m.quote.decimals]] as const) {
+        balanceSamples.push([{ market, asset, state: 'unlocked' }, Number(side.unlocked) / 10 ** decimals]);
+        balanceSamples.push([{ market, asset, state: 'locked' }, Number(side.locked) / 10 ** decimals]);
+      }
+      balanceAge.push([{ market }, (now - b.lastUpdated) / 1000]);
+    }
+    lines.push(...gauge('o2_balance', 'Last fetched balance in human units', balanceSamples));
+    lines.push(...gauge('o2_balance_age_seconds', 'Age of the cached balances', balanceAge));
+
+    const lastMessage = wsClient.lastMessageTime;
+    lines.push(...gauge('o2_ws_connected', 'Whether the WebSocket is connected', [[{}, wsClient.isConnected ? 1 : 0]]));
+    lines.push('# HELP o2_ws_reconnects_total WebSocket reconnects since start', '# TYPE o2_ws_reconnects_total counter', `o2_ws_reconnects_total ${wsClient.reconnectCount}`);
+    lines.push(...gauge('o2_ws_last_message_age_seconds', 'Time since the last WebSocket message', lastMessage > 0 ? [[{}, (now - lastMessage) / 1000]] : []));
+    lines.push(...gauge('o2_ws_trade_lag_seconds', 'Delay between a trade and its arrival on the feed (latest batch)', [...this.tradeLagSeconds].map(([id, v]) => [{ market: this.pair(id) }, v])));
+
+    return lines.join('\n') + '\n';
+  }
+}
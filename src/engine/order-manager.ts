@@ -8,6 +8,8 @@ import type { SessionAction, SessionActionsResponse } from '../types/api.js';
 import { normalizeB256 } from '../utils/price-math.js';
 import * as dbQueries from '../db/queries.js';
 
+export type FillLiquidity = 'maker' | 'taker';
+
 export interface FillEvent {
   orderId: string;
   marketId: string;
@@ -15,7 +17,30 @@ export interface FillEvent {
   price: number;
   sizeBase: number;
   timestamp: number;
-  fee: number;
+  fee: number; // Quote units, at the market's maker or taker rate (0 for a market not registered via setMarkets)
+  liquidity: FillLiquidity;
+}
+
+// Order types that only ever take liquidity / only ever rest. Covers both the
+// strategy-level values stored in the orders table and the contract enum the
+// exchange reports back.
+const TAKER_ORDER_TYPES = new Set(['BoundedMarket', 'Market', 'IOC', 'FOK', 'FillOrKill', 'ImmediateOrCancel']);
+const MAKER_ORDER_TYPES = new Set(['PostOnly']);
+
+// Emitted once per order the exchange accepted ('orderPlaced') and once per
+// submission it rejected ('orderRejected'), whichever placement path was used.
+export interface OrderPlacedEvent {
+  orderId: string;
+  marketId: string;
+  side: string;
+  orderType: string;
+  timestamp: number;
+}
+
+export interface OrderRejectedEvent {
+  marketIds: string[];
+  error: string;
+  timestamp: number;
 }
 
 // Default slippage tolerance (%) applied to BoundedMarket orders when a caller
@@ -50,17 +75,48 @@ export function computeBoundedBand(
   return { maxPrice: U64_MAX.toString(), minPrice: ((ref * downScale) / SCALE).toString() };
 }
 
+// Order placement and order updates (see SimulatedExchange for the offline side)
+export type OrderActionSubmitter = Pick<SessionManager, 'tradeAccount' | 'submitActions' | 'submitBatch'>;
+export type OrderRestClient = Pick<O2RestClient, 'getOrders'>;
+export type OrderWsClient = Pick<EventEmitter, 'on'> & Pick<O2WebSocketClient, 'subscribeOrders'>;
+
+/** One order of a multi-market batch (see OrderManager.placeOrderBatch). */
+export interface OrderLeg {
+  market: Market;
+  side: 'Buy' | 'Sell';
+  orderType: string;
+  priceScaled: string;
+  quantityScaled: string;
+  slippagePercent?: number;
+  strategyName?: string;
+}
+
+/**
+ * What a strategy needs from the order manager. `OrderManager.forStrategy()`
+ * returns one scoped to a strategy tag: its placements are tagged in the
+ * orders table and it only sees (and cancels) the orders it owns.
+ */
+export type StrategyOrders = Pick<
+  OrderManager,
+  'placeOrder' | 'placeOrderBatch' | 'replaceOrder' | 'cancelOrder' | 'cancelAllOrders' | 'getOpenOrders'
+>;
+
 export class OrderManager extends EventEmitter {
-  private sessionManager: SessionManager;
-  private restClient: O2RestClient;
-  private wsClient: O2WebSocketClient;
+  private sessionManager: OrderActionSubmitter;
+  private restClient: OrderRestClient;
+  private wsClient: OrderWsClient;
   private previousFilledQty: Map<string, number> = new Map();
+  // Maker/taker classification: fee rates per market, the type each order was
+  // placed with, and the orders seen resting (open, not filled in full on arrival).
+  private markets: Map<string, Market> = new Map();
+  private orderTypes: Map<string, string> = new Map();
+  private restingSeen: Set<string> = new Set();
   private pollingIntervals: Map<string, ReturnType<typeof setInterval>> = new Map();
 
   constructor(
-    sessionManager: SessionManager,
-    restClient: O2RestClient,
-    wsClient: O2WebSocketClient
+    sessionManager: OrderActionSubmitter,
+    restClient: OrderRestClient,
+    wsClient: OrderWsClient
   ) {
     super();
     this.sessionManager = sessionManager;
@@ -83,8 +139,14 @@ export class OrderManager extends EventEmitter {
     }
   }
 
+  /** Register markets whose fills get a maker/taker fee (seedFillTracker does this too). */
+  setMarkets(markets: Market[]): void {
+    for (const market of markets) this.markets.set(market.market_id, market);
+  }
+
   // Seed the fill tracker with existing orders to prevent false fill detection
   async seedFillTracker(markets: Market[]): Promise<void> {
+    this.setMarkets(markets);
     for (const market of markets) {
       try {
         const orders = await this.restClient.getOrders({
@@ -98,6 +160,10 @@ export class OrderManager extends EventEmitter {
           if (filledQty > 0) {
             this.previousFilledQty.set(order.order_id, filledQty);
           }
+          const orderId = normalizeB256(order.order_id);
+          if (order.order_type && !this.orderTypes.has(orderId)) this.orderTypes.set(orderId, order.order_type);
+          // Still open from before the restart: any fill from here on is a maker fill
+          if (!order.close && !order.cancel) this.restingSeen.add(orderId);
         }
       } catch (err) {
         console.error(`[OrderManager] Failed to seed fill tracker for ${market.base.symbol}/${market.quote.symbol}:`, err);
@@ -113,19 +179,134 @@ export class OrderManager extends EventEmitter {
   // Note: the underlying contract has no native ImmediateOrCancel — we map IOC -> FillOrKill
   // (see session-manager.ts switch).
   // `slippagePercent` is only consulted for BoundedMarket orders; it defaults to
-  // DEFAULT_BOUNDED_SLIPPAGE_PERCENT (2%) when omitted.
+  // DEFAULT_BOUNDED_SLIPPAGE_PERCENT (2%) when omitted. `strategyName` tags the
+  // order row with the strategy that placed it (untagged = primary strategy).
   async placeOrder(
     market: Market,
     side: string,
     orderType: string,
     priceScaled: string,
     quantityScaled: string,
-    slippagePercent: number = DEFAULT_BOUNDED_SLIPPAGE_PERCENT
+    slippagePercent: number = DEFAULT_BOUNDED_SLIPPAGE_PERCENT,
+    strategyName?: string
   ): Promise<SessionActionsResponse> {
     const tradeAccountId = this.sessionManager.tradeAccount;
+    const actions: SessionAction[] = [
+      { SettleBalance: { to: { ContractId: tradeAccountId } } },
+      this.createOrderAction(side, orderType, priceScaled, quantityScaled, slippagePercent),
+      { SettleBalance: { to: { ContractId: tradeAccountId } } },
+    ];
+
+    const resp = await this.submitOrRecordRejection([market.market_id], () =>
+      this.sessionManager.submitActions(market.market_id, market, actions)
+    );
+
+    // Record in DB
+    if (resp.orders) {
+      for (const o of resp.orders) {
+        if (o.order_id) {
+          this.emitPlaced(o.order_id, market.market_id, side, orderType);
+          dbQueries.insertOrder({
+            orderId: normalizeB256(o.order_id),
+            marketId: market.market_id,
+            side,
+            orderType,
+            price: priceScaled,
+            quantity: quantityScaled,
+            status: 'open',
+            txId: resp.tx_id,
+            strategyName,
+          });
+        }
+      }
+    }
+
+    return resp;
+  }
+
+  /**
+   * Place orders on several markets in one signed request. Legs are grouped per
+   * market (in first-seen order) and each group settles before and after its
+   * orders, so proceeds from an earlier group are spendable by a later one.
+   * The whole request succeeds or fails together.
+   */
+  async placeOrderBatch(legs: OrderLeg[]): Promise<SessionActionsResponse> {
+    const tradeAccountId = this.sessionManager.tradeAccount;
+    const groups: Array<{ market_id: string; actions: SessionAction[]; legs: OrderLeg[] }> = [];
+    for (const leg of legs) {
+      let group = groups.find((g) => g.market_id === leg.market.market_id);
+      if (!group) {
+        group = { market_id: leg.market.market_id, actions: [{ SettleBalance: { to: { ContractId: tradeAccountId } } }], legs: [] };
+        groups.push(group);
+      }
+      group.actions.push(this.createOrderAction(
+        leg.side,
+        leg.orderType,
+        leg.priceScaled,
+        leg.quantityScaled,
+        leg.slippagePercent ?? DEFAULT_BOUNDED_SLIPPAGE_PERCENT,
+      ));
+      group.legs.push(leg);
+    }
+    for (const group of groups) {
+      group.actions.push({ SettleBalance: { to: { ContractId: tradeAccountId } } });
+    }
+
+    const resp = await this.submitOrRecordRejection(groups.map((g) => g.market_id), () =>
+      this.sessionManager.submitBatch(groups.map((g) => ({ market_id: g.market_id, actions: g.actions })))
+    );
+
+    // Created orders come back in submission order
+    const ordered = groups.flatMap((g) => g.legs);
+    (resp.orders ?? []).forEach((o, i) => {
+      const leg = ordered[i];
+      if (!o.order_id || !leg) return;
+      this.emitPlaced(o.order_id, leg.market.market_id, leg.side, leg.orderType);
+      dbQueries.insertOrder({
+        orderId: normalizeB256(o.order_id),
+        marketId: leg.market.market_id,
+        side: leg.side,
+        orderType: leg.orderType,
+        price: leg.priceScaled,
+        quantity: leg.quantityScaled,
+        status: 'open',
+        txId: resp.tx_id,
+        strategyName: leg.strategyName,
+      });
+    });
+
+    return resp;
+  }
+
+  private async submitOrRecordRejection(
+    marketIds: string[],
+    submit: () => Promise<SessionActionsResponse>
+  ): Promise<SessionActionsResponse> {
+    try {
+      return await submit();
+    } catch (err: any) {
+      const error = err?.response?.data ? JSON.stringify(err.response.data).slice(0, 200) : err?.message || String(err);
+      const event: OrderRejectedEvent = { marketIds, error, timestamp: Date.now() };
+      this.emit('orderRejected', event);
+      throw err;
+    }
+  }
 
-    // Map strategy-level order types to contract-level enum values understood by
-    // session-manager.submitActionsImpl (PostOnly | Limit | Spot | Market | BoundedMarket | FillOrKill).
+  private emitPlaced(orderId: string, marketId: string, side: string, orderType: string): void {
+    const event: OrderPlacedEvent = { orderId: normalizeB256(orderId), marketId, side, orderType, timestamp: Date.now() };
+    this.orderTypes.set(event.orderId, orderType);
+    this.emit('orderPlaced', event);
+  }
+
+  // Map a strategy-level order type onto a CreateOrder action understood by
+  // session-manager.submitActionsImpl (PostOnly | Limit | Spot | Market | BoundedMarket | FillOrKill).
+  private createOrderAction(
+    side: string,
+    orderType: string,
+    priceScaled: string,
+    quantityScaled: string,
+    slippagePercent: number,
+  ): SessionAction {
     let contractOrderType = orderType;
     switch (orderType) {
       case 'BoundedMarket':
@@ -155,47 +336,17 @@ export class OrderManager extends EventEmitter {
       boundedBand = computeBoundedBand(priceScaled, side, slippagePercent);
     }
 
-    const actions: SessionAction[] = [
-      { SettleBalance: { to: { ContractId: tradeAccountId } } },
-      {
-        CreateOrder: {
-          side,
-          order_type: contractOrderType,
-          price: priceScaled,
-          quantity: quantityScaled,
-          ...(boundedBand
-            ? { max_price: boundedBand.maxPrice, min_price: boundedBand.minPrice }
-            : {}),
-        },
+    return {
+      CreateOrder: {
+        side,
+        order_type: contractOrderType,
+        price: priceScaled,
+        quantity: quantityScaled,
+        ...(boundedBand
+          ? { max_price: boundedBand.maxPrice, min_price: boundedBand.minPrice }
+          : {}),
       },
-      { SettleBalance: { to: { ContractId: tradeAccountId } } },
-    ];
-
-    const resp = await this.sessionManager.submitActions(
-      market.market_id,
-      market,
-      actions
-    );
-
-    // Record in DB
-    if (resp.orders) {
-      for (const o of resp.orders) {
-        if (o.order_id) {
-          dbQueries.insertOrder({
-            orderId: normalizeB256(o.order_id),
-            marketId: market.market_id,
-            side,
-            orderType,
-            price: priceScaled,
-            quantity: quantityScaled,
-            status: 'open',
-            txId: resp.tx_id,
-          });
-        }
-      }
-    }
-
-    return resp;
+    };
   }
 
   // Cancel a single order
@@ -207,6 +358,58 @@ export class OrderManager extends EventEmitter {
     dbQueries.updateOrderStatus(orderId, 'cancelled');
   }
 
+  // Cancel-replace (amend) a resting order: CancelOrder and the new CreateOrder go
+  // out in one signed transaction, so the order is never missing from the book and
+  // a rejected replacement leaves the original resting. Funds released by the
+  // cancel are settled before the new order locks them. The DB rows link the old
+  // and new order ids (replaced_by_order_id / replaces_order_id).
+  async replaceOrder(
+    market: Market,
+    oldOrderId: string,
+    side: string,
+    orderType: string,
+    priceScaled: string,
+    quantityScaled: string,
+    slippagePercent: number = DEFAULT_BOUNDED_SLIPPAGE_PERCENT,
+    strategyName?: string
+  ): Promise<SessionActionsResponse> {
+    const tradeAccountId = this.sessionManager.tradeAccount;
+    const actions: SessionAction[] = [
+      { CancelOrder: { order_id: oldOrderId } },
+      { SettleBalance: { to: { ContractId: tradeAccountId } } },
+      this.createOrderAction(side, orderType, priceScaled, quantityScaled, slippagePercent),
+      { SettleBalance: { to: { ContractId: tradeAccountId } } },
+    ];
+
+    const resp = await this.submitOrRecordRejection([market.market_id], () =>
+      this.sessionManager.submitActions(market.market_id, market, actions)
+    );
+
+    const newOrderId = resp.orders?.find((o) => o.order_id)?.order_id;
+    if (newOrderId) {
+      this.emitPlaced(newOrderId, market.market_id, side, orderType);
+      const normalized = normalizeB256(newOrderId);
+      dbQueries.insertOrder({
+        orderId: normalized,
+        marketId: market.market_id,
+        side,
+        orderType,
+        price: priceScaled,
+        quantity: quantityScaled,
+        status: 'open',
+        txId: resp.tx_id,
+        strategyName,
+        replacesOrderId: oldOrderId,
+      });
+      dbQueries.markOrderReplaced(oldOrderId, normalized);
+    } else {
+      // Marketable replacements can fill immediately and never rest
+      dbQueries.updateOrderStatus(oldOrderId, 'cancelled');
+    }
+
+    return resp;
+  }
+
   // Submit a single SettleBalance action for a market. Used during graceful
   // shutdown to drain any settled-but-not-withdrawn trade proceeds back into
   // the trade account. If there is nothing pending, the call is a cheap no-op
@@ -221,7 +424,10 @@ export class OrderManager extends EventEmitter {
 
   // Cancel all open orders for a market
   async cancelAllOrders(market: Market): Promise<void> {
-    const openOrders = await this.getOpenOrders(market);
+    await this.cancelOrders(market, await this.getOpenOrders(market));
+  }
+
+  private async cancelOrders(market: Market, openOrders: Order[]): Promise<void> {
     if (openOrders.length === 0) return;
 
     // Cancel in batches of 5
@@ -243,13 +449,38 @@ export class OrderManager extends EventEmitter {
 
   // Get open orders for a market
   async getOpenOrders(market: Market): Promise<Order[]> {
-    return this.restClient.getOrders({
+    const orders = await this.restClient.getOrders({
       market_id: market.market_id,
       contract: this.sessionManager.tradeAccount,
       count: 100,
       direction: 'desc',
       is_open: true,
     });
+    for (const o of orders) this.restingSeen.add(normalizeB256(o.order_id));
+    return orders;
+  }
+
+  /**
+   * View of this manager for one strategy on a market. The primary strategy
+   * (no tag) owns untagged orders, including any placed outside the bot;
+   * a tagged strategy owns only the orders it placed.
+   */
+  forStrategy(strategyName?: string): StrategyOrders {
+    const owned = async (market: Market): Promise<Order[]> => {
+      const orders = await this.getOpenOrders(market);
+      const owners = dbQueries.getOrderStrategyNames(orders.map((o) => normalizeB256(o.order_id)));
+      return orders.filter((o) => (owners.get(normalizeB256(o.order_id)) ?? undefined) === strategyName);
+    };
+    return {
+      placeOrder: (market, side, orderType, priceScaled, quantityScaled, slippagePercent) =>
+        this.placeOrder(market, side, orderType, priceScaled, quantityScaled, slippagePercent, strategyName),
+      placeOrderBatch: (legs) => this.placeOrderBatch(legs.map((leg) => ({ ...leg, strategyName }))),
+      replaceOrder: (market, oldOrderId, side, orderType, priceScaled, quantityScaled, slippagePercent) =>
+        this.replaceOrder(market, oldOrderId, side, orderType, priceScaled, quantityScaled, slippagePercent, strategyName),
+      cancelOrder: (orderId, market) => this.cancelOrder(orderId, market),
+      cancelAllOrders: async (market) => this.cancelOrders(market, await owned(market)),
+      getOpenOrders: owned,
+    };
   }
 
   // Handle order updates from WebSocket or polling
@@ -257,8 +488,12 @@ export class OrderManager extends EventEmitter {
     for (const order of orders) {
       const isFilled = order.close === true;
       const isPartiallyFilled = order.partially_filled === true;
+      const orderId = normalizeB256(order.order_id);
 
-      if (!isFilled && !isPartiallyFilled) continue;
+      if (!isFilled && !isPartiallyFilled) {
+        if (order.close !== true && order.cancel !== true) this.restingSeen.add(orderId);
+        continue;
+      }
 
       const cumulativeFilledQty = parseFloat(order.quantity_fill || '0');
       if (cumulativeFilledQty <= 0) continue;
@@ -275,15 +510,20 @@ export class OrderManager extends EventEmitter {
       // Normalize side to capitalized form
       const normalizedSide = (order.side === 'buy' || order.side === 'Buy') ? 'Buy' : 'Sell';
 
+      const marketId = order.market_id || '';
+      const liquidity = this.classifyFill(orderId, order.order_type);
       const fill: FillEvent = {
         orderId: order.order_id,
-        marketId: order.market_id || '',
+        marketId,
         side: normalizedSide,
         price: fillPrice,
         sizeBase: incrementalQty,
         timestamp: parseInt(order.timestamp) || Date.now(),
-        fee: 0, // Estimated by PnL calculator from market fee rates
+        fee: this.estimateFee(marketId, fillPrice, incrementalQty, liquidity),
+        liquidity,
       };
+      // Whatever is left of a partially filled order now rests on the book
+      if (isPartiallyFilled && !isFilled) this.restingSeen.add(orderId);
 
       this.emit('fill', fill);
 
@@ -308,6 +548,35 @@ export class OrderManager extends EventEmitter {
         this.previousFilledQty.delete(key);
       }
     }
+    for (const tracked of [this.orderTypes, this.restingSeen]) {
+      if (tracked.size <= 500) continue;
+      const keys = [...tracked.keys()];
+      for (const key of keys.slice(0, keys.length - 500)) tracked.delete(key);
+    }
+  }
+
+  /**
+   * Maker or taker, from the order type and whether the order was seen resting.
+   * Marketable types always take and PostOnly always makes. A Spot/Limit order
+   * makes once an order update, poll or open-orders read has shown it on the
+   * book; fills before that crossed the book on arrival and take. Orders of
+   * unknown type are counted as taker, the more expensive side.
+   */
+  private classifyFill(orderId: string, reportedType?: string): FillLiquidity {
+    const orderType = this.orderTypes.get(orderId) ?? reportedType;
+    if (!orderType || TAKER_ORDER_TYPES.has(orderType)) return 'taker';
+    if (MAKER_ORDER_TYPES.has(orderType)) return 'maker';
+    return this.restingSeen.has(orderId) ? 'maker' : 'taker';
+  }
+
+  // Fee in quote units for a fill; rates are parts per million of notional
+  private estimateFee(marketId: string, priceScaled: number, sizeBaseScaled: number, liquidity: FillLiquidity): number {
+    const market = this.markets.get(marketId);
+    if (!market) return 0;
+    const rate = parseFloat(liquidity === 'maker' ? market.maker_fee : market.taker_fee) / 1_000_000;
+    const priceHuman = priceScaled / 10 ** market.quote.decimals;
+    const sizeHuman = sizeBaseScaled / 10 ** market.base.decimals;
+    return priceHuman * sizeHuman * (rate || 0);
   }
 
   // Start REST polling fallback for fill detection
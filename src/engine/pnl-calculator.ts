@@ -1,13 +1,19 @@
 import { EventEmitter } from 'events';
 import type { FillEvent } from './order-manager.js';
 import * as dbQueries from '../db/queries.js';
+import { strategyKey } from '../types/strategy.js';
+import { normalizeB256 } from '../utils/price-math.js';
 
 export interface PnLSnapshot {
   realizedPnl: number;
   unrealizedPnl: number;
   totalVolume: number;
   totalFees: number;
+  makerFees: number;
+  takerFees: number;
   tradeCount: number;
+  makerCount: number;
+  takerCount: number;
   buyCount: number;
   sellCount: number;
   totalBuyValue: number;
@@ -20,7 +26,10 @@ export interface PnLSnapshot {
 
 export class PnLCalculator extends EventEmitter {
   private snapshots: Map<string, PnLSnapshot> = new Map();
-  private snapshotInterval: ReturnType<typeof setInterval> | null = null;
+  // Per strategy (keyed by strategyKey), for markets running more than one.
+  // Realized P&L is measured against the owning strategy's own average buy
+  // price, and the market snapshot accumulates the same amounts.
+  private strategySnapshots: Map<string, PnLSnapshot> = new Map();
 
   getSnapshot(marketId?: string): PnLSnapshot {
     if (marketId) {
@@ -33,7 +42,11 @@ export class PnLCalculator extends EventEmitter {
       aggregate.unrealizedPnl += snap.unrealizedPnl;
       aggregate.totalVolume += snap.totalVolume;
       aggregate.totalFees += snap.totalFees;
+      aggregate.makerFees += snap.makerFees;
+      aggregate.takerFees += snap.takerFees;
       aggregate.tradeCount += snap.tradeCount;
+      aggregate.makerCount += snap.makerCount;
+      aggregate.takerCount += snap.takerCount;
       aggregate.buyCount += snap.buyCount;
       aggregate.sellCount += snap.sellCount;
       aggregate.totalBuyValue += snap.totalBuyValue;
@@ -42,18 +55,68 @@ export class PnLCalculator extends EventEmitter {
     return aggregate;
   }
 
+  /** P&L of one strategy; see strategyKey() (the market id for the primary strategy). */
+  getStrategySnapshot(key: string): PnLSnapshot {
+    return this.strategySnapshots.get(key) || this.emptySnapshot();
+  }
+
   recordFill(fill: FillEvent, baseDecimals: number, quoteDecimals: number): void {
     const marketId = fill.marketId;
     const snap = this.snapshots.get(marketId) || this.emptySnapshot();
+    const strategyName = dbQueries.getOrder(normalizeB256(fill.orderId))?.strategy_name ?? undefined;
+    const key = strategyKey(marketId, strategyName);
+    const strategySnap = this.strategySnapshots.get(key) || this.emptySnapshot();
 
     // Price is scaled by quote decimals, size by base decimals
     const priceHuman = fill.price / 10 ** quoteDecimals;
     const sizeHuman = fill.sizeBase / 10 ** baseDecimals;
+
+    const tradePnl = this.applyFill(strategySnap, fill, priceHuman, sizeHuman, strategySnap.averageBuyPrice);
+    this.applyFill(snap, fill, priceHuman, sizeHuman, strategySnap.averageBuyPrice);
+
+    this.snapshots.set(marketId, snap);
+    this.strategySnapshots.set(key, strategySnap);
+
+    // Record trade in DB with incremental P&L (not cumulative)
+    dbQueries.insertTrade({
+      orderId: fill.orderId,
+      marketId: fill.marketId,
+      side: fill.side,
+      price: priceHuman,
+      size: sizeHuman,
+      fee: fill.fee,
+      timestamp: fill.timestamp,
+      pnlUsdc: tradePnl,
+      strategyName,
+      liquidity: fill.liquidity,
+    });
+
+    this.emit('pnlUpdate', marketId, snap);
+  }
+
+  /**
+   * Add a fill to a snapshot. Sells realize P&L against `costBasis` (the owning
+   * strategy's average buy price before this fill); returns the amount realized.
+   */
+  private applyFill(
+    snap: PnLSnapshot,
+    fill: FillEvent,
+    priceHuman: number,
+    sizeHuman: number,
+    costBasis: number
+  ): number | undefined {
     const value = priceHuman * sizeHuman;
 
     snap.tradeCount++;
     snap.totalVolume += value;
     snap.totalFees += fill.fee;
+    if (fill.liquidity === 'maker') {
+      snap.makerCount++;
+      snap.makerFees += fill.fee;
+    } else {
+      snap.takerCount++;
+      snap.takerFees += fill.fee;
+    }
 
     let tradePnl: number | undefined;
 
@@ -73,51 +136,12 @@ export class PnLCalculator extends EventEmitter {
       }
 
       // Calculate realized PnL on sells (incremental, not cumulative)
-      if (snap.averageBuyPrice > 0) {
-        tradePnl = (priceHuman - snap.averageBuyPrice) * sizeHuman - fill.fee;
+      if (costBasis > 0) {
+        tradePnl = (priceHuman - costBasis) * sizeHuman - fill.fee;
         snap.realizedPnl += tradePnl;
       }
     }
-
-    this.snapshots.set(marketId, snap);
-
-    // Record trade in DB with incremental P&L (not cumulative)
-    dbQueries.insertTrade({
-      orderId: fill.orderId,
-      marketId: fill.marketId,
-      side: fill.side,
-      price: priceHuman,
-      size: sizeHuman,
-      fee: fill.fee,
-      timestamp: fill.timestamp,
-      pnlUsdc: tradePnl,
-    });
-
-    this.emit('pnlUpdate', marketId, snap);
-  }
-
-  startSnapshotting(intervalMs = 30000): void {
-    this.stopSnapshotting();
-    this.snapshotInterval = setInterval(() => {
-      for (const [marketId, snap] of this.snapshots) {
-        dbQueries.insertSnapshot({
-          marketId,
-          baseBalance: 0,
-          quoteBalance: 0,
-          currentPrice: 0,
-          realizedPnl: snap.realizedPnl,
-          unrealizedPnl: snap.unrealizedPnl,
-          sessionPnl: snap.realizedPnl + snap.unrealizedPnl,
-        });
-      }
-    }, intervalMs);
-  }
-
-  stopSnapshotting(): void {
-    if (this.snapshotInterval) {
-      clearInterval(this.snapshotInterval);
-      this.snapshotInterval = null;
-    }
+    return tradePnl;
   }
 
   private emptySnapshot(): PnLSnapshot {
@@ -126,7 +150,11 @@ export class PnLCalculator extends EventEmitter {
       unrealizedPnl: 0,
       totalVolume: 0,
       totalFees: 0,
+      makerFees: 0,
+      takerFees: 0,
       tradeCount: 0,
+      makerCount: 0,
+      takerCount: 0,
       buyCount: 0,
       sellCount: 0,
       totalBuyValue: 0,
@@ -137,8 +165,4 @@ export class PnLCalculator extends EventEmitter {
       averageSellPrice: 0,
     };
   }
-
-  shutdown(): void {
-    this.stopSnapshotting();
-  }
 }
@@ -0,0 +1,173 @@
+import type { Market } from '../types/market.js';
+import type {
+  PortfolioRiskBreach,
+  PortfolioRiskConfig,
+  PortfolioRiskSnapshot,
+} from '../types/strategy.js';
+import type { MarketDataService } from './market-data.js';
+import type { BalanceTracker } from './balance-tracker.js';
+import { getAccountHoldings, type AssetHolding } from './capital-allocator.js';
+
+/** True when at least one account-wide limit is configured. */
+export function hasPortfolioLimits(config: PortfolioRiskConfig): boolean {
+  return [
+    config.maxExposureUsd,
+    config.maxDrawdownPercent,
+    config.maxDrawdownUsd,
+    config.maxOpenNotionalUsd,
+    config.maxConcentrationPercent,
+  ].some((v) => v !== undefined);
+}
+
+/**
+ * PortfolioRiskManager - account-wide exposure and drawdown limits.
+ *
+ * Values every asset the traded markets touch in USD (see getAssetUsdPrice)
+ * and checks the configured limits across all markets at once:
+ *  - exposure: value of the non-stable assets held (resting sells included)
+ *  - drawdown: equity below its peak since the last `rebaseline()`
+ *  - open notional: value locked in open orders across all books
+ *  - concentration: the largest asset, or group of correlated assets, as a
+ *    share of equity
+ *
+ * Holds no trading logic; the TradingEngine decides what a breach does.
+ */
+export class PortfolioRiskManager {
+  private config: PortfolioRiskConfig;
+  private marketData: MarketDataService;
+  private balanceTracker: BalanceTracker;
+  private markets: Market[];
+  private peakEquityUsd = 0;
+  private snapshot: PortfolioRiskSnapshot | null = null;
+
+  constructor(
+    config: PortfolioRiskConfig,
+    marketData: MarketDataService,
+    balanceTracker: BalanceTracker,
+    markets: Market[]
+  ) {
+    this.config = config;
+    this.marketData = marketData;
+    this.balanceTracker = balanceTracker;
+    this.markets = markets;
+  }
+
+  get riskConfig(): PortfolioRiskConfig {
+    return this.config;
+  }
+
+  /** Latest evaluated snapshot (null before the first check). */
+  getSnapshot(): PortfolioRiskSnapshot | null {
+    return this.snapshot;
+  }
+
+  /** Measure drawdown from the next evaluation's equity onwards. */
+  rebaseline(): void {
+    this.peakEquityUsd = 0;
+  }
+
+  async evaluate(): Promise<{ snapshot: PortfolioRiskSnapshot; breaches: PortfolioRiskBreach[] }> {
+    const holdings = await getAccountHoldings(this.markets, this.balanceTracker, this.marketData);
+    const snapshot = this.buildSnapshot(holdings);
+    this.snapshot = snapshot;
+    return { snapshot, breaches: this.checkLimits(snapshot) };
+  }
+
+  private buildSnapshot(holdings: AssetHolding[]): PortfolioRiskSnapshot {
+    let equityUsd = 0;
+    let exposureUsd = 0;
+    let openNotionalUsd = 0;
+    let unpriced = false;
+    const valueBySymbol = new Map<string, number>();
+    for (const h of holdings) {
+      // Unpriced assets (no mid yet) are left out of the values
+      if (!h.usdPrice) {
+        if (h.total > 0) unpriced = true;
+        continue;
+      }
+      const value = h.total * h.usdPrice;
+      equityUsd += value;
+      openNotionalUsd += h.locked * h.usdPrice;
+      if (!h.stable) {
+        exposureUsd += value;
+        valueBySymbol.set(h.symbol.toUpperCase(), value);
+      }
+    }
+
+    // A holding dropping out of the valuation (empty book) is not a loss:
+    // drawdown is only measured on a complete valuation.
+    if (!unpriced && equityUsd > this.peakEquityUsd) this.peakEquityUsd = equityUsd;
+    const drawdownUsd = unpriced ? 0 : Math.max(0, this.peakEquityUsd - equityUsd);
+
+    return {
+      equityUsd,
+      peakEquityUsd: this.peakEquityUsd,
+      drawdownUsd,
+      drawdownPercent: this.peakEquityUsd > 0 ? (drawdownUsd / this.peakEquityUsd) * 100 : 0,
+      exposureUsd,
+      openNotionalUsd,
+      concentration: this.largestGroup(valueBySymbol, equityUsd),
+      updatedAt: Date.now(),
+    };
+  }
+
+  private largestGroup(valueBySymbol: Map<string, number>, equityUsd: number): PortfolioRiskSnapshot['concentration'] {
+    if (equityUsd <= 0 || valueBySymbol.size === 0) return null;
+    const grouped = new Set<string>();
+    const groups: string[][] = [];
+    for (const group of this.config.correlatedAssets ?? []) {
+      const held = group.filter((s) => valueBySymbol.has(s));
+      if (held.length === 0) continue;
+      groups.push(held);
+      for (const s of held) grouped.add(s);
+    }
+    for (const symbol of valueBySymbol.keys()) {
+      if (!grouped.has(symbol)) groups.push([symbol]);
+    }
+
+    let best: PortfolioRiskSnapshot['concentration'] = null;
+    for (const assets of groups) {
+      const value = assets.reduce((sum, s) => sum + (valueBySymbol.get(s) ?? 0), 0);
+      const percent = (value / equityUsd) * 100;
+      if (!best || percent > best.percent) best = { assets, percent };
+    }
+    return best;
+  }
+
+  private checkLimits(s: PortfolioRiskSnapshot): PortfolioRiskBreach[] {
+    const c = this.config;
+    const breaches: PortfolioRiskBreach[] = [];
+    const usd = (n: number) => `$${n.toFixed(2)}`;
+
+    if (c.maxExposureUsd !== undefined && s.exposureUsd > c.maxExposureUsd) {
+      breaches.push({
+        limit: 'exposure', value: s.exposureUsd, threshold: c.maxExposureUsd,
+        message: `exposure ${usd(s.exposureUsd)} > ${usd(c.maxExposureUsd)}`,
+      });
+    }
+    if (c.maxDrawdownPercent !== undefined && s.drawdownPercent > c.maxDrawdownPercent) {
+      breaches.push({
+        limit: 'drawdown', value: s.drawdownPercent, threshold: c.maxDrawdownPercent,
+        message: `drawdown ${s.drawdownPercent.toFixed(2)}% > ${c.maxDrawdownPercent}% (peak ${usd(s.peakEquityUsd)})`,
+      });
+    } else if (c.maxDrawdownUsd !== undefined && s.drawdownUsd > c.maxDrawdownUsd) {
+      breaches.push({
+        limit: 'drawdown', value: s.drawdownUsd, threshold: c.maxDrawdownUsd,
+        message: `drawdown ${usd(s.drawdownUsd)} > ${usd(c.maxDrawdownUsd)} (peak ${usd(s.peakEquityUsd)})`,
+      });
+    }
+    if (c.maxOpenNotionalUsd !== undefined && s.openNotionalUsd > c.maxOpenNotionalUsd) {
+      breaches.push({
+        limit: 'open_notional', value: s.openNotionalUsd, threshold: c.maxOpenNotionalUsd,
+        message: `open notional ${usd(s.openNotionalUsd)} > ${usd(c.maxOpenNotionalUsd)}`,
+      });
+    }
+    if (c.maxConcentrationPercent !== undefined && s.concentration && s.concentration.percent > c.maxConcentrationPercent) {
+      breaches.push({
+        limit: 'concentration', value: s.concentration.percent, threshold: c.maxConcentrationPercent,
+        message: `${s.concentration.assets.join('+')} is ${s.concentration.percent.toFixed(1)}% of equity > ${c.maxConcentrationPercent}%`,
+      });
+    }
+    return breaches;
+  }
+}
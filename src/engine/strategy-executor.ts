@@ -6,10 +6,13 @@ import type {
   OrderExecution,
   ExecutionDiagnostics,
   SkipCategory,
+  QuoteLayer,
 } from '../types/strategy.js';
-import type { OrderManager } from './order-manager.js';
+import type { StrategyModule } from '../types/strategy-module.js';
+import type { Order } from '../types/order.js';
+import type { StrategyOrders } from './order-manager.js';
 import type { MarketDataService } from './market-data.js';
-import type { BalanceTracker, MarketBalances } from './balance-tracker.js';
+import type { StrategyBalances, MarketBalances } from './balance-tracker.js';
 import { roundDownToMarketPrecision, scaleUpAndTruncateToInt, formatPrice, isValidPrice } from '../utils/price-math.js';
 import * as dbQueries from '../db/queries.js';
 import {
@@ -17,6 +20,23 @@ import {
   ConsecutiveFailureTracker,
   MidPriceHistory,
 } from './risk-tracker.js';
+import { GridStrategy } from './grid-strategy.js';
+import { DcaStrategy } from './dca-strategy.js';
+import type { SlippageCheck } from './dca-strategy.js';
+import { StrategyModuleRunner } from './strategy-module-runner.js';
+import { estimateArrivalIntensity, computeAvellanedaStoikovQuote } from './avellaneda-stoikov.js';
+
+// A priced, sized and validated order that has not been submitted yet.
+interface PreparedOrder {
+  side: 'Buy' | 'Sell';
+  orderType: string; // order-manager order type
+  priceScaled: string;
+  quantityScaled: string;
+  quantityRounded: Decimal;
+  displayPrice: Decimal;
+  valueUsd: number;
+  isLimitOrder: boolean;
+}
 
 /**
  * StrategyExecutor - the heart of the trading logic.
@@ -29,9 +49,9 @@ import {
  * MarketDataService, and BalanceTracker dependencies.
  */
 export class StrategyExecutor {
-  private orderManager: OrderManager;
+  private orderManager: StrategyOrders;
   private marketData: MarketDataService;
-  private balanceTracker: BalanceTracker;
+  private balanceTracker: StrategyBalances;
 
   // Realized-vol input — accumulated per-market mid prices sampled each cycle.
   private midPriceHistory = new MidPriceHistory(240);
@@ -43,6 +63,15 @@ export class StrategyExecutor {
   // current daily window when the daily-loss limit is enabled.
   private lastRealizedPnlByMarket: Map<string, number> = new Map();
 
+  // Ladder state for markets running `strategyMode: 'grid'`.
+  private gridStrategy: GridStrategy;
+
+  // Target/progress tracking for markets running `strategyMode: 'dca'`.
+  private dcaStrategy: DcaStrategy;
+
+  // Risk-checked order placement for markets running `strategyMode: 'module'`.
+  private moduleRunner: StrategyModuleRunner;
+
   /**
    * Hand-off field for the trading-engine agent.
    * When consecutive order failures hit `riskManagement.autoPauseOnConsecutiveFailures`,
@@ -58,13 +87,16 @@ export class StrategyExecutor {
   }
 
   constructor(
-    orderManager: OrderManager,
+    orderManager: StrategyOrders,
     marketData: MarketDataService,
-    balanceTracker: BalanceTracker
+    balanceTracker: StrategyBalances
   ) {
     this.orderManager = orderManager;
     this.marketData = marketData;
     this.balanceTracker = balanceTracker;
+    this.gridStrategy = new GridStrategy(orderManager, balanceTracker);
+    this.dcaStrategy = new DcaStrategy(orderManager, balanceTracker);
+    this.moduleRunner = new StrategyModuleRunner(orderManager, balanceTracker);
   }
 
   // =========================================================================
@@ -77,7 +109,7 @@ export class StrategyExecutor {
    * Flow:
    *  1. Check max session loss (if enabled)
    *  2. Check stop loss
-   *  3. Get ticker and orderbook
+   *  3. Get ticker and orderbook (grid / dca / module modes hand off here)
    *  4. Check spread vs maxSpreadPercent
    *  5. Get balances
    *  6. Check max open orders per side
@@ -85,10 +117,13 @@ export class StrategyExecutor {
    *  8. Place buy order (if enabled)
    *  9. Place sell order (if enabled, with profit protection)
    * 10. Return results
+   *
+   * `strategyModule` is the loaded module for markets in `strategyMode: 'module'`.
    */
   async execute(
     market: Market,
-    config: StrategyConfig
+    config: StrategyConfig,
+    strategyModule?: StrategyModule
   ): Promise<StrategyExecutionResult> {
     const orders: OrderExecution[] = [];
     const pair = `${market.base.symbol}/${market.quote.symbol}`;
@@ -119,12 +154,12 @@ export class StrategyExecutor {
           // Reset baseline so subsequent deltas attribute correctly.
           this.lastRealizedPnlByMarket.set(
             market.market_id,
-            dbQueries.getTradeStats(market.market_id).realizedPnl,
+            dbQueries.getTradeStats(market.market_id, config.strategyTag ?? null).realizedPnl,
           );
           dbQueries.upsertStrategyConfig(market.market_id, config);
         } else {
           // Within window — accumulate any new realized P&L since last cycle.
-          const stats = dbQueries.getTradeStats(market.market_id);
+          const stats = dbQueries.getTradeStats(market.market_id, config.strategyTag ?? null);
           const lastSeen = this.lastRealizedPnlByMarket.get(market.market_id);
           if (lastSeen === undefined) {
             this.lastRealizedPnlByMarket.set(market.market_id, stats.realizedPnl);
@@ -155,7 +190,7 @@ export class StrategyExecutor {
       // 1. CHECK MAX SESSION LOSS
       // ---------------------------------------------------------------
       if (config.riskManagement.maxSessionLossEnabled && config.riskManagement.maxSessionLossUsd > 0) {
-        const stats = dbQueries.getTradeStats(market.market_id);
+        const stats = dbQueries.getTradeStats(market.market_id, config.strategyTag ?? null);
         if (stats.realizedPnl < -config.riskManagement.maxSessionLossUsd) {
           return this.buildSkipResult(
             nextRunAt,
@@ -211,6 +246,41 @@ export class StrategyExecutor {
         diagnostics.midPrice = bid.plus(ask).div(2).toString();
       }
 
+      // Grid, DCA and module modes place their own orders instead of offset-from-mid quotes.
+      if (config.strategyMode === 'grid' || config.strategyMode === 'dca' || config.strategyMode === 'module') {
+        const modeMid = diagnostics.midPrice
+          ? new Decimal(diagnostics.midPrice)
+          : new Decimal(ticker.last_price || 0).div(new Decimal(10).pow(market.quote.decimals));
+        const checkSlippage: SlippageCheck = (side, price, quantity, orderType) => {
+          const checked = orderType ? { ...config, orderConfig: { ...config.orderConfig, orderType } } : config;
+          return this.checkSlippageCap(market, checked, price, side, orderBook, null, quantity);
+        };
+        let modeResult: StrategyExecutionResult;
+        if (config.strategyMode === 'grid') {
+          modeResult = await this.gridStrategy.execute(market, config, orderBook, modeMid, nextRunAt, diagnostics);
+        } else if (config.strategyMode === 'dca') {
+          modeResult = await this.dcaStrategy.execute(market, config, orderBook, modeMid, diagnostics, checkSlippage);
+        } else if (strategyModule) {
+          modeResult = await this.moduleRunner.execute(market, config, strategyModule, orderBook, nextRunAt, diagnostics, checkSlippage);
+        } else {
+          return this.buildSkipResult(
+            nextRunAt,
+            `${pair}: Strategy module "${config.strategyModule ?? '?'}" is not loaded — start with -s ${config.strategyModule ?? '<module>'}`,
+            'other',
+            diagnostics,
+          );
+        }
+        const label = config.strategyMode === 'grid' ? 'Grid' : config.strategyMode === 'dca' ? 'DCA' : 'Module';
+        for (const order of modeResult.orders) {
+          if (order.success) {
+            this.failureTracker.recordSuccess(market.market_id);
+          } else {
+            this.recordFailureAndMaybePause(market, config, `${label} ${order.side}: ${order.error ?? 'unknown'}`);
+          }
+        }
+        return modeResult;
+      }
+
       // ---------------------------------------------------------------
       // 4. CHECK SPREAD VS maxSpreadPercent
       // ---------------------------------------------------------------
@@ -292,7 +362,7 @@ export class StrategyExecutor {
       let shouldPlaceSell = true;
 
       // Pre-fetch open orders once — also used for auto-replace and aggregate cap.
-      let openOrdersCached: Awaited<ReturnType<OrderManager['getOpenOrders']>> | null = null;
+      let openOrdersCached: Awaited<ReturnType<StrategyOrders['getOpenOrders']>> | null = null;
       const fetchOpenOrders = async () => {
         if (openOrdersCached === null) {
           openOrdersCached = await this.orderManager.getOpenOrders(market);
@@ -345,13 +415,19 @@ export class StrategyExecutor {
         diagnostics.realizedVolPercent = realizedVolPercent;
       }
 
-      const prices = this.calculatePrices(
-        market,
-        ticker,
-        orderBook,
-        config.orderConfig,
-        { realizedVolPercent, buySkewPercent, sellSkewPercent },
-      );
+      let modelQuote: { reservationPrice: Decimal; halfSpreadPercent: number } | undefined;
+      if (config.orderConfig.marketMakingModel === 'avellanedaStoikov' && midPrice > 0) {
+        modelQuote = await this.computeModelQuote(market, config, orderBook, midPrice, quoteHuman, baseHuman, diagnostics);
+      }
+
+      const priceAdjustments = { realizedVolPercent, buySkewPercent, sellSkewPercent, modelQuote };
+      const quoteLayers = this.activeQuoteLayers(config);
+      const layerPrices = quoteLayers
+        ? this.calculateLayerPrices(market, ticker, orderBook, config.orderConfig, quoteLayers, priceAdjustments)
+        : null;
+      const prices = layerPrices
+        ? layerPrices[0]
+        : this.calculatePrices(market, ticker, orderBook, config.orderConfig, priceAdjustments);
 
       // Persist computed effective skew offsets.
       if (config.orderConfig.inventorySkewEnabled) {
@@ -407,18 +483,36 @@ export class StrategyExecutor {
       // ---------------------------------------------------------------
       // 7b. AUTO-REPLACE OPEN ORDERS ON DRIFT (opt-in)
       // ---------------------------------------------------------------
+      // Drifted limit orders are amended in place (cancel + create in one
+      // transaction); a side that was amended this cycle places nothing new.
+      let replacedBuy = false;
+      let replacedSell = false;
       if (config.orderConfig.autoReplaceOnDriftPercent && config.orderConfig.autoReplaceOnDriftPercent > 0) {
         const driftThreshold = config.orderConfig.autoReplaceOnDriftPercent;
         const open = await fetchOpenOrders();
         if (open.length > 0) {
           const qScale = new Decimal(10).pow(market.quote.decimals);
+          // Free quote left for buys moved up; each amend draws on it in turn
+          const quoteBudget = { free: new Decimal(balances.quote.unlocked).div(qScale) };
           for (const o of open) {
-            const target = o.side === 'Buy' ? prices.buyPrice : prices.sellPrice;
-            if (!target || !target.gt(0)) continue;
+            // With quote layers an order only drifts when it is away from every layer of its side.
+            const targets = (layerPrices ?? [prices])
+              .map((p) => (o.side === 'Buy' ? p.buyPrice : p.sellPrice))
+              .filter((t) => t && t.gt(0));
+            if (targets.length === 0) continue;
             const orderPrice = new Decimal(o.price).div(qScale);
             if (orderPrice.lte(0)) continue;
+            const target = targets.reduce((best, t) => (orderPrice.minus(t).abs().lt(orderPrice.minus(best).abs()) ? t : best));
             const driftPct = orderPrice.minus(target).abs().div(target).mul(100).toNumber();
             if (driftPct > driftThreshold) {
+              const replaced = await this.replaceDriftedOrder(market, config, o, target, quoteBudget);
+              if (replaced) {
+                orders.push(replaced);
+                if (replaced.side === 'Buy') replacedBuy = true;
+                else replacedSell = true;
+                console.log(`[StrategyExecutor] ${pair}: Auto-replace ${o.side} @ ${orderPrice.toFixed(6)} -> ${replaced.priceHuman} (drifted ${driftPct.toFixed(2)}%)`);
+                continue;
+              }
               try {
                 await this.orderManager.cancelOrder(o.order_id, market);
                 console.log(`[StrategyExecutor] ${pair}: Auto-replace cancel ${o.side} @ ${orderPrice.toFixed(6)} drifted ${driftPct.toFixed(2)}% from ${target.toFixed(6)}`);
@@ -449,48 +543,60 @@ export class StrategyExecutor {
         diagnostics.aggregateOpenUsd = aggregateOpenUsd;
       }
 
-      const willPlaceBuy = shouldPlaceBuy && (config.orderConfig.side === 'Buy' || config.orderConfig.side === 'Both');
-      const willPlaceSell = shouldPlaceSell && (config.orderConfig.side === 'Sell' || config.orderConfig.side === 'Both');
+      const willPlaceBuy = shouldPlaceBuy && !replacedBuy && (config.orderConfig.side === 'Buy' || config.orderConfig.side === 'Both');
+      const willPlaceSell = shouldPlaceSell && !replacedSell && (config.orderConfig.side === 'Sell' || config.orderConfig.side === 'Both');
 
       // ---------------------------------------------------------------
       // 8. PLACE BUY ORDER
       // ---------------------------------------------------------------
       const skipReasons: string[] = [];
       let aggregateCapHit = false;
+      // Quote layers of both sides, submitted together after step 9.
+      const pendingLayers: PreparedOrder[] = [];
 
       if (willPlaceBuy) {
-        // Slippage cap precheck for Market orders.
-        const slippageSkip = this.checkSlippageCap(
-          market, config, prices.buyPrice, 'Buy', orderBook, balances,
-        );
-        if (slippageSkip) {
-          skipReasons.push(slippageSkip);
+        if (layerPrices) {
+          const layered = this.prepareLayerOrders(
+            'Buy', market, config, layerPrices, balances, ticker, orderBook, diagnostics.openOrdersBuy ?? 0, aggregateOpenUsd,
+          );
+          pendingLayers.push(...layered.prepared);
+          skipReasons.push(...layered.skipReasons);
+          aggregateOpenUsd = layered.aggregateOpenUsd;
+          aggregateCapHit = aggregateCapHit || layered.aggregateCapHit;
         } else {
-          // Aggregate position cap precheck.
-          if (aggregateCap !== undefined && aggregateCap > 0) {
-            const projectedNotional = this.estimateBuyNotional(market, config, prices.buyPrice, balances);
-            if (aggregateOpenUsd + projectedNotional > aggregateCap) {
-              aggregateCapHit = true;
-              skipReasons.push(`Buy: aggregate open $${aggregateOpenUsd.toFixed(2)} + new $${projectedNotional.toFixed(2)} exceeds cap $${aggregateCap}`);
+          // Slippage cap precheck for Market orders.
+          const slippageSkip = this.checkSlippageCap(
+            market, config, prices.buyPrice, 'Buy', orderBook, balances,
+          );
+          if (slippageSkip) {
+            skipReasons.push(slippageSkip);
+          } else {
+            // Aggregate position cap precheck.
+            if (aggregateCap !== undefined && aggregateCap > 0) {
+              const projectedNotional = this.estimateBuyNotional(market, config, prices.buyPrice, balances);
+              if (aggregateOpenUsd + projectedNotional > aggregateCap) {
+                aggregateCapHit = true;
+                skipReasons.push(`Buy: aggregate open $${aggregateOpenUsd.toFixed(2)} + new $${projectedNotional.toFixed(2)} exceeds cap $${aggregateCap}`);
+              }
             }
-          }
 
-          if (!aggregateCapHit) {
-            const buyOrder = await this.placeBuyOrder(market, config, prices.buyPrice, balances, ticker, orderBook);
-            if (buyOrder) {
-              orders.push(buyOrder);
-              if (buyOrder.success) {
-                this.failureTracker.recordSuccess(market.market_id);
-                aggregateOpenUsd += this.estimateBuyNotional(market, config, prices.buyPrice, balances);
+            if (!aggregateCapHit) {
+              const buyOrder = await this.placeBuyOrder(market, config, prices.buyPrice, balances, ticker, orderBook);
+              if (buyOrder) {
+                orders.push(buyOrder);
+                if (buyOrder.success) {
+                  this.failureTracker.recordSuccess(market.market_id);
+                  aggregateOpenUsd += this.estimateBuyNotional(market, config, prices.buyPrice, balances);
+                } else {
+                  this.recordFailureAndMaybePause(market, config, `Buy: ${buyOrder.error ?? 'unknown'}`);
+                }
               } else {
-                this.recordFailureAndMaybePause(market, config, `Buy: ${buyOrder.error ?? 'unknown'}`);
+                skipReasons.push(this.diagnoseBuySkip(market, config, prices.buyPrice, balances));
               }
-            } else {
-              skipReasons.push(this.diagnoseBuySkip(market, config, prices.buyPrice, balances));
             }
           }
         }
-      } else if (!shouldPlaceBuy && (config.orderConfig.side === 'Buy' || config.orderConfig.side === 'Both')) {
+      } else if (!shouldPlaceBuy && !replacedBuy && (config.orderConfig.side === 'Buy' || config.orderConfig.side === 'Both')) {
         skipReasons.push('Buy: max open orders reached');
       }
 
@@ -501,7 +607,7 @@ export class StrategyExecutor {
         // Re-read config from DB for fresh averageBuyPrice
         // (a buy order placed moments ago may have updated it)
         let configForSell = config;
-        const dbConfig = dbQueries.getStrategyConfig(market.market_id);
+        const dbConfig = dbQueries.getStrategyConfig(market.market_id, config.strategyTag);
         if (dbConfig) {
           try {
             const parsed = JSON.parse(dbConfig.config);
@@ -516,40 +622,63 @@ export class StrategyExecutor {
           }
         }
 
-        const slippageSkip = this.checkSlippageCap(
-          market, configForSell, prices.sellPrice, 'Sell', orderBook, balances,
-        );
-        if (slippageSkip) {
-          skipReasons.push(slippageSkip);
+        if (layerPrices) {
+          const layered = this.prepareLayerOrders(
+            'Sell', market, configForSell, layerPrices, balances, ticker, orderBook, diagnostics.openOrdersSell ?? 0, aggregateOpenUsd,
+          );
+          pendingLayers.push(...layered.prepared);
+          skipReasons.push(...layered.skipReasons);
+          aggregateOpenUsd = layered.aggregateOpenUsd;
+          aggregateCapHit = aggregateCapHit || layered.aggregateCapHit;
         } else {
-          let sellAggregateBreach = false;
-          if (aggregateCap !== undefined && aggregateCap > 0) {
-            const projectedNotional = this.estimateSellNotional(market, configForSell, prices.sellPrice, balances);
-            if (aggregateOpenUsd + projectedNotional > aggregateCap) {
-              sellAggregateBreach = true;
-              aggregateCapHit = true;
-              skipReasons.push(`Sell: aggregate open $${aggregateOpenUsd.toFixed(2)} + new $${projectedNotional.toFixed(2)} exceeds cap $${aggregateCap}`);
+          const slippageSkip = this.checkSlippageCap(
+            market, configForSell, prices.sellPrice, 'Sell', orderBook, balances,
+          );
+          if (slippageSkip) {
+            skipReasons.push(slippageSkip);
+          } else {
+            let sellAggregateBreach = false;
+            if (aggregateCap !== undefined && aggregateCap > 0) {
+              const projectedNotional = this.estimateSellNotional(market, configForSell, prices.sellPrice, balances);
+              if (aggregateOpenUsd + projectedNotional > aggregateCap) {
+                sellAggregateBreach = true;
+                aggregateCapHit = true;
+                skipReasons.push(`Sell: aggregate open $${aggregateOpenUsd.toFixed(2)} + new $${projectedNotional.toFixed(2)} exceeds cap $${aggregateCap}`);
+              }
             }
-          }
 
-          if (!sellAggregateBreach) {
-            const sellOrder = await this.placeSellOrder(market, configForSell, prices.sellPrice, balances, ticker, orderBook);
-            if (sellOrder) {
-              orders.push(sellOrder);
-              if (sellOrder.success) {
-                this.failureTracker.recordSuccess(market.market_id);
+            if (!sellAggregateBreach) {
+              const sellOrder = await this.placeSellOrder(market, configForSell, prices.sellPrice, balances, ticker, orderBook);
+              if (sellOrder) {
+                orders.push(sellOrder);
+                if (sellOrder.success) {
+                  this.failureTracker.recordSuccess(market.market_id);
+                } else {
+                  this.recordFailureAndMaybePause(market, config, `Sell: ${sellOrder.error ?? 'unknown'}`);
+                }
               } else {
-                this.recordFailureAndMaybePause(market, config, `Sell: ${sellOrder.error ?? 'unknown'}`);
+                skipReasons.push(this.diagnoseSellSkip(market, configForSell, prices.sellPrice, balances));
               }
-            } else {
-              skipReasons.push(this.diagnoseSellSkip(market, configForSell, prices.sellPrice, balances));
             }
           }
         }
-      } else if (!shouldPlaceSell && (config.orderConfig.side === 'Sell' || config.orderConfig.side === 'Both')) {
+      } else if (!shouldPlaceSell && !replacedSell && (config.orderConfig.side === 'Sell' || config.orderConfig.side === 'Both')) {
         skipReasons.push('Sell: max open orders reached');
       }
 
+      // ---------------------------------------------------------------
+      // 9b. SUBMIT QUOTE LAYERS (one request for both sides)
+      // ---------------------------------------------------------------
+      if (pendingLayers.length > 0) {
+        const layerOrders = await this.submitLayeredOrders(market, config, pendingLayers);
+        orders.push(...layerOrders);
+        if (layerOrders[0].success) {
+          this.failureTracker.recordSuccess(market.market_id);
+        } else {
+          this.recordFailureAndMaybePause(market, config, `Layers: ${layerOrders[0].error ?? 'unknown'}`);
+        }
+      }
+
       // ---------------------------------------------------------------
       // 10. RETURN RESULTS
       // ---------------------------------------------------------------
@@ -656,7 +785,8 @@ export class StrategyExecutor {
   /**
    * Estimate slippage for a market order by walking the relevant orderbook side via
    * the existing VWAP helpers. Returns a populated skip-reason string when over cap,
-   * or null when within cap (or feature disabled).
+   * or null when within cap (or feature disabled). The order size comes from
+   * `positionSizing` unless an explicit `quantity` is given (DCA slices).
    */
   private checkSlippageCap(
     market: Market,
@@ -664,28 +794,32 @@ export class StrategyExecutor {
     price: Decimal,
     side: 'Buy' | 'Sell',
     orderBook: OrderBookDepth | null,
-    balances: MarketBalances,
+    balances: MarketBalances | null,
+    quantity?: Decimal,
   ): string | null {
     const cap = config.orderConfig.slippageMaxPercent;
     if (cap === undefined || cap <= 0) return null;
     if (!this.isMarketableOrderType(config.orderConfig.orderType)) return null;
     if (!orderBook) return null;
 
-    const isMarketOrder = true;
-    const orderSize = this.calculateOrderSize(
-      market,
-      config.positionSizing,
-      balances,
-      side === 'Buy' ? 'buy' : 'sell',
-      price,
-      isMarketOrder,
-    );
-    if (!orderSize || orderSize.quantity.lte(0)) return null;
+    let orderQuantity = quantity;
+    if (!orderQuantity && balances) {
+      const isMarketOrder = true;
+      orderQuantity = this.calculateOrderSize(
+        market,
+        config.positionSizing,
+        balances,
+        side === 'Buy' ? 'buy' : 'sell',
+        price,
+        isMarketOrder,
+      )?.quantity;
+    }
+    if (!orderQuantity || orderQuantity.lte(0)) return null;
 
     const levels = side === 'Buy' ? orderBook.asks : orderBook.bids;
     const vwap = this.calculateVWAP(
       levels,
-      orderSize.quantity,
+      orderQuantity,
       market.quote.decimals,
       market.base.decimals,
     );
@@ -961,6 +1095,9 @@ export class StrategyExecutor {
    * After determining the reference price, applies:
    *  - priceOffsetPercent (buy below, sell above)
    *  - optional priceRandomization per side
+   *
+   * When an Avellaneda–Stoikov `modelQuote` is supplied, its reservation price
+   * and half-spread replace the reference price and offsets (randomization still applies).
    */
   calculatePrices(
     market: Market,
@@ -971,11 +1108,20 @@ export class StrategyExecutor {
       realizedVolPercent?: number;
       buySkewPercent?: number;
       sellSkewPercent?: number;
+      modelQuote?: { reservationPrice: Decimal; halfSpreadPercent: number };
     },
   ): { buyPrice: Decimal; sellPrice: Decimal } {
     let referencePrice: Decimal;
     const quoteScale = new Decimal(10).pow(market.quote.decimals);
 
+    if (adjustments?.modelQuote) {
+      const { reservationPrice, halfSpreadPercent } = adjustments.modelQuote;
+      return this.applyPriceRandomization(orderConfig, {
+        buyPrice: reservationPrice.mul(1 - halfSpreadPercent / 100),
+        sellPrice: reservationPrice.mul(1 + halfSpreadPercent / 100),
+      });
+    }
+
     switch (orderConfig.priceMode) {
       case 'market':
         referencePrice = new Decimal(ticker.last_price).div(quoteScale);
@@ -1045,19 +1191,127 @@ export class StrategyExecutor {
     }
 
     // Apply offset: buy BELOW reference (subtract offset), sell ABOVE (add offset)
-    let buyPrice = referencePrice.mul(1 - buyOffsetPercent / 100);
-    let sellPrice = referencePrice.mul(1 + sellOffsetPercent / 100);
-
-    // Apply price randomization if enabled
-    if (orderConfig.priceRandomizationEnabled && orderConfig.priceRandomizationRangePercent) {
-      const range = orderConfig.priceRandomizationRangePercent / 100;
-      const buyRandomFactor = 1 + (Math.random() * 2 - 1) * range;
-      const sellRandomFactor = 1 + (Math.random() * 2 - 1) * range;
-      buyPrice = buyPrice.mul(buyRandomFactor);
-      sellPrice = sellPrice.mul(sellRandomFactor);
+    const buyPrice = referencePrice.mul(1 - buyOffsetPercent / 100);
+    const sellPrice = referencePrice.mul(1 + sellOffsetPercent / 100);
+
+    return this.applyPriceRandomization(orderConfig, { buyPrice, sellPrice });
+  }
+
+  /** Usable quote layers sorted innermost first, or null for single-order quoting. */
+  private activeQuoteLayers(config: StrategyConfig): QuoteLayer[] | null {
+    const layers = (config.orderConfig.quoteLayers ?? [])
+      .filter((l) => Number.isFinite(l?.offsetPercent) && l.offsetPercent >= 0 && (l.sizeWeight ?? 1) > 0)
+      .sort((a, b) => a.offsetPercent - b.offsetPercent);
+    return layers.length > 0 ? layers : null;
+  }
+
+  /**
+   * Per-layer buy/sell prices: each layer's offset stands in for priceOffsetPercent
+   * (vol scaling and skew still apply), or widens the model half-spread.
+   */
+  private calculateLayerPrices(
+    market: Market,
+    ticker: { last_price: string; bid?: string; ask?: string },
+    orderBook: OrderBookDepth | null,
+    orderConfig: StrategyConfig['orderConfig'],
+    layers: QuoteLayer[],
+    adjustments: Parameters<StrategyExecutor['calculatePrices']>[4],
+  ): Array<{ buyPrice: Decimal; sellPrice: Decimal; weight: number }> {
+    const totalWeight = layers.reduce((sum, l) => sum + (l.sizeWeight ?? 1), 0);
+    return layers.map((layer) => {
+      const modelQuote = adjustments?.modelQuote
+        ? { ...adjustments.modelQuote, halfSpreadPercent: adjustments.modelQuote.halfSpreadPercent + layer.offsetPercent }
+        : undefined;
+      const prices = this.calculatePrices(
+        market,
+        ticker,
+        orderBook,
+        { ...orderConfig, priceOffsetPercent: layer.offsetPercent },
+        { ...adjustments, modelQuote },
+      );
+      return { ...prices, weight: (layer.sizeWeight ?? 1) / totalWeight };
+    });
+  }
+
+  /** Apply per-side price randomization if enabled. */
+  private applyPriceRandomization(
+    orderConfig: StrategyConfig['orderConfig'],
+    prices: { buyPrice: Decimal; sellPrice: Decimal },
+  ): { buyPrice: Decimal; sellPrice: Decimal } {
+    if (!orderConfig.priceRandomizationEnabled || !orderConfig.priceRandomizationRangePercent) {
+      return prices;
     }
+    const range = orderConfig.priceRandomizationRangePercent / 100;
+    const buyRandomFactor = 1 + (Math.random() * 2 - 1) * range;
+    const sellRandomFactor = 1 + (Math.random() * 2 - 1) * range;
+    return {
+      buyPrice: prices.buyPrice.mul(buyRandomFactor),
+      sellPrice: prices.sellPrice.mul(sellRandomFactor),
+    };
+  }
 
-    return { buyPrice, sellPrice };
+  /**
+   * Avellaneda–Stoikov reservation price and half-spread for this cycle.
+   * σ comes from the sampled mid history (one sample per cycle, so the sample
+   * spacing is taken as the average cycle interval), k from recent public
+   * trades, falling back to the top-of-book half-spread (then priceOffsetPercent)
+   * when there are too few trades to fit.
+   */
+  private async computeModelQuote(
+    market: Market,
+    config: StrategyConfig,
+    orderBook: OrderBookDepth | null,
+    midPrice: number,
+    quoteHuman: Decimal,
+    baseHuman: Decimal,
+    diagnostics: ExecutionDiagnostics,
+  ): Promise<{ reservationPrice: Decimal; halfSpreadPercent: number }> {
+    const oc = config.orderConfig;
+
+    // Inventory deviation from target, normalized to [-1, 1] (same scale as inventory skew).
+    let inventory = 0;
+    const baseEquity = baseHuman.mul(midPrice);
+    const totalEquity = baseEquity.plus(quoteHuman);
+    if (totalEquity.gt(0)) {
+      const baseRatio = baseEquity.div(totalEquity).toNumber();
+      const target = oc.inventoryTargetBaseRatio ?? 0.5;
+      const denom = Math.max(target, 1 - target) || 0.5;
+      inventory = Math.max(-1, Math.min(1, (baseRatio - target) / denom));
+      diagnostics.inventoryBaseRatio = baseRatio;
+    }
+
+    const lookback = oc.asVolatilityLookback ?? oc.volatilityLookbackBars ?? 30;
+    const volPercent = this.midPriceHistory.realizedVolPercent(market.market_id, lookback);
+    diagnostics.realizedVolPercent = volPercent;
+    const sampleIntervalSec = (config.timing.cycleIntervalMinMs + config.timing.cycleIntervalMaxMs) / 2 / 1000;
+
+    const trades = await this.marketData.getRecentTrades(market.market_id, oc.asTradeLookback ?? 100);
+    const intensity = estimateArrivalIntensity(trades, midPrice, market.quote.decimals);
+    let k = intensity.k;
+    if (k <= 0) {
+      const spread = this.marketData.getSpreadPercent(market.market_id);
+      const fallbackHalfSpread = spread && spread > 0 ? spread / 2 : oc.priceOffsetPercent;
+      k = fallbackHalfSpread > 0 ? 1 / fallbackHalfSpread : 0;
+    }
+
+    const quote = computeAvellanedaStoikovQuote({
+      midPrice,
+      inventory,
+      volPercentPerSample: volPercent,
+      sampleIntervalSec,
+      riskAversion: oc.asRiskAversion ?? 0.5,
+      horizonSec: oc.asHorizonSeconds ?? 300,
+      k,
+      minHalfSpreadPercent: oc.asMinHalfSpreadPercent ?? 0.01,
+      maxHalfSpreadPercent: oc.asMaxHalfSpreadPercent ?? 2,
+    });
+
+    diagnostics.reservationPrice = new Decimal(quote.reservationPrice).toSignificantDigits(10).toString();
+    diagnostics.asHalfSpreadPercent = quote.halfSpreadPercent;
+    diagnostics.asArrivalK = k;
+    diagnostics.asTradeRatePerMin = intensity.ratePerSecond * 60;
+
+    return { reservationPrice: new Decimal(quote.reservationPrice), halfSpreadPercent: quote.halfSpreadPercent };
   }
 
   // =========================================================================
@@ -1075,6 +1329,10 @@ export class StrategyExecutor {
    *  - maxOrderSizeUsd cap (if configured)
    *  - slippage buffer for market orders (2%)
    *  - balance availability checks
+   *
+   * `balances` is the strategy's view: for a strategy with a budget or a
+   * portfolio allocation the quote side is already capped at what it has left,
+   * so both modes (and the percentages) size within that share.
    */
   calculateOrderSize(
     market: Market,
@@ -1188,6 +1446,23 @@ export class StrategyExecutor {
     ticker: { last_price: string },
     orderBook: OrderBookDepth | null
   ): Promise<OrderExecution | null> {
+    const prepared = this.prepareBuyOrder(market, config, buyPriceHuman, balances, ticker, orderBook);
+    return prepared ? this.submitPreparedOrder(market, config, prepared) : null;
+  }
+
+  /**
+   * Price, size and validate a buy without submitting it. `sizeFraction` scales
+   * the position-sizing result (quote layers split one order's size).
+   */
+  private prepareBuyOrder(
+    market: Market,
+    config: StrategyConfig,
+    buyPriceHuman: Decimal,
+    balances: MarketBalances,
+    ticker: { last_price: string },
+    orderBook: OrderBookDepth | null,
+    sizeFraction = 1,
+  ): PreparedOrder | null {
     // Validate and cap buy price against orderbook best ask for limit orders
     if (orderBook?.asks?.length && orderBook.asks[0]?.[0]) {
       const bestAskPrice = new Decimal(orderBook.asks[0][0]).div(new Decimal(10).pow(market.quote.decimals));
@@ -1218,7 +1493,7 @@ export class StrategyExecutor {
     const buyPriceScaled = buyPriceTruncated.toFixed(0);
 
     // Round quantity to market precision
-    const quantityRounded = roundDownToMarketPrecision(orderSize.quantity, market);
+    const quantityRounded = roundDownToMarketPrecision(orderSize.quantity.mul(sizeFraction), market);
     const quantityScaled = quantityRounded.mul(new Decimal(10).pow(market.base.decimals)).toFixed(0);
 
     // Check minimum order size
@@ -1227,64 +1502,35 @@ export class StrategyExecutor {
       return null;
     }
 
-    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
-
-    try {
-      // Map strategy-level order types to order-manager order types. Existing
-      // 'Market'/'Spot' code paths are preserved; new 'PostOnly'|'IOC'|'FOK'
-      // are forwarded as-is to OrderManager which maps to the contract enum.
-      const cfgType = config.orderConfig.orderType;
-      let orderType: string;
-      if (cfgType === 'Spot') orderType = 'Spot';
-      else if (cfgType === 'PostOnly' || cfgType === 'IOC' || cfgType === 'FOK') orderType = cfgType;
-      else orderType = 'BoundedMarket';
-
-      const resp = await this.orderManager.placeOrder(
-        market,
-        'Buy',
-        orderType,
-        buyPriceScaled,
-        quantityScaled,
-        config.orderConfig.boundedSlippagePercent
-      );
-
-      // Determine display price -- fallback to ticker if calculated price is invalid
-      let displayPrice = buyPriceHuman;
-      if (buyPriceHuman.eq(0) || buyPriceHuman.isNaN() || !buyPriceHuman.isFinite()) {
-        if (ticker?.last_price) {
-          displayPrice = new Decimal(ticker.last_price).div(new Decimal(10).pow(market.quote.decimals));
-        }
+    // Map strategy-level order types to order-manager order types. Existing
+    // 'Market'/'Spot' code paths are preserved; new 'PostOnly'|'IOC'|'FOK'
+    // are forwarded as-is to OrderManager which maps to the contract enum.
+    const cfgType = config.orderConfig.orderType;
+    let orderType: string;
+    if (cfgType === 'Spot') orderType = 'Spot';
+    else if (cfgType === 'PostOnly' || cfgType === 'IOC' || cfgType === 'FOK') orderType = cfgType;
+    else orderType = 'BoundedMarket';
+
+    // Determine display price -- fallback to ticker if calculated price is invalid
+    let displayPrice = buyPriceHuman;
+    if (buyPriceHuman.eq(0) || buyPriceHuman.isNaN() || !buyPriceHuman.isFinite()) {
+      if (ticker?.last_price) {
+        displayPrice = new Decimal(ticker.last_price).div(new Decimal(10).pow(market.quote.decimals));
       }
+    }
 
+    return {
+      side: 'Buy',
+      orderType,
+      priceScaled: buyPriceScaled,
+      quantityScaled,
+      quantityRounded,
+      displayPrice,
+      valueUsd: orderValueUsd,
       // PostOnly behaves like a limit order from the user's perspective;
       // IOC/FOK execute immediately like Market but at the specified price cap.
-      const isLimitOrder = config.orderConfig.orderType === 'Spot' || config.orderConfig.orderType === 'PostOnly';
-      const quantityPrecision = Math.min(market.base.decimals, 8);
-      const orderId = resp.orders?.[0]?.order_id || '';
-
-      return {
-        orderId,
-        side: 'Buy',
-        success: true,
-        price: buyPriceScaled,
-        quantity: quantityScaled,
-        priceHuman: formatPrice(displayPrice),
-        quantityHuman: quantityRounded.toFixed(quantityPrecision).replace(/\.?0+$/, ''),
-        marketPair,
-        isLimitOrder,
-      };
-    } catch (error: any) {
-      const formattedError = this.formatError(error);
-      console.error(`[StrategyExecutor] Buy order failed (${marketPair}): ${formattedError}`);
-      return {
-        orderId: '',
-        side: 'Buy',
-        success: false,
-        error: formattedError,
-        errorDetails: error,
-        marketPair,
-      };
-    }
+      isLimitOrder: config.orderConfig.orderType === 'Spot' || config.orderConfig.orderType === 'PostOnly',
+    };
   }
 
   // =========================================================================
@@ -1308,6 +1554,19 @@ export class StrategyExecutor {
     ticker: { last_price: string },
     orderBook: OrderBookDepth | null
   ): Promise<OrderExecution | null> {
+    const prepared = this.prepareSellOrder(market, config, sellPriceHuman, balances, ticker);
+    return prepared ? this.submitPreparedOrder(market, config, prepared) : null;
+  }
+
+  /** Sell-side counterpart of prepareBuyOrder, including profit protection. */
+  private prepareSellOrder(
+    market: Market,
+    config: StrategyConfig,
+    sellPriceHuman: Decimal,
+    balances: MarketBalances,
+    ticker: { last_price: string },
+    sizeFraction = 1,
+  ): PreparedOrder | null {
     const takeProfitRate = (config.riskManagement?.takeProfitPercent ?? 0.02) / 100;
 
     let adjustedSellPrice = sellPriceHuman;
@@ -1350,7 +1609,7 @@ export class StrategyExecutor {
     const sellPriceScaled = sellPriceTruncated.toFixed(0);
 
     // Round quantity to market precision
-    const quantityRounded = roundDownToMarketPrecision(orderSize.quantity, market);
+    const quantityRounded = roundDownToMarketPrecision(orderSize.quantity.mul(sizeFraction), market);
     const quantityScaled = quantityRounded.mul(new Decimal(10).pow(market.base.decimals)).toFixed(0);
 
     // Check minimum order size
@@ -1359,66 +1618,241 @@ export class StrategyExecutor {
       return null;
     }
 
-    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
+    // Use Spot (limit) when forcing limit for profit protection, otherwise use configured type.
+    // Forward extended types (PostOnly | IOC | FOK) to OrderManager which maps to the contract enum.
+    let orderType: string;
+    if (forceLimitOrder) {
+      orderType = 'Spot';
+    } else {
+      const cfgType = config.orderConfig.orderType;
+      if (cfgType === 'Spot') orderType = 'Spot';
+      else if (cfgType === 'PostOnly' || cfgType === 'IOC' || cfgType === 'FOK') orderType = cfgType;
+      else orderType = 'BoundedMarket';
+    }
 
-    try {
-      // Use Spot (limit) when forcing limit for profit protection, otherwise use configured type.
-      // Forward extended types (PostOnly | IOC | FOK) to OrderManager which maps to the contract enum.
-      let orderType: string;
-      if (forceLimitOrder) {
-        orderType = 'Spot';
-      } else {
-        const cfgType = config.orderConfig.orderType;
-        if (cfgType === 'Spot') orderType = 'Spot';
-        else if (cfgType === 'PostOnly' || cfgType === 'IOC' || cfgType === 'FOK') orderType = cfgType;
-        else orderType = 'BoundedMarket';
+    // Determine display price
+    let displayPrice = adjustedSellPrice;
+    if (adjustedSellPrice.eq(0) || adjustedSellPrice.isNaN() || !adjustedSellPrice.isFinite()) {
+      if (ticker?.last_price) {
+        displayPrice = new Decimal(ticker.last_price).div(new Decimal(10).pow(market.quote.decimals));
       }
+    }
 
-      const resp = await this.orderManager.placeOrder(
+    return {
+      side: 'Sell',
+      orderType,
+      priceScaled: sellPriceScaled,
+      quantityScaled,
+      quantityRounded,
+      displayPrice,
+      valueUsd: orderValueUsd,
+      isLimitOrder: forceLimitOrder
+        || config.orderConfig.orderType === 'Spot'
+        || config.orderConfig.orderType === 'PostOnly',
+    };
+  }
+
+  // =========================================================================
+  // ORDER SUBMISSION
+  // =========================================================================
+
+  private toExecution(market: Market, prepared: PreparedOrder, orderId: string): OrderExecution {
+    const quantityPrecision = Math.min(market.base.decimals, 8);
+    return {
+      orderId,
+      side: prepared.side,
+      success: true,
+      price: prepared.priceScaled,
+      quantity: prepared.quantityScaled,
+      priceHuman: formatPrice(prepared.displayPrice),
+      quantityHuman: prepared.quantityRounded.toFixed(quantityPrecision).replace(/\.?0+$/, ''),
+      marketPair: `${market.base.symbol}/${market.quote.symbol}`,
+      isLimitOrder: prepared.isLimitOrder,
+    };
+  }
+
+  /**
+   * Amend a drifted resting order to `targetHuman`, keeping its unfilled quantity.
+   * Returns null when the order can't be amended (marketable order type, dust
+   * remainder, or the transaction was rejected) so the caller falls back to a
+   * plain cancel. An amended buy moves its change in locked quote out of
+   * `quoteBudget.free`.
+   */
+  private async replaceDriftedOrder(
+    market: Market,
+    config: StrategyConfig,
+    order: Order,
+    targetHuman: Decimal,
+    quoteBudget: { free: Decimal },
+  ): Promise<OrderExecution | null> {
+    const cfgType = config.orderConfig.orderType;
+    if (cfgType !== 'Spot' && cfgType !== 'PostOnly') return null;
+
+    const bScale = new Decimal(10).pow(market.base.decimals);
+    const qScale = new Decimal(10).pow(market.quote.decimals);
+    let remainingHuman = new Decimal(order.quantity).minus(order.quantity_fill || '0').div(bScale);
+    const releasedQuote = remainingHuman.mul(new Decimal(order.price).div(qScale));
+    if (order.side === 'Buy') {
+      // A buy moved up needs more quote than the cancel releases; shrink it to what's spendable.
+      const spendable = releasedQuote.plus(Decimal.max(quoteBudget.free, 0));
+      remainingHuman = Decimal.min(remainingHuman, spendable.div(targetHuman));
+    }
+    const remaining = roundDownToMarketPrecision(remainingHuman, market);
+    if (remaining.lte(0) || remaining.mul(targetHuman).toNumber() < config.positionSizing.minOrderSizeUsd) {
+      return null;
+    }
+
+    const priceScaled = scaleUpAndTruncateToInt(
+      targetHuman,
+      market.quote.decimals,
+      market.quote.max_precision,
+      market.tick_size
+    ).toFixed(0);
+    const prepared: PreparedOrder = {
+      side: order.side,
+      orderType: cfgType,
+      priceScaled,
+      quantityScaled: remaining.mul(bScale).toFixed(0),
+      quantityRounded: remaining,
+      displayPrice: targetHuman,
+      valueUsd: remaining.mul(targetHuman).toNumber(),
+      isLimitOrder: true,
+    };
+    try {
+      const resp = await this.orderManager.replaceOrder(
         market,
-        'Sell',
-        orderType,
-        sellPriceScaled,
-        quantityScaled,
+        order.order_id,
+        prepared.side,
+        prepared.orderType,
+        prepared.priceScaled,
+        prepared.quantityScaled,
         config.orderConfig.boundedSlippagePercent
       );
-
-      // Determine display price
-      let displayPrice = adjustedSellPrice;
-      if (adjustedSellPrice.eq(0) || adjustedSellPrice.isNaN() || !adjustedSellPrice.isFinite()) {
-        if (ticker?.last_price) {
-          displayPrice = new Decimal(ticker.last_price).div(new Decimal(10).pow(market.quote.decimals));
-        }
+      if (order.side === 'Buy') {
+        quoteBudget.free = quoteBudget.free.plus(releasedQuote).minus(remaining.mul(targetHuman));
       }
+      return this.toExecution(market, prepared, resp.orders?.[0]?.order_id || '');
+    } catch (err) {
+      console.error(`[StrategyExecutor] Auto-replace amend failed for ${order.order_id}:`, err);
+      return null;
+    }
+  }
 
-      const isLimitOrder = forceLimitOrder
-        || config.orderConfig.orderType === 'Spot'
-        || config.orderConfig.orderType === 'PostOnly';
-      const quantityPrecision = Math.min(market.base.decimals, 8);
-      const orderId = resp.orders?.[0]?.order_id || '';
-
+  private async submitPreparedOrder(
+    market: Market,
+    config: StrategyConfig,
+    prepared: PreparedOrder,
+  ): Promise<OrderExecution> {
+    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
+    try {
+      const resp = await this.orderManager.placeOrder(
+        market,
+        prepared.side,
+        prepared.orderType,
+        prepared.priceScaled,
+        prepared.quantityScaled,
+        config.orderConfig.boundedSlippagePercent
+      );
+      return this.toExecution(market, prepared, resp.orders?.[0]?.order_id || '');
+    } catch (error: any) {
+      const formattedError = this.formatError(error);
+      console.error(`[StrategyExecutor] ${prepared.side} order failed (${marketPair}): ${formattedError}`);
       return {
-        orderId,
-        side: 'Sell',
-        success: true,
-        price: sellPriceScaled,
-        quantity: quantityScaled,
-        priceHuman: formatPrice(displayPrice),
-        quantityHuman: quantityRounded.toFixed(quantityPrecision).replace(/\.?0+$/, ''),
+        orderId: '',
+        side: prepared.side,
+        success: false,
+        error: formattedError,
+        errorDetails: error,
         marketPair,
-        isLimitOrder,
       };
+    }
+  }
+
+  /**
+   * Prepare one side's quote layers, innermost first. Layers split the side's
+   * position-sizing result by weight; free maxOpenOrders slots, the slippage cap
+   * and the aggregate cap are checked per layer.
+   */
+  private prepareLayerOrders(
+    side: 'Buy' | 'Sell',
+    market: Market,
+    config: StrategyConfig,
+    layerPrices: Array<{ buyPrice: Decimal; sellPrice: Decimal; weight: number }>,
+    balances: MarketBalances,
+    ticker: { last_price: string },
+    orderBook: OrderBookDepth | null,
+    openOnSide: number,
+    aggregateOpenUsd: number,
+  ): { prepared: PreparedOrder[]; skipReasons: string[]; aggregateOpenUsd: number; aggregateCapHit: boolean } {
+    const prepared: PreparedOrder[] = [];
+    const skipReasons: string[] = [];
+    let aggregateCapHit = false;
+    const maxOpen = config.orderManagement.maxOpenOrders;
+    const slots = maxOpen > 0 ? Math.max(0, maxOpen - openOnSide) : layerPrices.length;
+    const aggregateCap = config.positionSizing.maxAggregatePositionUsd;
+
+    layerPrices.slice(0, slots).forEach((layer, i) => {
+      const price = side === 'Buy' ? layer.buyPrice : layer.sellPrice;
+      const order = side === 'Buy'
+        ? this.prepareBuyOrder(market, config, price, balances, ticker, orderBook, layer.weight)
+        : this.prepareSellOrder(market, config, price, balances, ticker, layer.weight);
+      if (!order) {
+        const reason = side === 'Buy'
+          ? this.diagnoseBuySkip(market, config, price, balances)
+          : this.diagnoseSellSkip(market, config, price, balances);
+        skipReasons.push(`${reason} (layer ${i + 1})`);
+        return;
+      }
+      const slippageSkip = this.checkSlippageCap(market, config, price, side, orderBook, balances, order.quantityRounded);
+      if (slippageSkip) {
+        skipReasons.push(`${slippageSkip} (layer ${i + 1})`);
+        return;
+      }
+      if (aggregateCap !== undefined && aggregateCap > 0 && aggregateOpenUsd + order.valueUsd > aggregateCap) {
+        aggregateCapHit = true;
+        skipReasons.push(`${side} layer ${i + 1}: aggregate open $${aggregateOpenUsd.toFixed(2)} + new $${order.valueUsd.toFixed(2)} exceeds cap $${aggregateCap}`);
+        return;
+      }
+      aggregateOpenUsd += order.valueUsd;
+      prepared.push(order);
+    });
+    if (slots < layerPrices.length && maxOpen > 0) {
+      skipReasons.push(`${side}: max open orders reached (${layerPrices.length - slots} layer(s) not placed)`);
+    }
+    return { prepared, skipReasons, aggregateOpenUsd, aggregateCapHit };
+  }
+
+  /**
+   * Submit every quote layer of both sides in one session request (one nonce).
+   * The request succeeds or fails as a whole, so a failure is reported on each layer.
+   */
+  private async submitLayeredOrders(
+    market: Market,
+    config: StrategyConfig,
+    prepared: PreparedOrder[],
+  ): Promise<OrderExecution[]> {
+    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
+    try {
+      const resp = await this.orderManager.placeOrderBatch(prepared.map((p) => ({
+        market,
+        side: p.side,
+        orderType: p.orderType,
+        priceScaled: p.priceScaled,
+        quantityScaled: p.quantityScaled,
+        slippagePercent: config.orderConfig.boundedSlippagePercent,
+      })));
+      return prepared.map((p, i) => this.toExecution(market, p, resp.orders?.[i]?.order_id || ''));
     } catch (error: any) {
       const formattedError = this.formatError(error);
-      console.error(`[StrategyExecutor] Sell order failed (${marketPair}): ${formattedError}`);
-      return {
+      console.error(`[StrategyExecutor] Layered quote batch (${prepared.length} orders) failed (${marketPair}): ${formattedError}`);
+      return prepared.map((p) => ({
         orderId: '',
-        side: 'Sell',
+        side: p.side,
         success: false,
         error: formattedError,
         errorDetails: error,
         marketPair,
-      };
+      }));
     }
   }
 
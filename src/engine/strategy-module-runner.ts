@@ -0,0 +1,404 @@
+import Decimal from 'decimal.js';
+import type { Market, OrderBookDepth } from '../types/market.js';
+import type {
+  StrategyConfig,
+  StrategyExecutionResult,
+  OrderExecution,
+  ExecutionDiagnostics,
+  OrderTypeName,
+} from '../types/strategy.js';
+import type {
+  StrategyModule,
+  StrategyModuleBook,
+  StrategyModuleContext,
+  StrategyIntent,
+  OrderIntent,
+} from '../types/strategy-module.js';
+import type { Order } from '../types/order.js';
+import { DEFAULT_BOUNDED_SLIPPAGE_PERCENT } from './order-manager.js';
+import type { StrategyOrders } from './order-manager.js';
+import type { StrategyBalances } from './balance-tracker.js';
+import type { SlippageCheck } from './dca-strategy.js';
+import { roundDownToMarketPrecision, scaleUpAndTruncateToInt, formatPrice } from '../utils/price-math.js';
+import * as dbQueries from '../db/queries.js';
+
+// Guard against a module flooding the session with orders in one cycle.
+const MAX_INTENTS_PER_CYCLE = 20;
+
+const ORDER_TYPES: ReadonlySet<OrderTypeName> = new Set(['BoundedMarket', 'Market', 'Spot', 'PostOnly', 'IOC', 'FOK']);
+
+/** Convert a scaled order book to the human-unit shape modules see. */
+export function toModuleBook(book: OrderBookDepth | null, market: Market): StrategyModuleBook {
+  const qScale = 10 ** market.quote.decimals;
+  const bScale = 10 ** market.base.decimals;
+  const levels = (side: Array<[string, string]> | undefined) =>
+    (side ?? []).map(([p, q]) => ({ price: Number(p) / qScale, quantity: Number(q) / bScale }));
+  const bids = levels(book?.bids);
+  const asks = levels(book?.asks);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    midPrice: bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null,
+  };
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+function isCancelIntent(intent: StrategyIntent): intent is { cancelOrderId: string } {
+  return typeof (intent as { cancelOrderId?: unknown }).cancelOrderId === 'string';
+}
+
+/**
+ * StrategyModuleRunner - runs a user strategy module (`strategyMode: 'module'`)
+ * for one cycle.
+ *
+ * The module sees a frozen snapshot of the book, balances, open orders and P&L
+ * and returns intents. Cancels are applied first; each order intent then goes
+ * through the same limits the built-in quoting uses before it is submitted:
+ * min/max order size, available balance, max open orders per side, the
+ * aggregate open-notional cap and the slippage cap for marketable types.
+ * Rejected intents are reported in the skip reason, never adjusted.
+ */
+export class StrategyModuleRunner {
+  private orderManager: StrategyOrders;
+  private balanceTracker: StrategyBalances;
+
+  constructor(orderManager: StrategyOrders, balanceTracker: StrategyBalances) {
+    this.orderManager = orderManager;
+    this.balanceTracker = balanceTracker;
+  }
+
+  async execute(
+    market: Market,
+    config: StrategyConfig,
+    module: StrategyModule,
+    orderBook: OrderBookDepth | null,
+    nextRunAt: number,
+    diagnostics: ExecutionDiagnostics,
+    checkSlippage: SlippageCheck,
+  ): Promise<StrategyExecutionResult> {
+    const pair = `${market.base.symbol}/${market.quote.symbol}`;
+    const book = toModuleBook(orderBook, market);
+
+    this.balanceTracker.clearCache(market.market_id);
+    let openOrders = await this.orderManager.getOpenOrders(market);
+    const context = await this.buildContext(market, config, book, openOrders);
+
+    let intents: StrategyIntent[];
+    try {
+      intents = await module.onCycle(deepFreeze(context));
+    } catch (err: any) {
+      return {
+        executed: false,
+        orders: [],
+        nextRunAt,
+        skipReason: `${pair}: Strategy module "${config.strategyModule}" onCycle threw — ${err?.message || err}`,
+        skipCategory: 'other',
+        diagnostics,
+      };
+    }
+    if (!Array.isArray(intents)) intents = [];
+    diagnostics.moduleIntents = intents.length;
+
+    const skipReasons: string[] = [];
+    if (intents.length > MAX_INTENTS_PER_CYCLE) {
+      skipReasons.push(`${intents.length - MAX_INTENTS_PER_CYCLE} intents over the ${MAX_INTENTS_PER_CYCLE}-per-cycle limit dropped`);
+      intents = intents.slice(0, MAX_INTENTS_PER_CYCLE);
+    }
+
+    // Cancels first so their released balance counts toward the new orders.
+    let cancelled = 0;
+    for (const intent of intents.filter(isCancelIntent)) {
+      if (!openOrders.some((o) => o.order_id === intent.cancelOrderId)) {
+        skipReasons.push(`Cancel ${intent.cancelOrderId.slice(0, 10)}: not an open order on this market`);
+        continue;
+      }
+      try {
+        await this.orderManager.cancelOrder(intent.cancelOrderId, market);
+        cancelled++;
+      } catch (err: any) {
+        skipReasons.push(`Cancel ${intent.cancelOrderId.slice(0, 10)}: ${err?.message || err}`);
+      }
+    }
+    if (cancelled > 0) {
+      this.balanceTracker.clearCache(market.market_id);
+      openOrders = await this.orderManager.getOpenOrders(market);
+    }
+
+    const balances = await this.balanceTracker.getMarketBalances(market.market_id);
+    let quoteAvailable = new Decimal(balances.quote.unlocked).div(new Decimal(10).pow(market.quote.decimals));
+    let baseAvailable = new Decimal(balances.base.unlocked).div(new Decimal(10).pow(market.base.decimals));
+    const openCount = {
+      Buy: openOrders.filter((o) => o.side === 'Buy').length,
+      Sell: openOrders.filter((o) => o.side === 'Sell').length,
+    };
+    let aggregateOpenUsd = this.openNotional(market, openOrders);
+    const aggregateCap = config.positionSizing.maxAggregatePositionUsd;
+
+    const orders: OrderExecution[] = [];
+    let aggregateCapHit = false;
+    let rejected = 0;
+    for (const intent of intents) {
+      if (isCancelIntent(intent)) continue;
+      const check = this.prepareIntent(market, config, intent, book);
+      if (typeof check === 'string') {
+        skipReasons.push(`${intent?.side ?? 'Intent'}: ${check}`);
+        rejected++;
+        continue;
+      }
+      const { side, orderType, price, quantity, notional, marketable } = check;
+
+      const maxOpen = config.orderManagement.maxOpenOrders;
+      if (maxOpen > 0 && !marketable && openCount[side] >= maxOpen) {
+        skipReasons.push(`${side}: max open orders reached`);
+        rejected++;
+        continue;
+      }
+
+      if (side === 'Buy') {
+        const buffer = marketable ? 1 + (config.orderConfig.boundedSlippagePercent ?? DEFAULT_BOUNDED_SLIPPAGE_PERCENT) / 100 : 1;
+        if (notional.mul(buffer).gt(quoteAvailable)) {
+          skipReasons.push(`Buy: insufficient ${market.quote.symbol} (${quoteAvailable.toFixed(2)} available, ${notional.toFixed(2)} needed)`);
+          rejected++;
+          continue;
+        }
+      } else if (quantity.gt(baseAvailable)) {
+        skipReasons.push(`Sell: insufficient ${market.base.symbol} (${baseAvailable.toString()} available, ${quantity.toString()} needed)`);
+        rejected++;
+        continue;
+      }
+
+      if (marketable) {
+        const slippageSkip = checkSlippage(side, price, quantity, orderType);
+        if (slippageSkip) {
+          skipReasons.push(slippageSkip);
+          rejected++;
+          continue;
+        }
+      }
+
+      if (aggregateCap !== undefined && aggregateCap > 0 && aggregateOpenUsd + notional.toNumber() > aggregateCap) {
+        aggregateCapHit = true;
+        skipReasons.push(`${side}: aggregate open $${aggregateOpenUsd.toFixed(2)} + new $${notional.toFixed(2)} exceeds cap $${aggregateCap}`);
+        rejected++;
+        continue;
+      }
+
+      const order = await this.placeIntent(market, config, side, orderType, price, quantity);
+      orders.push(order);
+      if (!order.success) continue;
+      if (side === 'Buy') quoteAvailable = quoteAvailable.minus(notional);
+      else baseAvailable = baseAvailable.minus(quantity);
+      if (!marketable) {
+        openCount[side]++;
+        aggregateOpenUsd += notional.toNumber();
+      }
+    }
+    diagnostics.moduleRejectedIntents = rejected;
+
+    const successful = orders.filter((o) => o.success);
+    const result: StrategyExecutionResult = {
+      executed: successful.length > 0 || cancelled > 0,
+      orders,
+      nextRunAt,
+      diagnostics,
+    };
+    if (successful.length === 0) {
+      const reasons = [
+        ...orders.filter((o) => !o.success).map((o) => `${o.side}: ${o.error}`),
+        ...skipReasons,
+      ];
+      if (reasons.length > 0) {
+        result.skipReason = `${pair}: ${reasons.join('; ')}`;
+        if (aggregateCapHit) result.skipCategory = 'aggregate_cap_hit';
+        else if (skipReasons.some((r) => r.includes('max open orders'))) result.skipCategory = 'max_open_orders';
+        else if (skipReasons.some((r) => r.includes('slippage'))) result.skipCategory = 'slippage_exceeded';
+        else if (skipReasons.some((r) => r.includes('insufficient'))) result.skipCategory = 'insufficient_balance';
+        else result.skipCategory = 'other';
+      } else if (cancelled === 0) {
+        result.skipReason = `${pair}: Strategy module returned no intents`;
+        result.skipCategory = 'other';
+      }
+    }
+    return result;
+  }
+
+  private async buildContext(
+    market: Market,
+    config: StrategyConfig,
+    book: StrategyModuleBook,
+    openOrders: Order[],
+  ): Promise<StrategyModuleContext> {
+    const qScale = 10 ** market.quote.decimals;
+    const bScale = 10 ** market.base.decimals;
+    const balances = await this.balanceTracker.getMarketBalances(market.market_id);
+    const baseAvailable = Number(balances.base.unlocked) / bScale;
+    const baseLocked = Number(balances.base.locked) / bScale;
+
+    const stats = dbQueries.getTradeStats(market.market_id, config.strategyTag ?? null);
+    const averageBuyPrice = config.averageBuyPrice && config.averageBuyPrice !== '0' ? Number(config.averageBuyPrice) : null;
+    const averageSellPrice = config.averageSellPrice && config.averageSellPrice !== '0' ? Number(config.averageSellPrice) : null;
+    const unrealizedPnl = averageBuyPrice !== null && book.midPrice !== null
+      ? (baseAvailable + baseLocked) * (book.midPrice - averageBuyPrice)
+      : 0;
+
+    return {
+      market: {
+        marketId: market.market_id,
+        pair: `${market.base.symbol}/${market.quote.symbol}`,
+        baseSymbol: market.base.symbol,
+        quoteSymbol: market.quote.symbol,
+        tickSize: market.tick_size,
+        stepSize: market.step_size,
+      },
+      now: Date.now(),
+      config: structuredClone(config),
+      book,
+      balances: {
+        base: { available: baseAvailable, locked: baseLocked },
+        quote: {
+          available: Number(balances.quote.unlocked) / qScale,
+          locked: Number(balances.quote.locked) / qScale,
+        },
+      },
+      openOrders: openOrders.map((o) => ({
+        orderId: o.order_id,
+        side: o.side === 'Buy' ? 'Buy' : 'Sell',
+        price: Number(o.price) / qScale,
+        quantity: Number(o.quantity) / bScale,
+        filledQuantity: Number(o.quantity_fill || 0) / bScale,
+        createdAt: o.created_at,
+      })),
+      pnl: {
+        realizedPnl: stats.realizedPnl,
+        unrealizedPnl,
+        totalTrades: stats.totalTrades,
+        totalVolume: stats.totalVolume,
+        totalFees: stats.totalFees,
+        averageBuyPrice,
+        averageSellPrice,
+      },
+    };
+  }
+
+  /** Normalize an order intent; returns a rejection reason or the order to submit. */
+  private prepareIntent(
+    market: Market,
+    config: StrategyConfig,
+    intent: OrderIntent,
+    book: StrategyModuleBook,
+  ): string | {
+    side: 'Buy' | 'Sell';
+    orderType: OrderTypeName;
+    price: Decimal;
+    quantity: Decimal;
+    notional: Decimal;
+    marketable: boolean;
+  } {
+    if (!intent || (intent.side !== 'Buy' && intent.side !== 'Sell')) return 'side must be "Buy" or "Sell"';
+    const side = intent.side;
+    const orderType = intent.orderType ?? config.orderConfig.orderType;
+    if (!ORDER_TYPES.has(orderType)) return `unknown order type "${orderType}"`;
+    const marketable = orderType !== 'Spot' && orderType !== 'PostOnly';
+
+    let price: Decimal;
+    if (intent.price !== undefined && intent.price !== null && intent.price !== '') {
+      try {
+        price = new Decimal(intent.price);
+      } catch {
+        return `invalid price "${intent.price}"`;
+      }
+    } else if (marketable) {
+      const top = side === 'Buy' ? book.bestAsk : book.bestBid;
+      if (top === null) return 'no price given and the book side is empty';
+      price = new Decimal(top);
+    } else {
+      return `${orderType} intents need a price`;
+    }
+    if (!price.isFinite() || price.lte(0)) return `invalid price "${intent.price}"`;
+
+    let quantity: Decimal;
+    try {
+      quantity = roundDownToMarketPrecision(new Decimal(intent.quantity), market);
+    } catch {
+      return `invalid quantity "${intent.quantity}"`;
+    }
+    if (!quantity.isFinite() || quantity.lte(0)) return `quantity ${intent.quantity} rounds to zero`;
+
+    const notional = quantity.mul(price);
+    const minUsd = config.positionSizing.minOrderSizeUsd || 0;
+    if (notional.lt(minUsd)) return `$${notional.toFixed(2)} is below minOrderSizeUsd $${minUsd}`;
+    const maxUsd = config.positionSizing.maxOrderSizeUsd;
+    if (maxUsd !== undefined && maxUsd > 0 && notional.gt(maxUsd)) {
+      return `$${notional.toFixed(2)} exceeds maxOrderSizeUsd $${maxUsd}`;
+    }
+    return { side, orderType, price, quantity, notional, marketable };
+  }
+
+  private openNotional(market: Market, openOrders: Order[]): number {
+    const qScale = new Decimal(10).pow(market.quote.decimals);
+    const bScale = new Decimal(10).pow(market.base.decimals);
+    let total = 0;
+    for (const o of openOrders) {
+      const px = new Decimal(o.price).div(qScale);
+      const remaining = new Decimal(o.quantity).minus(o.quantity_fill || '0').div(bScale);
+      if (remaining.gt(0) && px.gt(0)) total += remaining.mul(px).toNumber();
+    }
+    return total;
+  }
+
+  private async placeIntent(
+    market: Market,
+    config: StrategyConfig,
+    side: 'Buy' | 'Sell',
+    orderType: OrderTypeName,
+    price: Decimal,
+    quantity: Decimal,
+  ): Promise<OrderExecution> {
+    const marketPair = `${market.base.symbol}/${market.quote.symbol}`;
+    const priceScaled = scaleUpAndTruncateToInt(
+      price,
+      market.quote.decimals,
+      market.quote.max_precision,
+      market.tick_size,
+    ).toFixed(0);
+    const quantityScaled = quantity.mul(new Decimal(10).pow(market.base.decimals)).toFixed(0);
+
+    try {
+      const resp = await this.orderManager.placeOrder(
+        market,
+        side,
+        orderType,
+        priceScaled,
+        quantityScaled,
+        config.orderConfig.boundedSlippagePercent,
+      );
+      const quantityPrecision = Math.min(market.base.decimals, 8);
+      return {
+        orderId: resp.orders?.[0]?.order_id || '',
+        side,
+        success: true,
+        price: priceScaled,
+        quantity: quantityScaled,
+        priceHuman: formatPrice(price),
+        quantityHuman: quantity.toFixed(quantityPrecision).replace(/\.?0+$/, ''),
+        marketPair,
+        isLimitOrder: orderType === 'Spot' || orderType === 'PostOnly',
+      };
+    } catch (error: any) {
+      const message = error?.response?.data ? JSON.stringify(error.response.data).slice(0, 200) : error?.message || String(error);
+      console.error(`[StrategyModuleRunner] ${side} @ ${formatPrice(price)} failed (${marketPair}): ${message}`);
+      return { orderId: '', side, success: false, error: message, errorDetails: error, marketPair };
+    }
+  }
+}
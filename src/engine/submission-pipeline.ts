@@ -0,0 +1,245 @@
+import type { Market } from '../types/market.js';
+import type { SessionAction, SessionActionsResponse } from '../types/api.js';
+import type { OrderActionSubmitter } from './order-manager.js';
+import { SubmissionNotExecutedError } from '../auth/session-manager.js';
+
+type ActionGroup = { market_id: string; actions: SessionAction[] };
+
+interface PendingRequest {
+  groups: ActionGroup[];
+  market?: Market; // Set for submitActions requests (single market)
+  actionCount: number;
+  enqueuedAt: number;
+  resolve: (resp: SessionActionsResponse) => void;
+  reject: (err: unknown) => void;
+}
+
+export interface SubmissionPipelineOptions {
+  maxActionsPerRequest?: number; // Cap on actions merged into one signed request (default 24)
+  windowMs?: number; // When idle, wait this long after the first request so others can join it (default 0)
+}
+
+export interface SubmissionPipelineStats {
+  requests: number; // submitActions/submitBatch calls
+  submissions: number; // Signed requests sent
+  combined: number; // Submissions that carried more than one caller's actions
+  fallbacks: number; // Combined submissions that failed and were retried one by one
+  maxCombined: number;
+  settlesMerged: number; // Duplicate SettleBalance actions dropped from combined requests
+  queued: number;
+  avgWaitMs: number; // Queue time before submission
+}
+
+const isSettle = (a: SessionAction | undefined) => !!a?.SettleBalance;
+
+const countCreates = (groups: ActionGroup[]) =>
+  groups.reduce((n, g) => n + g.actions.filter((a) => a.CreateOrder).length, 0);
+
+/**
+ * SubmissionPipeline - shared front for the session action queue when several
+ * markets run at once.
+ *
+ * Callers submit as they would to the SessionManager. While one signed request
+ * is in flight, new ones wait; when it returns, the waiting single-market
+ * requests are merged into one request (one nonce, one transaction), taking
+ * one request per market in turn so a busy market can't crowd out the others,
+ * up to `maxActionsPerRequest` actions. With `windowMs`, an idle pipeline
+ * holds the first request briefly so requests from other markets (cancel-all,
+ * flatten, shutdown settles) go out with it. Requests for the same market keep
+ * their order. Multi-market batches (arbitrage legs, placeOrderBatch) depend
+ * on their group order and are sent on their own.
+ *
+ * Created orders come back in submission order, one per CreateOrder, so each
+ * caller gets the slice of `orders` its own actions created. Where one
+ * caller's closing SettleBalance meets the next caller's opening one in the
+ * same market group, only one is sent. A combined request is all-or-nothing
+ * on chain; if it provably did not execute (SubmissionNotExecutedError), its
+ * parts are re-sent one by one so a bad order only fails its own caller. Any
+ * other failure may have landed, so every part fails with it instead.
+ */
+export class SubmissionPipeline {
+  private submitter: OrderActionSubmitter;
+  private maxActions: number;
+  private windowMs: number;
+  private queue: PendingRequest[] = [];
+  private inFlight = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastLeader: string | null = null; // Market that went first in the last combined request
+  private stats = { requests: 0, submissions: 0, combined: 0, fallbacks: 0, maxCombined: 0, settlesMerged: 0, waitMs: 0, dequeued: 0 };
+
+  constructor(submitter: OrderActionSubmitter, opts: SubmissionPipelineOptions = {}) {
+    this.submitter = submitter;
+    this.maxActions = Math.max(1, opts.maxActionsPerRequest ?? 24);
+    this.windowMs = Math.max(0, opts.windowMs ?? 0);
+  }
+
+  get tradeAccount(): string {
+    return this.submitter.tradeAccount;
+  }
+
+  submitActions(marketId: string, market: Market, actions: SessionAction[]): Promise<SessionActionsResponse> {
+    return this.enqueue([{ market_id: marketId, actions }], market);
+  }
+
+  submitBatch(groups: ActionGroup[]): Promise<SessionActionsResponse> {
+    return this.enqueue(groups);
+  }
+
+  getStats(): SubmissionPipelineStats {
+    const s = this.stats;
+    return {
+      requests: s.requests,
+      submissions: s.submissions,
+      combined: s.combined,
+      fallbacks: s.fallbacks,
+      maxCombined: s.maxCombined,
+      settlesMerged: s.settlesMerged,
+      queued: this.queue.length,
+      avgWaitMs: s.dequeued > 0 ? s.waitMs / s.dequeued : 0,
+    };
+  }
+
+  private enqueue(groups: ActionGroup[], market?: Market): Promise<SessionActionsResponse> {
+    this.stats.requests++;
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        groups,
+        market,
+        actionCount: groups.reduce((n, g) => n + g.actions.length, 0),
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+      });
+      this.scheduleFlush();
+    });
+  }
+
+  private scheduleFlush(): void {
+    if (this.inFlight || this.flushTimer || this.queue.length === 0) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch((err) => console.error('[SubmissionPipeline] Flush failed:', err));
+    }, this.windowMs);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.inFlight || this.queue.length === 0) return;
+    this.inFlight = true;
+    try {
+      const batch = this.take();
+      const now = Date.now();
+      for (const r of batch) {
+        this.stats.waitMs += now - r.enqueuedAt;
+        this.stats.dequeued++;
+      }
+      if (batch.length === 1) await this.sendAlone(batch[0]);
+      else await this.sendCombined(batch);
+    } finally {
+      this.inFlight = false;
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Next requests to send together. A multi-market batch at the head goes
+   * alone; otherwise single-market requests are taken one per market in
+   * rotation, starting after the market that led last time.
+   */
+  private take(): PendingRequest[] {
+    const head = this.queue[0];
+    if (head.groups.length !== 1) {
+      this.queue.shift();
+      return [head];
+    }
+
+    const byMarket = new Map<string, PendingRequest[]>();
+    for (const r of this.queue) {
+      if (r.groups.length !== 1) continue;
+      const id = r.groups[0].market_id;
+      if (!byMarket.has(id)) byMarket.set(id, []);
+      byMarket.get(id)!.push(r);
+    }
+    const markets = [...byMarket.keys()];
+    const start = this.lastLeader ? (markets.indexOf(this.lastLeader) + 1) % markets.length : 0;
+    const order = [...markets.slice(start), ...markets.slice(0, start)];
+
+    const taken: PendingRequest[] = [];
+    let actions = 0;
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const id of order) {
+        const next = byMarket.get(id)![0];
+        if (!next) continue;
+        if (taken.length > 0 && actions + next.actionCount > this.maxActions) continue;
+        taken.push(byMarket.get(id)!.shift()!);
+        actions += next.actionCount;
+        progress = true;
+      }
+    }
+    this.lastLeader = taken[0].groups[0].market_id;
+    const takenSet = new Set(taken);
+    this.queue = this.queue.filter((r) => !takenSet.has(r));
+    return taken;
+  }
+
+  private async sendAlone(r: PendingRequest): Promise<void> {
+    this.stats.submissions++;
+    try {
+      const resp = r.market && r.groups.length === 1
+        ? await this.submitter.submitActions(r.groups[0].market_id, r.market, r.groups[0].actions)
+        : await this.submitter.submitBatch(r.groups);
+      r.resolve(resp);
+    } catch (err) {
+      r.reject(err);
+    }
+  }
+
+  private async sendCombined(batch: PendingRequest[]): Promise<void> {
+    // One group per market, actions in request order; markets in the order they were taken
+    const groups: ActionGroup[] = [];
+    const members = new Map<string, PendingRequest[]>();
+    for (const r of batch) {
+      const id = r.groups[0].market_id;
+      let group = groups.find((g) => g.market_id === id);
+      if (!group) {
+        group = { market_id: id, actions: [] };
+        groups.push(group);
+        members.set(id, []);
+      }
+      const actions = r.groups[0].actions;
+      const skip = isSettle(group.actions[group.actions.length - 1]) && isSettle(actions[0]) ? 1 : 0;
+      this.stats.settlesMerged += skip;
+      group.actions.push(...actions.slice(skip));
+      members.get(id)!.push(r);
+    }
+
+    this.stats.submissions++;
+    this.stats.combined++;
+    this.stats.maxCombined = Math.max(this.stats.maxCombined, batch.length);
+    let resp: SessionActionsResponse;
+    try {
+      resp = await this.submitter.submitBatch(groups);
+    } catch (err) {
+      if (!(err instanceof SubmissionNotExecutedError)) {
+        for (const r of batch) r.reject(err);
+        return;
+      }
+      this.stats.fallbacks++;
+      for (const id of members.keys()) {
+        for (const r of members.get(id)!) await this.sendAlone(r);
+      }
+      return;
+    }
+
+    const orders = resp.orders ?? [];
+    let offset = 0;
+    for (const group of groups) {
+      for (const r of members.get(group.market_id)!) {
+        const created = countCreates(r.groups);
+        r.resolve({ ...resp, orders: orders.slice(offset, offset + created) });
+        offset += created;
+      }
+    }
+  }
+}
@@ -1,27 +1,47 @@
 import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
 import type { Market } from '../types/market.js';
-import type { StrategyConfig, StrategyExecutionResult, StrategyPreset } from '../types/strategy.js';
-import { getPresetStrategyConfig } from '../types/strategy.js';
+import type { CycleTrigger, EventTriggerConfig, PortfolioRiskSnapshot, StrategyConfig, StrategyExecutionResult, StrategyPreset } from '../types/strategy.js';
+import { DEFAULT_EVENT_TRIGGERS, getPresetStrategyConfig, strategyKey } from '../types/strategy.js';
+import type { Trade } from '../types/order.js';
+import type { StrategyModule } from '../types/strategy-module.js';
 import type { MarketDataService } from './market-data.js';
-import type { BalanceTracker } from './balance-tracker.js';
-import type { OrderManager } from './order-manager.js';
+import { applyBudget, type BalanceTracker, type StrategyBalances } from './balance-tracker.js';
+import type { OrderManager, FillEvent } from './order-manager.js';
+import type { CapitalAllocator } from './capital-allocator.js';
+import type { PortfolioRiskManager } from './portfolio-risk.js';
 import type { CompetitionTracker } from './competition-tracker.js';
 import { StrategyExecutor } from './strategy-executor.js';
+import { toModuleBook } from './strategy-module-runner.js';
 import { watchStrategiesDir } from '../config/strategy-loader.js';
 import * as dbQueries from '../db/queries.js';
+import { normalizeB256, roundDownToMarketPrecision, scaleUpAndTruncateToInt } from '../utils/price-math.js';
 
+// One strategy on one market. The map key is strategyKey(): the market id for
+// the market's primary strategy, `<marketId>:<tag>` for additional ones.
 interface MarketSchedule {
   market: Market;
   config: StrategyConfig;
+  strategyTag?: string;
+  executor: StrategyExecutor; // Own executor so per-market risk/grid/DCA state stays per strategy
   nextRunAt: number;
   lastResult?: StrategyExecutionResult;
   paused: boolean;
+  strategyModule?: StrategyModule; // Loaded module for strategyMode 'module'
+  lastRunAt?: number;
+  inFlight?: boolean;
+  pendingTrigger?: CycleTrigger; // nextRunAt was pulled forward by an event
+  triggeredRuns: number[]; // Start times of event-triggered runs in the last minute
+  lastTop?: { bid: number; ask: number }; // Best bid/ask when the depth trigger last fired
 }
 
 export interface TradingContext {
   marketId: string;
+  strategyKey: string;
+  strategyTag?: string;
   pair: string;
   strategy: string;
+  paused: boolean;
   isActive: boolean;
   lastResult?: StrategyExecutionResult;
   baseBalance: number;
@@ -40,14 +60,14 @@ export class TradingEngine extends EventEmitter {
   private marketData: MarketDataService;
   private balanceTracker: BalanceTracker;
   private orderManager: OrderManager;
-  private executor: StrategyExecutor;
   private competitionTracker?: CompetitionTracker;
+  private capitalAllocator?: CapitalAllocator;
   private schedules: Map<string, MarketSchedule> = new Map();
   private running = false;
   private schedulerTimer: ReturnType<typeof setTimeout> | null = null;
 
-  // Active preset name per market. Markets configured from a custom JSON
-  // (no preset name) are absent from this map and skipped on hot reload.
+  // Active preset name per strategy key. Strategies configured from a custom
+  // JSON (no preset name) are absent from this map and skipped on hot reload.
   private currentPresetByMarket: Map<string, string> = new Map();
 
   // Hot-reload watcher handle (null when disabled).
@@ -59,6 +79,19 @@ export class TradingEngine extends EventEmitter {
   // WS-down auto-pause tracking: time when we first observed disconnection.
   private wsDownSince: number | null = null;
 
+  // Account-wide limits, checked on their own timer while running (async: they read balances).
+  private portfolioRisk?: PortfolioRiskManager;
+  private portfolioRiskTimer: ReturnType<typeof setInterval> | null = null;
+  private portfolioRiskChecking = false;
+
+  // Markets with a run in flight. Markets run concurrently (up to
+  // maxConcurrent), the strategies of one market one after another.
+  private executingMarkets: Set<string> = new Set();
+  private maxConcurrent = 0; // 0 = no cap beyond one run per market
+
+  // Default for strategies whose config leaves eventTriggers.enabled unset (--event-driven).
+  private eventDriven = false;
+
   constructor(
     marketData: MarketDataService,
     balanceTracker: BalanceTracker,
@@ -68,7 +101,8 @@ export class TradingEngine extends EventEmitter {
     this.marketData = marketData;
     this.balanceTracker = balanceTracker;
     this.orderManager = orderManager;
-    this.executor = new StrategyExecutor(orderManager, marketData, balanceTracker);
+    this.setupModuleListeners();
+    this.setupEventTriggers();
   }
 
   setCompetitionTracker(tracker: CompetitionTracker): void {
@@ -85,45 +119,132 @@ export class TradingEngine extends EventEmitter {
     }
   }
 
+  /** Cap each strategy's quote spend at its portfolio allocation (see CapitalAllocator). */
+  setCapitalAllocator(allocator: CapitalAllocator): void {
+    this.capitalAllocator = allocator;
+  }
+
+  /**
+   * Enforce account-wide exposure / drawdown / notional / concentration
+   * limits while the engine runs. A breach stops the engine, then cancels or
+   * flattens per `action`, and emits `autoPaused` with marketId '*'.
+   */
+  setPortfolioRisk(manager: PortfolioRiskManager): void {
+    this.portfolioRisk = manager;
+    if (this.running) this.startPortfolioRiskTimer();
+  }
+
+  getPortfolioRiskSnapshot(): PortfolioRiskSnapshot | null {
+    return this.portfolioRisk?.getSnapshot() ?? null;
+  }
+
+  /** Cap on markets executing at once (0 = every market may run concurrently, 1 = one at a time). */
+  setMaxConcurrent(limit: number): void {
+    this.maxConcurrent = Math.max(0, Math.floor(limit));
+    this.kickScheduler();
+  }
+
+  /** Turn event-driven re-evaluation on for every strategy that doesn't set `timing.eventTriggers.enabled`. */
+  setEventDriven(enabled: boolean): void {
+    this.eventDriven = enabled;
+  }
+
+  /** Effective event trigger settings of a strategy (defaults filled in). */
+  getEventTriggers(key: string): EventTriggerConfig | null {
+    const schedule = this.schedules.get(key);
+    if (!schedule) return null;
+    return { ...DEFAULT_EVENT_TRIGGERS, enabled: this.eventDriven, ...schedule.config.timing.eventTriggers };
+  }
+
   /** Inject an explicit boost provider (overrides the competition-tracker derived one). */
   setBoostProvider(provider: BoostProvider): void {
     this.boostProvider = provider;
   }
 
+  /**
+   * Schedule a strategy on a market. A config with `strategyTag` runs next to
+   * the market's primary strategy with its own executor, order tagging, budget
+   * and pause state; `marketAdded` fires for the primary only.
+   */
   addMarket(market: Market, config: StrategyConfig): void {
-    this.schedules.set(market.market_id, {
+    const key = strategyKey(market.market_id, config.strategyTag);
+    this.schedules.set(key, {
       market,
       config,
+      strategyTag: config.strategyTag,
+      executor: this.createExecutor(market, config.strategyTag),
       nextRunAt: Date.now(),
       paused: false,
+      triggeredRuns: [],
     });
-    this.emit('marketAdded', market.market_id);
+    if (config.strategyTag) this.emit('strategyAdded', key);
+    else this.emit('marketAdded', market.market_id);
   }
 
+  /** Attach (or detach with null) the custom strategy module a strategy runs. */
+  setStrategyModule(key: string, strategyModule: StrategyModule | null): void {
+    const schedule = this.schedules.get(key);
+    if (schedule) schedule.strategyModule = strategyModule ?? undefined;
+  }
+
+  /** Remove a market with every strategy running on it. */
   removeMarket(marketId: string): void {
-    this.schedules.delete(marketId);
-    this.currentPresetByMarket.delete(marketId);
+    for (const key of this.getStrategyKeys(marketId)) {
+      this.schedules.delete(key);
+      this.currentPresetByMarket.delete(key);
+    }
     this.emit('marketRemoved', marketId);
   }
 
-  updateConfig(marketId: string, config: StrategyConfig): void {
-    const schedule = this.schedules.get(marketId);
+  updateConfig(key: string, config: StrategyConfig): void {
+    const schedule = this.schedules.get(key);
     if (schedule) {
       // Preserve runtime tracking state from old config
       config.averageBuyPrice = schedule.config.averageBuyPrice;
       config.averageSellPrice = schedule.config.averageSellPrice;
       config.lastFillPrices = schedule.config.lastFillPrices;
+      config.dcaProgress = schedule.config.dcaProgress;
+      // The tag is the strategy's identity, not an editable setting
+      config.strategyTag = schedule.strategyTag;
       schedule.config = config;
       // Persist to DB
-      dbQueries.upsertStrategyConfig(marketId, config);
+      dbQueries.upsertStrategyConfig(schedule.market.market_id, config);
     }
   }
 
+  /**
+   * Executors see only their strategy's orders, and balances narrowed to its
+   * budget when the config sets one (read per cycle so edits apply live) and
+   * to what is left of its capital allocation.
+   */
+  private createExecutor(market: Market, strategyTag?: string): StrategyExecutor {
+    const orders = this.orderManager.forStrategy(strategyTag);
+    const key = strategyKey(market.market_id, strategyTag);
+    const balances: StrategyBalances = {
+      clearCache: (marketId) => this.balanceTracker.clearCache(marketId),
+      getMarketBalances: async (marketId) => {
+        let balances = await this.balanceTracker.getMarketBalances(marketId);
+        const budget = this.schedules.get(key)?.config.budget;
+        const hasBudget = !!budget && (budget.quote !== undefined || budget.base !== undefined);
+        const allocator = this.capitalAllocator?.getAllocation(key) ? this.capitalAllocator : undefined;
+        if (!hasBudget && !allocator) return balances;
+        const ownOrders = await orders.getOpenOrders(market);
+        if (hasBudget) balances = applyBudget(balances, budget!, market, ownOrders);
+        if (allocator) balances = await allocator.applyTo(balances, market, strategyTag, ownOrders);
+        return balances;
+      },
+    };
+    return new StrategyExecutor(orders, this.marketData, balances);
+  }
+
   start(): void {
     if (this.running) return;
     this.running = true;
     this.emit('started');
     this.scheduleNext();
+    // Drawdown counts from each start, so resuming after a breach starts from the current equity.
+    this.portfolioRisk?.rebaseline();
+    this.startPortfolioRiskTimer();
   }
 
   stop(): void {
@@ -132,6 +253,10 @@ export class TradingEngine extends EventEmitter {
       clearTimeout(this.schedulerTimer);
       this.schedulerTimer = null;
     }
+    if (this.portfolioRiskTimer) {
+      clearInterval(this.portfolioRiskTimer);
+      this.portfolioRiskTimer = null;
+    }
     this.emit('stopped');
   }
 
@@ -143,45 +268,70 @@ export class TradingEngine extends EventEmitter {
   // PER-MARKET PAUSE / RESUME
   // =========================================================================
 
-  /** Pause a single market. Global pause/stop is unaffected. Idempotent. */
+  /** Pause every strategy on a market. Global pause/stop is unaffected. Idempotent. */
   pauseMarket(marketId: string): void {
-    const schedule = this.schedules.get(marketId);
-    if (!schedule) return;
-    if (schedule.paused) return;
-    schedule.paused = true;
+    const schedules = this.getMarketSchedules(marketId);
+    if (schedules.length === 0 || schedules.every((s) => s.paused)) return;
+    for (const s of schedules) s.paused = true;
     this.emit('marketPaused', marketId);
   }
 
-  /** Resume a single market and reschedule it for the next tick. Idempotent. */
+  /** Resume every strategy on a market and reschedule it for the next tick. Idempotent. */
   resumeMarket(marketId: string): void {
-    const schedule = this.schedules.get(marketId);
-    if (!schedule) return;
-    if (!schedule.paused) return;
-    schedule.paused = false;
-    schedule.nextRunAt = Date.now();
-    this.emit('marketResumed', marketId);
-
-    // If the global engine is running, kick the scheduler so a paused-only
-    // backlog doesn't leave us idling on a 1s recheck.
-    if (this.running) {
-      if (this.schedulerTimer) {
-        clearTimeout(this.schedulerTimer);
-        this.schedulerTimer = null;
-      }
-      this.scheduleNext();
+    const schedules = this.getMarketSchedules(marketId);
+    if (schedules.length === 0 || schedules.every((s) => !s.paused)) return;
+    for (const s of schedules) {
+      s.paused = false;
+      s.nextRunAt = Date.now();
     }
+    this.emit('marketResumed', marketId);
+    this.kickScheduler();
   }
 
+  /** True when every strategy on the market is paused. */
   isMarketPaused(marketId: string): boolean {
-    return this.schedules.get(marketId)?.paused ?? false;
+    const schedules = this.getMarketSchedules(marketId);
+    return schedules.length > 0 && schedules.every((s) => s.paused);
   }
 
   getPausedMarkets(): string[] {
-    const out: string[] = [];
-    for (const [id, s] of this.schedules) {
-      if (s.paused) out.push(id);
+    const out = new Set<string>();
+    for (const s of this.schedules.values()) {
+      if (this.isMarketPaused(s.market.market_id)) out.add(s.market.market_id);
     }
-    return out;
+    return [...out];
+  }
+
+  /** Pause one strategy (by strategyKey) and leave the others on its market running. */
+  pauseStrategy(key: string): void {
+    const schedule = this.schedules.get(key);
+    if (!schedule || schedule.paused) return;
+    schedule.paused = true;
+    this.emit('strategyPaused', key);
+  }
+
+  resumeStrategy(key: string): void {
+    const schedule = this.schedules.get(key);
+    if (!schedule || !schedule.paused) return;
+    schedule.paused = false;
+    schedule.nextRunAt = Date.now();
+    this.emit('strategyResumed', key);
+    this.kickScheduler();
+  }
+
+  isStrategyPaused(key: string): boolean {
+    return this.schedules.get(key)?.paused ?? false;
+  }
+
+  // If the global engine is running, kick the scheduler so a paused-only
+  // backlog doesn't leave us idling on a 1s recheck.
+  private kickScheduler(): void {
+    if (!this.running) return;
+    this.scheduleNext();
+  }
+
+  private getMarketSchedules(marketId: string): MarketSchedule[] {
+    return [...this.schedules.values()].filter((s) => s.market.market_id === marketId);
   }
 
   // =========================================================================
@@ -190,12 +340,16 @@ export class TradingEngine extends EventEmitter {
 
   getContexts(): TradingContext[] {
     const contexts: TradingContext[] = [];
-    for (const [marketId, schedule] of this.schedules) {
+    for (const [key, schedule] of this.schedules) {
       const market = schedule.market;
+      const marketId = market.market_id;
       contexts.push({
         marketId,
+        strategyKey: key,
+        strategyTag: schedule.strategyTag,
         pair: `${market.base.symbol}/${market.quote.symbol}`,
         strategy: schedule.config.name || 'Custom',
+        paused: schedule.paused,
         isActive: schedule.config.isActive,
         lastResult: schedule.lastResult,
         baseBalance: this.balanceTracker.getBaseBalanceHuman(marketId),
@@ -208,25 +362,36 @@ export class TradingEngine extends EventEmitter {
     return contexts;
   }
 
-  getStrategyConfig(marketId: string): StrategyConfig | null {
-    const schedule = this.schedules.get(marketId);
+  /** Strategy keys running on a market, primary first. */
+  getStrategyKeys(marketId: string): string[] {
+    return [...this.schedules.entries()]
+      .filter(([, s]) => s.market.market_id === marketId)
+      .sort(([, a], [, b]) => (a.strategyTag ? 1 : 0) - (b.strategyTag ? 1 : 0))
+      .map(([key]) => key);
+  }
+
+  // The lookups below take a strategy key; a plain market id addresses the
+  // market's primary strategy.
+
+  getStrategyConfig(key: string): StrategyConfig | null {
+    const schedule = this.schedules.get(key);
     return schedule ? schedule.config : null;
   }
 
-  getNextRunTime(marketId: string): number | null {
-    const schedule = this.schedules.get(marketId);
+  getNextRunTime(key: string): number | null {
+    const schedule = this.schedules.get(key);
     if (!schedule || !schedule.config.isActive) return null;
     return schedule.nextRunAt;
   }
 
-  /** Most recent execution result the executor returned for this market. */
-  getLastExecutionResult(marketId: string): StrategyExecutionResult | undefined {
-    return this.schedules.get(marketId)?.lastResult;
+  /** Most recent execution result the executor returned for this strategy. */
+  getLastExecutionResult(key: string): StrategyExecutionResult | undefined {
+    return this.schedules.get(key)?.lastResult;
   }
 
-  /** Active preset name for this market (undefined if running a custom config). */
-  getStrategyPresetName(marketId: string): string | undefined {
-    return this.currentPresetByMarket.get(marketId);
+  /** Active preset name for this strategy (undefined if running a custom config). */
+  getStrategyPresetName(key: string): string | undefined {
+    return this.currentPresetByMarket.get(key);
   }
 
   /**
@@ -236,11 +401,11 @@ export class TradingEngine extends EventEmitter {
    * customizations the user made through the editor modal or `updateConfig`.
    * Pass `undefined` to clear (mark as 'custom').
    */
-  recordStrategyPresetName(marketId: string, presetName: string | undefined): void {
+  recordStrategyPresetName(key: string, presetName: string | undefined): void {
     if (!presetName || presetName === 'custom') {
-      this.currentPresetByMarket.delete(marketId);
+      this.currentPresetByMarket.delete(key);
     } else {
-      this.currentPresetByMarket.set(marketId, presetName);
+      this.currentPresetByMarket.set(key, presetName);
     }
   }
 
@@ -248,21 +413,22 @@ export class TradingEngine extends EventEmitter {
    * Convenience wrapper: load a preset for a market and apply it via updateConfig.
    * Preserves runtime state (averageBuyPrice, lastFillPrices, dailyLossWindowStart, etc).
    */
-  async setStrategyPreset(marketId: string, preset: StrategyPreset): Promise<void> {
-    const schedule = this.schedules.get(marketId);
+  async setStrategyPreset(key: string, preset: StrategyPreset): Promise<void> {
+    const schedule = this.schedules.get(key);
     if (!schedule) return;
-    const fresh = getPresetStrategyConfig(marketId, preset);
+    const fresh = getPresetStrategyConfig(schedule.market.market_id, preset);
+    fresh.budget = schedule.config.budget;
     // Preserve runtime tracking state explicitly (updateConfig also preserves
     // averageBuyPrice/averageSellPrice/lastFillPrices, but daily-loss window is
     // not covered there — we copy it here so it survives preset switches).
     fresh.dailyLossWindowStart = schedule.config.dailyLossWindowStart;
     fresh.dailyRealizedPnl = schedule.config.dailyRealizedPnl;
     fresh.trailingPeakPrice = schedule.config.trailingPeakPrice;
-    this.updateConfig(marketId, fresh);
+    this.updateConfig(key, fresh);
     if (preset === 'custom') {
-      this.currentPresetByMarket.delete(marketId);
+      this.currentPresetByMarket.delete(key);
     } else {
-      this.currentPresetByMarket.set(marketId, preset);
+      this.currentPresetByMarket.set(key, preset);
     }
   }
 
@@ -272,20 +438,21 @@ export class TradingEngine extends EventEmitter {
 
   /**
    * Watch the strategies directory for JSON changes. When a preset's file
-   * changes, every market currently using that preset is updated in place.
-   * Markets on a custom config (no preset name) are skipped.
+   * changes, every strategy currently using that preset is updated in place.
+   * Strategies on a custom config (no preset name) are skipped.
    */
   enableHotReload(strategiesDir: string): void {
     if (this.hotReloadWatcher) return;
     this.hotReloadWatcher = watchStrategiesDir(strategiesDir, (presetName, config) => {
-      for (const [marketId, currentPreset] of this.currentPresetByMarket) {
+      for (const [key, currentPreset] of this.currentPresetByMarket) {
         if (currentPreset !== presetName) continue;
-        const schedule = this.schedules.get(marketId);
+        const schedule = this.schedules.get(key);
         if (!schedule) continue;
-        // Re-merge for this market: clone config and stamp the correct marketId.
+        // Re-merge for this strategy: clone config and stamp the correct marketId.
+        const marketId = schedule.market.market_id;
         const merged: StrategyConfig = { ...config, marketId };
-        this.updateConfig(marketId, merged);
-        this.emit('configReloaded', marketId, presetName);
+        this.updateConfig(key, merged);
+        this.emit('configReloaded', marketId, presetName, schedule.strategyTag);
       }
     });
   }
@@ -301,46 +468,52 @@ export class TradingEngine extends EventEmitter {
   // SCHEDULER
   // =========================================================================
 
+  /**
+   * Start every due strategy whose market is idle, up to maxConcurrent
+   * markets at once, then sleep until the next one is due. Called again
+   * whenever a run finishes or a schedule changes. Due strategies start in
+   * nextRunAt order, boosted markets first on ties.
+   */
   private scheduleNext(): void {
+    if (this.schedulerTimer) {
+      clearTimeout(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
     if (!this.running) return;
 
     // Run cheap per-tick auto-pause checks before deciding what to run next.
     this.runAutoPauseChecks();
     if (!this.running) return; // ws_down may have triggered a global stop
 
-    // Build iteration order: optionally sort by boost so boosted markets get
-    // first crack at being the "earliest" tick. We still pick the earliest
-    // nextRunAt overall, but ties / equal-due markets prefer boosted ones.
-    const ids = this.getOrderedMarketIds();
-
-    // Find the next market to execute
-    let earliest: MarketSchedule | null = null;
-    let earliestId: string = '';
     const now = Date.now();
-
-    for (const id of ids) {
-      const schedule = this.schedules.get(id);
-      if (!schedule) continue;
-      if (!schedule.config.isActive) continue;
-      if (schedule.paused) continue; // per-market pause: skip without stopping global timer
-      if (!earliest || schedule.nextRunAt < earliest.nextRunAt) {
-        earliest = schedule;
-        earliestId = id;
+    const candidates = this.getOrderedMarketIds()
+      .map((id) => ({ id, schedule: this.schedules.get(id)! }))
+      .filter(({ schedule }) => schedule && schedule.config.isActive && !schedule.paused) // per-market pause: skip without stopping global timer
+      .sort((a, b) => a.schedule.nextRunAt - b.schedule.nextRunAt); // stable: boost order on ties
+
+    let earliestWaiting: number | null = null;
+    for (const { id, schedule } of candidates) {
+      const marketId = schedule.market.market_id;
+      if (this.executingMarkets.has(marketId)) continue; // Rescheduled when its run ends
+      if (schedule.nextRunAt > now) {
+        earliestWaiting ??= schedule.nextRunAt;
+        continue;
       }
+      if (this.maxConcurrent > 0 && this.executingMarkets.size >= this.maxConcurrent) break;
+      this.executingMarkets.add(marketId);
+      void this.executeMarket(id);
     }
 
-    if (!earliest) {
+    if (candidates.length === 0) {
       // No active markets, check again in 1s
       this.schedulerTimer = setTimeout(() => this.scheduleNext(), 1000);
-      return;
+    } else if (earliestWaiting !== null) {
+      this.schedulerTimer = setTimeout(() => this.scheduleNext(), Math.max(0, earliestWaiting - now));
     }
-
-    const delay = Math.max(0, earliest.nextRunAt - now);
-    this.schedulerTimer = setTimeout(() => this.executeMarket(earliestId), delay);
   }
 
   /**
-   * Iterate market ids, sorted with boosted markets first when at least one
+   * Iterate strategy keys, sorted with boosted markets first when at least one
    * market opts in via `preferBoostedMarkets` and a boost provider is wired.
    * Returns Map insertion order if neither condition is met.
    */
@@ -355,30 +528,35 @@ export class TradingEngine extends EventEmitter {
     if (!anyPrefersBoost) return ids;
 
     const provider = this.boostProvider;
-    return ids.slice().sort((a, b) => {
-      const ba = provider.getBoostForMarket(a) || 0;
-      const bb = provider.getBoostForMarket(b) || 0;
-      return bb - ba; // descending: highest boost first
-    });
+    const boost = (key: string) => provider.getBoostForMarket(this.schedules.get(key)!.market.market_id) || 0;
+    return ids.slice().sort((a, b) => boost(b) - boost(a)); // descending: highest boost first
   }
 
-  private async executeMarket(marketId: string): Promise<void> {
-    if (!this.running) return;
-
-    const schedule = this.schedules.get(marketId);
-    if (!schedule || !schedule.config.isActive) {
-      this.scheduleNext();
-      return;
-    }
-    if (schedule.paused) {
-      // Defensive: if a market got paused between scheduling and execution, skip it.
+  // Run one strategy. The scheduler has marked its market as executing; the
+  // mark is cleared here however the run ends, then the scheduler runs again.
+  private async executeMarket(key: string): Promise<void> {
+    const schedule = this.schedules.get(key);
+    if (!schedule) return;
+    const marketId = schedule.market.market_id;
+    try {
+      // Defensive: the strategy may have been paused or deactivated since it was picked.
+      if (this.running && schedule.config.isActive && !schedule.paused) await this.runSchedule(schedule);
+    } finally {
+      this.executingMarkets.delete(marketId);
       this.scheduleNext();
-      return;
     }
+  }
 
+  private async runSchedule(schedule: MarketSchedule): Promise<void> {
+    const marketId = schedule.market.market_id;
+    const trigger = schedule.pendingTrigger;
+    schedule.pendingTrigger = undefined;
+    schedule.lastRunAt = Date.now();
+    if (trigger) schedule.triggeredRuns.push(schedule.lastRunAt);
+    schedule.inFlight = true;
     try {
       // Re-read config from DB for fresh averageBuyPrice etc
-      const dbConfig = dbQueries.getStrategyConfig(marketId);
+      const dbConfig = dbQueries.getStrategyConfig(marketId, schedule.strategyTag);
       if (dbConfig) {
         try {
           const parsed = JSON.parse(dbConfig.config);
@@ -391,18 +569,24 @@ export class TradingEngine extends EventEmitter {
         }
       }
 
-      const result = await this.executor.execute(schedule.market, schedule.config);
+      const result = await schedule.executor.execute(schedule.market, schedule.config, schedule.strategyModule);
+      if (trigger) result.trigger = trigger;
       schedule.lastResult = result;
-      schedule.nextRunAt = result.nextRunAt || this.calculateNextRun(schedule.config, marketId);
+      this.setNextRun(schedule, result.nextRunAt || this.calculateNextRun(schedule.config, marketId));
 
-      this.emit('cycle', marketId, result);
+      this.emit('cycle', marketId, result, schedule.strategyTag);
     } catch (err: any) {
-      this.emit('error', marketId, err);
+      this.emit('error', marketId, err, schedule.strategyTag);
       // Use normal cycle interval — no artificial delay on error
-      schedule.nextRunAt = this.calculateNextRun(schedule.config, marketId);
+      this.setNextRun(schedule, this.calculateNextRun(schedule.config, marketId));
+    } finally {
+      schedule.inFlight = false;
     }
+  }
 
-    this.scheduleNext();
+  // An event that arrived during the run keeps its earlier time
+  private setNextRun(schedule: MarketSchedule, timerRunAt: number): void {
+    schedule.nextRunAt = schedule.pendingTrigger ? Math.min(schedule.nextRunAt, timerRunAt) : timerRunAt;
   }
 
   private calculateNextRun(config: StrategyConfig, marketId?: string): number {
@@ -450,25 +634,33 @@ export class TradingEngine extends EventEmitter {
    * pause/resume oscillation).
    */
   private runAutoPauseChecks(): void {
-    // 1. Strategy-level auto-pause requests from the executor.
-    // The executor exposes a public field; clear it after consuming.
-    const exec = this.executor as unknown as {
-      autoPauseRequested: { reason: string; timestamp: number } | null;
-    };
-    const req = exec.autoPauseRequested;
+    // 1. Strategy-level auto-pause requests from the executors.
+    // Each executor exposes a public field; clear it after consuming.
+    let req: { reason: string; timestamp: number } | null = null;
+    for (const schedule of this.schedules.values()) {
+      if (schedule.executor.autoPauseRequested) {
+        // Reset before acting so a re-trigger can be observed next tick.
+        req ??= schedule.executor.autoPauseRequested;
+        schedule.executor.clearAutoPauseRequest();
+      }
+    }
     if (req) {
-      // Reset before acting so a re-trigger inside pauseMarket can be observed next tick.
-      exec.autoPauseRequested = null;
-      // We don't have a per-market signal from the executor field alone, so
-      // pause every active market that isn't already paused. The reason is
-      // shared on the event for observers.
-      for (const [marketId, schedule] of this.schedules) {
+      // Pause every active strategy that isn't already paused, as a run of
+      // failures on one market usually means the account or venue is at fault.
+      // The reason is shared on the event for observers.
+      const touched = new Set<string>();
+      for (const schedule of this.schedules.values()) {
         if (schedule.config.isActive && !schedule.paused) {
-          this.pauseMarket(marketId);
-          this.emit('autoPaused', { marketId, reason: req.reason });
-          console.warn(`[TradingEngine] Auto-paused ${marketId}: ${req.reason}`);
+          const marketId = schedule.market.market_id;
+          schedule.paused = true;
+          touched.add(marketId);
+          this.emit('autoPaused', { marketId, reason: req.reason, strategyTag: schedule.strategyTag });
+          console.warn(`[TradingEngine] Auto-paused ${strategyKey(marketId, schedule.strategyTag)}: ${req.reason}`);
         }
       }
+      for (const marketId of touched) {
+        if (this.isMarketPaused(marketId)) this.emit('marketPaused', marketId);
+      }
     }
 
     // 2. WS-down detection (engine-wide). Use the strictest configured
@@ -500,6 +692,77 @@ export class TradingEngine extends EventEmitter {
     }
   }
 
+  // =========================================================================
+  // PORTFOLIO RISK
+  // =========================================================================
+
+  private startPortfolioRiskTimer(): void {
+    if (!this.portfolioRisk || this.portfolioRiskTimer) return;
+    const interval = this.portfolioRisk.riskConfig.checkIntervalMs;
+    this.portfolioRiskTimer = setInterval(() => void this.runPortfolioRiskCheck(), interval);
+    void this.runPortfolioRiskCheck();
+  }
+
+  private async runPortfolioRiskCheck(): Promise<void> {
+    const risk = this.portfolioRisk;
+    if (!risk || !this.running || this.portfolioRiskChecking) return;
+    this.portfolioRiskChecking = true;
+    try {
+      const { snapshot, breaches } = await risk.evaluate();
+      this.emit('portfolioRisk', snapshot);
+      if (breaches.length === 0 || !this.running) return;
+
+      const action = risk.riskConfig.action;
+      const detail = breaches.map((b) => b.message).join('; ');
+      console.warn(`[TradingEngine] Portfolio limit breached (${detail}) — global stop, action: ${action}`);
+      this.emit('autoPaused', { marketId: '*', reason: `portfolio_${breaches[0].limit}`, detail });
+      this.emit('portfolioRiskBreached', breaches, snapshot);
+      this.stop();
+      if (action === 'cancel' || action === 'flatten') await this.cancelAllOrders();
+      if (action === 'flatten') await this.flattenAll();
+    } catch (err) {
+      console.error('[TradingEngine] Portfolio risk check failed:', err);
+    } finally {
+      this.portfolioRiskChecking = false;
+    }
+  }
+
+  /**
+   * Market-sell the unlocked base balance of every market, bounded around the
+   * mid. Run after cancelAllOrders() so resting sells have released their base.
+   * Markets go at once so the submission pipeline can send the sells together.
+   */
+  async flattenAll(): Promise<void> {
+    await Promise.all(this.getMarkets().map(async (market) => {
+      try {
+        const result = await this.flattenMarket(market);
+        if (!result) console.error(`[TradingEngine] Flatten skipped for ${market.base.symbol}/${market.quote.symbol}: no mid price`);
+      } catch (err) {
+        console.error(`[TradingEngine] Flatten failed for ${market.base.symbol}/${market.quote.symbol}:`, err);
+      }
+    }));
+  }
+
+  /**
+   * Market-sell one market's unlocked base, rounded to the step size and
+   * bounded around the mid. Resolves with the amount sold (human units, zero
+   * when there is nothing to sell), or null when there is no mid to bound the
+   * order by.
+   */
+  async flattenMarket(market: Market): Promise<{ sold: Decimal; txId: string | null } | null> {
+    this.balanceTracker.clearCache(market.market_id);
+    const balances = await this.balanceTracker.getMarketBalances(market.market_id);
+    const baseScale = new Decimal(10).pow(market.base.decimals);
+    const quantity = roundDownToMarketPrecision(new Decimal(balances.base.unlocked || '0').div(baseScale), market);
+    if (quantity.lte(0)) return { sold: new Decimal(0), txId: null };
+    const mid = this.marketData.getMidPrice(market.market_id);
+    if (!mid) return null;
+    const price = scaleUpAndTruncateToInt(new Decimal(mid), market.quote.decimals, market.quote.max_precision, market.tick_size);
+    const resp = await this.orderManager.placeOrder(market, 'Sell', 'BoundedMarket', price.toFixed(0), quantity.mul(baseScale).toFixed(0));
+    this.balanceTracker.clearCache(market.market_id);
+    return { sold: quantity, txId: resp.tx_id };
+  }
+
   /** Read the WS connection flag the way the dashboard does. */
   private getWsConnected(): boolean {
     // MarketDataService holds a reference to the WS client (private), but the
@@ -521,32 +784,153 @@ export class TradingEngine extends EventEmitter {
     return true;
   }
 
+  // =========================================================================
+  // EVENT TRIGGERS
+  // =========================================================================
+
+  /**
+   * Pull a strategy's next run forward on book moves, own fills and large
+   * prints, for strategies with event triggers enabled. The timer keeps
+   * running as a fallback. A trigger never runs a strategy directly: it moves
+   * nextRunAt to the end of the debounce window (but no sooner than
+   * minIntervalMs after the last run) and the scheduler runs it as usual.
+   * A market that is mid-run picks the new time up when the run ends.
+   */
+  private setupEventTriggers(): void {
+    this.marketData.on('depth', (marketId: string, book) => {
+      const bid = parseFloat(book?.bids?.[0]?.[0]);
+      const ask = parseFloat(book?.asks?.[0]?.[0]);
+      if (!(bid > 0) || !(ask > 0)) return;
+      for (const schedule of this.getMarketSchedules(marketId)) {
+        const t = this.getEventTriggers(strategyKey(marketId, schedule.strategyTag))!;
+        if (!t.enabled || !t.onDepth) continue;
+        const last = schedule.lastTop;
+        if (!last) {
+          schedule.lastTop = { bid, ask };
+          continue;
+        }
+        const moveBps = Math.max(Math.abs(bid - last.bid) / last.bid, Math.abs(ask - last.ask) / last.ask) * 10_000;
+        if (moveBps === 0 || moveBps < t.depthMoveBps) continue;
+        if (this.trigger(schedule, t, 'depth')) schedule.lastTop = { bid, ask };
+      }
+    });
+
+    this.orderManager.on('fill', (fill: FillEvent) => {
+      for (const schedule of this.getMarketSchedules(fill.marketId)) {
+        const t = this.getEventTriggers(strategyKey(fill.marketId, schedule.strategyTag))!;
+        if (t.enabled && t.onFill) this.trigger(schedule, t, 'fill');
+      }
+    });
+
+    this.marketData.on('trades', (marketId: string, trades: Trade[]) => {
+      for (const schedule of this.getMarketSchedules(marketId)) {
+        const t = this.getEventTriggers(strategyKey(marketId, schedule.strategyTag))!;
+        if (!t.enabled || !t.onTrade) continue;
+        const { market } = schedule;
+        const largest = Math.max(...trades.map((tr) =>
+          (parseFloat(tr.price) / 10 ** market.quote.decimals) * (parseFloat(tr.quantity) / 10 ** market.base.decimals)));
+        if (largest >= t.largeTradeNotional) this.trigger(schedule, t, 'trade');
+      }
+    });
+  }
+
+  /** Move a strategy's next run up for an event. False when it was rate limited or already due sooner. */
+  private trigger(schedule: MarketSchedule, t: EventTriggerConfig, reason: CycleTrigger): boolean {
+    if (!this.running || schedule.paused || !schedule.config.isActive) return false;
+    const now = Date.now();
+    schedule.triggeredRuns = schedule.triggeredRuns.filter((ts) => now - ts < 60_000);
+    if (schedule.triggeredRuns.length >= t.maxPerMinute) return false;
+
+    const runAt = Math.max(now + t.debounceMs, (schedule.lastRunAt ?? 0) + t.minIntervalMs);
+    // Mid-run, nextRunAt is the time this run was due; the run sets the next one when it ends
+    const dueAt = schedule.inFlight && !schedule.pendingTrigger ? Infinity : schedule.nextRunAt;
+    if (runAt >= dueAt) return false;
+    schedule.nextRunAt = runAt;
+    schedule.pendingTrigger = reason;
+    this.kickScheduler();
+    return true;
+  }
+
+  // =========================================================================
+  // STRATEGY MODULE CALLBACKS
+  // =========================================================================
+
+  /**
+   * Forward fills and depth updates to the module of the market they belong
+   * to. Module errors are reported on the 'error' event and never propagate
+   * into the order manager or market data emitters.
+   */
+  private setupModuleListeners(): void {
+    const guard = (marketId: string, fn: () => void | Promise<void>) => {
+      try {
+        Promise.resolve(fn()).catch((err) => this.emit('error', marketId, err));
+      } catch (err) {
+        this.emit('error', marketId, err);
+      }
+    };
+
+    this.orderManager.on('fill', (fill: FillEvent) => {
+      const owner = dbQueries.getOrderStrategyNames([normalizeB256(fill.orderId)]).get(normalizeB256(fill.orderId));
+      const schedule = this.schedules.get(strategyKey(fill.marketId, owner ?? undefined));
+      const strategyModule = schedule?.strategyModule;
+      if (!schedule || !strategyModule?.onFill) return;
+      const { market } = schedule;
+      guard(fill.marketId, () => strategyModule.onFill!(Object.freeze({
+        orderId: fill.orderId,
+        marketId: fill.marketId,
+        side: fill.side.toLowerCase() === 'buy' ? 'Buy' : 'Sell',
+        price: fill.price / 10 ** market.quote.decimals,
+        quantity: fill.sizeBase / 10 ** market.base.decimals,
+        timestamp: fill.timestamp,
+      })));
+    });
+
+    this.marketData.on('depth', (marketId: string, book) => {
+      for (const schedule of this.getMarketSchedules(marketId)) {
+        const strategyModule = schedule.strategyModule;
+        if (!strategyModule?.onDepth) continue;
+        const moduleBook = toModuleBook(book, schedule.market);
+        guard(marketId, () => strategyModule.onDepth!(Object.freeze(moduleBook), marketId));
+      }
+    });
+  }
+
   // =========================================================================
   // CANCEL / SHUTDOWN
   // =========================================================================
 
+  // Each market once, however many strategies run on it.
+  private getMarkets(): Market[] {
+    const markets = new Map<string, Market>();
+    for (const s of this.schedules.values()) markets.set(s.market.market_id, s.market);
+    return [...markets.values()];
+  }
+
+  // Every market at once: the submission pipeline coalesces the cancels of
+  // all markets into as few signed requests as its action cap allows.
   async cancelAllOrders(): Promise<void> {
-    for (const [, schedule] of this.schedules) {
+    await Promise.all(this.getMarkets().map(async (market) => {
       try {
-        await this.orderManager.cancelAllOrders(schedule.market);
+        await this.orderManager.cancelAllOrders(market);
       } catch (err) {
-        console.error(`[TradingEngine] Failed to cancel orders for ${schedule.market.base.symbol}/${schedule.market.quote.symbol}:`, err);
+        console.error(`[TradingEngine] Failed to cancel orders for ${market.base.symbol}/${market.quote.symbol}:`, err);
       }
-    }
+    }));
   }
 
   // Submit a SettleBalance per active market on graceful shutdown so any
   // settled-but-not-withdrawn trade proceeds end up back in the trade
   // account instead of being stranded in the orderbook contract. Cheap
   // no-op when there's nothing pending; tolerant of per-market failure.
+  // Submitted together, the settles usually share one transaction.
   async settleAllBalances(): Promise<void> {
-    for (const [, schedule] of this.schedules) {
+    await Promise.all(this.getMarkets().map(async (market) => {
       try {
-        await this.orderManager.settleBalance(schedule.market);
+        await this.orderManager.settleBalance(market);
       } catch (err) {
-        console.error(`[TradingEngine] settleBalance failed for ${schedule.market.base.symbol}/${schedule.market.quote.symbol}:`, err);
+        console.error(`[TradingEngine] settleBalance failed for ${market.base.symbol}/${market.quote.symbol}:`, err);
       }
-    }
+    }));
   }
 
   shutdown(): void {
@@ -2,29 +2,48 @@
 
 import { Command } from 'commander';
 import { loadConfig } from './config/index.js';
-import { initStrategiesDir, resolveStrategy, loadStrategiesFromDir, saveStrategyToFile } from './config/strategy-loader.js';
-import { initDb, closeDb, saveDb } from './db/index.js';
+import { accountsFilePath, loadAccounts, saveAccounts, findAccount, accountDataDir, encryptAccountKey, decryptAccountKey, ACCOUNT_NAME_PATTERN, type AccountConfig } from './config/accounts.js';
+import { initStrategiesDir, resolveStrategy, loadStrategiesFromDir, saveStrategyToFile, findStrategyModule, loadStrategyModule } from './config/strategy-loader.js';
+import { initDb, openDb, runWithDb, bindDb, closeDb, saveDb, type DbHandle } from './db/index.js';
 import * as dbQueries from './db/queries.js';
+import { EXPORT_FORMATS, buildLedger, buildOrders, ledgerToCsv, ordersToCsv, ledgerToTaxCsv, type ExportFormat } from './db/export.js';
 import { WalletManager } from './auth/wallet.js';
-import { SessionManager } from './auth/session-manager.js';
+import { SessionManager, type NonceResyncEvent } from './auth/session-manager.js';
 import { promptPassword } from './auth/password.js';
 import { promptInput, promptSecret, promptChoice, promptMultiChoice, promptConfirm } from './auth/prompt.js';
 import { O2RestClient } from './api/rest-client.js';
 import { O2WebSocketClient } from './api/ws-client.js';
+import { ControlServer } from './api/control-server.js';
+import { MetricsServer } from './api/metrics-server.js';
 import { MarketDataService } from './engine/market-data.js';
 import { BalanceTracker } from './engine/balance-tracker.js';
 import { OrderManager } from './engine/order-manager.js';
 import { TradingEngine } from './engine/trading-engine.js';
 import { PnLCalculator } from './engine/pnl-calculator.js';
+import { LotTracker, COST_BASIS_METHODS, type CostBasisMethod } from './engine/lot-tracker.js';
+import { EquityTracker, computeEquityStats, resampleEquity, type EquityPoint, type EquityStats } from './engine/equity-tracker.js';
 import { CompetitionTracker } from './engine/competition-tracker.js';
+import { CapitalAllocator } from './engine/capital-allocator.js';
+import { FeeReconciler } from './engine/fee-reconciler.js';
+import { SubmissionPipeline } from './engine/submission-pipeline.js';
+import { PortfolioRiskManager, hasPortfolioLimits } from './engine/portfolio-risk.js';
+import { ArbitrageEngine } from './engine/arbitrage-engine.js';
+import { MetricsCollector } from './engine/metrics-collector.js';
+import { AuditLog, AUDIT_EVENT_TYPES, readAuditEvents, summarizeAudit, parseAuditTime } from './engine/audit-log.js';
 import { NotificationManager } from './notifications/index.js';
 import { CommandRouter, type BotCommandHandlers } from './notifications/command-router.js';
 import { Dashboard } from './tui/dashboard.js';
 import { Logger } from './tui/logger.js';
+import { loadCapture, saveCapture, fetchHistory, runBacktest, type ReplayEvent } from './sim/backtest.js';
+import { SimulatedExchange } from './sim/exchange.js';
+import { MockO2Server, loadScenario } from './sim/mock-server.js';
 import type { Market } from './types/market.js';
-import type { StrategyConfig, StrategyPreset } from './types/strategy.js';
-import { getPresetStrategyConfig, STRATEGY_PRESET_LABELS } from './types/strategy.js';
-import { existsSync, writeFileSync } from 'fs';
+import type { CapitalAllocation, StrategyConfig, StrategyPreset } from './types/strategy.js';
+import type { StrategyModule } from './types/strategy-module.js';
+import type { AuditEvent, AuditEventType } from './types/audit.js';
+import { getPresetStrategyConfig, STRATEGY_PRESET_LABELS, strategyKey } from './types/strategy.js';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
 import { resolve } from 'path';
 import orderBookAbiJson from './types/contracts/orderbook-abi.json' with { type: 'json' };
 
@@ -38,16 +57,68 @@ program
 program
   .command('start', { isDefault: true })
   .description('Start the trading bot')
-  .option('-s, --strategy <name>', 'Strategy preset or JSON file name', 'simple')
+  .option('-s, --strategy <name>', 'Strategy preset, JSON file or strategy module name', 'simple')
   .option('-m, --market <pairs...>', 'Market pairs to trade (e.g., ETH_USDC)', ['ETH_USDC'])
   .option('-w, --watch', 'Monitor only — show dashboard without executing trades')
+  .option('--paper', 'Paper trading — live market data, simulated orders and balances (no key or session)')
+  .option('--paper-quote <amount>', 'Starting virtual quote balance in paper mode', '1000')
+  .option('--paper-base <amount>', 'Starting virtual base balance per market in paper mode', '0')
   .option('--no-tui', 'Disable TUI dashboard (console logging only)')
   .option('--password <password>', 'Session encryption password (skips prompt)')
   .option('--config <path>', 'Path to a strategy JSON config file')
+  .option('--arb', 'Run triangular arbitrage across the selected markets that share assets')
+  .option('--arb-min-profit <percent>', 'Minimum net profit after taker fees to trade a cycle (%)', '0.3')
+  .option('--arb-max-amount <amount>', 'Max USD value of the starting asset per arbitrage attempt', '50')
+  .option('--arb-dry-run', 'Detect and log arbitrage opportunities without trading')
+  .option('--control-port <port>', 'Serve the HTTP control API on 127.0.0.1:<port> (token: O2_CONTROL_TOKEN)')
+  .option('--metrics-port <port>', 'Serve Prometheus metrics on <port>/metrics')
+  .option('--metrics-host <host>', 'Interface for the metrics endpoint', '127.0.0.1')
+  .option('--audit', 'Write a JSONL audit trail of cycles, submitted actions and fills to data/audit/')
+  .option('--add-strategy <specs...>', 'Run another strategy next to the main one: tag=source, or PAIR:tag=source for one market')
+  .option('--allocate <specs...>', 'Capital per market/strategy: PAIR=usd or PAIR=percent% of the account (PAIR:tag=... for a tagged strategy)')
+  .option('--cost-basis <specs...>', 'Lot matching for lot P&L: fifo, lifo or average for all markets, PAIR=method for one', ['fifo'])
+  .option('--event-driven', 'Also re-run strategies on book moves, own fills and large prints (debounced, see timing.eventTriggers)')
+  .option('--max-concurrent <n>', 'Markets executing at once (0 = all, 1 = one at a time)', '0')
+  .option('--max-batch-actions <n>', 'Cap on session actions merged into one signed request across markets', '24')
+  .option('--batch-window-ms <ms>', 'Hold an idle submission this long so other markets can join it', '10')
+  .option('--accounts [file]', 'Run every account of an accounts file (default: O2_ACCOUNTS_FILE or ./accounts.json)')
   .action(async (opts) => {
     await startBot(opts);
   });
 
+const accountsCommand = program
+  .command('accounts')
+  .description('Manage the wallets run together with start --accounts');
+
+accountsCommand
+  .command('add <name>')
+  .description('Add an account (or replace its key): prompts for the private key and encrypts it with the session password')
+  .option('--wallet-type <type>', 'Wallet type: fuel or evm', 'fuel')
+  .option('-m, --market <pairs...>', 'Market pairs for this account (default: the start flags)')
+  .option('-s, --strategy <name>', 'Strategy preset, JSON file or strategy module name (default: the start flags)')
+  .option('--data-dir <dir>', 'Data directory (default: <data dir>/accounts/<name>; point at an existing one to keep its history)')
+  .option('--password <password>', 'Session encryption password (skips prompt)')
+  .option('--file <path>', 'Accounts file (default: O2_ACCOUNTS_FILE or ./accounts.json)')
+  .action(async (name, opts) => {
+    await addAccount(name, opts);
+  });
+
+accountsCommand
+  .command('list')
+  .description('List the accounts of the accounts file')
+  .option('--file <path>', 'Accounts file (default: O2_ACCOUNTS_FILE or ./accounts.json)')
+  .action((opts) => {
+    listAccounts(opts);
+  });
+
+accountsCommand
+  .command('remove <name>')
+  .description('Remove an account from the accounts file (its data directory is kept)')
+  .option('--file <path>', 'Accounts file (default: O2_ACCOUNTS_FILE or ./accounts.json)')
+  .action((name, opts) => {
+    removeAccount(name, opts);
+  });
+
 program
   .command('markets')
   .description('List available markets on O2')
@@ -59,11 +130,100 @@ program
   .command('history')
   .description('Show trade history')
   .option('-m, --market <id>', 'Filter by market ID')
+  .option('-s, --strategy <tag>', 'Filter by strategy tag (primary for the main strategy)')
   .option('-n, --limit <number>', 'Number of trades to show', '20')
+  .option('-a, --account <name>', 'Account of the accounts file (its data directory)')
   .action(async (opts) => {
     await showHistory(opts);
   });
 
+program
+  .command('lots')
+  .description('Lot-matched round trips: realized P&L per buy/sell pair and holding periods')
+  .option('-m, --market <id>', 'Only this market (market ID or prefix)')
+  .option('-s, --strategy <tag>', 'Filter by strategy tag (primary for the main strategy)')
+  .option('--since <time>', 'Sells from: relative (30m, 6h, 2d) or a date')
+  .option('--until <time>', 'Sells until: relative (30m, 6h, 2d) or a date')
+  .option('--matches', 'List the matched lots instead of a summary')
+  .option('-n, --limit <number>', 'Number of matches to list (most recent)', '50')
+  .option('--json', 'Print the matched lots as JSON')
+  .option('-a, --account <name>', 'Account of the accounts file (its data directory)')
+  .action(async (opts) => {
+    await showLots(opts);
+  });
+
+program
+  .command('export')
+  .description('Export trades and orders for accounting: CSV, JSON or crypto-tax import files')
+  .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join(', ')})`, 'csv')
+  .option('-m, --market <id>', 'Only this market (market ID or prefix)')
+  .option('--year <year>', 'One calendar year (UTC), e.g. 2025')
+  .option('--since <time>', 'Start of the range: relative (30m, 6h, 2d) or a date')
+  .option('--until <time>', 'End of the range: relative (30m, 6h, 2d) or a date')
+  .option('-o, --out <dir>', 'Directory to write the files to', '.')
+  .option('-a, --account <name>', 'Account of the accounts file (its data directory)')
+  .action(async (opts) => {
+    await exportLedger(opts);
+  });
+
+program
+  .command('report')
+  .description('Equity curve, drawdown and risk-adjusted returns from the recorded snapshots')
+  .option('-m, --market <id>', 'Only this market (market ID or prefix)')
+  .option('--since <time>', 'Start of the range: relative (30m, 6h, 2d) or a date')
+  .option('--until <time>', 'End of the range: relative (30m, 6h, 2d) or a date')
+  .option('--period <time>', 'Return period for the Sharpe/Sortino ratios (e.g. 15m, 1h, 1d)', '1h')
+  .option('--json', 'Print the statistics as JSON')
+  .option('-a, --account <name>', 'Account of the accounts file (its data directory)')
+  .action(async (opts) => {
+    await showReport(opts);
+  });
+
+program
+  .command('audit')
+  .description('Filter and summarize the JSONL audit trail')
+  .option('-m, --market <pair>', 'Filter by market pair (ETH_USDC) or market ID prefix')
+  .option('--since <time>', 'Start of the range: relative (30m, 6h, 2d) or a date')
+  .option('--until <time>', 'End of the range: relative (30m, 6h, 2d) or a date')
+  .option('-t, --type <types...>', `Event types (${AUDIT_EVENT_TYPES.join(', ')})`)
+  .option('--events', 'List matching events instead of a summary')
+  .option('--json', 'Print matching events as raw JSONL')
+  .option('-n, --limit <number>', 'Number of events to list (most recent)', '50')
+  .option('--file <path>', 'Read an audit directory or .jsonl file instead of data/audit/')
+  .option('-a, --account <name>', 'Account of the accounts file (its data directory)')
+  .action(async (opts) => {
+    await showAudit(opts);
+  });
+
+program
+  .command('backtest')
+  .description('Replay a strategy against historical bars/trades on a simulated exchange')
+  .option('-s, --strategy <name>', 'Strategy preset, JSON file or strategy module name', 'simple')
+  .option('-m, --market <pair>', 'Market pair (e.g., ETH_USDC)', 'ETH_USDC')
+  .option('--config <path>', 'Path to a strategy JSON config file')
+  .option('--data <file>', 'Replay a local CSV/JSONL capture instead of fetching history')
+  .option('--source <type>', 'History to fetch from the API: bars or trades', 'bars')
+  .option('--resolution <res>', 'Bar resolution when fetching bars', '5m')
+  .option('-n, --count <number>', 'Number of bars/trades to fetch', '500')
+  .option('--save <file>', 'Save fetched history as a JSONL capture for offline replays')
+  .option('--quote <amount>', 'Starting quote balance', '1000')
+  .option('--base <amount>', 'Starting base balance', '0')
+  .option('--spread <percent>', 'Synthetic book spread around each print (%)', '0.1')
+  .option('--depth-usd <amount>', 'Synthetic book liquidity per level (USD)', '10000')
+  .action(async (opts) => {
+    await backtest(opts);
+  });
+
+program
+  .command('mock-server')
+  .description('Run a local mock O2 API (REST + WebSocket) for offline end-to-end testing')
+  .option('-p, --port <port>', 'Port to listen on', '8787')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('--scenario <file>', 'Scenario JSON: markets, balances and scripted faults')
+  .action(async (opts) => {
+    await mockServer(opts);
+  });
+
 program
   .command('init')
   .description('Initialize strategies directory with preset files')
@@ -165,18 +325,66 @@ async function interactiveSetup(opts: {
   return { privateKey, walletType, password, markets: selectedMarkets, strategy };
 }
 
-async function startBot(opts: {
+interface StartOptions {
   strategy: string;
   market: string[];
   tui: boolean;
   watch?: boolean;
   password?: string;
   config?: string;
-}): Promise<void> {
+  paper?: boolean;
+  paperQuote?: string;
+  paperBase?: string;
+  arb?: boolean;
+  arbMinProfit?: string;
+  arbMaxAmount?: string;
+  arbDryRun?: boolean;
+  controlPort?: string;
+  metricsPort?: string;
+  metricsHost?: string;
+  audit?: boolean;
+  addStrategy?: string[];
+  allocate?: string[];
+  costBasis: string[];
+  eventDriven?: boolean;
+  maxConcurrent: string;
+  maxBatchActions: string;
+  batchWindowMs: string;
+  accounts?: string | boolean;
+}
+
+async function startBot(opts: StartOptions): Promise<void> {
   let config = loadConfig();
 
+  // Paper trading keeps the live market-data feeds but routes orders to an
+  // in-process simulated book — no wallet, password or session needed.
+  const paper = opts.paper === true;
+
+  // Several wallets in one process: each entry of the accounts file brings its
+  // own key, markets, strategies and data directory.
+  let accountConfigs: AccountConfig[] = [];
+  if (opts.accounts) {
+    const file = accountsFilePath(typeof opts.accounts === 'string' ? opts.accounts : undefined);
+    try {
+      accountConfigs = loadAccounts(file);
+    } catch (err: any) {
+      console.error(err?.message || err);
+      process.exit(1);
+    }
+    if (accountConfigs.length === 0) {
+      console.error(`No accounts in ${file}. Add one with: o2-bot accounts add <name>`);
+      process.exit(1);
+    }
+    if (opts.controlPort || opts.metricsPort) {
+      console.error('The control API and metrics endpoint serve a single account and are not available with --accounts.');
+      console.error('Run a separate `o2-bot start` per account (each with its own O2_DATA_DIR) to use them.');
+      process.exit(1);
+    }
+  }
+  const multiAccount = accountConfigs.length > 0;
+
   // If no private key configured, run interactive setup
-  if (!config.wallet.privateKey) {
+  if (!config.wallet.privateKey && !paper && !multiAccount) {
     const setup = await interactiveSetup(opts);
     // Apply setup values
     config = loadConfig(); // reload after .env write
@@ -204,258 +412,80 @@ async function startBot(opts: {
   const logger = new Logger(config.dataDir, 'info');
   logger.info('Starting O2 CLI Trading Bot...', 'Boot');
 
-  // Initialize database
-  logger.info('Initializing database...', 'Boot');
-  await initDb(config.dataDir);
+  // Initialize database (paper fills stay in memory so live history is untouched).
+  // With several accounts, each opens its own in its data directory below.
+  if (!multiAccount) {
+    logger.info('Initializing database...', 'Boot');
+    await initDb(config.dataDir, { persist: !paper });
+  }
 
   // Initialize strategies directory
   initStrategiesDir(config.strategiesDir);
 
-  // Get password for session encryption
-  let password = opts.password || config.session.password || '';
-  if (!password) {
-    password = await promptPassword('Enter session encryption password: ');
-    if (!password) {
-      console.error('Password is required for session key encryption.');
-      process.exit(1);
-    }
-  }
-
-  // Initialize wallet
-  logger.info(`Initializing ${config.wallet.type} wallet...`, 'Boot');
-  const walletManager = new WalletManager(config.wallet.privateKey, config.wallet.type);
-  await walletManager.init(config.o2.networkUrl);
-  logger.info(`Owner address: ${walletManager.ownerAddress}`, 'Boot');
-
   // Initialize REST client
   const restClient = new O2RestClient(config.o2.apiUrl);
 
   // Initialize WebSocket client
   const wsClient = new O2WebSocketClient({ url: config.o2.wsUrl });
 
-  // Initialize session manager
-  const sessionManager = new SessionManager({
-    walletManager,
-    restClient,
-    password,
-    sessionExpiryMs: config.session.expiryMs,
-  });
-
-  // Set up session persistence callbacks
-  sessionManager.onSessionCreated = async (info, encryptedKey) => {
-    dbQueries.upsertSession({
-      id: info.sessionId,
-      tradeAccountId: info.tradeAccountId,
-      ownerAddress: info.ownerAddress,
-      contractIds: info.contractIds,
-      expiry: info.expiry,
-      createdAt: info.createdAt,
-    });
-    dbQueries.upsertSessionKey(info.sessionId, encryptedKey);
-    saveDb();
-  };
-
-  sessionManager.onNonceUpdate = async (tradeAccountId, nonce) => {
-    dbQueries.upsertNonce(tradeAccountId, nonce);
-  };
-
-  // Load OrderBook ABI (imported as JSON module so it works in bun compiled binaries)
-  const orderBookAbi = orderBookAbiJson;
-
-  // Initialize session
-  logger.info('Setting up trade account and session...', 'Boot');
-  await sessionManager.initialize(orderBookAbi);
-  logger.info(`Trade account: ${sessionManager.tradeAccount}`, 'Boot');
-
-  // Discover markets
-  logger.info('Discovering markets...', 'Boot');
-  const marketData = new MarketDataService(restClient, wsClient);
-  const allMarkets = await marketData.discoverMarkets();
-  logger.info(`Found ${allMarkets.length} markets`, 'Boot');
-
-  // Resolve requested markets
-  const requestedMarkets: Market[] = [];
-  for (const pair of opts.market) {
-    const [base, quote] = pair.split('_');
-    const market = marketData.getMarketBySymbol(base, quote);
-    if (market) {
-      requestedMarkets.push(market);
-      logger.info(`Market: ${base}/${quote} (${market.market_id.slice(0, 10)}...)`, 'Boot');
-    } else {
-      logger.warn(`Market ${pair} not found, skipping`, 'Boot');
-    }
-  }
-
-  if (requestedMarkets.length === 0) {
-    console.error('No valid markets found. Available markets:');
-    for (const m of allMarkets) {
-      console.log(`  ${m.base.symbol}_${m.quote.symbol}`);
-    }
-    process.exit(1);
-  }
-
-  // Try to restore session or create new one
-  const existingSession = dbQueries.getActiveSession(walletManager.ownerAddress);
-  let sessionRestored = false;
-
-  if (existingSession) {
-    const encryptedKey = dbQueries.getSessionKey(existingSession.id);
-    if (encryptedKey) {
-      // Check if the session's contract IDs cover the requested markets
-      const sessionContracts = new Set<string>(JSON.parse(existingSession.contract_ids));
-      const allMarketsInSession = requestedMarkets.every(m => sessionContracts.has(m.contract_id));
-
-      if (!allMarketsInSession) {
-        logger.warn('Session does not cover all requested markets, creating new session', 'Boot');
-        dbQueries.deactivateSession(existingSession.id);
-      } else {
-        logger.info('Found existing session, attempting restore...', 'Boot');
-        sessionRestored = await sessionManager.restoreSession(
-          existingSession.id,
-          encryptedKey,
-          {
-            sessionId: existingSession.id,
-            tradeAccountId: existingSession.trade_account_id,
-            ownerAddress: existingSession.owner_address,
-            contractIds: JSON.parse(existingSession.contract_ids),
-            expiry: existingSession.expiry,
-            createdAt: existingSession.created_at,
-          }
-        );
-        if (sessionRestored) {
-          logger.info('Session restored successfully', 'Boot');
-        } else {
-          logger.warn('Session restore failed (expired?), creating new session', 'Boot');
-          dbQueries.deactivateSession(existingSession.id);
-        }
+  // Get password for session encryption (and for the keys in the accounts file)
+  let password = '';
+  if (paper) {
+    logger.info('Paper trading mode — orders are simulated, no wallet or session', 'Boot');
+  } else {
+    password = opts.password || config.session.password || '';
+    if (!password) {
+      password = await promptPassword('Enter session encryption password: ');
+      if (!password) {
+        console.error('Password is required for session key encryption.');
+        process.exit(1);
       }
     }
   }
 
-  if (!sessionRestored) {
-    logger.info('Creating new session...', 'Boot');
-    const sessionInfo = await sessionManager.createNewSession(requestedMarkets);
-    logger.info(`Session created: ${sessionInfo.sessionId.slice(0, 10)}...`, 'Boot');
-  }
-
-  // Store markets for session renewal (works after both restore and create)
-  sessionManager.setMarkets(requestedMarkets);
-
-  // Initialize market contracts for order encoding
-  for (const market of requestedMarkets) {
-    sessionManager.initMarketContract(market);
-  }
-
-  // Start session expiry monitoring (auto-renews before expiry)
-  sessionManager.startExpiryMonitor();
-
-  // Connect WebSocket
-  logger.info('Connecting WebSocket...', 'Boot');
-  wsClient.connect();
-
-  // Initialize balance tracker
-  const balanceTracker = new BalanceTracker(restClient, wsClient);
-  balanceTracker.init(sessionManager.tradeAccount, walletManager.ownerAddress, requestedMarkets);
-  balanceTracker.startPolling();
-
-  // Initialize competition tracker
-  const competitionTracker = new CompetitionTracker(restClient);
-  competitionTracker.init(walletManager.ownerAddress);
-  competitionTracker.startPolling(60_000);
-
-  competitionTracker.on('streakAtRisk', (info: any) => {
-    logger.warn(`Streak at risk! Day ${info.periodIndex + 1}, ${info.progress}% elapsed, ${info.volume}/${info.target} volume`, 'Competition');
-  });
-  competitionTracker.on('superBoostLost', (info: any) => {
-    logger.warn(`Super boost lost! Previous status: ${info.previousStatus}`, 'Competition');
-  });
-
-  // Initialize order manager
-  const orderManager = new OrderManager(sessionManager, restClient, wsClient);
-  orderManager.subscribeOrders();
-  await orderManager.seedFillTracker(requestedMarkets);
-  orderManager.startPolling(requestedMarkets);
-
-  // Subscribe to depth for all markets (WS + REST fallback)
-  marketData.subscribeDepth(requestedMarkets.map((m) => m.market_id));
-  marketData.startTickerPolling(requestedMarkets.map((m) => m.market_id));
-  marketData.startDepthPolling(requestedMarkets.map((m) => m.market_id), 3000);
-
-  // Log unknown WS actions to help diagnose depth issues
-  marketData.on('ws_debug', (msg: string) => {
-    logger.info(msg, 'WS');
-  });
-
-  // Initialize P&L calculator
-  const pnlCalc = new PnLCalculator();
-  pnlCalc.startSnapshotting();
-
-  // Wire fill events to P&L (estimate fees from market fee rates)
-  orderManager.on('fill', (fill) => {
-    const market = marketData.getMarket(fill.marketId);
-    if (market) {
-      // Estimate fee: market orders pay taker fee, limit orders pay maker fee
-      const feeRate = parseFloat(market.taker_fee) / 1_000_000; // taker fee as fraction
-      const priceHuman = fill.price / 10 ** market.quote.decimals;
-      const sizeHuman = fill.sizeBase / 10 ** market.base.decimals;
-      fill.fee = priceHuman * sizeHuman * feeRate;
-      pnlCalc.recordFill(fill, market.base.decimals, market.quote.decimals);
-    }
-  });
-
-  // Initialize trading engine
-  const engine = new TradingEngine(marketData, balanceTracker, orderManager);
-  engine.setCompetitionTracker(competitionTracker);
-
-  // Load strategies for each market
-  for (const market of requestedMarkets) {
-    let strategyConfig: StrategyConfig;
-
-    // Check if there's a persisted config in DB
-    const dbConfig = dbQueries.getStrategyConfig(market.market_id);
-    if (dbConfig) {
+  const specs: AccountSpec[] = [];
+  if (multiAccount) {
+    for (const account of accountConfigs) {
+      let privateKey = '';
       try {
-        strategyConfig = JSON.parse(dbConfig.config);
-        logger.info(`Loaded persisted strategy for ${market.base.symbol}/${market.quote.symbol}`, 'Boot');
-      } catch {
-        strategyConfig = resolveStrategy(
-          opts.config || opts.strategy,
-          market.market_id,
-          config.strategiesDir
-        );
+        if (!paper) privateKey = decryptAccountKey(account, password);
+      } catch (err: any) {
+        console.error(err?.message || err);
+        process.exit(1);
       }
-    } else {
-      strategyConfig = resolveStrategy(
-        opts.config || opts.strategy,
-        market.market_id,
-        config.strategiesDir
-      );
+      specs.push({
+        name: account.name,
+        privateKey,
+        walletType: account.walletType,
+        markets: account.markets ?? opts.market,
+        strategy: account.strategy ?? opts.strategy,
+        config: account.config ?? opts.config,
+        addStrategy: account.addStrategy ?? opts.addStrategy ?? [],
+        allocate: account.allocate ?? opts.allocate ?? [],
+        costBasis: account.costBasis ?? opts.costBasis,
+        dataDir: accountDataDir(account, config.dataDir),
+      });
     }
-
-    // Persist strategy config
-    dbQueries.upsertStrategyConfig(market.market_id, strategyConfig);
-
-    engine.addMarket(market, strategyConfig);
-    // Record the source preset so hot-reload can map preset-file edits back to
-    // this market. Custom configs (loaded from disk via --config) get tagged
-    // 'custom' and are intentionally skipped by hot-reload.
-    const KNOWN_PRESETS: ReadonlySet<string> = new Set(['simple', 'volumeMaximizing', 'profitTaking', 'competitionMode']);
-    const presetTag = KNOWN_PRESETS.has(opts.strategy) ? opts.strategy : undefined;
-    engine.recordStrategyPresetName(market.market_id, presetTag);
-    logger.info(
-      `Strategy "${strategyConfig.name}" loaded for ${market.base.symbol}/${market.quote.symbol}`,
-      'Boot'
-    );
+  } else {
+    specs.push({
+      name: '',
+      privateKey: config.wallet.privateKey,
+      walletType: config.wallet.type,
+      markets: opts.market,
+      strategy: opts.strategy,
+      config: opts.config,
+      addStrategy: opts.addStrategy ?? [],
+      allocate: opts.allocate ?? [],
+      costBasis: opts.costBasis,
+      dataDir: config.dataDir,
+    });
   }
 
-  // Hot-reload: edits to strategies/*.json are picked up live for any market
-  // currently using that preset (markets with custom configs are skipped).
-  try {
-    engine.enableHotReload(config.strategiesDir);
-    logger.info(`Hot-reload watching ${config.strategiesDir}`, 'Boot');
-  } catch (err: any) {
-    logger.warn(`Hot-reload disabled: ${err?.message || err}`, 'Boot');
-  }
+  // Discover markets
+  logger.info('Discovering markets...', 'Boot');
+  const marketData = new MarketDataService(restClient, wsClient);
+  const allMarkets = await marketData.discoverMarkets();
+  logger.info(`Found ${allMarkets.length} markets`, 'Boot');
 
   // Initialize notifications. `enableCommands` lets users control the bot
   // from Telegram (/status, /pause, /resume, /cancel, /flatten, /strategy,
@@ -463,108 +493,92 @@ async function startBot(opts: {
   const enableTelegramCommands =
     /^(true|1|yes)$/i.test(process.env.TELEGRAM_ENABLE_COMMANDS || '');
   const notifications = new NotificationManager(config, {
-    telegram: { enableCommands: enableTelegramCommands },
+    telegram: { enableCommands: enableTelegramCommands && !multiAccount },
   });
 
-  // Wire engine events to notifications
   let shuttingDown = false;
 
-  engine.on('started', () => {
-    notifications.notify('BOT_STARTED', 'Trading bot started');
-  });
-  engine.on('stopped', () => {
-    if (!shuttingDown) notifications.notify('BOT_STOPPED', 'Trading bot stopped');
-  });
-  engine.on('error', (marketId: string, err: Error) => {
-    logger.error(`${err.message}`, marketId.slice(0, 8));
-    // Use typed helper for order rejections; fall back to generic ERROR.
-    const msg = err?.message || String(err);
-    if (/reject|nonce|insufficient|invalid|forbidden/i.test(msg)) {
-      notifications.notifyOrderRejected(marketId, msg);
-    } else {
-      notifications.notify('ERROR', `Market ${marketId}: ${msg}`);
-    }
-  });
+  // Connect WebSocket
+  logger.info('Connecting WebSocket...', 'Boot');
+  wsClient.connect();
 
-  // Per-market lifecycle events (manual pause, hot-reload, auto-pause)
-  engine.on('marketPaused', (marketId: string) => {
-    logger.info(`Market paused: ${marketId.slice(0, 8)}`, 'Engine');
-  });
-  engine.on('marketResumed', (marketId: string) => {
-    logger.info(`Market resumed: ${marketId.slice(0, 8)}`, 'Engine');
-  });
-  engine.on('autoPaused', (info: { marketId: string; reason: string }) => {
-    const tag = info.marketId === '*' ? 'GLOBAL' : info.marketId.slice(0, 8);
-    logger.warn(`Auto-paused [${tag}]: ${info.reason}`, 'Engine');
-    notifications.notifyAutoPaused(info.marketId, info.reason);
-  });
-  engine.on('configReloaded', (marketId: string, presetName: string) => {
-    logger.info(`Hot-reloaded "${presetName}" for ${marketId.slice(0, 8)}`, 'Engine');
-  });
-  orderManager.on('fill', (fill) => {
-    const market = marketData.getMarket(fill.marketId);
-    if (market) {
-      const priceHuman = fill.price / 10 ** market.quote.decimals;
-      const sizeHuman = fill.sizeBase / 10 ** market.base.decimals;
-      const pair = `${market.base.symbol}/${market.quote.symbol}`;
-      logger.info(`${fill.side} ${sizeHuman.toFixed(6)} ${market.base.symbol} @ $${priceHuman.toFixed(4)} (${pair})`, 'Fill');
-      notifications.notify(
-        'ORDER_FILLED',
-        `${fill.side} ${sizeHuman.toFixed(6)} ${market.base.symbol} @ $${priceHuman.toFixed(4)}`
-      );
-    }
-    // Refresh competition data on fills (debounced: only if last fetch > 30s ago)
-    const compState = competitionTracker.getState();
-    if (!compState || Date.now() - compState.lastUpdated > 30_000) {
-      competitionTracker.refresh().catch(() => {});
+  // One trading stack per account. With several, each runs against its own
+  // database (runWithDb) and WebSocket subscriptions; market data is shared.
+  const services: AccountServices = {
+    config,
+    opts,
+    paper,
+    password,
+    restClient,
+    wsClient: multiAccount ? null : wsClient,
+    marketData,
+    allMarkets,
+    notifications,
+    isShuttingDown: () => shuttingDown,
+    onSessionRecreated: (name, expiry) => dashboard.updateSessionExpiry(expiry, name || undefined),
+  };
+  const accounts: BotAccount[] = [];
+  for (const spec of specs) {
+    if (!multiAccount) {
+      accounts.push(await startAccount(services, spec, logger, null));
+      continue;
     }
-  });
+    logger.info(`Account ${spec.name}: data in ${spec.dataDir}`, 'Boot');
+    const db = await openDb(spec.dataDir, { persist: !paper });
+    accounts.push(await runWithDb(db, () => startAccount(services, spec, logger.tagged(spec.name), db)));
+  }
 
-  // Handle session invalidation (e.g., another client created a new session)
-  let sessionRecovering = false;
-  sessionManager.on('sessionInvalid', async () => {
-    if (sessionRecovering) return; // debounce
-    sessionRecovering = true;
-    logger.warn('Session invalidated — recreating...', 'Session');
-    try {
-      engine.stop();
-      // Re-fetch nonce before creating session (may have drifted)
-      await sessionManager.initialize(orderBookAbi);
-      const newSession = await sessionManager.createNewSession(requestedMarkets);
-      for (const market of requestedMarkets) {
-        sessionManager.initMarketContract(market);
-      }
-      dashboard.updateSessionExpiry(newSession.expiry);
-      logger.info(`Session recreated: ${newSession.sessionId.slice(0, 10)}...`, 'Session');
-      notifications.notifySessionRecovered(newSession.sessionId);
-      engine.start();
-    } catch (err: any) {
-      logger.error(`Session recovery failed: ${err.message}`, 'Session');
-      // Restart engine anyway so trading can resume once session is valid
-      if (!engine.isRunning) engine.start();
-    } finally {
-      sessionRecovering = false;
-    }
+  // Subscribe to depth for all markets (WS + REST fallback)
+  const tradedMarkets = [...new Map(accounts.flatMap((a) => a.markets).map((m) => [m.market_id, m])).values()];
+  const tradedMarketIds = tradedMarkets.map((m) => m.market_id);
+  marketData.subscribeDepth(tradedMarketIds);
+  marketData.startTickerPolling(tradedMarketIds);
+  marketData.startDepthPolling(tradedMarketIds, 3000);
+
+  // Log unknown WS actions to help diagnose depth issues
+  marketData.on('ws_debug', (msg: string) => {
+    logger.info(msg, 'WS');
   });
 
-  // Initialize TUI Dashboard
+  // Initialize TUI Dashboard (opens on the first account; others via Tab)
+  const primary = accounts[0];
   const dashboard = new Dashboard({
-    engine,
-    pnlCalc,
+    engine: primary.engine,
+    pnlCalc: primary.pnlCalc,
     marketData,
-    balanceTracker,
+    balanceTracker: primary.balanceTracker,
     restClient,
     wsClient,
-    orderManager,
+    orderManager: primary.orderManager,
     logger,
-    competitionTracker,
+    competitionTracker: primary.competitionTracker,
+    capitalAllocator: primary.capitalAllocator,
+    equityTracker: primary.equityTracker,
     noTui: !opts.tui,
     watchMode: opts.watch || false,
     onQuit: () => shutdown(),
-    markets: requestedMarkets,
-    ownerAddress: walletManager.ownerAddress,
-    tradeAccountId: sessionManager.tradeAccount,
-    sessionExpiry: sessionManager.session?.expiry || 0,
+    markets: primary.markets,
+    ownerAddress: primary.ownerAddress,
+    tradeAccountId: primary.tradeAccountId,
+    sessionExpiry: primary.sessionManager?.session?.expiry || 0,
+    paperMode: paper,
+    accounts: multiAccount
+      ? accounts.map((a) => ({
+        name: a.name,
+        engine: a.engine,
+        pnlCalc: a.pnlCalc,
+        balanceTracker: a.balanceTracker,
+        orderManager: a.orderManager,
+        competitionTracker: a.competitionTracker,
+        capitalAllocator: a.capitalAllocator,
+        equityTracker: a.equityTracker,
+        markets: a.markets,
+        ownerAddress: a.ownerAddress,
+        tradeAccountId: a.tradeAccountId,
+        sessionExpiry: a.sessionManager?.session?.expiry || 0,
+        db: a.db ?? undefined,
+      }))
+      : undefined,
   });
 
   // Graceful shutdown with timeout
@@ -576,46 +590,28 @@ async function startBot(opts: {
     }
     shuttingDown = true;
 
-    // Hard timeout: force exit after 10s if shutdown hangs
+    // Hard timeout: force exit if shutdown hangs. Accounts cancel and settle at
+    // the same time but share the API, so each one beyond the first adds 5s.
     const shutdownTimeout = setTimeout(() => {
       console.error('\nShutdown timed out, forcing exit.');
       process.exit(1);
-    }, 10_000);
+    }, 10_000 + 5_000 * (accounts.length - 1));
     shutdownTimeout.unref();
 
     logger.info('Shutting down...', 'Shutdown');
     await notifications.notify('BOT_STOPPED', 'Trading bot shutting down');
 
-    // Stop trading
-    engine.shutdown();
-
-    // Cancel all open orders
-    logger.info('Cancelling open orders...', 'Shutdown');
-    try {
-      await engine.cancelAllOrders();
-    } catch (err) {
-      logger.error(`Failed to cancel orders: ${err}`, 'Shutdown');
-    }
+    await controlServer?.stop();
+    await metricsServer?.stop();
 
-    // Drain any settled-but-not-withdrawn balances back to the trade account
-    // so nothing is left stranded in the orderbook contract on restart.
-    logger.info('Settling balances...', 'Shutdown');
-    try {
-      await engine.settleAllBalances();
-    } catch (err) {
-      logger.error(`Failed to settle balances: ${err}`, 'Shutdown');
-    }
+    // Stop trading, cancel open orders and settle, every account at once
+    await Promise.all(accounts.map((a) => inAccountDb(a, () => stopAccount(a))));
 
     // Cleanup
-    orderManager.shutdown();
-    balanceTracker.shutdown();
-    competitionTracker.shutdown();
     marketData.shutdown();
-    pnlCalc.shutdown();
     wsClient.disconnect();
-    await sessionManager.shutdown();
     dashboard.shutdown();
-    closeDb();
+    for (const account of accounts) inAccountDb(account, () => closeDb());
 
     logger.info('Shutdown complete', 'Shutdown');
     clearTimeout(shutdownTimeout);
@@ -652,28 +648,36 @@ async function startBot(opts: {
   });
 
   // Subscribe to real-time trade feed
-  wsClient.subscribeTrades(requestedMarkets.map(m => m.market_id));
+  wsClient.subscribeTrades(tradedMarketIds);
 
   // Fetch initial balances
   logger.info('Fetching initial balances...', 'Boot');
-  for (const market of requestedMarkets) {
-    try {
-      const balances = await balanceTracker.getMarketBalances(market.market_id);
-      const baseHuman = parseFloat(balances.base.unlocked) / 10 ** market.base.decimals;
-      const quoteHuman = parseFloat(balances.quote.unlocked) / 10 ** market.quote.decimals;
-      logger.info(
-        `${market.base.symbol}/${market.quote.symbol}: ${baseHuman.toFixed(6)} ${market.base.symbol}, ${quoteHuman.toFixed(2)} ${market.quote.symbol}`,
-        'Balance'
-      );
-    } catch {
-      logger.warn(`Failed to fetch balances for ${market.base.symbol}/${market.quote.symbol}`, 'Balance');
+  for (const account of accounts) {
+    for (const market of account.markets) {
+      try {
+        const balances = await account.balanceTracker.getMarketBalances(market.market_id);
+        const baseHuman = parseFloat(balances.base.unlocked) / 10 ** market.base.decimals;
+        const quoteHuman = parseFloat(balances.quote.unlocked) / 10 ** market.quote.decimals;
+        account.logger.info(
+          `${market.base.symbol}/${market.quote.symbol}: ${baseHuman.toFixed(6)} ${market.base.symbol}, ${quoteHuman.toFixed(2)} ${market.quote.symbol}`,
+          'Balance'
+        );
+      } catch {
+        account.logger.warn(`Failed to fetch balances for ${market.base.symbol}/${market.quote.symbol}`, 'Balance');
+      }
     }
   }
 
+  // Telegram commands, the control API and metrics drive a single account;
+  // multi-account runs reject the last two above and leave commands off.
+  const { engine, orderManager, balanceTracker, pnlCalc, feeReconciler, submissionPipeline, markets: requestedMarkets } = primary;
+
   // Telegram inbound commands. Wired even when polling is disabled — the
   // router just won't be called. Activates only if both the chat allowlist
   // and TELEGRAM_ENABLE_COMMANDS are set.
-  if (enableTelegramCommands && config.notifications.telegram.chatId) {
+  if (enableTelegramCommands && config.notifications.telegram.chatId && multiAccount) {
+    logger.warn('Telegram commands are off with --accounts (alerts stay on)', 'Notifications');
+  } else if (enableTelegramCommands && config.notifications.telegram.chatId) {
     const allowlist = new Set<string>(
       config.notifications.telegram.chatId
         .split(',')
@@ -789,19 +793,950 @@ async function startBot(opts: {
     logger.info('Telegram alerts active (commands off — set TELEGRAM_ENABLE_COMMANDS=true to enable)', 'Notifications');
   }
 
-  // Start dashboard
-  dashboard.start();
+  // Local HTTP control API (opt-in). Without O2_CONTROL_TOKEN a one-off token
+  // is generated and logged so the API is never served unauthenticated.
+  let controlServer: ControlServer | null = null;
+  if (opts.controlPort) {
+    const token = config.control.token || randomBytes(24).toString('hex');
+    controlServer = new ControlServer(
+      { engine, orderManager, balanceTracker, pnlCalc, feeReconciler, submissionPipeline, marketData, markets: requestedMarkets },
+      { token, port: parseInt(opts.controlPort, 10) },
+    );
+    controlServer.on('command', (method: string, path: string, status: number) => {
+      logger.info(`${method} ${path} → ${status}`, 'Control');
+    });
+    try {
+      const url = await controlServer.start();
+      logger.info(`Control API listening on ${url}`, 'Control');
+      if (!config.control.token) logger.info(`Control API token (set O2_CONTROL_TOKEN to pin it): ${token}`, 'Control');
+    } catch (err: any) {
+      logger.error(`Control API failed to start: ${err?.message || err}`, 'Control');
+      controlServer = null;
+    }
+  }
+
+  // Prometheus metrics (opt-in). Collection starts now so counters cover the whole run.
+  let metricsServer: MetricsServer | null = null;
+  if (opts.metricsPort) {
+    const collector = new MetricsCollector({ engine, orderManager, pnlCalc, balanceTracker, wsClient, markets: requestedMarkets });
+    metricsServer = new MetricsServer(collector, parseInt(opts.metricsPort, 10), opts.metricsHost);
+    try {
+      logger.info(`Metrics at ${await metricsServer.start()}`, 'Metrics');
+    } catch (err: any) {
+      logger.error(`Metrics endpoint failed to start: ${err?.message || err}`, 'Metrics');
+      metricsServer = null;
+    }
+  }
+
+  // Start dashboard
+  dashboard.start();
 
   // Start trading (unless watch mode)
   if (opts.watch) {
     logger.info('Watch mode — dashboard only, no trading. Press [p] to start trading.', 'Boot');
   } else {
     logger.info('Starting trading engine...', 'Boot');
-    engine.start();
+    for (const account of accounts) inAccountDb(account, () => account.engine.start());
     logger.info('Bot is running. Press q to quit, p to pause/resume.', 'Boot');
   }
 }
 
+// ─── Accounts ──────────────────────────────────────────────
+
+// What one account trades with: from .env and the start flags, or from an
+// entry of the accounts file.
+interface AccountSpec {
+  name: string; // Empty for the single account of .env
+  privateKey: string;
+  walletType: 'fuel' | 'evm';
+  markets: string[];
+  strategy: string;
+  config?: string;
+  addStrategy: string[];
+  allocate: string[];
+  costBasis: string[];
+  dataDir: string;
+}
+
+// Shared by every account of the process
+interface AccountServices {
+  config: ReturnType<typeof loadConfig>;
+  opts: StartOptions;
+  paper: boolean;
+  password: string;
+  restClient: O2RestClient;
+  wsClient: O2WebSocketClient | null; // null: each account opens its own for orders and balances
+  marketData: MarketDataService;
+  allMarkets: Market[];
+  notifications: NotificationManager;
+  isShuttingDown: () => boolean;
+  onSessionRecreated: (accountName: string, expiry: number) => void;
+}
+
+interface BotAccount {
+  name: string;
+  logger: Logger;
+  db: DbHandle | null; // Own database when several accounts share the process
+  detachMarketData: () => void;
+  markets: Market[];
+  ownerAddress: string;
+  tradeAccountId: string;
+  sessionManager: SessionManager | null;
+  wsClient: O2WebSocketClient;
+  ownWsClient: boolean;
+  balanceTracker: BalanceTracker;
+  competitionTracker: CompetitionTracker;
+  submissionPipeline: SubmissionPipeline;
+  orderManager: OrderManager;
+  pnlCalc: PnLCalculator;
+  equityTracker: EquityTracker;
+  feeReconciler: FeeReconciler;
+  feeCheckTimer: ReturnType<typeof setInterval>;
+  engine: TradingEngine;
+  capitalAllocator?: CapitalAllocator;
+  arbEngine: ArbitrageEngine | null;
+}
+
+function inAccountDb<T>(account: Pick<BotAccount, 'db'>, fn: () => T): T {
+  return account.db ? runWithDb(account.db, fn) : fn();
+}
+
+type Listener = (...args: any[]) => void;
+
+interface ScopedMarketData {
+  view: MarketDataService;
+  detach: () => void; // Remove every listener added through the view
+}
+
+/**
+ * The shared market data service as seen by one account: listeners added
+ * through it run in the account's database scope, not the one that emits,
+ * and are tracked so they can be removed through the view or all at once.
+ */
+function scopedMarketData(marketData: MarketDataService): ScopedMarketData {
+  const added: Array<{ event: string | symbol; listener: Listener; bound: Listener }> = [];
+  const forget = (entry: (typeof added)[number]) => {
+    const i = added.indexOf(entry);
+    if (i >= 0) added.splice(i, 1);
+  };
+  const remove = (entry: (typeof added)[number]) => {
+    marketData.removeListener(entry.event, entry.bound);
+    forget(entry);
+  };
+
+  const view: MarketDataService = new Proxy(marketData, {
+    get(target, prop) {
+      switch (prop) {
+        case 'on':
+        case 'addListener':
+        case 'prependListener':
+        case 'once':
+        case 'prependOnceListener':
+          return (event: string | symbol, listener: Listener) => {
+            const once = prop === 'once' || prop === 'prependOnceListener';
+            const entry = { event, listener, bound: listener };
+            entry.bound = bindDb(once ? (...args: any[]) => { forget(entry); listener(...args); } : listener);
+            added.push(entry);
+            target[prop](event, entry.bound);
+            return view;
+          };
+        case 'off':
+        case 'removeListener':
+          return (event: string | symbol, listener: Listener) => {
+            const entry = [...added].reverse().find((e) => e.event === event && e.listener === listener);
+            if (entry) remove(entry);
+            return view;
+          };
+        case 'removeAllListeners':
+          return (event?: string | symbol) => {
+            for (const entry of added.filter((e) => event === undefined || e.event === event)) remove(entry);
+            return view;
+          };
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+  return { view, detach: () => { for (const entry of [...added]) remove(entry); } };
+}
+
+/** Wallet, session and trading engine of one account, wired to the shared services. */
+async function startAccount(services: AccountServices, spec: AccountSpec, logger: Logger, db: DbHandle | null): Promise<BotAccount> {
+  const { config, opts, paper, restClient, allMarkets, notifications } = services;
+  const { view: marketData, detach: detachMarketData } = scopedMarketData(services.marketData);
+  // Alerts of several accounts say which one they are about
+  const tag = spec.name ? `[${spec.name}] ` : '';
+
+  // Load OrderBook ABI (imported as JSON module so it works in bun compiled binaries)
+  const orderBookAbi = orderBookAbiJson;
+
+  let walletManager: WalletManager | null = null;
+  let sessionManager: SessionManager | null = null;
+
+  if (!paper) {
+    // Initialize wallet
+    logger.info(`Initializing ${spec.walletType} wallet...`, 'Boot');
+    walletManager = new WalletManager(spec.privateKey, spec.walletType);
+    await walletManager.init(config.o2.networkUrl);
+    logger.info(`Owner address: ${walletManager.ownerAddress}`, 'Boot');
+
+    // Initialize session manager
+    sessionManager = new SessionManager({
+      walletManager,
+      restClient,
+      password: services.password,
+      sessionExpiryMs: config.session.expiryMs,
+    });
+
+    // Set up session persistence callbacks
+    sessionManager.onSessionCreated = async (info, encryptedKey) => {
+      dbQueries.upsertSession({
+        id: info.sessionId,
+        tradeAccountId: info.tradeAccountId,
+        ownerAddress: info.ownerAddress,
+        contractIds: info.contractIds,
+        expiry: info.expiry,
+        createdAt: info.createdAt,
+      });
+      dbQueries.upsertSessionKey(info.sessionId, encryptedKey);
+      saveDb();
+    };
+
+    sessionManager.onNonceUpdate = async (tradeAccountId, nonce) => {
+      dbQueries.upsertNonce(tradeAccountId, nonce);
+    };
+    sessionManager.loadNonce = (tradeAccountId) => dbQueries.getNonce(tradeAccountId);
+
+    // Initialize session
+    logger.info('Setting up trade account and session...', 'Boot');
+    await sessionManager.initialize(orderBookAbi);
+    logger.info(`Trade account: ${sessionManager.tradeAccount}`, 'Boot');
+  }
+
+  // Resolve requested markets
+  const requestedMarkets: Market[] = [];
+  for (const pair of spec.markets) {
+    const [base, quote] = pair.split('_');
+    const market = marketData.getMarketBySymbol(base, quote);
+    if (market) {
+      requestedMarkets.push(market);
+      logger.info(`Market: ${base}/${quote} (${market.market_id.slice(0, 10)}...)`, 'Boot');
+    } else {
+      logger.warn(`Market ${pair} not found, skipping`, 'Boot');
+    }
+  }
+
+  if (requestedMarkets.length === 0) {
+    console.error(`${tag}No valid markets found. Available markets:`);
+    for (const m of allMarkets) {
+      console.log(`  ${m.base.symbol}_${m.quote.symbol}`);
+    }
+    process.exit(1);
+  }
+
+  let paperExchange: SimulatedExchange | null = null;
+  if (sessionManager && walletManager) {
+    // Try to restore session or create new one
+    const existingSession = dbQueries.getActiveSession(walletManager.ownerAddress);
+    let sessionRestored = false;
+
+    if (existingSession) {
+      const encryptedKey = dbQueries.getSessionKey(existingSession.id);
+      if (encryptedKey) {
+        // Check if the session's contract IDs cover the requested markets
+        const sessionContracts = new Set<string>(JSON.parse(existingSession.contract_ids));
+        const allMarketsInSession = requestedMarkets.every(m => sessionContracts.has(m.contract_id));
+
+        if (!allMarketsInSession) {
+          logger.warn('Session does not cover all requested markets, creating new session', 'Boot');
+          dbQueries.deactivateSession(existingSession.id);
+        } else {
+          logger.info('Found existing session, attempting restore...', 'Boot');
+          sessionRestored = await sessionManager.restoreSession(
+            existingSession.id,
+            encryptedKey,
+            {
+              sessionId: existingSession.id,
+              tradeAccountId: existingSession.trade_account_id,
+              ownerAddress: existingSession.owner_address,
+              contractIds: JSON.parse(existingSession.contract_ids),
+              expiry: existingSession.expiry,
+              createdAt: existingSession.created_at,
+            }
+          );
+          if (sessionRestored) {
+            logger.info('Session restored successfully', 'Boot');
+          } else {
+            logger.warn('Session restore failed (expired?), creating new session', 'Boot');
+            dbQueries.deactivateSession(existingSession.id);
+          }
+        }
+      }
+    }
+
+    if (!sessionRestored) {
+      logger.info('Creating new session...', 'Boot');
+      const sessionInfo = await sessionManager.createNewSession(requestedMarkets);
+      logger.info(`Session created: ${sessionInfo.sessionId.slice(0, 10)}...`, 'Boot');
+    }
+
+    // Store markets for session renewal (works after both restore and create)
+    sessionManager.setMarkets(requestedMarkets);
+
+    // Initialize market contracts for order encoding
+    for (const market of requestedMarkets) {
+      sessionManager.initMarketContract(market);
+    }
+
+    // Start session expiry monitoring (auto-renews before expiry)
+    sessionManager.startExpiryMonitor();
+  } else {
+    // Virtual balances: quote once per asset (markets usually share USDC),
+    // base per market.
+    const balances: Record<string, bigint> = {};
+    for (const m of requestedMarkets) {
+      const quoteScaled = BigInt(Math.floor((parseFloat(opts.paperQuote ?? '1000') || 0) * 10 ** m.quote.decimals));
+      const baseScaled = BigInt(Math.floor((parseFloat(opts.paperBase ?? '0') || 0) * 10 ** m.base.decimals));
+      balances[m.quote.asset] = quoteScaled;
+      balances[m.base.asset] = baseScaled;
+    }
+    paperExchange = new SimulatedExchange({ markets: requestedMarkets, balances });
+
+    // Feed the simulated book from the live depth stream; resting paper orders
+    // fill when the real book trades through them.
+    marketData.on('depth', (marketId: string, book) => {
+      paperExchange!.setReferenceBook(marketId, book);
+    });
+    for (const m of requestedMarkets) {
+      const book = await restClient.getDepth(m.market_id);
+      if (book) paperExchange.setReferenceBook(m.market_id, book);
+    }
+    logger.info(`Paper balances: ${opts.paperQuote ?? '1000'} quote, ${opts.paperBase ?? '0'} base per market`, 'Boot');
+  }
+
+  const tradeAccountId = paperExchange ? paperExchange.tradeAccount : sessionManager!.tradeAccount;
+  const ownerAddress = walletManager ? walletManager.ownerAddress : '';
+
+  // Order and balance subscriptions are per trade account, so an account
+  // sharing the process with others gets its own connection for them.
+  const wsClient = services.wsClient ?? new O2WebSocketClient({ url: config.o2.wsUrl });
+  if (!services.wsClient) wsClient.connect();
+
+  // Initialize balance tracker
+  const balanceTracker = paperExchange
+    ? new BalanceTracker(paperExchange, paperExchange)
+    : new BalanceTracker(restClient, wsClient);
+  balanceTracker.init(tradeAccountId, ownerAddress, requestedMarkets);
+  balanceTracker.startPolling();
+
+  // Initialize competition tracker (needs a wallet; idle in paper mode)
+  const competitionTracker = new CompetitionTracker(restClient);
+  if (ownerAddress) {
+    competitionTracker.init(ownerAddress);
+    competitionTracker.startPolling(60_000);
+  }
+
+  competitionTracker.on('streakAtRisk', (info: any) => {
+    logger.warn(`Streak at risk! Day ${info.periodIndex + 1}, ${info.progress}% elapsed, ${info.volume}/${info.target} volume`, 'Competition');
+  });
+  competitionTracker.on('superBoostLost', (info: any) => {
+    logger.warn(`Super boost lost! Previous status: ${info.previousStatus}`, 'Competition');
+  });
+
+  // Initialize order manager. Its session actions go through one pipeline, so
+  // markets running at the same time share signed requests instead of queueing
+  // one nonce each.
+  const submissionPipeline = new SubmissionPipeline(paperExchange ?? sessionManager!, {
+    maxActionsPerRequest: parseInt(opts.maxBatchActions, 10) || undefined,
+    windowMs: parseInt(opts.batchWindowMs, 10) || 0,
+  });
+  const orderManager = paperExchange
+    ? new OrderManager(submissionPipeline, paperExchange, paperExchange)
+    : new OrderManager(submissionPipeline, restClient, wsClient);
+  orderManager.subscribeOrders();
+  await orderManager.seedFillTracker(requestedMarkets);
+  orderManager.startPolling(requestedMarkets);
+
+  // Initialize P&L calculator
+  const pnlCalc = new PnLCalculator();
+
+  // Equity curve: balance/P&L snapshots every 30s, read back by the dashboard and `o2-bot report`
+  const equityTracker = new EquityTracker(pnlCalc, marketData, balanceTracker, requestedMarkets);
+  equityTracker.start();
+
+  // Lot-based P&L: sells matched against bought lots, next to the average cost above
+  let costBasis: CostBasisSpec;
+  try {
+    costBasis = parseCostBasis(spec.costBasis, requestedMarkets);
+  } catch (err: any) {
+    console.error(`${tag}${err?.message || err}`);
+    process.exit(1);
+  }
+  const lotTracker = new LotTracker(costBasis.defaultMethod);
+  for (const [marketId, method] of costBasis.markets) lotTracker.setMethod(marketId, method);
+  lotTracker.load(requestedMarkets);
+
+  // Fee estimates vs the exchange's reported totals (total_fee), checked every minute
+  const feeReconciler = new FeeReconciler(balanceTracker, requestedMarkets);
+  await feeReconciler.init();
+  const feeCheckTimer = setInterval(async () => {
+    for (const r of await feeReconciler.reconcile()) {
+      if (r.fills > 0 && Math.abs(r.difference) > Math.max(Math.abs(r.actual) * 0.05, 1e-9)) {
+        logger.warn(`Fees in ${r.symbol}: estimated ${r.estimated.toPrecision(6)}, exchange reports ${r.actual.toPrecision(6)} (${r.fills} fills)`, 'Fees');
+      }
+    }
+  }, 60_000);
+
+  // Wire fill events to P&L. OrderManager has already priced the fee at the
+  // market's maker or taker rate (fill.liquidity).
+  orderManager.on('fill', (fill) => {
+    const market = marketData.getMarket(fill.marketId);
+    if (market) {
+      pnlCalc.recordFill(fill, market.base.decimals, market.quote.decimals);
+      lotTracker.recordFill(fill, market.base.decimals, market.quote.decimals);
+      feeReconciler.recordFill(fill);
+    }
+  });
+
+  // Initialize trading engine
+  const engine = new TradingEngine(marketData, balanceTracker, orderManager);
+  engine.setCompetitionTracker(competitionTracker);
+  engine.setEventDriven(opts.eventDriven === true);
+  engine.setMaxConcurrent(parseInt(opts.maxConcurrent, 10) || 0);
+
+  // Additional tagged strategies and capital allocations, validated before anything is scheduled
+  let extraStrategies: ExtraStrategySpec[];
+  let allocations: AllocationSpec[];
+  try {
+    extraStrategies = parseExtraStrategies(spec.addStrategy, requestedMarkets);
+    allocations = parseAllocations(spec.allocate, requestedMarkets, extraStrategies);
+  } catch (err: any) {
+    console.error(`${tag}${err?.message || err}`);
+    process.exit(1);
+  }
+
+  // Record the source preset so hot-reload can map preset-file edits back to
+  // this strategy. Custom configs (loaded from disk via --config) get tagged
+  // 'custom' and are intentionally skipped by hot-reload.
+  const KNOWN_PRESETS: ReadonlySet<string> = new Set(['simple', 'volumeMaximizing', 'profitTaking', 'competitionMode']);
+
+  // Load strategies for each market: the main one, then any tagged extras
+  for (const market of requestedMarkets) {
+    const slots = [
+      { source: spec.config || spec.strategy, preset: spec.strategy, tag: undefined as string | undefined },
+      ...extraStrategies
+        .filter((x) => !x.pair || x.pair === `${market.base.symbol}_${market.quote.symbol}`.toUpperCase())
+        .map((x) => ({ source: x.source, preset: x.source, tag: x.tag })),
+    ];
+    for (const slot of slots) {
+      const { strategyConfig, strategyModule } = await loadMarketStrategy(market, slot.source, config.strategiesDir, logger, slot.tag);
+
+      // Persist strategy config
+      dbQueries.upsertStrategyConfig(market.market_id, strategyConfig);
+
+      const key = strategyKey(market.market_id, slot.tag);
+      engine.addMarket(market, strategyConfig);
+      if (strategyModule) engine.setStrategyModule(key, strategyModule);
+      engine.recordStrategyPresetName(key, KNOWN_PRESETS.has(slot.preset) ? slot.preset : undefined);
+      logger.info(
+        `Strategy "${strategyConfig.name}"${slot.tag ? ` [${slot.tag}]` : ''} loaded for ${market.base.symbol}/${market.quote.symbol}`,
+        'Boot'
+      );
+    }
+  }
+
+  // Portfolio capital allocation (opt-in): caps each listed strategy's quote spend
+  let capitalAllocator: CapitalAllocator | undefined;
+  if (allocations.length > 0) {
+    capitalAllocator = new CapitalAllocator(marketData, balanceTracker, requestedMarkets);
+    for (const a of allocations) {
+      capitalAllocator.setAllocation(strategyKey(a.market.market_id, a.tag), a.allocation);
+      const amount = a.allocation.usd !== undefined ? `$${a.allocation.usd}` : `${a.allocation.percent}% of the account`;
+      logger.info(`Capital for ${a.market.base.symbol}/${a.market.quote.symbol}${a.tag ? ` [${a.tag}]` : ''}: ${amount}`, 'Boot');
+    }
+    engine.setCapitalAllocator(capitalAllocator);
+  }
+
+  // Account-wide risk limits (O2_RISK_* in .env), checked while the engine runs
+  if (hasPortfolioLimits(config.risk)) {
+    engine.setPortfolioRisk(new PortfolioRiskManager(config.risk, marketData, balanceTracker, requestedMarkets));
+    const r = config.risk;
+    const limits = [
+      r.maxExposureUsd !== undefined && `exposure $${r.maxExposureUsd}`,
+      r.maxDrawdownPercent !== undefined && `drawdown ${r.maxDrawdownPercent}%`,
+      r.maxDrawdownUsd !== undefined && `drawdown $${r.maxDrawdownUsd}`,
+      r.maxOpenNotionalUsd !== undefined && `open notional $${r.maxOpenNotionalUsd}`,
+      r.maxConcentrationPercent !== undefined && `concentration ${r.maxConcentrationPercent}%`,
+    ].filter(Boolean);
+    logger.info(`Portfolio limits: ${limits.join(', ')} (on breach: ${r.action})`, 'Boot');
+  }
+
+  // Hot-reload: edits to strategies/*.json are picked up live for any market
+  // currently using that preset (markets with custom configs are skipped).
+  try {
+    engine.enableHotReload(config.strategiesDir);
+    logger.info(`Hot-reload watching ${config.strategiesDir}`, 'Boot');
+  } catch (err: any) {
+    logger.warn(`Hot-reload disabled: ${err?.message || err}`, 'Boot');
+  }
+
+  // Wire engine events to notifications
+  engine.on('started', () => {
+    notifications.notify('BOT_STARTED', `${tag}Trading bot started`);
+  });
+  engine.on('stopped', () => {
+    if (!services.isShuttingDown()) notifications.notify('BOT_STOPPED', `${tag}Trading bot stopped`);
+  });
+  engine.on('error', (marketId: string, err: Error) => {
+    logger.error(`${err.message}`, marketId.slice(0, 8));
+    // Use typed helper for order rejections; fall back to generic ERROR.
+    const msg = err?.message || String(err);
+    if (/reject|insufficient|invalid|forbidden/i.test(msg)) {
+      notifications.notifyOrderRejected(marketId, `${tag}${msg}`);
+    } else {
+      notifications.notify('ERROR', `${tag}Market ${marketId}: ${msg}`);
+    }
+  });
+
+  // Per-market lifecycle events (manual pause, hot-reload, auto-pause)
+  engine.on('marketPaused', (marketId: string) => {
+    logger.info(`Market paused: ${marketId.slice(0, 8)}`, 'Engine');
+  });
+  engine.on('marketResumed', (marketId: string) => {
+    logger.info(`Market resumed: ${marketId.slice(0, 8)}`, 'Engine');
+  });
+  engine.on('autoPaused', (info: { marketId: string; reason: string; detail?: string }) => {
+    const scope = info.marketId === '*' ? 'GLOBAL' : info.marketId.slice(0, 8);
+    const reason = info.detail ? `${info.reason} (${info.detail})` : info.reason;
+    logger.warn(`Auto-paused [${scope}]: ${reason}`, 'Engine');
+    notifications.notifyAutoPaused(info.marketId, `${tag}${reason}`);
+  });
+  engine.on('configReloaded', (marketId: string, presetName: string) => {
+    logger.info(`Hot-reloaded "${presetName}" for ${marketId.slice(0, 8)}`, 'Engine');
+  });
+  orderManager.on('fill', (fill) => {
+    const market = marketData.getMarket(fill.marketId);
+    if (market) {
+      const priceHuman = fill.price / 10 ** market.quote.decimals;
+      const sizeHuman = fill.sizeBase / 10 ** market.base.decimals;
+      const pair = `${market.base.symbol}/${market.quote.symbol}`;
+      logger.info(`${fill.side} ${sizeHuman.toFixed(6)} ${market.base.symbol} @ $${priceHuman.toFixed(4)} (${pair})`, 'Fill');
+      notifications.notify(
+        'ORDER_FILLED',
+        `${tag}${fill.side} ${sizeHuman.toFixed(6)} ${market.base.symbol} @ $${priceHuman.toFixed(4)}`
+      );
+    }
+    // Refresh competition data on fills (debounced: only if last fetch > 30s ago)
+    const compState = competitionTracker.getState();
+    if (ownerAddress && (!compState || Date.now() - compState.lastUpdated > 30_000)) {
+      competitionTracker.refresh().catch(() => {});
+    }
+  });
+
+  // Triangular arbitrage across the selected markets (opt-in)
+  let arbEngine: ArbitrageEngine | null = null;
+  if (opts.arb) {
+    arbEngine = new ArbitrageEngine(marketData, orderManager, balanceTracker, requestedMarkets, {
+      minProfitPercent: parseFloat(opts.arbMinProfit || '0.3'),
+      maxStartUsd: parseFloat(opts.arbMaxAmount || '50'),
+      dryRun: opts.arbDryRun === true,
+    });
+    if (arbEngine.cycleLabels.length === 0) {
+      logger.warn('Arbitrage enabled but no three selected markets form a cycle (e.g. ETH_USDC FUEL_USDC ETH_FUEL)', 'Arb');
+    } else {
+      logger.info(`Arbitrage watching ${arbEngine.cycleLabels.length} cycle(s): ${arbEngine.cycleLabels.join(', ')}`, 'Arb');
+    }
+    arbEngine.on('opportunity', (opp) => {
+      const mode = opts.arbDryRun ? ' (dry run)' : '';
+      logger.info(`${opp.cycle.label}: +${opp.profitPercent.toFixed(3)}% on ${opp.startAmount.toFixed(4)}${mode}`, 'Arb');
+    });
+    arbEngine.on('executed', (opp, txId: string) => {
+      logger.info(`Executed ${opp.cycle.label} (tx ${String(txId).slice(0, 10)}...)`, 'Arb');
+      notifications.notify('INFO', `${tag}Arbitrage ${opp.cycle.label}: +${opp.profitPercent.toFixed(3)}% expected`);
+    });
+    arbEngine.on('failed', (opp, message: string) => {
+      logger.warn(`${opp.cycle.label} failed: ${message}`, 'Arb');
+    });
+    arbEngine.on('error', (err: Error) => {
+      logger.error(`Scan error: ${err?.message || err}`, 'Arb');
+    });
+    // Follows the trading engine's run state (pause/resume, session recovery, watch mode)
+    const arb = arbEngine;
+    engine.on('started', () => arb.start());
+    engine.on('stopped', () => arb.stop());
+  }
+
+  // Handle session invalidation (e.g., another client created a new session)
+  let sessionRecovering = false;
+  if (sessionManager) {
+    const liveSession = sessionManager;
+    liveSession.on('nonceResync', (e: NonceResyncEvent) => {
+      const outcome = e.landed === true
+        ? `submission landed, ${e.recoveredOrders} order(s) recovered`
+        : e.retried ? 'resubmitted'
+        : e.reason === 'unknown_outcome' && e.landed === null ? 'outcome unknown, not resubmitted' : 'not resubmitted';
+      const detail = `${e.reason} nonce ${e.submittedNonce} → ${e.nonce}` +
+        (e.skipped > 0 ? ` (${e.skipped} used elsewhere)` : '') + `, ${outcome}`;
+      logger.warn(`Nonce resynced: ${detail}`, 'Session');
+      notifications.notifyNonceResync(`${tag}${detail}`);
+    });
+    liveSession.on('sessionInvalid', async () => {
+      if (sessionRecovering) return; // debounce
+      sessionRecovering = true;
+      logger.warn('Session invalidated — recreating...', 'Session');
+      try {
+        engine.stop();
+        // Re-fetch nonce before creating session (may have drifted)
+        await liveSession.initialize(orderBookAbi);
+        const newSession = await liveSession.createNewSession(requestedMarkets);
+        for (const market of requestedMarkets) {
+          liveSession.initMarketContract(market);
+        }
+        services.onSessionRecreated(spec.name, newSession.expiry);
+        logger.info(`Session recreated: ${newSession.sessionId.slice(0, 10)}...`, 'Session');
+        notifications.notifySessionRecovered(newSession.sessionId);
+        engine.start();
+      } catch (err: any) {
+        logger.error(`Session recovery failed: ${err.message}`, 'Session');
+        // Restart engine anyway so trading can resume once session is valid
+        if (!engine.isRunning) engine.start();
+      } finally {
+        sessionRecovering = false;
+      }
+    });
+  }
+
+  // Audit trail (opt-in). Attached before the engine starts so the log opens with engine_start.
+  if (opts.audit) {
+    const auditLog = new AuditLog(spec.dataDir, { paper: !!paperExchange });
+    auditLog.attach({ engine, orderManager, submitter: paperExchange ?? sessionManager!, markets: requestedMarkets });
+    logger.info(`Audit trail: ${auditLog.directory}`, 'Audit');
+  }
+
+  return {
+    name: spec.name,
+    logger,
+    db,
+    detachMarketData,
+    markets: requestedMarkets,
+    ownerAddress,
+    tradeAccountId,
+    sessionManager,
+    wsClient,
+    ownWsClient: !services.wsClient,
+    balanceTracker,
+    competitionTracker,
+    submissionPipeline,
+    orderManager,
+    pnlCalc,
+    equityTracker,
+    feeReconciler,
+    feeCheckTimer,
+    engine,
+    capitalAllocator,
+    arbEngine,
+  };
+}
+
+/** Stop an account's trading, cancel its open orders, settle and release everything it holds. */
+async function stopAccount(account: BotAccount): Promise<void> {
+  const { logger, engine } = account;
+
+  // Stop trading, and stop taking the shared market data events
+  engine.shutdown();
+  account.arbEngine?.stop();
+  account.detachMarketData();
+
+  // Cancel all open orders
+  logger.info('Cancelling open orders...', 'Shutdown');
+  try {
+    await engine.cancelAllOrders();
+  } catch (err) {
+    logger.error(`Failed to cancel orders: ${err}`, 'Shutdown');
+  }
+
+  // Drain any settled-but-not-withdrawn balances back to the trade account
+  // so nothing is left stranded in the orderbook contract on restart.
+  logger.info('Settling balances...', 'Shutdown');
+  try {
+    await engine.settleAllBalances();
+  } catch (err) {
+    logger.error(`Failed to settle balances: ${err}`, 'Shutdown');
+  }
+
+  // Cleanup
+  account.orderManager.shutdown();
+  account.balanceTracker.shutdown();
+  account.competitionTracker.shutdown();
+  account.equityTracker.stop();
+  clearInterval(account.feeCheckTimer);
+  if (account.ownWsClient) account.wsClient.disconnect();
+  await account.sessionManager?.shutdown();
+}
+
+// ─── Strategy Loading ──────────────────────────────────────
+
+interface ExtraStrategySpec {
+  pair?: string; // Upper-case pair tag; all markets when absent
+  tag: string;
+  source: string;
+}
+
+/** Parse `--add-strategy` specs: `tag=source` or `PAIR:tag=source`. */
+function parseExtraStrategies(specs: string[], markets: Market[]): ExtraStrategySpec[] {
+  const pairs = new Set(markets.map((m) => `${m.base.symbol}_${m.quote.symbol}`.toUpperCase()));
+  const out: ExtraStrategySpec[] = [];
+  for (const spec of specs) {
+    const match = /^(?:([A-Za-z0-9]+_[A-Za-z0-9]+):)?([^=:]+)=(.+)$/.exec(spec);
+    if (!match) throw new Error(`Invalid --add-strategy "${spec}" (expected tag=source or PAIR:tag=source)`);
+    const [, pair, tag, source] = match;
+    if (!/^[A-Za-z0-9_-]+$/.test(tag) || tag === 'primary') {
+      throw new Error(`Invalid strategy tag "${tag}" (letters, digits, _ and - only; "primary" is reserved)`);
+    }
+    if (pair && !pairs.has(pair.toUpperCase())) throw new Error(`--add-strategy ${spec}: market ${pair} is not being traded`);
+    const clash = out.find((x) => x.tag === tag && (!x.pair || !pair || x.pair === pair.toUpperCase()));
+    if (clash) throw new Error(`Strategy tag "${tag}" is used twice on the same market`);
+    out.push({ pair: pair?.toUpperCase(), tag, source });
+  }
+  return out;
+}
+
+interface AllocationSpec {
+  market: Market;
+  tag?: string;
+  allocation: CapitalAllocation;
+}
+
+/** Parse `--allocate` specs: `PAIR=usd`, `PAIR=percent%`, or `PAIR:tag=...` for a tagged strategy. */
+function parseAllocations(specs: string[], markets: Market[], extras: ExtraStrategySpec[]): AllocationSpec[] {
+  const out: AllocationSpec[] = [];
+  let percentTotal = 0;
+  for (const spec of specs) {
+    const match = /^([A-Za-z0-9]+_[A-Za-z0-9]+)(?::([A-Za-z0-9_-]+))?=(\d+(?:\.\d+)?)(%?)$/.exec(spec);
+    if (!match) throw new Error(`Invalid --allocate "${spec}" (expected PAIR=usd, PAIR=percent% or PAIR:tag=...)`);
+    const [, pair, tag, amount, percent] = match;
+    const market = markets.find((m) => `${m.base.symbol}_${m.quote.symbol}`.toUpperCase() === pair.toUpperCase());
+    if (!market) throw new Error(`--allocate ${spec}: market ${pair} is not being traded`);
+    if (tag && !extras.some((x) => x.tag === tag && (!x.pair || x.pair === pair.toUpperCase()))) {
+      throw new Error(`--allocate ${spec}: no strategy tagged "${tag}" on ${pair} (see --add-strategy)`);
+    }
+    if (out.some((a) => a.market === market && a.tag === tag)) throw new Error(`--allocate ${spec}: allocated twice`);
+    const value = parseFloat(amount);
+    if (!(value > 0)) throw new Error(`--allocate ${spec}: amount must be > 0`);
+    if (percent) {
+      percentTotal += value;
+      if (percentTotal > 100) throw new Error('--allocate percentages add up to more than 100%');
+    }
+    out.push({ market, tag, allocation: percent ? { percent: value } : { usd: value } });
+  }
+  return out;
+}
+
+interface CostBasisSpec {
+  defaultMethod: CostBasisMethod;
+  markets: Map<string, CostBasisMethod>; // By market id
+}
+
+/** Parse `--cost-basis` specs: `method` for every market, `PAIR=method` for one. */
+function parseCostBasis(specs: string[], markets: Market[]): CostBasisSpec {
+  const out: CostBasisSpec = { defaultMethod: 'fifo', markets: new Map() };
+  const isMethod = (m: string): m is CostBasisMethod => (COST_BASIS_METHODS as string[]).includes(m);
+  for (const spec of specs) {
+    const match = /^(?:([A-Za-z0-9]+_[A-Za-z0-9]+)=)?([a-z]+)$/i.exec(spec);
+    const method = match?.[2].toLowerCase() ?? '';
+    if (!match || !isMethod(method)) {
+      throw new Error(`Invalid --cost-basis "${spec}" (expected ${COST_BASIS_METHODS.join(', ')} or PAIR=method)`);
+    }
+    if (!match[1]) {
+      out.defaultMethod = method;
+      continue;
+    }
+    const market = markets.find((m) => `${m.base.symbol}_${m.quote.symbol}`.toUpperCase() === match[1].toUpperCase());
+    if (!market) throw new Error(`--cost-basis ${spec}: market ${match[1]} is not being traded`);
+    out.markets.set(market.market_id, method);
+  }
+  return out;
+}
+
+/**
+ * Build the config (and module, for a strategy module source) one strategy
+ * runs on a market. Persisted edits and runtime state win over the source
+ * while the strategy keeps running the same thing.
+ */
+async function loadMarketStrategy(
+  market: Market,
+  source: string,
+  strategiesDir: string,
+  logger: Logger,
+  strategyTag?: string,
+): Promise<{ strategyConfig: StrategyConfig; strategyModule: StrategyModule | null }> {
+  const label = `${market.base.symbol}/${market.quote.symbol}${strategyTag ? ` [${strategyTag}]` : ''}`;
+  let strategyConfig: StrategyConfig;
+  let strategyModule: StrategyModule | null = null;
+
+  // A .js/.mjs/.ts file in the strategies dir is a custom strategy module
+  // rather than a parameter set.
+  const strategyModulePath = findStrategyModule(source, strategiesDir);
+
+  // Check if there's a persisted config in DB
+  const dbConfig = dbQueries.getStrategyConfig(market.market_id, strategyTag);
+  if (strategyModulePath) {
+    try {
+      const loaded = await loadStrategyModule(strategyModulePath, market.market_id);
+      strategyModule = loaded.module;
+      strategyConfig = loaded.config;
+    } catch (err: any) {
+      console.error(err?.message || err);
+      process.exit(1);
+    }
+    // Keep persisted edits and runtime state while the market stays on the same module.
+    try {
+      const persisted = dbConfig ? JSON.parse(dbConfig.config) as StrategyConfig : null;
+      if (persisted?.strategyMode === 'module' && persisted.strategyModule === strategyConfig.strategyModule) {
+        strategyConfig = persisted;
+        logger.info(`Loaded persisted strategy for ${label}`, 'Boot');
+      }
+    } catch {
+      // Unreadable persisted config: start from the module's own config.
+    }
+  } else if (dbConfig) {
+    try {
+      strategyConfig = JSON.parse(dbConfig.config);
+      logger.info(`Loaded persisted strategy for ${label}`, 'Boot');
+    } catch {
+      strategyConfig = resolveStrategy(source, market.market_id, strategiesDir);
+    }
+  } else {
+    strategyConfig = resolveStrategy(source, market.market_id, strategiesDir);
+  }
+
+  strategyConfig.strategyTag = strategyTag;
+  return { strategyConfig, strategyModule };
+}
+
+// ─── Accounts File ─────────────────────────────────────────
+
+async function addAccount(name: string, opts: {
+  walletType: string;
+  market?: string[];
+  strategy?: string;
+  dataDir?: string;
+  password?: string;
+  file?: string;
+}): Promise<void> {
+  if (!ACCOUNT_NAME_PATTERN.test(name)) {
+    console.error(`Invalid account name "${name}": up to 32 letters, digits, - and _.`);
+    process.exit(1);
+  }
+  if (opts.walletType !== 'fuel' && opts.walletType !== 'evm') {
+    console.error(`Invalid wallet type "${opts.walletType}". Must be "fuel" or "evm".`);
+    process.exit(1);
+  }
+  const file = accountsFilePath(opts.file);
+  let accounts: AccountConfig[];
+  try {
+    accounts = loadAccounts(file);
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+
+  const password = opts.password || loadConfig().session.password || await promptSecret('Session encryption password');
+  if (!password) { console.error('Password is required.'); process.exit(1); }
+  // start --accounts decrypts every key with the one session password
+  const other = accounts.find((a) => a.name.toLowerCase() !== name.toLowerCase());
+  if (other) {
+    try {
+      decryptAccountKey(other, password);
+    } catch {
+      console.error(`The password does not open the key of "${other.name}"; all accounts in ${file} share one password.`);
+      process.exit(1);
+    }
+  }
+
+  const privateKey = await promptSecret(`Private key for ${name}`);
+  if (!privateKey) { console.error('Private key is required.'); process.exit(1); }
+
+  const existing = findAccount(accounts, name);
+  const account: AccountConfig = {
+    ...existing,
+    name: existing?.name ?? name,
+    walletType: opts.walletType,
+    key: encryptAccountKey(privateKey, password),
+  };
+  if (opts.market) account.markets = opts.market;
+  if (opts.strategy) account.strategy = opts.strategy;
+  if (opts.dataDir) account.dataDir = opts.dataDir;
+  saveAccounts(file, existing ? accounts.map((a) => (a === existing ? account : a)) : [...accounts, account]);
+  console.log(`${existing ? 'Updated' : 'Added'} account "${account.name}" in ${file}`);
+}
+
+function listAccounts(opts: { file?: string }): void {
+  const config = loadConfig();
+  const file = accountsFilePath(opts.file);
+  let accounts: AccountConfig[];
+  try {
+    accounts = loadAccounts(file);
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+  if (accounts.length === 0) {
+    console.log(`No accounts in ${file}. Add one with: o2-bot accounts add <name>`);
+    return;
+  }
+
+  console.log(`\nAccounts (${file})\n`);
+  console.log('Name'.padEnd(18) + 'Wallet'.padEnd(8) + 'Markets'.padEnd(28) + 'Strategy'.padEnd(20) + 'Data');
+  console.log('─'.repeat(100));
+  for (const a of accounts) {
+    console.log(
+      a.name.padEnd(18) +
+      a.walletType.padEnd(8) +
+      (a.markets?.join(',') ?? '(start flags)').padEnd(28) +
+      (a.strategy ?? '(start flags)').padEnd(20) +
+      accountDataDir(a, config.dataDir)
+    );
+  }
+}
+
+function removeAccount(name: string, opts: { file?: string }): void {
+  const file = accountsFilePath(opts.file);
+  let accounts: AccountConfig[];
+  try {
+    accounts = loadAccounts(file);
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+  const account = findAccount(accounts, name);
+  if (!account) {
+    console.error(`No account "${name}" in ${file}`);
+    process.exit(1);
+  }
+  saveAccounts(file, accounts.filter((a) => a !== account));
+  console.log(`Removed "${account.name}" from ${file}; its data stays in ${accountDataDir(account, loadConfig().dataDir)}`);
+}
+
+/** Data directory of the offline commands: the named account's, or the default one. */
+function commandDataDir(dataDir: string, accountName?: string): string {
+  if (!accountName) return dataDir;
+  const file = accountsFilePath();
+  let account: AccountConfig | undefined;
+  try {
+    account = findAccount(loadAccounts(file), accountName);
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+  if (!account) {
+    console.error(`No account "${accountName}" in ${file}`);
+    process.exit(1);
+  }
+  return accountDataDir(account, dataDir);
+}
+
 // ─── List Markets ──────────────────────────────────────────
 
 async function listMarkets(): Promise<void> {
@@ -840,13 +1775,15 @@ async function listMarkets(): Promise<void> {
 
 // ─── Show History ──────────────────────────────────────────
 
-async function showHistory(opts: { market?: string; limit: string }): Promise<void> {
+async function showHistory(opts: { market?: string; strategy?: string; limit: string; account?: string }): Promise<void> {
   const config = loadConfig();
-  await initDb(config.dataDir);
+  await initDb(commandDataDir(config.dataDir, opts.account));
 
   const limit = parseInt(opts.limit) || 20;
-  const trades = dbQueries.getRecentTrades(opts.market, limit);
-  const stats = dbQueries.getTradeStats(opts.market);
+  // 'primary' selects trades of the main strategy, which are stored untagged
+  const strategyName = opts.strategy === undefined ? undefined : opts.strategy === 'primary' ? null : opts.strategy;
+  const trades = dbQueries.getRecentTrades(opts.market, limit, strategyName);
+  const stats = dbQueries.getTradeStats(opts.market, strategyName);
 
   console.log('\nTrade History:');
   console.log('─'.repeat(80));
@@ -886,3 +1823,582 @@ async function showHistory(opts: { market?: string; limit: string }): Promise<vo
 
   closeDb();
 }
+
+// ─── Lot P&L ───────────────────────────────────────────────
+
+function formatHolding(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  if (s < 86_400) return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+  return `${Math.floor(s / 86_400)}d ${Math.floor((s % 86_400) / 3600)}h`;
+}
+
+async function showLots(opts: {
+  market?: string;
+  strategy?: string;
+  since?: string;
+  until?: string;
+  matches?: boolean;
+  limit: string;
+  json?: boolean;
+  account?: string;
+}): Promise<void> {
+  const config = loadConfig();
+  let since: number | undefined;
+  let until: number | undefined;
+  try {
+    since = opts.since ? parseAuditTime(opts.since) : undefined;
+    until = opts.until ? parseAuditTime(opts.until) : undefined;
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+
+  await initDb(commandDataDir(config.dataDir, opts.account));
+  // 'primary' selects the main strategy, whose rows are stored untagged
+  const strategyName = opts.strategy === undefined ? undefined : opts.strategy === 'primary' ? null : opts.strategy;
+  const matches = dbQueries.getLotMatches({ marketId: opts.market, strategyName, since, until });
+  closeDb();
+
+  if (opts.json) {
+    console.log(JSON.stringify(matches, null, 2));
+    return;
+  }
+  if (matches.length === 0) {
+    console.log('No lot matches found (they are recorded as sells fill)');
+    return;
+  }
+
+  if (opts.matches) {
+    const limit = parseInt(opts.limit) || 50;
+    console.log('\nMatched Lots:');
+    console.log('─'.repeat(96));
+    console.log(
+      'Sold'.padEnd(22) +
+      'Method'.padEnd(8) +
+      'Quantity'.padEnd(14) +
+      'Buy'.padEnd(12) +
+      'Sell'.padEnd(12) +
+      'Held'.padEnd(10) +
+      'Fees'.padEnd(10) +
+      'P&L'
+    );
+    console.log('─'.repeat(96));
+    for (const m of matches.slice(-limit)) {
+      console.log(
+        new Date(m.sell_timestamp).toLocaleString().padEnd(22) +
+        m.method.padEnd(8) +
+        m.quantity.toFixed(6).padEnd(14) +
+        (m.buy_price === null ? 'no lot' : `$${m.buy_price.toFixed(2)}`).padEnd(12) +
+        `$${m.sell_price.toFixed(2)}`.padEnd(12) +
+        (m.buy_timestamp === null ? '-' : formatHolding(m.sell_timestamp - m.buy_timestamp)).padEnd(10) +
+        `$${(m.buy_fee + m.sell_fee).toFixed(4)}`.padEnd(10) +
+        (m.pnl === null ? '-' : `${m.pnl >= 0 ? '+' : ''}$${m.pnl.toFixed(4)}`)
+      );
+    }
+    console.log('─'.repeat(96));
+    console.log(`Showing ${Math.min(limit, matches.length)} of ${matches.length} matches`);
+    return;
+  }
+
+  // One row per market, strategy and method
+  const groups = new Map<string, typeof matches>();
+  for (const m of matches) {
+    const key = `${m.market_id}|${m.strategy_name ?? ''}|${m.method}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(m);
+  }
+
+  console.log('\nLot P&L:');
+  console.log('─'.repeat(100));
+  console.log(
+    'Market'.padEnd(22) +
+    'Strategy'.padEnd(10) +
+    'Method'.padEnd(8) +
+    'Lots'.padEnd(7) +
+    'Won'.padEnd(6) +
+    'Lost'.padEnd(6) +
+    'Realized'.padEnd(14) +
+    'Avg held'.padEnd(11) +
+    'Median held'.padEnd(13) +
+    'No lot'
+  );
+  console.log('─'.repeat(100));
+  for (const rows of groups.values()) {
+    const first = rows[0];
+    const matched = rows.filter((m) => m.pnl !== null);
+    const realized = matched.reduce((sum, m) => sum + m.pnl!, 0);
+    const held = matched.map((m) => m.sell_timestamp - m.buy_timestamp!).sort((a, b) => a - b);
+    // Holding periods weighted by quantity, so dust pieces don't skew the average
+    const matchedQty = matched.reduce((sum, m) => sum + m.quantity, 0);
+    const avgHeld = matchedQty > 0 ? matched.reduce((sum, m) => sum + (m.sell_timestamp - m.buy_timestamp!) * m.quantity, 0) / matchedQty : 0;
+    const unmatched = rows.filter((m) => m.pnl === null).reduce((sum, m) => sum + m.quantity, 0);
+    console.log(
+      (first.market_id.slice(0, 16) + '...').padEnd(22) +
+      (first.strategy_name ?? 'primary').padEnd(10) +
+      first.method.padEnd(8) +
+      String(matched.length).padEnd(7) +
+      String(matched.filter((m) => m.pnl! > 0).length).padEnd(6) +
+      String(matched.filter((m) => m.pnl! < 0).length).padEnd(6) +
+      `${realized >= 0 ? '+' : ''}$${realized.toFixed(4)}`.padEnd(14) +
+      (held.length ? formatHolding(avgHeld) : '-').padEnd(11) +
+      (held.length ? formatHolding(held[Math.floor(held.length / 2)]) : '-').padEnd(13) +
+      (unmatched > 0 ? unmatched.toFixed(6) : '-')
+    );
+  }
+  console.log('─'.repeat(100));
+  console.log('Lost = lots sold below their buy price plus fees. No lot = base sold that was bought before the bot.');
+}
+
+// ─── Ledger Export ─────────────────────────────────────────
+
+async function exportLedger(opts: {
+  format: string;
+  market?: string;
+  year?: string;
+  since?: string;
+  until?: string;
+  out: string;
+  account?: string;
+}): Promise<void> {
+  const config = loadConfig();
+  const format = opts.format.toLowerCase() as ExportFormat;
+  let since: number | undefined;
+  let until: number | undefined;
+  try {
+    if (!EXPORT_FORMATS.includes(format)) throw new Error(`Unknown format: ${opts.format}. Use: ${EXPORT_FORMATS.join(', ')}`);
+    if (opts.year) {
+      if (!/^\d{4}$/.test(opts.year)) throw new Error(`Invalid year: ${opts.year}`);
+      since = Date.UTC(parseInt(opts.year), 0, 1);
+      until = Date.UTC(parseInt(opts.year) + 1, 0, 1);
+    }
+    if (opts.since) since = parseAuditTime(opts.since);
+    if (opts.until) until = parseAuditTime(opts.until);
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+
+  // Symbols and decimals come from the API; without it trades keep placeholder symbols
+  const markets = new Map<string, Market>();
+  try {
+    const resp = await new O2RestClient(config.o2.apiUrl).getMarkets();
+    for (const m of resp.markets) markets.set(m.market_id, m);
+  } catch (err: any) {
+    console.error(`Could not fetch markets (${err?.message || err}); unknown markets get placeholder symbols`);
+  }
+
+  await initDb(commandDataDir(config.dataDir, opts.account));
+  const range = { marketId: opts.market, since, until };
+  const ledger = buildLedger(dbQueries.getTradesBetween(range), dbQueries.getLotMatches(range), markets);
+  const orders = format === 'csv' || format === 'json' ? buildOrders(dbQueries.getOrdersBetween(range), markets) : [];
+  closeDb();
+
+  const day = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+  const label = opts.year ?? (since !== undefined || until !== undefined
+    ? `${since !== undefined ? day(since) : 'start'}_${until !== undefined ? day(until - 1) : 'now'}`
+    : 'all');
+  const unknown = new Set(ledger.filter((e) => !markets.has(e.marketId)).map((e) => e.pair));
+  if (unknown.size > 0) console.error(`No market info for ${[...unknown].join(', ')}: symbols are placeholders`);
+
+  const dir = resolve(opts.out);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const files: Array<[string, string, number]> = [];
+  switch (format) {
+    case 'csv':
+      files.push([`o2-trades-${label}.csv`, ledgerToCsv(ledger), ledger.length]);
+      files.push([`o2-orders-${label}.csv`, ordersToCsv(orders), orders.length]);
+      break;
+    case 'json':
+      files.push([
+        `o2-ledger-${label}.json`,
+        JSON.stringify({ exportedAt: new Date().toISOString(), since: since ?? null, until: until ?? null, trades: ledger, orders }, null, 2) + '\n',
+        ledger.length + orders.length,
+      ]);
+      break;
+    default:
+      files.push([`o2-${format}-${label}.csv`, ledgerToTaxCsv(format, ledger), ledger.length]);
+  }
+  for (const [name, content, rows] of files) {
+    writeFileSync(resolve(dir, name), content);
+    console.log(`Wrote ${rows} rows to ${resolve(dir, name)}`);
+  }
+
+  const fees = ledger.reduce((sum, e) => sum + e.fee, 0);
+  const realized = ledger.reduce((sum, e) => sum + (e.realizedPnl ?? 0), 0);
+  console.log(`${ledger.length} trades, fees $${fees.toFixed(4)}, realized P&L $${realized.toFixed(4)} (average cost)`);
+}
+
+// ─── Equity Report ─────────────────────────────────────────
+
+async function showReport(opts: {
+  market?: string;
+  since?: string;
+  until?: string;
+  period: string;
+  json?: boolean;
+  account?: string;
+}): Promise<void> {
+  const config = loadConfig();
+
+  let since: number | undefined;
+  let until: number | undefined;
+  const period = /^(\d+(?:\.\d+)?)\s*([mhd])$/i.exec(opts.period.trim());
+  try {
+    since = opts.since ? parseAuditTime(opts.since) : undefined;
+    until = opts.until ? parseAuditTime(opts.until) : undefined;
+    if (!period || parseFloat(period[1]) <= 0) throw new Error(`Invalid period: ${opts.period} (use e.g. 15m, 1h or 1d)`);
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[period[2].toLowerCase() as 'm' | 'h' | 'd'];
+  const periodMs = parseFloat(period[1]) * unit;
+
+  await initDb(commandDataDir(config.dataDir, opts.account));
+  const rows = dbQueries.getEquitySnapshots({ since, until });
+
+  // Account-wide curve first, then one per market
+  const curves = new Map<string, { label: string; points: EquityPoint[] }>();
+  for (const r of rows) {
+    const key = r.market_id ?? '';
+    if (opts.market && (!r.market_id || !r.market_id.toLowerCase().startsWith(opts.market.toLowerCase()))) continue;
+    if (!curves.has(key)) {
+      curves.set(key, { label: r.market_id ? r.market_id.slice(0, 16) + '...' : 'Account (USD)', points: [] });
+    }
+    curves.get(key)!.points.push({ ts: r.timestamp, equity: r.equity! });
+  }
+  const report = [...curves.entries()]
+    .sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)))
+    .map(([key, c]) => ({
+      marketId: key || null,
+      label: c.label,
+      points: c.points,
+      // From the trades table: the snapshots' realized P&L restarts with every session
+      realizedPnl: c.points.length
+        ? dbQueries.getRealizedPnlBetween(key || undefined, c.points[0].ts, c.points[c.points.length - 1].ts + 1)
+        : 0,
+      stats: computeEquityStats(c.points, periodMs),
+    }))
+    .filter((r): r is typeof r & { stats: EquityStats } => r.stats !== null);
+  closeDb();
+
+  if (opts.json) {
+    console.log(JSON.stringify(report.map(({ points: _points, ...r }) => r), null, 2));
+    return;
+  }
+  if (report.length === 0) {
+    console.log('Not enough equity snapshots in range (the bot records one every 30s while running)');
+    return;
+  }
+
+  const fmtRatio = (n: number | null) => (n === null ? '-' : n.toFixed(2));
+  const from = Math.min(...report.map((r) => r.stats.from));
+  const to = Math.max(...report.map((r) => r.stats.to));
+
+  console.log('\nEquity Report:');
+  console.log('─'.repeat(100));
+  console.log(`  Range:  ${new Date(from).toLocaleString()} → ${new Date(to).toLocaleString()}`);
+  console.log(`  Ratios: annualized from ${opts.period} returns, risk-free rate 0`);
+  console.log('─'.repeat(100));
+  console.log(
+    'Market'.padEnd(22) +
+    'Start'.padEnd(12) +
+    'End'.padEnd(12) +
+    'Change'.padEnd(10) +
+    'HWM'.padEnd(12) +
+    'Max DD'.padEnd(10) +
+    'DD Now'.padEnd(9) +
+    'Sharpe'.padEnd(8) +
+    'Sortino'.padEnd(9) +
+    'Realized'
+  );
+  console.log('─'.repeat(100));
+  for (const r of report) {
+    const s = r.stats;
+    console.log(
+      r.label.padEnd(22) +
+      s.startEquity.toFixed(2).padEnd(12) +
+      s.endEquity.toFixed(2).padEnd(12) +
+      `${s.changePercent >= 0 ? '+' : ''}${s.changePercent.toFixed(2)}%`.padEnd(10) +
+      s.highWaterMark.toFixed(2).padEnd(12) +
+      `-${s.maxDrawdownPercent.toFixed(2)}%`.padEnd(10) +
+      `-${s.drawdownPercent.toFixed(2)}%`.padEnd(9) +
+      fmtRatio(s.sharpe).padEnd(8) +
+      fmtRatio(s.sortino).padEnd(9) +
+      `${r.realizedPnl >= 0 ? '+' : ''}${r.realizedPnl.toFixed(4)}`
+    );
+  }
+  console.log('─'.repeat(100));
+
+  const SPARK = '▁▂▃▄▅▆▇█';
+  const width = 60;
+  console.log('\nEquity curves:');
+  for (const r of report) {
+    const values = resampleEquity(r.points, Math.max(1, Math.ceil((to - from + 1) / width))).map((p) => p.equity);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const spark = values.map((v) => SPARK[Math.min(7, Math.floor(((v - min) / range) * 7.99))]).join('');
+    console.log(`  ${r.label.padEnd(22)}${spark}`);
+  }
+  console.log('\nMarket equity is base at mid plus quote (quote units); markets sharing a quote each include it.');
+}
+
+// ─── Audit Trail ───────────────────────────────────────────
+
+async function showAudit(opts: {
+  market?: string;
+  since?: string;
+  until?: string;
+  type?: string[];
+  events?: boolean;
+  json?: boolean;
+  limit: string;
+  file?: string;
+  account?: string;
+}): Promise<void> {
+  const config = loadConfig();
+  const path = opts.file ? resolve(opts.file) : resolve(commandDataDir(config.dataDir, opts.account), 'audit');
+
+  const types = opts.type as AuditEventType[] | undefined;
+  const unknown = types?.filter((t) => !AUDIT_EVENT_TYPES.includes(t));
+  if (unknown?.length) {
+    console.error(`Unknown event type(s): ${unknown.join(', ')}. Use: ${AUDIT_EVENT_TYPES.join(', ')}`);
+    process.exit(1);
+  }
+
+  let events: AuditEvent[];
+  try {
+    events = readAuditEvents(path, {
+      market: opts.market,
+      since: opts.since ? parseAuditTime(opts.since) : undefined,
+      until: opts.until ? parseAuditTime(opts.until) : undefined,
+      types,
+    });
+  } catch (err: any) {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+
+  if (opts.json) {
+    for (const e of events) console.log(JSON.stringify(e));
+    return;
+  }
+  if (events.length === 0) {
+    console.log(`No audit events found in ${path}${existsSync(path) ? '' : ' (start the bot with --audit)'}`);
+    return;
+  }
+
+  if (opts.events) {
+    const limit = parseInt(opts.limit) || 50;
+    console.log('\nAudit Events:');
+    console.log('─'.repeat(80));
+    for (const e of events.slice(-limit)) {
+      console.log(
+        new Date(e.ts).toLocaleString().padEnd(24) +
+        e.type.padEnd(15) +
+        (e.type === 'actions' ? e.markets.join(',') : e.strategy ? `${e.market}:${e.strategy}` : e.market ?? '-').padEnd(14) +
+        describeAuditEvent(e)
+      );
+    }
+    console.log('─'.repeat(80));
+    console.log(`Showing ${Math.min(limit, events.length)} of ${events.length} events`);
+    return;
+  }
+
+  const summary = summarizeAudit(events);
+  console.log('\nAudit Summary:');
+  console.log('─'.repeat(80));
+  console.log(`  Range:  ${new Date(summary.from!).toLocaleString()} → ${new Date(summary.to!).toLocaleString()}`);
+  console.log(`  Events: ${summary.events} (${Object.entries(summary.byType).map(([t, n]) => `${t} ${n}`).join(', ')})`);
+  console.log('─'.repeat(80));
+  console.log(
+    'Market'.padEnd(14) +
+    'Cycles'.padEnd(9) +
+    'Executed'.padEnd(10) +
+    'Orders'.padEnd(10) +
+    'Failed'.padEnd(8) +
+    'Fills'.padEnd(8) +
+    'Actions'.padEnd(12) +
+    'Pauses'.padEnd(8) +
+    'Errors'
+  );
+  console.log('─'.repeat(80));
+  for (const [market, m] of Object.entries(summary.markets)) {
+    console.log(
+      market.padEnd(14) +
+      String(m.cycles).padEnd(9) +
+      String(m.executed).padEnd(10) +
+      String(m.ordersPlaced).padEnd(10) +
+      String(m.ordersFailed).padEnd(8) +
+      String(m.fills).padEnd(8) +
+      `${m.actions - m.actionsFailed}/${m.actions}`.padEnd(12) +
+      String(m.autoPauses).padEnd(8) +
+      m.errors
+    );
+    const skips = Object.entries(m.skips).sort((a, b) => b[1]! - a[1]!);
+    if (skips.length) console.log(`  skipped: ${skips.map(([c, n]) => `${c} ${n}`).join(', ')}`);
+  }
+  console.log('─'.repeat(80));
+
+  if (summary.failedActions.length) {
+    console.log('\nRecent failed submissions:');
+    for (const f of summary.failedActions.slice(-5)) {
+      console.log(`  ${new Date(f.ts).toLocaleString()}  ${f.markets.join(',')}  nonce ${f.nonce ?? '-'}  ${f.error.slice(0, 100)}`);
+    }
+  }
+}
+
+function describeAuditEvent(e: AuditEvent): string {
+  switch (e.type) {
+    case 'cycle':
+      if (!e.executed) return `skipped: ${e.skipReason ?? e.skipCategory ?? '-'}`;
+      return e.orders.map((o) => o.success ? `${o.side} ${o.quantity ?? '?'} @ ${o.price ?? '?'}` : `${o.side} failed: ${o.error ?? '?'}`).join('; ');
+    case 'actions': {
+      const count = e.groups.reduce((n, g) => n + g.actions.length, 0);
+      const head = `${count} action(s) nonce ${e.nonce ?? '-'}${e.retry ? ' (retry)' : ''}`;
+      return e.error ? `${head} failed: ${e.error.slice(0, 60)}` : `${head} tx ${e.txId?.slice(0, 12) ?? '-'}`;
+    }
+    case 'fill':
+      return `${e.side} ${e.quantity} @ ${e.price}`;
+    case 'config_reload':
+      return `preset ${e.preset}`;
+    case 'auto_pause':
+      return e.detail ? `${e.reason}: ${e.detail}` : e.reason;
+    case 'error':
+      return e.message;
+    default:
+      return '';
+  }
+}
+
+// ─── Backtest ──────────────────────────────────────────────
+
+async function backtest(opts: {
+  strategy: string;
+  market: string;
+  config?: string;
+  data?: string;
+  source: string;
+  resolution: string;
+  count: string;
+  save?: string;
+  quote: string;
+  base: string;
+  spread: string;
+  depthUsd: string;
+}): Promise<void> {
+  const config = loadConfig();
+  // Throwaway in-memory DB: the executor's risk checks read trade stats from
+  // it, and the replay must never mix into the live history.
+  await initDb(config.dataDir, { persist: false });
+
+  const capture = opts.data ? loadCapture(opts.data) : null;
+  let market: Market | undefined = capture?.market;
+  if (!market) {
+    const restClient = new O2RestClient(config.o2.apiUrl);
+    const [base, quote] = opts.market.split('_');
+    const resp = await restClient.getMarkets();
+    market = resp.markets.find((m) => m.base.symbol === base && m.quote.symbol === quote);
+  }
+  if (!market) {
+    console.error(`Market ${opts.market} not found (captures without a market record need API access).`);
+    process.exit(1);
+  }
+
+  let events: ReplayEvent[];
+  if (capture) {
+    events = capture.events;
+  } else {
+    const source = opts.source === 'trades' ? 'trades' : 'bars';
+    console.log(`Fetching ${opts.count} ${source} for ${market.base.symbol}/${market.quote.symbol}...`);
+    const restClient = new O2RestClient(config.o2.apiUrl);
+    events = await fetchHistory(restClient, market, source, parseInt(opts.count) || 500, opts.resolution);
+    if (opts.save) {
+      saveCapture(opts.save, market, events);
+      console.log(`Saved capture to ${opts.save}`);
+    }
+  }
+  if (events.length === 0) {
+    console.error('No historical data to replay.');
+    process.exit(1);
+  }
+
+  const strategySource = opts.config || opts.strategy;
+  const strategyModulePath = findStrategyModule(strategySource, config.strategiesDir);
+  let strategyConfig: StrategyConfig;
+  let strategyModule: StrategyModule | undefined;
+  if (strategyModulePath) {
+    try {
+      ({ module: strategyModule, config: strategyConfig } = await loadStrategyModule(strategyModulePath, market.market_id));
+    } catch (err: any) {
+      console.error(err?.message || err);
+      process.exit(1);
+    }
+  } else {
+    strategyConfig = resolveStrategy(strategySource, market.market_id, config.strategiesDir);
+  }
+  console.log(`Replaying ${events.length} events with "${strategyConfig.name}"...\n`);
+
+  const report = await runBacktest(market, strategyConfig, events, {
+    initialBase: parseFloat(opts.base) || 0,
+    initialQuote: parseFloat(opts.quote) || 0,
+    spreadPercent: parseFloat(opts.spread) || 0.1,
+    depthUsd: parseFloat(opts.depthUsd) || 10000,
+    strategyModule,
+  });
+
+  const pnlSign = (n: number) => (n >= 0 ? '' : '-') + '$' + Math.abs(n).toFixed(4);
+  console.log(`\nBacktest: ${report.marketPair}`);
+  console.log('─'.repeat(60));
+  console.log(`  Period:         ${new Date(report.startTime).toLocaleString()} → ${new Date(report.endTime).toLocaleString()}`);
+  console.log(`  Events:         ${report.events} (${report.cycles} strategy cycles)`);
+  console.log(`  Orders:         ${report.ordersPlaced} placed, ${report.ordersRejected} rejected`);
+  console.log(`  Fill Ratio:     ${(report.fillRatio * 100).toFixed(1)}% (${report.ordersWithFills} orders filled; ${report.makerFills} maker / ${report.takerFills} taker fills)`);
+  console.log(`  Trades:         ${report.tradeCount}`);
+  console.log(`  Volume:         $${report.volumeUsd.toFixed(2)}`);
+  console.log(`  Fees:           $${report.feesUsd.toFixed(4)} ($${report.makerFeesUsd.toFixed(4)} maker / $${report.takerFeesUsd.toFixed(4)} taker)`);
+  console.log(`  Realized P&L:   ${pnlSign(report.realizedPnl)}`);
+  console.log(`  Equity:         $${report.startEquity.toFixed(2)} → $${report.endEquity.toFixed(2)} (${pnlSign(report.endEquity - report.startEquity)})`);
+  console.log(`  Max Drawdown:   $${report.maxDrawdownUsd.toFixed(2)} (${report.maxDrawdownPercent.toFixed(2)}%)`);
+  const skips = Object.entries(report.skipCategories);
+  if (skips.length > 0) {
+    console.log(`  Skipped Cycles: ${skips.map(([k, v]) => `${k}=${v}`).join(', ')}`);
+  }
+  console.log('─'.repeat(60));
+
+  closeDb();
+}
+
+// ─── Mock Server ───────────────────────────────────────────
+
+async function mockServer(opts: { port: string; host: string; scenario?: string }): Promise<void> {
+  const scenario = opts.scenario ? loadScenario(opts.scenario) : {};
+  const server = new MockO2Server(scenario);
+  server.on('log', (msg: string) => console.log(`[${new Date().toLocaleTimeString()}] ${msg}`));
+
+  let url: string;
+  try {
+    url = await server.start(parseInt(opts.port) || 8787, opts.host);
+  } catch (err: any) {
+    console.error(`Failed to start mock server: ${err?.message ?? err}`);
+    process.exit(1);
+  }
+  console.log(`Mock O2 API listening on ${url} (WebSocket: ${url.replace('http://', 'ws://')}/v1/ws)`);
+  console.log(`Trade account: ${server.tradeAccount}`);
+  for (const m of server.getMarkets()) {
+    console.log(`  ${m.base.symbol}_${m.quote.symbol}`.padEnd(14) + m.market_id);
+  }
+  console.log(`\nRun the bot against it with O2_API_URL=${url}`);
+  if (scenario.steps?.length) {
+    console.log(`Scenario: ${scenario.steps.length} scripted step(s)`);
+  }
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
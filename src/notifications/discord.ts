@@ -37,6 +37,7 @@ export class DiscordNotifier {
       DAILY_LOSS_HIT: 0xff0000,
       SESSION_EXPIRING: 0xffa500,
       SESSION_RECOVERED: 0x00ff00,
+      NONCE_RESYNC: 0xffa500,
       AUTO_PAUSED: 0xffa500,
       ERROR: 0xff0000,
       WARNING: 0xffa500,
@@ -24,6 +24,7 @@ export type AlertType =
   | 'DAILY_LOSS_HIT'
   | 'SESSION_EXPIRING'
   | 'SESSION_RECOVERED'
+  | 'NONCE_RESYNC'
   | 'AUTO_PAUSED';
 
 export type { CommandRouter, BotCommandHandlers, AllowedChatId } from './command-router.js';
@@ -183,6 +184,10 @@ export class NotificationManager {
     );
   }
 
+  async notifyNonceResync(detail: string): Promise<void> {
+    await this.notify('NONCE_RESYNC', `Nonce resynced: ${detail}`);
+  }
+
   async notifyAutoPaused(marketId: string, reason: string): Promise<void> {
     await this.notify(
       'AUTO_PAUSED',
@@ -0,0 +1,352 @@
+import Decimal from 'decimal.js';
+import { readFileSync, writeFileSync } from 'fs';
+import type { O2RestClient } from '../api/rest-client.js';
+import type { Market, Bar, OrderBookDepth } from '../types/market.js';
+import type { Trade } from '../types/order.js';
+import type { StrategyConfig, SkipCategory } from '../types/strategy.js';
+import type { StrategyModule } from '../types/strategy-module.js';
+import { SimulatedExchange } from './exchange.js';
+import { MarketDataService } from '../engine/market-data.js';
+import { BalanceTracker } from '../engine/balance-tracker.js';
+import { OrderManager, type FillEvent } from '../engine/order-manager.js';
+import { PnLCalculator } from '../engine/pnl-calculator.js';
+import { StrategyExecutor } from '../engine/strategy-executor.js';
+import * as dbQueries from '../db/queries.js';
+
+// =========================================================================
+// TYPES
+// =========================================================================
+
+export type ReplayEvent =
+  | { kind: 'bar'; timestamp: number; bar: Bar }
+  | { kind: 'trade'; timestamp: number; trade: Trade };
+
+export interface BacktestCapture {
+  market?: Market;
+  events: ReplayEvent[];
+}
+
+export interface BacktestOptions {
+  initialBase: number;       // human units
+  initialQuote: number;      // human units
+  spreadPercent: number;     // synthetic book: full bid/ask spread around the print
+  depthUsd: number;          // synthetic book: notional per level
+  depthLevels?: number;      // synthetic book: levels per side (default 10)
+  strategyModule?: StrategyModule; // custom module for configs in strategyMode 'module'
+}
+
+export interface BacktestReport {
+  marketPair: string;
+  events: number;
+  cycles: number;
+  startTime: number;
+  endTime: number;
+  ordersPlaced: number;
+  ordersRejected: number;
+  ordersWithFills: number;
+  fillRatio: number;
+  makerFills: number;
+  takerFills: number;
+  tradeCount: number;
+  volumeUsd: number;
+  feesUsd: number;
+  makerFeesUsd: number;
+  takerFeesUsd: number;
+  realizedPnl: number;
+  startEquity: number;
+  endEquity: number;
+  maxDrawdownUsd: number;
+  maxDrawdownPercent: number;
+  skipCategories: Partial<Record<SkipCategory, number>>;
+}
+
+// =========================================================================
+// DATA LOADING
+// =========================================================================
+
+/** Normalize second- or millisecond-precision timestamps to milliseconds. */
+function toMs(value: string | number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return n < 1e12 ? n * 1000 : n;
+}
+
+function recordToEvent(rec: any): ReplayEvent | null {
+  if (rec.open !== undefined && rec.close !== undefined) {
+    const bar: Bar = {
+      open: String(rec.open),
+      high: String(rec.high ?? rec.open),
+      low: String(rec.low ?? rec.open),
+      close: String(rec.close),
+      buy_volume: String(rec.buy_volume ?? '0'),
+      sell_volume: String(rec.sell_volume ?? '0'),
+      timestamp: String(rec.timestamp ?? rec.time ?? '0'),
+    };
+    return { kind: 'bar', timestamp: toMs(bar.timestamp), bar };
+  }
+  if (rec.price !== undefined && (rec.quantity !== undefined || rec.size !== undefined)) {
+    const trade: Trade = {
+      trade_id: String(rec.trade_id ?? ''),
+      market_id: String(rec.market_id ?? ''),
+      price: String(rec.price),
+      quantity: String(rec.quantity ?? rec.size),
+      side: String(rec.side ?? ''),
+      timestamp: String(rec.timestamp ?? rec.time ?? '0'),
+      total: String(rec.total ?? '0'),
+    };
+    return { kind: 'trade', timestamp: toMs(trade.timestamp), trade };
+  }
+  return null;
+}
+
+/**
+ * Load a local capture. JSONL lines may be bars, trades, or a
+ * `{"type":"market","market":{...}}` record carrying the market metadata.
+ * CSV files need a header row (timestamp,open,high,low,close[,buy_volume,sell_volume]
+ * or timestamp,price,quantity[,side]). Prices and quantities use the same
+ * scaled integer units as the O2 API.
+ */
+export function loadCapture(path: string): BacktestCapture {
+  const raw = readFileSync(path, 'utf-8');
+  const capture: BacktestCapture = { events: [] };
+
+  if (path.toLowerCase().endsWith('.csv')) {
+    const lines = raw.split(/\r?\n/).filter((l) => l.trim().length > 0);
+    const header = (lines.shift() || '').split(',').map((h) => h.trim().toLowerCase());
+    for (const line of lines) {
+      const cells = line.split(',').map((c) => c.trim());
+      const rec: Record<string, string> = {};
+      header.forEach((h, i) => { rec[h] = cells[i]; });
+      const ev = recordToEvent(rec);
+      if (ev) capture.events.push(ev);
+    }
+  } else {
+    for (const line of raw.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const rec = JSON.parse(line);
+      if (rec.type === 'market' && rec.market) {
+        capture.market = rec.market;
+        continue;
+      }
+      const ev = recordToEvent(rec);
+      if (ev) capture.events.push(ev);
+    }
+  }
+
+  capture.events.sort((a, b) => a.timestamp - b.timestamp);
+  return capture;
+}
+
+/** Write a JSONL capture that `loadCapture` can replay fully offline. */
+export function saveCapture(path: string, market: Market, events: ReplayEvent[]): void {
+  const lines = [JSON.stringify({ type: 'market', market })];
+  for (const ev of events) {
+    lines.push(JSON.stringify(ev.kind === 'bar' ? { type: 'bar', ...ev.bar } : { type: 'trade', ...ev.trade }));
+  }
+  writeFileSync(path, lines.join('\n') + '\n');
+}
+
+/** Fetch recorded history from /v1/bars or /v1/trades. */
+export async function fetchHistory(
+  restClient: O2RestClient,
+  market: Market,
+  source: 'bars' | 'trades',
+  count: number,
+  resolution = '5m',
+): Promise<ReplayEvent[]> {
+  const events: ReplayEvent[] = [];
+  if (source === 'bars') {
+    const bars = await restClient.getBars(market.market_id, resolution, count);
+    for (const bar of bars) events.push({ kind: 'bar', timestamp: toMs(bar.timestamp), bar });
+  } else {
+    const trades = await restClient.getTrades(market.market_id, count);
+    for (const trade of trades) events.push({ kind: 'trade', timestamp: toMs(trade.timestamp), trade });
+  }
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// =========================================================================
+// REPLAY
+// =========================================================================
+
+/** Symmetric ladder around a scaled mid price. */
+export function syntheticBook(
+  market: Market,
+  mid: bigint,
+  opts: Pick<BacktestOptions, 'spreadPercent' | 'depthUsd' | 'depthLevels'>,
+): OrderBookDepth {
+  const levels = opts.depthLevels ?? 10;
+  const half = opts.spreadPercent / 2 / 100;
+  const midDec = new Decimal(mid.toString());
+  const midHuman = midDec.div(new Decimal(10).pow(market.quote.decimals));
+  const qty = midHuman.gt(0)
+    ? new Decimal(opts.depthUsd).div(midHuman).mul(new Decimal(10).pow(market.base.decimals)).floor().toFixed(0)
+    : '0';
+
+  const bids: Array<[string, string]> = [];
+  const asks: Array<[string, string]> = [];
+  for (let i = 0; i < levels; i++) {
+    const step = half * (i + 1);
+    bids.push([midDec.mul(1 - step).floor().toFixed(0), qty]);
+    asks.push([midDec.mul(1 + step).ceil().toFixed(0), qty]);
+  }
+  return { bids, asks };
+}
+
+const nextTick = () => new Promise<void>((r) => setImmediate(r));
+
+/**
+ * Replay historical events through the real StrategyExecutor.
+ *
+ * The executor, OrderManager, MarketDataService and BalanceTracker are the
+ * production classes wired to a SimulatedExchange. Cycles are scheduled on the
+ * replay clock using the strategy's own cycle interval. Fills flow through
+ * OrderManager's `fill` event into a PnLCalculator exactly as in the live bot.
+ *
+ * Expects an initialized (typically in-memory) database.
+ */
+export async function runBacktest(
+  market: Market,
+  config: StrategyConfig,
+  events: ReplayEvent[],
+  opts: BacktestOptions,
+): Promise<BacktestReport> {
+  const pair = `${market.base.symbol}/${market.quote.symbol}`;
+  const baseScale = new Decimal(10).pow(market.base.decimals);
+  const quoteScale = new Decimal(10).pow(market.quote.decimals);
+
+  let clock = events[0]?.timestamp ?? Date.now();
+  const exchange = new SimulatedExchange({
+    markets: [market],
+    now: () => clock,
+    balances: {
+      [market.base.asset]: BigInt(new Decimal(opts.initialBase).mul(baseScale).floor().toFixed(0)),
+      [market.quote.asset]: BigInt(new Decimal(opts.initialQuote).mul(quoteScale).floor().toFixed(0)),
+    },
+  });
+
+  const marketData = new MarketDataService(exchange, exchange);
+  await marketData.discoverMarkets();
+  const balanceTracker = new BalanceTracker(exchange, exchange);
+  balanceTracker.init(exchange.tradeAccount, exchange.tradeAccount, [market]);
+  const orderManager = new OrderManager(exchange, exchange, exchange);
+  const executor = new StrategyExecutor(orderManager, marketData, balanceTracker);
+  const pnlCalc = new PnLCalculator();
+
+  // Fees are priced by the order manager at the maker or taker rate, as live.
+  orderManager.setMarkets([market]);
+  orderManager.on('fill', (fill: FillEvent) => {
+    pnlCalc.recordFill(fill, market.base.decimals, market.quote.decimals);
+    const onFill = opts.strategyModule?.onFill;
+    if (onFill) {
+      const moduleFill = {
+        orderId: fill.orderId,
+        marketId: fill.marketId,
+        side: fill.side.toLowerCase() === 'buy' ? 'Buy' as const : 'Sell' as const,
+        price: fill.price / 10 ** market.quote.decimals,
+        quantity: fill.sizeBase / 10 ** market.base.decimals,
+        timestamp: fill.timestamp,
+      };
+      Promise.resolve()
+        .then(() => onFill.call(opts.strategyModule, moduleFill))
+        .catch((err) => console.warn(`[backtest] Strategy module onFill failed: ${err?.message || err}`));
+    }
+  });
+
+  const cycleConfig: StrategyConfig = { ...config, marketId: market.market_id };
+  dbQueries.upsertStrategyConfig(market.market_id, cycleConfig);
+
+  let mark = new Decimal(0);
+  const equity = async (): Promise<number> => {
+    const [b, q] = await Promise.all([
+      exchange.getBalance(market.base.asset),
+      exchange.getBalance(market.quote.asset),
+    ]);
+    const baseTotal = new Decimal(b.total_unlocked).plus(b.total_locked).div(baseScale);
+    const quoteTotal = new Decimal(q.total_unlocked).plus(q.total_locked).div(quoteScale);
+    return quoteTotal.plus(baseTotal.mul(mark)).toNumber();
+  };
+
+  const skipCategories: Partial<Record<SkipCategory, number>> = {};
+  let cycles = 0;
+  let nextCycleAt = clock;
+  let startEquity: number | null = null;
+  let peak = 0;
+  let maxDrawdownUsd = 0;
+  let maxDrawdownPercent = 0;
+
+  for (const ev of events) {
+    clock = ev.timestamp;
+
+    if (ev.kind === 'bar') {
+      const open = BigInt(ev.bar.open);
+      const close = BigInt(ev.bar.close);
+      exchange.setReferenceBook(market.market_id, syntheticBook(market, open, opts));
+      exchange.recordTrade(market.market_id, BigInt(ev.bar.high));
+      exchange.recordTrade(market.market_id, BigInt(ev.bar.low));
+      exchange.recordTrade(market.market_id, close);
+      exchange.setReferenceBook(market.market_id, syntheticBook(market, close, opts));
+      mark = new Decimal(ev.bar.close).div(quoteScale);
+    } else {
+      const price = BigInt(ev.trade.price);
+      exchange.recordTrade(market.market_id, price, BigInt(ev.trade.quantity));
+      exchange.setReferenceBook(market.market_id, syntheticBook(market, price, opts));
+      mark = new Decimal(ev.trade.price).div(quoteScale);
+    }
+    await nextTick();
+
+    if (startEquity === null) {
+      startEquity = await equity();
+      peak = startEquity;
+    }
+
+    if (clock >= nextCycleAt) {
+      const wallStart = Date.now();
+      const result = await executor.execute(market, cycleConfig, opts.strategyModule);
+      cycles++;
+      if (result.skipCategory) {
+        skipCategories[result.skipCategory] = (skipCategories[result.skipCategory] ?? 0) + 1;
+      }
+      const interval = result.nextRunAt
+        ? Math.max(0, result.nextRunAt - wallStart)
+        : config.timing.cycleIntervalMinMs;
+      nextCycleAt = clock + interval;
+      await nextTick();
+    }
+
+    const eq = await equity();
+    if (eq > peak) peak = eq;
+    const dd = peak - eq;
+    if (dd > maxDrawdownUsd) maxDrawdownUsd = dd;
+    if (peak > 0 && (dd / peak) * 100 > maxDrawdownPercent) maxDrawdownPercent = (dd / peak) * 100;
+  }
+
+  const snap = pnlCalc.getSnapshot(market.market_id);
+  const stats = exchange.getStats();
+  const endEquity = await equity();
+
+  return {
+    marketPair: pair,
+    events: events.length,
+    cycles,
+    startTime: events[0]?.timestamp ?? 0,
+    endTime: events[events.length - 1]?.timestamp ?? 0,
+    ordersPlaced: stats.ordersPlaced,
+    ordersRejected: stats.ordersRejected,
+    ordersWithFills: stats.ordersWithFills,
+    fillRatio: stats.ordersPlaced > 0 ? stats.ordersWithFills / stats.ordersPlaced : 0,
+    makerFills: stats.makerFills,
+    takerFills: stats.takerFills,
+    tradeCount: snap.tradeCount,
+    volumeUsd: snap.totalVolume,
+    feesUsd: snap.totalFees,
+    makerFeesUsd: snap.makerFees,
+    takerFeesUsd: snap.takerFees,
+    realizedPnl: snap.realizedPnl,
+    startEquity: startEquity ?? endEquity,
+    endEquity,
+    maxDrawdownUsd,
+    maxDrawdownPercent,
+    skipCategories,
+  };
+}
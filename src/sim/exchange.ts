@@ -0,0 +1,612 @@
+import { EventEmitter } from 'events';
+import type { Market, MarketsResponse, MarketTicker, OrderBookDepth } from '../types/market.js';
+import type { Order, OrderSide, OrderStatus, OrderType, Trade } from '../types/order.js';
+import type { BalanceResponse, Identity, SessionAction, SessionActionsResponse, SessionActionsSubmission } from '../types/api.js';
+import { SubmissionNotExecutedError } from '../auth/session-manager.js';
+
+interface SimBalance {
+  unlocked: bigint;
+  locked: bigint;
+  fees: bigint;
+}
+
+interface SimOrder {
+  orderId: string;
+  marketId: string;
+  side: 'Buy' | 'Sell';
+  orderType: string;
+  price: bigint;
+  quantity: bigint;
+  filled: bigint;
+  lastFillPrice: bigint;
+  locked: bigint;      // still locked: quote for buys, base for sells
+  cancelled: boolean;
+  closed: boolean;
+  createdAt: number;   // exchange clock
+  updatedAt: number;
+}
+
+export interface SimulatedExchangeOptions {
+  markets: Market[];
+  // Starting balances keyed by asset id, in scaled (on-chain) units.
+  balances?: Record<string, bigint | string>;
+  tradeAccountId?: string;
+  // Exchange clock — replay time for backtests, wall clock otherwise.
+  now?: () => number;
+}
+
+export interface SimulatedExchangeStats {
+  ordersPlaced: number;
+  ordersRejected: number;
+  ordersWithFills: number;
+  ordersFilled: number;
+  ordersCancelled: number;
+  makerFills: number;
+  takerFills: number;
+  filledQuantity: Record<string, bigint>; // per market, scaled base
+}
+
+const PPM = 1_000_000n;
+const TAPE_LENGTH = 200;
+
+/**
+ * SimulatedExchange - an in-process stand-in for the O2 order book.
+ *
+ * Matches orders against a reference book (synthetic levels during a backtest,
+ * the live depth feed in paper mode) and keeps virtual per-asset balances.
+ * It exposes the members OrderManager, MarketDataService and BalanceTracker
+ * read from the session manager, REST client and WS client, so the real
+ * engine components run on top of it unchanged. Order and balance updates are
+ * emitted on the next tick with the same payload shape as the WS feed.
+ */
+export class SimulatedExchange extends EventEmitter {
+  readonly tradeAccount: string;
+  private markets: Map<string, Market> = new Map();
+  private books: Map<string, OrderBookDepth> = new Map();
+  private lastTradePrice: Map<string, bigint> = new Map();
+  private tape: Map<string, Trade[]> = new Map(); // newest first, capped at TAPE_LENGTH
+  private balances: Map<string, SimBalance> = new Map();
+  private orders: Map<string, SimOrder> = new Map();
+  private now: () => number;
+  private orderSeq = 0;
+  private txSeq = 0;
+  private tradeSeq = 0;
+  private stats: SimulatedExchangeStats = {
+    ordersPlaced: 0,
+    ordersRejected: 0,
+    ordersWithFills: 0,
+    ordersFilled: 0,
+    ordersCancelled: 0,
+    makerFills: 0,
+    takerFills: 0,
+    filledQuantity: {},
+  };
+
+  constructor(opts: SimulatedExchangeOptions) {
+    super();
+    this.tradeAccount = opts.tradeAccountId ?? '0x' + '51'.repeat(32);
+    this.now = opts.now ?? (() => Date.now());
+    for (const m of opts.markets) {
+      this.markets.set(m.market_id, m);
+    }
+    for (const [assetId, amount] of Object.entries(opts.balances ?? {})) {
+      this.balanceOf(assetId).unlocked = BigInt(amount);
+    }
+  }
+
+  // =========================================================================
+  // REFERENCE MARKET FEED
+  // =========================================================================
+
+  /**
+   * Replace the reference book for a market and fill any resting orders the
+   * new book crosses (e.g. best ask dropped to or below a resting buy).
+   */
+  setReferenceBook(marketId: string, book: OrderBookDepth): void {
+    const copy: OrderBookDepth = {
+      bids: book.bids.map(([p, q]) => [p, q] as [string, string]),
+      asks: book.asks.map(([p, q]) => [p, q] as [string, string]),
+      timestamp: book.timestamp ?? this.now(),
+    };
+    this.books.set(marketId, copy);
+
+    const updates: any[] = [];
+    for (const order of this.openOrders(marketId)) {
+      const levels = order.side === 'Buy' ? copy.asks : copy.bids;
+      this.consumeLevels(order, levels, order.price, true, updates);
+    }
+    this.flush(updates);
+    this.emit('depth', { marketId, bids: copy.bids, asks: copy.asks });
+  }
+
+  /**
+   * Record a print on the tape. Resting orders priced through the print fill
+   * at their own price (maker), best-priced first, up to `quantity` when given.
+   */
+  recordTrade(marketId: string, price: bigint, quantity?: bigint): void {
+    this.lastTradePrice.set(marketId, price);
+    this.appendToTape(marketId, price, quantity);
+    const crossed = this.openOrders(marketId)
+      .filter((o) => (o.side === 'Buy' ? o.price >= price : o.price <= price))
+      .sort((a, b) => (a.side === 'Buy' ? Number(b.price - a.price) : Number(a.price - b.price)));
+
+    const updates: any[] = [];
+    let budget = quantity;
+    for (const order of crossed) {
+      if (budget !== undefined && budget <= 0n) break;
+      let qty = order.quantity - order.filled;
+      if (budget !== undefined && qty > budget) qty = budget;
+      qty = this.affordable(order, order.price, qty);
+      if (qty <= 0n) continue;
+      this.fill(order, order.price, qty, true);
+      if (budget !== undefined) budget -= qty;
+      updates.push(this.toWsOrder(order));
+    }
+    this.flush(updates);
+  }
+
+  // =========================================================================
+  // SESSION ACTIONS
+  // =========================================================================
+
+  /**
+   * Apply a batch of session actions atomically: if any action is rejected the
+   * whole batch is rolled back, mirroring a reverted transaction, and the
+   * error is a SubmissionNotExecutedError as for a live revert.
+   */
+  async submitActions(
+    marketId: string,
+    market: Market,
+    actions: SessionAction[]
+  ): Promise<SessionActionsResponse> {
+    if (!this.markets.has(marketId)) this.markets.set(marketId, market);
+    return this.submitBatch([{ market_id: marketId, actions }]);
+  }
+
+  /**
+   * Apply action groups for several markets as one transaction — the shape of
+   * the `actions` field in a `/v1/session/actions` request.
+   */
+  async submitBatch(
+    groups: Array<{ market_id: string; actions: SessionAction[] }>
+  ): Promise<SessionActionsResponse> {
+    const balancesBefore = new Map([...this.balances].map(([k, v]) => [k, { ...v }]));
+    const ordersBefore = new Map([...this.orders].map(([k, v]) => [k, { ...v }]));
+    const booksBefore = new Map([...this.books].map(([k, v]) => [k, {
+      ...v,
+      bids: v.bids.map(([p, q]) => [p, q] as [string, string]),
+      asks: v.asks.map(([p, q]) => [p, q] as [string, string]),
+    }]));
+    const statsBefore = { ...this.stats, filledQuantity: { ...this.stats.filledQuantity } };
+
+    const updates: any[] = [];
+    const created: Array<{ order_id: string }> = [];
+    try {
+      for (const group of groups) {
+        for (const action of group.actions) {
+          if (action.CreateOrder) {
+            const order = this.createOrder(group.market_id, action.CreateOrder, updates);
+            created.push({ order_id: order.orderId });
+          } else if (action.CancelOrder) {
+            this.cancel(action.CancelOrder.order_id, updates);
+          }
+          // SettleBalance is a no-op: simulated proceeds settle immediately.
+        }
+      }
+    } catch (err) {
+      this.balances = balancesBefore;
+      this.orders = ordersBefore;
+      this.books = booksBefore;
+      this.stats = statsBefore;
+      this.stats.ordersRejected++;
+      this.emitSubmission(groups, undefined, (err as any)?.message ?? String(err));
+      throw new SubmissionNotExecutedError(err);
+    }
+
+    this.flush(updates);
+    this.txSeq++;
+    const txId = '0x' + this.txSeq.toString(16).padStart(64, '0');
+    this.emitSubmission(groups, txId);
+    return {
+      tx_id: txId,
+      orders: created,
+    };
+  }
+
+  private emitSubmission(groups: SessionActionsSubmission['groups'], txId?: string, error?: string): void {
+    const event: SessionActionsSubmission = { nonce: null, groups, txId, error, retry: false, timestamp: this.now() };
+    this.emit('actionsSubmitted', event);
+  }
+
+  private createOrder(
+    marketId: string,
+    req: NonNullable<SessionAction['CreateOrder']>,
+    updates: any[],
+  ): SimOrder {
+    const market = this.requireMarket(marketId);
+    const side = req.side === 'Buy' ? 'Buy' : 'Sell';
+    const price = BigInt(req.price || '0');
+    const quantity = BigInt(req.quantity || '0');
+    if (quantity <= 0n) throw new Error('Invalid order quantity');
+    if (price <= 0n && req.order_type !== 'Market') throw new Error('Invalid order price');
+
+    // Worst acceptable execution price; null = unbounded (plain Market).
+    let limit: bigint | null = price;
+    if (req.order_type === 'BoundedMarket') {
+      limit = BigInt(side === 'Buy' ? (req.max_price ?? req.price) : (req.min_price ?? '0'));
+    } else if (req.order_type === 'Market') {
+      limit = null;
+    }
+
+    const book = this.books.get(marketId);
+    const levels = (side === 'Buy' ? book?.asks : book?.bids) ?? [];
+    const crosses = levels.length > 0 && (
+      side === 'Buy' ? BigInt(levels[0][0]) <= price : BigInt(levels[0][0]) >= price
+    );
+    if (req.order_type === 'PostOnly' && crosses) {
+      throw new Error('PostOnly order would cross the book');
+    }
+    if (req.order_type === 'FillOrKill' && this.fillableQuantity(side, levels, limit) < quantity) {
+      throw new Error('FillOrKill order could not be fully filled');
+    }
+
+    // Lock funds the way the contract forwards them: price * qty for buys, qty for sells.
+    const baseScale = 10n ** BigInt(market.base.decimals);
+    const lockPrice = side === 'Buy' && limit !== null && limit > price ? limit : price;
+    const lockAmount = side === 'Buy' ? (lockPrice * quantity) / baseScale : quantity;
+    const lockAsset = side === 'Buy' ? market.quote.asset : market.base.asset;
+    const bal = this.balanceOf(lockAsset);
+    if (bal.unlocked < lockAmount) throw new Error('NotEnoughBalance');
+    bal.unlocked -= lockAmount;
+    bal.locked += lockAmount;
+
+    const ts = this.now();
+    this.orderSeq++;
+    const order: SimOrder = {
+      orderId: '0x' + this.orderSeq.toString(16).padStart(64, '0'),
+      marketId,
+      side,
+      orderType: req.order_type,
+      price,
+      quantity,
+      filled: 0n,
+      lastFillPrice: 0n,
+      locked: lockAmount,
+      cancelled: false,
+      closed: false,
+      createdAt: ts,
+      updatedAt: ts,
+    };
+    this.orders.set(order.orderId, order);
+    this.stats.ordersPlaced++;
+
+    this.consumeLevels(order, levels, limit, false, []);
+
+    const rests = req.order_type === 'Spot' || req.order_type === 'Limit' || req.order_type === 'PostOnly';
+    if (!rests && !order.closed) {
+      // Marketable remainder is killed rather than left on the book.
+      order.closed = true;
+      if (order.filled === 0n) {
+        order.cancelled = true;
+        this.stats.ordersCancelled++;
+      }
+      this.releaseLock(order);
+    }
+    updates.push(this.toWsOrder(order));
+    return order;
+  }
+
+  private cancel(orderId: string, updates: any[]): void {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error(`Order not found: ${orderId}`);
+    if (order.closed) return;
+    order.closed = true;
+    order.cancelled = true;
+    order.updatedAt = this.now();
+    this.releaseLock(order);
+    this.stats.ordersCancelled++;
+    updates.push(this.toWsOrder(order));
+  }
+
+  // =========================================================================
+  // MATCHING
+  // =========================================================================
+
+  /**
+   * Walk `levels` (opposite side of the book) filling `order` while prices are
+   * within `limit`. Maker fills execute at the order's own price, taker fills
+   * at the level price. Consumed liquidity is removed until the next book.
+   */
+  private consumeLevels(
+    order: SimOrder,
+    levels: Array<[string, string]>,
+    limit: bigint | null,
+    asMaker: boolean,
+    updates: any[],
+  ): void {
+    let touched = false;
+    while (levels.length > 0 && order.filled < order.quantity) {
+      const levelPrice = BigInt(levels[0][0]);
+      const levelQty = BigInt(levels[0][1]);
+      if (limit !== null && (order.side === 'Buy' ? levelPrice > limit : levelPrice < limit)) break;
+
+      const execPrice = asMaker ? order.price : levelPrice;
+      let qty = order.quantity - order.filled;
+      if (qty > levelQty) qty = levelQty;
+      qty = this.affordable(order, execPrice, qty);
+      if (qty <= 0n) break;
+
+      this.fill(order, execPrice, qty, asMaker);
+      touched = true;
+      const left = levelQty - qty;
+      if (left <= 0n) levels.shift();
+      else levels[0] = [levels[0][0], left.toString()];
+    }
+    if (touched) updates.push(this.toWsOrder(order));
+  }
+
+  private fillableQuantity(
+    side: 'Buy' | 'Sell',
+    levels: Array<[string, string]>,
+    limit: bigint | null,
+  ): bigint {
+    let total = 0n;
+    for (const [p, q] of levels) {
+      const price = BigInt(p);
+      if (limit !== null && (side === 'Buy' ? price > limit : price < limit)) break;
+      total += BigInt(q);
+    }
+    return total;
+  }
+
+  /** Cap a buy fill to what the order's lock plus free quote can pay for. */
+  private affordable(order: SimOrder, price: bigint, qty: bigint): bigint {
+    if (order.side === 'Sell' || price <= 0n) return qty;
+    const market = this.requireMarket(order.marketId);
+    const baseScale = 10n ** BigInt(market.base.decimals);
+    const budget = order.locked + this.balanceOf(market.quote.asset).unlocked;
+    const max = (budget * baseScale) / price;
+    return qty > max ? max : qty;
+  }
+
+  private fill(order: SimOrder, price: bigint, qty: bigint, isMaker: boolean): void {
+    const market = this.requireMarket(order.marketId);
+    const baseScale = 10n ** BigInt(market.base.decimals);
+    const feePpm = BigInt(Math.round(parseFloat(isMaker ? market.maker_fee : market.taker_fee) || 0));
+    const quoteAmount = (price * qty) / baseScale;
+    const base = this.balanceOf(market.base.asset);
+    const quote = this.balanceOf(market.quote.asset);
+
+    if (order.side === 'Buy') {
+      const fromLock = quoteAmount < order.locked ? quoteAmount : order.locked;
+      order.locked -= fromLock;
+      quote.locked -= fromLock;
+      quote.unlocked -= quoteAmount - fromLock;
+      const fee = (qty * feePpm) / PPM;
+      base.unlocked += qty - fee;
+      base.fees += fee;
+    } else {
+      order.locked -= qty;
+      base.locked -= qty;
+      const fee = (quoteAmount * feePpm) / PPM;
+      quote.unlocked += quoteAmount - fee;
+      quote.fees += fee;
+    }
+
+    if (order.filled === 0n) this.stats.ordersWithFills++;
+    order.filled += qty;
+    order.lastFillPrice = price;
+    order.updatedAt = this.now();
+    this.stats.filledQuantity[order.marketId] = (this.stats.filledQuantity[order.marketId] ?? 0n) + qty;
+    if (isMaker) this.stats.makerFills++;
+    else this.stats.takerFills++;
+    this.lastTradePrice.set(order.marketId, price);
+
+    if (order.filled >= order.quantity) {
+      order.closed = true;
+      this.stats.ordersFilled++;
+      this.releaseLock(order);
+    }
+  }
+
+  private releaseLock(order: SimOrder): void {
+    if (order.locked <= 0n) return;
+    const market = this.requireMarket(order.marketId);
+    const bal = this.balanceOf(order.side === 'Buy' ? market.quote.asset : market.base.asset);
+    bal.locked -= order.locked;
+    bal.unlocked += order.locked;
+    order.locked = 0n;
+  }
+
+  // =========================================================================
+  // REST-SHAPED QUERIES
+  // =========================================================================
+
+  async getMarkets(): Promise<MarketsResponse> {
+    return { markets: [...this.markets.values()] };
+  }
+
+  async getTicker(marketId: string): Promise<MarketTicker | null> {
+    const book = this.books.get(marketId);
+    const last = this.lastTradePrice.get(marketId);
+    const bid = book?.bids[0]?.[0] ?? '0';
+    const ask = book?.asks[0]?.[0] ?? '0';
+    const lastPrice = last !== undefined
+      ? last.toString()
+      : (bid !== '0' && ask !== '0' ? ((BigInt(bid) + BigInt(ask)) / 2n).toString() : '0');
+    if (lastPrice === '0') return null;
+    return {
+      last_price: lastPrice,
+      bid,
+      ask,
+      base_volume: '0',
+      high: '0',
+      low: '0',
+      change: '0',
+      percentage: '0',
+    };
+  }
+
+  async getTrades(marketId: string, count = 20): Promise<Trade[]> {
+    return (this.tape.get(marketId) ?? []).slice(0, count);
+  }
+
+  async getDepth(marketId: string): Promise<OrderBookDepth | null> {
+    const book = this.books.get(marketId);
+    return book ? { bids: [...book.bids], asks: [...book.asks], timestamp: book.timestamp } : null;
+  }
+
+  async getOrders(params: {
+    market_id: string;
+    contract: string;
+    direction?: string;
+    count?: number;
+    is_open?: boolean;
+  }): Promise<Order[]> {
+    let list = [...this.orders.values()].filter((o) => o.marketId === params.market_id);
+    if (params.is_open) list = list.filter((o) => !o.closed);
+    list.sort((a, b) => (params.direction === 'asc' ? a.createdAt - b.createdAt : b.createdAt - a.createdAt));
+    return list.slice(0, params.count ?? 100).map((o) => this.toOrder(o));
+  }
+
+  async getOrder(orderId: string, marketId: string): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    return order && order.marketId === marketId ? this.toOrder(order) : null;
+  }
+
+  async getBalance(assetId: string, _contractId?: string, _ownerId?: string): Promise<BalanceResponse> {
+    const bal = this.balanceOf(assetId);
+    return {
+      order_books: {},
+      total_fee: bal.fees.toString(),
+      total_locked: bal.locked.toString(),
+      total_unlocked: bal.unlocked.toString(),
+      trading_account_balance: bal.unlocked.toString(),
+    };
+  }
+
+  getStats(): SimulatedExchangeStats {
+    return { ...this.stats, filledQuantity: { ...this.stats.filledQuantity } };
+  }
+
+  // =========================================================================
+  // WS-SHAPED SUBSCRIPTIONS (everything is pushed; nothing to subscribe to)
+  // =========================================================================
+
+  subscribeDepth(_marketIds: string[]): void {}
+  subscribeOrders(_identities: Identity[]): void {}
+  subscribeBalances(_identities: Identity[]): void {}
+
+  get isConnected(): boolean {
+    return true;
+  }
+
+  // =========================================================================
+  // HELPERS
+  // =========================================================================
+
+  private openOrders(marketId: string): SimOrder[] {
+    return [...this.orders.values()].filter((o) => o.marketId === marketId && !o.closed);
+  }
+
+  private appendToTape(marketId: string, price: bigint, quantity?: bigint): void {
+    const list = this.tape.get(marketId) ?? [];
+    const ts = this.now();
+    list.unshift({
+      trade_id: `sim-trade-${++this.tradeSeq}`,
+      market_id: marketId,
+      price: price.toString(),
+      quantity: (quantity ?? 0n).toString(),
+      side: 'Buy',
+      timestamp: String(ts),
+      total: '0',
+    });
+    if (list.length > TAPE_LENGTH) list.length = TAPE_LENGTH;
+    this.tape.set(marketId, list);
+  }
+
+  private requireMarket(marketId: string): Market {
+    const market = this.markets.get(marketId);
+    if (!market) throw new Error(`Unknown market: ${marketId}`);
+    return market;
+  }
+
+  private balanceOf(assetId: string): SimBalance {
+    let bal = this.balances.get(assetId);
+    if (!bal) {
+      bal = { unlocked: 0n, locked: 0n, fees: 0n };
+      this.balances.set(assetId, bal);
+    }
+    return bal;
+  }
+
+  private toWsOrder(o: SimOrder): any {
+    return {
+      order_id: o.orderId,
+      market_id: o.marketId,
+      side: o.side,
+      order_type: o.orderType,
+      price: o.price.toString(),
+      price_fill: o.lastFillPrice.toString(),
+      quantity: o.quantity.toString(),
+      quantity_fill: o.filled.toString(),
+      close: o.closed,
+      partially_filled: o.filled > 0n && o.filled < o.quantity,
+      cancel: o.cancelled,
+      timestamp: String(o.updatedAt),
+    };
+  }
+
+  private toOrder(o: SimOrder): Order {
+    let status: OrderStatus;
+    if (o.cancelled && o.filled === 0n) status = 'cancelled' as OrderStatus;
+    else if (o.filled >= o.quantity) status = 'filled' as OrderStatus;
+    else if (o.filled > 0n) status = 'partially_filled' as OrderStatus;
+    else status = 'open' as OrderStatus;
+
+    // Report order age relative to the wall clock so age-based logic (order
+    // timeouts) measures elapsed exchange time, not replay wall time.
+    const ageMs = this.now() - o.createdAt;
+    return {
+      order_id: o.orderId,
+      market_id: o.marketId,
+      side: o.side as OrderSide,
+      order_type: o.orderType as OrderType,
+      price: o.price.toString(),
+      price_fill: o.lastFillPrice.toString(),
+      quantity: o.quantity.toString(),
+      quantity_fill: o.filled.toString(),
+      status,
+      cancel: o.cancelled,
+      close: o.closed,
+      partially_filled: o.filled > 0n && o.filled < o.quantity,
+      created_at: Date.now() - ageMs,
+      updated_at: Date.now() - (this.now() - o.updatedAt),
+    };
+  }
+
+  /** Deliver order/balance updates on the next tick, like the WS feed would. */
+  private flush(orderUpdates: any[]): void {
+    if (orderUpdates.length === 0) return;
+    const touchedAssets = new Set<string>();
+    for (const u of orderUpdates) {
+      const market = this.markets.get(u.market_id);
+      if (market) {
+        touchedAssets.add(market.base.asset);
+        touchedAssets.add(market.quote.asset);
+      }
+    }
+    const balanceUpdates = [...touchedAssets].map((asset_id) => {
+      const bal = this.balanceOf(asset_id);
+      return {
+        asset_id,
+        total_unlocked: bal.unlocked.toString(),
+        total_locked: bal.locked.toString(),
+      };
+    });
+    setImmediate(() => {
+      this.emit('orders', orderUpdates);
+      this.emit('balances', balanceUpdates);
+    });
+  }
+}
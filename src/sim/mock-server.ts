@@ -0,0 +1,651 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import Decimal from 'decimal.js';
+import { WebSocketServer, WebSocket } from 'ws';
+import { SimulatedExchange } from './exchange.js';
+import { syntheticBook } from './backtest.js';
+import type { Market } from '../types/market.js';
+import type { Trade } from '../types/order.js';
+import type { CreateSessionRequest, SessionActionsRequest } from '../types/api.js';
+
+export interface MockMarketSpec {
+  pair: string;             // e.g. "ETH_USDC"
+  midPrice: number;         // starting mid, human units
+  baseDecimals?: number;    // default 9
+  quoteDecimals?: number;   // default 9
+  makerFee?: string;        // ppm, default "0"
+  takerFee?: string;        // ppm, default "100"
+}
+
+export type MockStepAction =
+  | 'reject'          // fail the next `count` session action submissions with `message`
+  | 'nonce_skip'      // advance the account nonce by `count`, as if another signer used it
+  | 'lose_response'   // execute the next `count` session action submissions but answer with `status`
+  | 'expire_session'  // forget all sessions ("Invalid session address" from then on)
+  | 'http_error'      // answer the next `count` requests under `path` with `status`
+  | 'drop_ws'         // terminate every WebSocket connection
+  | 'pause_feed'      // stop price ticks and depth pushes
+  | 'resume_feed'
+  | 'move'            // shift `market` mid by `percent`
+  | 'trade';          // print a trade on `market` at `price` (default mid) for `quantity` base
+
+export interface MockScenarioStep {
+  at: number;               // ms after server start
+  action: MockStepAction;
+  market?: string;
+  count?: number;
+  message?: string;
+  path?: string;
+  status?: number;
+  percent?: number;
+  price?: number;
+  quantity?: number;
+}
+
+export interface MockScenario {
+  markets?: MockMarketSpec[];
+  balances?: Record<string, number>;  // by symbol, human units
+  tickMs?: number;                    // price walk interval, default 1000
+  volatilityPercent?: number;         // max move per tick, default 0.05
+  spreadPercent?: number;             // synthetic book spread, default 0.1
+  depthUsd?: number;                  // liquidity per level, default 10000
+  seed?: number;                      // deterministic price walk when set
+  competition?: boolean;              // serve an active competition + leaderboard
+  steps?: MockScenarioStep[];
+}
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+interface SocketSubs {
+  depth: Set<string>;
+  trades: Set<string>;
+  orders: boolean;
+  balances: boolean;
+}
+
+interface MockSession {
+  expiry: number; // unix seconds
+  contractIds: string[];
+}
+
+const DEFAULT_MARKETS: MockMarketSpec[] = [
+  { pair: 'ETH_USDC', midPrice: 2500 },
+  { pair: 'FUEL_USDC', midPrice: 0.01 },
+];
+
+const DEFAULT_BALANCES: Record<string, number> = { USDC: 10000, ETH: 1, FUEL: 100000 };
+
+const DEFAULT_REJECT_MESSAGE = 'Failed to process transaction: Revert(NotEnoughBalance)';
+
+const b256 = (label: string) => '0x' + createHash('sha256').update(label).digest('hex');
+
+const ok = (body: unknown): Reply => ({ status: 200, body });
+const fail = (status: number, message: string, extra: Record<string, unknown> = {}): Reply =>
+  ({ status, body: { message, ...extra } });
+
+/** mulberry32 — small seeded PRNG so scenario runs are reproducible. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function buildMarket(spec: MockMarketSpec): Market {
+  const [base, quote] = spec.pair.split('_');
+  const baseDecimals = spec.baseDecimals ?? 9;
+  const quoteDecimals = spec.quoteDecimals ?? 9;
+  return {
+    market_id: b256(`market:${spec.pair}`),
+    contract_id: b256(`book:${spec.pair}`),
+    taker_fee: spec.takerFee ?? '100',
+    maker_fee: spec.makerFee ?? '0',
+    min_order: '1000000',
+    base: { symbol: base, asset: b256(`asset:${base}`), decimals: baseDecimals, min_precision: 3, max_precision: 6 },
+    quote: { symbol: quote, asset: b256(`asset:${quote}`), decimals: quoteDecimals, min_precision: 2, max_precision: 6 },
+  };
+}
+
+export function loadScenario(path: string): MockScenario {
+  return JSON.parse(readFileSync(path, 'utf-8')) as MockScenario;
+}
+
+/**
+ * MockO2Server - a local stand-in for the O2 REST + WebSocket API.
+ *
+ * Serves the routes O2RestClient and O2WebSocketClient use, backed by a
+ * SimulatedExchange whose reference books follow a random walk. Accounts,
+ * sessions and nonces are tracked the way the API reports them (including
+ * its nonce error messages), but signatures are not verified. Scenario steps
+ * inject faults on a timeline: rejected transactions, nonce drift, lost
+ * responses, expired sessions, HTTP errors, dropped sockets, stalled feeds
+ * and partial fills.
+ *
+ * Point the bot at it with O2_API_URL=http://127.0.0.1:<port>.
+ */
+export class MockO2Server extends EventEmitter {
+  private scenario: MockScenario;
+  private exchange: SimulatedExchange;
+  private markets: Market[];
+  private mids: Map<string, Decimal> = new Map();
+  private random: () => number;
+  private http: Server;
+  private wss: WebSocketServer;
+  private sockets: Map<WebSocket, SocketSubs> = new Map();
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  private owners: Set<string> = new Set();
+  private nonce = 0;
+  private sessions: Map<string, MockSession> = new Map();
+  private pendingRejects: string[] = [];
+  private lostResponses: number[] = []; // Statuses for executed submissions whose answer is lost
+  private httpFaults: Array<{ path: string; status: number; remaining: number }> = [];
+  private feedPaused = false;
+
+  private trades: Map<string, Trade[]> = new Map();
+  private tradeSeq = 0;
+  private filledSeen: Map<string, bigint> = new Map();
+  private volumeUsd = new Decimal(0);
+
+  constructor(scenario: MockScenario = {}) {
+    super();
+    this.scenario = scenario;
+    this.markets = (scenario.markets ?? DEFAULT_MARKETS).map(buildMarket);
+    this.random = scenario.seed !== undefined ? seededRandom(scenario.seed) : Math.random;
+
+    const balances: Record<string, string> = {};
+    for (const [symbol, amount] of Object.entries(scenario.balances ?? DEFAULT_BALANCES)) {
+      const asset = this.markets
+        .flatMap((m) => [m.base, m.quote])
+        .find((a) => a.symbol === symbol);
+      if (!asset) continue;
+      balances[asset.asset] = new Decimal(amount).mul(new Decimal(10).pow(asset.decimals)).floor().toFixed(0);
+    }
+    this.exchange = new SimulatedExchange({
+      markets: this.markets,
+      balances,
+      tradeAccountId: b256('trade-account'),
+    });
+
+    const specs = scenario.markets ?? DEFAULT_MARKETS;
+    for (let i = 0; i < specs.length; i++) {
+      this.mids.set(this.markets[i].market_id, new Decimal(specs[i].midPrice));
+    }
+
+    this.http = createServer((req, res) => {
+      this.handleHttp(req, res).catch((err) => {
+        this.send(res, { status: 500, body: { message: err?.message ?? String(err) } });
+      });
+    });
+    this.wss = new WebSocketServer({ server: this.http, path: '/v1/ws' });
+    this.wss.on('connection', (socket) => this.handleSocket(socket));
+    // The WS server re-emits HTTP server errors; listen failures surface via start().
+    this.wss.on('error', () => {});
+
+    this.exchange.on('depth', (update: { marketId: string; bids: Array<[string, string]>; asks: Array<[string, string]> }) => {
+      if (this.feedPaused) return;
+      this.broadcast(
+        (subs) => subs.depth.has(update.marketId),
+        { action: 'depth_view', market_id: update.marketId, view: this.toView(update.bids, update.asks) },
+      );
+    });
+    this.exchange.on('orders', (orders: any[]) => {
+      this.trackVolume(orders);
+      this.broadcast((subs) => subs.orders, { action: 'subscribe_orders', orders });
+    });
+    this.exchange.on('balances', (balance: any[]) => {
+      this.broadcast((subs) => subs.balances, { action: 'subscribe_balances', balance });
+    });
+  }
+
+  get tradeAccount(): string {
+    return this.exchange.tradeAccount;
+  }
+
+  get currentNonce(): number {
+    return this.nonce;
+  }
+
+  getMarkets(): Market[] {
+    return [...this.markets];
+  }
+
+  // =========================================================================
+  // LIFECYCLE
+  // =========================================================================
+
+  /** Start listening and begin the price walk and scenario timeline. Resolves to the base URL. */
+  async start(port: number, host = '127.0.0.1'): Promise<string> {
+    for (const market of this.markets) this.publishBook(market);
+
+    await new Promise<void>((resolve, reject) => {
+      this.http.once('error', reject);
+      this.http.listen(port, host, () => {
+        this.http.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.tickTimer = setInterval(() => this.tick(), this.scenario.tickMs ?? 1000);
+    for (const step of this.scenario.steps ?? []) {
+      this.timers.push(setTimeout(() => {
+        try {
+          this.applyStep(step);
+        } catch (err: any) {
+          this.emit('log', `Scenario step failed: ${err?.message ?? err}`);
+        }
+      }, step.at));
+    }
+
+    const addr = this.http.address();
+    const boundPort = typeof addr === 'object' && addr ? addr.port : port;
+    return `http://${host}:${boundPort}`;
+  }
+
+  async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    for (const t of this.timers) clearTimeout(t);
+    this.timers = [];
+    for (const socket of this.sockets.keys()) socket.terminate();
+    this.sockets.clear();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+  }
+
+  // =========================================================================
+  // SCENARIO
+  // =========================================================================
+
+  /** Apply a scenario step immediately (also used by the timeline). */
+  applyStep(step: MockScenarioStep): void {
+    const count = step.count ?? 1;
+    switch (step.action) {
+      case 'reject':
+        for (let i = 0; i < count; i++) this.pendingRejects.push(step.message ?? DEFAULT_REJECT_MESSAGE);
+        break;
+      case 'nonce_skip':
+        this.nonce += count;
+        break;
+      case 'lose_response':
+        for (let i = 0; i < count; i++) this.lostResponses.push(step.status ?? 504);
+        break;
+      case 'expire_session':
+        this.sessions.clear();
+        break;
+      case 'http_error':
+        this.httpFaults.push({ path: step.path ?? '/', status: step.status ?? 503, remaining: count });
+        break;
+      case 'drop_ws':
+        for (const socket of this.sockets.keys()) socket.terminate();
+        break;
+      case 'pause_feed':
+        this.feedPaused = true;
+        break;
+      case 'resume_feed':
+        this.feedPaused = false;
+        for (const market of this.markets) this.publishBook(market);
+        break;
+      case 'move': {
+        const market = this.requireMarket(step.market);
+        const mid = this.mids.get(market.market_id)!;
+        this.mids.set(market.market_id, mid.mul(1 + (step.percent ?? 0) / 100));
+        this.publishBook(market);
+        break;
+      }
+      case 'trade': {
+        const market = this.requireMarket(step.market);
+        const price = step.price !== undefined ? new Decimal(step.price) : this.mids.get(market.market_id)!;
+        const quantity = step.quantity !== undefined ? this.scale(step.quantity, market.base.decimals) : undefined;
+        this.print(market, this.scale(price, market.quote.decimals), quantity);
+        break;
+      }
+    }
+    this.emit('log', `Scenario: ${step.action}${step.market ? ` ${step.market}` : ''}`);
+  }
+
+  private tick(): void {
+    if (this.feedPaused) return;
+    const vol = (this.scenario.volatilityPercent ?? 0.05) / 100;
+    for (const market of this.markets) {
+      const mid = this.mids.get(market.market_id)!;
+      const next = mid.mul(1 + vol * (2 * this.random() - 1));
+      this.mids.set(market.market_id, next);
+      this.print(market, this.scale(next, market.quote.decimals));
+      this.publishBook(market);
+    }
+  }
+
+  private print(market: Market, price: bigint, quantity?: bigint): void {
+    this.exchange.recordTrade(market.market_id, price, quantity);
+    this.tradeSeq++;
+    const qty = quantity ?? 10n ** BigInt(market.base.decimals);
+    const trade: Trade = {
+      trade_id: String(this.tradeSeq),
+      market_id: market.market_id,
+      price: price.toString(),
+      quantity: qty.toString(),
+      side: this.random() < 0.5 ? 'Buy' : 'Sell',
+      timestamp: String(Date.now()),
+      total: ((price * qty) / 10n ** BigInt(market.base.decimals)).toString(),
+    };
+    const list = this.trades.get(market.market_id) ?? [];
+    list.unshift(trade);
+    if (list.length > 500) list.length = 500;
+    this.trades.set(market.market_id, list);
+    this.broadcast(
+      (subs) => subs.trades.has(market.market_id),
+      { action: 'subscribe_trades', market_id: market.market_id, trades: [trade] },
+    );
+  }
+
+  private publishBook(market: Market): void {
+    const mid = this.scale(this.mids.get(market.market_id)!, market.quote.decimals);
+    this.exchange.setReferenceBook(market.market_id, syntheticBook(market, mid, {
+      spreadPercent: this.scenario.spreadPercent ?? 0.1,
+      depthUsd: this.scenario.depthUsd ?? 10000,
+    }));
+  }
+
+  // =========================================================================
+  // HTTP
+  // =========================================================================
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+
+    const fault = this.httpFaults.find((f) => f.remaining > 0 && url.pathname.startsWith(f.path));
+    if (fault) {
+      fault.remaining--;
+      this.httpFaults = this.httpFaults.filter((f) => f.remaining > 0);
+      this.send(res, fail(fault.status, `Injected HTTP ${fault.status}`));
+      return;
+    }
+
+    const body = method === 'GET' ? null : await this.readBody(req);
+    const reply = await this.route(method, url.pathname, url.searchParams, body);
+    if (method !== 'GET' || reply.status >= 400) {
+      this.emit('log', `${method} ${url.pathname} → ${reply.status}`);
+    }
+    this.send(res, reply);
+  }
+
+  private async route(method: string, path: string, q: URLSearchParams, body: any): Promise<Reply> {
+    switch (`${method} ${path}`) {
+      case 'GET /v1/markets':
+        return ok({ markets: this.markets });
+
+      case 'GET /v1/markets/ticker': {
+        const ticker = await this.exchange.getTicker(q.get('market_id') ?? '');
+        if (!ticker) return ok([]);
+        return ok([{ ...ticker, last: ticker.last_price }]);
+      }
+
+      case 'GET /v1/depth': {
+        const depth = await this.exchange.getDepth(q.get('market_id') ?? '');
+        if (!depth) return fail(404, 'Market not found');
+        return ok({ orders: this.toView(depth.bids, depth.asks), timestamp: depth.timestamp });
+      }
+
+      case 'GET /v1/trades': {
+        const count = parseInt(q.get('count') ?? '20') || 20;
+        return ok({ trades: (this.trades.get(q.get('market_id') ?? '') ?? []).slice(0, count) });
+      }
+
+      case 'POST /v1/accounts': {
+        const owner = body?.identity?.Address ?? body?.identity?.ContractId;
+        if (!owner) return fail(400, 'Missing identity');
+        this.owners.add(owner);
+        return ok({ trade_account_id: this.tradeAccount });
+      }
+
+      case 'GET /v1/accounts': {
+        const id = q.get('trade_account_id');
+        const owner = q.get('owner');
+        if ((id && id !== this.tradeAccount) || (owner && !this.owners.has(owner))) {
+          return fail(404, 'Account not found');
+        }
+        return ok({ trade_account_id: this.tradeAccount, trade_account: { nonce: String(this.nonce) } });
+      }
+
+      case 'PUT /v1/session':
+        return this.createSession(body as CreateSessionRequest);
+
+      case 'POST /v1/session/actions':
+        return this.submitActions(body as SessionActionsRequest);
+
+      case 'GET /v1/orders': {
+        const orders = await this.exchange.getOrders({
+          market_id: q.get('market_id') ?? '',
+          contract: q.get('contract') ?? '',
+          direction: q.get('direction') ?? undefined,
+          count: parseInt(q.get('count') ?? '') || undefined,
+          is_open: q.get('is_open') === 'true',
+        });
+        return ok({ orders });
+      }
+
+      case 'GET /v1/order': {
+        const order = await this.exchange.getOrder(q.get('order_id') ?? '', q.get('market_id') ?? '');
+        return order ? ok({ order }) : fail(404, 'Order not found');
+      }
+
+      case 'GET /v1/balance':
+        return ok(await this.exchange.getBalance(q.get('asset_id') ?? ''));
+
+      case 'GET /analytics/v1/competition/list':
+        return ok({ competitions: this.scenario.competition ? [this.competition()] : [] });
+
+      case 'GET /analytics/v1/competition/leaderboard':
+        return this.scenario.competition ? ok(this.leaderboard()) : fail(404, 'Competition not found');
+
+      default:
+        return fail(404, `No mock route for ${method} ${path}`);
+    }
+  }
+
+  private createSession(req: CreateSessionRequest): Reply {
+    const nonceError = this.checkNonce(req?.nonce);
+    if (nonceError) return nonceError;
+    const sessionId = (req.session_id as { Address?: string })?.Address;
+    if (!sessionId) return fail(400, 'Missing session_id');
+
+    this.sessions.set(sessionId, { expiry: parseInt(req.expiry) || 0, contractIds: req.contract_ids ?? [] });
+    this.nonce++;
+    return ok({ tx_id: b256(`session:${sessionId}:${this.nonce}`) });
+  }
+
+  private async submitActions(req: SessionActionsRequest): Promise<Reply> {
+    const sessionId = (req?.session_id as { Address?: string })?.Address ?? '';
+    const session = this.sessions.get(sessionId);
+    if (!session || session.expiry * 1000 < Date.now()) {
+      return fail(400, 'Invalid session address');
+    }
+    const nonceError = this.checkNonce(req.nonce);
+    if (nonceError) return nonceError;
+
+    // Reverted transactions still consume the nonce on-chain, and the API
+    // reports the new value in the receipts.
+    const reverted = (reason: string): Reply => {
+      this.nonce++;
+      return fail(400, reason, { receipts: `IncrementNonceEvent { nonce: ${this.nonce} }` });
+    };
+
+    const injected = this.pendingRejects.shift();
+    if (injected) return reverted(injected);
+
+    try {
+      const resp = await this.exchange.submitBatch(req.actions ?? []);
+      this.nonce++;
+      const lost = this.lostResponses.shift();
+      return lost ? fail(lost, `Injected HTTP ${lost}`) : ok(resp);
+    } catch (err: any) {
+      return reverted(`Failed to process transaction: Revert(${err?.message ?? err})`);
+    }
+  }
+
+  private checkNonce(nonce: string | undefined): Reply | null {
+    if (nonce === String(this.nonce)) return null;
+    return fail(400, `Nonce ${nonce} does not match the nonce in the database(${this.nonce})`);
+  }
+
+  private competition(): Record<string, unknown> {
+    const now = Date.now();
+    return {
+      competitionId: 'mock-competition',
+      slug: 'mock',
+      title: 'Mock Competition',
+      subtitle: 'Local mock server',
+      startDate: new Date(now - 86_400_000).toISOString(),
+      endDate: new Date(now + 7 * 86_400_000).toISOString(),
+      totalTraders: 1,
+      totalVolume: this.volumeUsd.toFixed(2),
+    };
+  }
+
+  private leaderboard(): Record<string, unknown> {
+    const volume = this.volumeUsd.toFixed(2);
+    return {
+      title: 'Mock Competition',
+      currentUser: {
+        rank: 1,
+        score: volume,
+        volume,
+        volume24h: volume,
+        pnl: '0',
+        realizedPnl: '0',
+        referralVolume: '0',
+      },
+      totalTraders: 1,
+      totalVolume: volume,
+    };
+  }
+
+  /** Accumulate filled notional from order updates for the leaderboard. */
+  private trackVolume(orders: any[]): void {
+    for (const o of orders) {
+      const market = this.markets.find((m) => m.market_id === o.market_id);
+      if (!market) continue;
+      const filled = BigInt(o.quantity_fill || '0');
+      const delta = filled - (this.filledSeen.get(o.order_id) ?? 0n);
+      this.filledSeen.set(o.order_id, filled);
+      if (delta <= 0n) continue;
+      this.volumeUsd = this.volumeUsd.add(
+        new Decimal(delta.toString()).div(new Decimal(10).pow(market.base.decimals))
+          .mul(new Decimal(o.price_fill || '0').div(new Decimal(10).pow(market.quote.decimals)))
+      );
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      req.setEncoding('utf-8');
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        try {
+          resolve(raw ? JSON.parse(raw) : null);
+        } catch {
+          resolve(null);
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, reply: Reply): void {
+    res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  }
+
+  // =========================================================================
+  // WEBSOCKET
+  // =========================================================================
+
+  private handleSocket(socket: WebSocket): void {
+    const subs: SocketSubs = { depth: new Set(), trades: new Set(), orders: false, balances: false };
+    this.sockets.set(socket, subs);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => this.sockets.delete(socket));
+
+    socket.on('message', async (data) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      switch (msg.action) {
+        case 'subscribe_depth_view': {
+          subs.depth.add(msg.market_id);
+          const depth = await this.exchange.getDepth(msg.market_id);
+          if (depth && !this.feedPaused) {
+            this.sendTo(socket, {
+              action: 'subscribe_depth_view',
+              market_id: msg.market_id,
+              view: this.toView(depth.bids, depth.asks),
+            });
+          }
+          break;
+        }
+        case 'subscribe_trades':
+          for (const id of msg.market_ids ?? []) subs.trades.add(id);
+          break;
+        case 'subscribe_orders':
+          subs.orders = true;
+          break;
+        case 'subscribe_balances':
+          subs.balances = true;
+          break;
+        case 'ping':
+          this.sendTo(socket, { action: 'ping' });
+          break;
+      }
+    });
+  }
+
+  private broadcast(filter: (subs: SocketSubs) => boolean, payload: unknown): void {
+    for (const [socket, subs] of this.sockets) {
+      if (filter(subs)) this.sendTo(socket, payload);
+    }
+  }
+
+  private sendTo(socket: WebSocket, payload: unknown): void {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+  }
+
+  // =========================================================================
+  // HELPERS
+  // =========================================================================
+
+  private toView(bids: Array<[string, string]>, asks: Array<[string, string]>) {
+    return {
+      buys: bids.map(([price, quantity]) => ({ price, quantity })),
+      sells: asks.map(([price, quantity]) => ({ price, quantity })),
+    };
+  }
+
+  private scale(amount: Decimal | number, decimals: number): bigint {
+    return BigInt(new Decimal(amount).mul(new Decimal(10).pow(decimals)).floor().toFixed(0));
+  }
+
+  private requireMarket(pair: string | undefined): Market {
+    const [base, quote] = (pair ?? '').split('_');
+    const market = this.markets.find((m) => m.base.symbol === base && m.quote.symbol === quote);
+    if (!market) throw new Error(`Unknown scenario market: ${pair}`);
+    return market;
+  }
+}
@@ -11,9 +11,12 @@ import type { Market, Bar, OrderBookDepth, MarketTicker } from '../types/market.
 import type { Order } from '../types/order.js';
 import type { Logger } from './logger.js';
 import type { CompetitionTracker } from '../engine/competition-tracker.js';
+import { getAccountHoldings, type CapitalAllocator } from '../engine/capital-allocator.js';
+import { resampleEquity, type EquityPoint, type EquityTracker } from '../engine/equity-tracker.js';
 import type { StrategyPreset, StrategyConfig } from '../types/strategy.js';
 import { getPresetStrategyConfig, STRATEGY_PRESET_LABELS, STRATEGY_PRESET_DESCRIPTIONS } from '../types/strategy.js';
 import * as dbQueries from '../db/queries.js';
+import { runWithDb, type DbHandle } from '../db/index.js';
 import {
   showPickerModal,
   showConfirmModal,
@@ -21,6 +24,7 @@ import {
   showOrderEntryModal,
   type OrderEntryType,
   showHelpOverlay,
+  showTextOverlay,
   type FormField,
   type HelpSection,
 } from './modals.js';
@@ -122,6 +126,13 @@ function sparkline(values: number[], maxW: number): string {
   return out;
 }
 
+// Equity values spread evenly over the curve's whole span, `width` at most
+function equitySeries(curve: EquityPoint[], width: number): number[] {
+  if (curve.length < 2) return [];
+  const span = curve[curve.length - 1].ts - curve[0].ts;
+  return resampleEquity(curve, Math.max(1, Math.ceil((span + 1) / width))).map(p => p.equity);
+}
+
 // ─── Formatting ───────────────────────────────────────────
 function fmtPrice(n: number): string {
   if (n === 0 || !isFinite(n)) return '0';
@@ -177,6 +188,24 @@ interface TapeFill {
 
 const MAX_TAPE_FILLS = 50;
 
+// ─── Accounts ─────────────────────────────────────────────
+/** One trade account of a multi-account run; the dashboard shows one at a time. */
+export interface DashboardAccount {
+  name: string;
+  engine: TradingEngine;
+  pnlCalc: PnLCalculator;
+  balanceTracker: BalanceTracker;
+  orderManager: OrderManager;
+  competitionTracker?: CompetitionTracker;
+  capitalAllocator?: CapitalAllocator;
+  equityTracker?: EquityTracker;
+  markets: Market[];
+  ownerAddress: string;
+  tradeAccountId: string;
+  sessionExpiry: number;
+  db?: DbHandle; // The account's database, for the history panel and anything a key triggers
+}
+
 // ─── Dashboard ────────────────────────────────────────────
 export class Dashboard {
   private screen: blessed.Widgets.Screen | null = null;
@@ -208,6 +237,7 @@ export class Dashboard {
   private updateInterval: ReturnType<typeof setInterval> | null = null;
   private noTui: boolean;
   private watchMode: boolean;
+  private paperMode: boolean;
   private onQuit?: () => void;
   private viewMode: 'log' | 'history' = 'log';
   private tradeAccountId: string = '';
@@ -223,6 +253,10 @@ export class Dashboard {
   private currentPresetIndex = 0;
   private ownerAddress: string = '';
   private competitionTracker: CompetitionTracker | null = null;
+  private capitalAllocator: CapitalAllocator | null = null;
+  private equityTracker: EquityTracker | null = null;
+  private accounts: DashboardAccount[] = [];
+  private accountIndex = 0;
 
   // Trades tape
   private tapeFills: TapeFill[] = [];
@@ -250,6 +284,8 @@ export class Dashboard {
     wsClient?: O2WebSocketClient;
     logger: Logger;
     competitionTracker?: CompetitionTracker;
+    capitalAllocator?: CapitalAllocator;
+    equityTracker?: EquityTracker;
     noTui?: boolean;
     watchMode?: boolean;
     onQuit?: () => void;
@@ -257,6 +293,8 @@ export class Dashboard {
     ownerAddress?: string;
     tradeAccountId?: string;
     sessionExpiry?: number;
+    paperMode?: boolean;
+    accounts?: DashboardAccount[]; // Several accounts: start on the first, Tab switches
   }) {
     this.engine = opts.engine;
     this.pnlCalc = opts.pnlCalc;
@@ -267,14 +305,23 @@ export class Dashboard {
     this.orderManager = opts.orderManager || null;
     this.logger = opts.logger;
     this.competitionTracker = opts.competitionTracker || null;
+    this.capitalAllocator = opts.capitalAllocator || null;
+    this.equityTracker = opts.equityTracker || null;
     this.noTui = opts.noTui || false;
     this.watchMode = opts.watchMode || false;
+    this.paperMode = opts.paperMode || false;
     this.onQuit = opts.onQuit;
     this.markets = opts.markets || this.marketData.getAllMarkets();
     this.ownerAddress = opts.ownerAddress || '';
     this.tradeAccountId = opts.tradeAccountId || '';
     this.sessionExpiry = opts.sessionExpiry || 0;
+    this.accounts = opts.accounts || [];
+    if (this.accounts.length > 0) this.useAccount(0);
+
+    this.detectPreset();
+  }
 
+  private detectPreset(): void {
     const contexts = this.engine.getContexts();
     if (contexts.length > 0) {
       const name = contexts[0].strategy?.toLowerCase() || '';
@@ -283,6 +330,56 @@ export class Dashboard {
     }
   }
 
+  // ─── Accounts ─────────────────────────────────────────
+  private get account(): DashboardAccount | undefined {
+    return this.accounts[this.accountIndex];
+  }
+
+  /** Point every panel at another account; market, chart and tape start over. */
+  private useAccount(index: number): void {
+    const account = this.accounts[index];
+    this.accountIndex = index;
+    this.engine = account.engine;
+    this.pnlCalc = account.pnlCalc;
+    this.balanceTracker = account.balanceTracker;
+    this.orderManager = account.orderManager;
+    this.competitionTracker = account.competitionTracker || null;
+    this.capitalAllocator = account.capitalAllocator || null;
+    this.equityTracker = account.equityTracker || null;
+    this.markets = account.markets;
+    this.ownerAddress = account.ownerAddress;
+    this.tradeAccountId = account.tradeAccountId;
+    this.sessionExpiry = account.sessionExpiry;
+    this.currentMarketIndex = 0;
+    this.bars = [];
+    this.lastBarFetch = 0;
+    this.openOrders = [];
+    this.lastOrdersFetch = 0;
+    this.priceHistory = [];
+    this.tapeFills = [];
+  }
+
+  private switchAccount(step: number): void {
+    if (this.accounts.length < 2) return;
+    this.useAccount((this.accountIndex + step + this.accounts.length) % this.accounts.length);
+    this.detectPreset();
+    this.inAccount(() => this.loadTapeFromDb());
+    this.addLog(`{cyan-fg}Account: ${this.account!.name}{/cyan-fg}`);
+    void this.render();
+  }
+
+  /** Run `fn` against the shown account's database (a no-op scope with one account). */
+  private inAccount<T>(fn: () => T): T {
+    const db = this.account?.db;
+    return db ? runWithDb(db, fn) : fn();
+  }
+
+  /** Every account's event sources, tagged with its name when there are several. */
+  private accountSources(): Array<{ name: string; engine: TradingEngine; competitionTracker: CompetitionTracker | null }> {
+    if (this.accounts.length === 0) return [{ name: '', engine: this.engine, competitionTracker: this.competitionTracker }];
+    return this.accounts.map(a => ({ name: a.name, engine: a.engine, competitionTracker: a.competitionTracker || null }));
+  }
+
   start(): void {
     if (this.noTui) { this.startConsoleMode(); return; }
     this.startTuiMode();
@@ -293,64 +390,69 @@ export class Dashboard {
       if (level === 'error') console.error(message);
       else console.log(message);
     });
-    this.engine.on('cycle', (_marketId: string, result: any) => {
-      if (result.executed) {
-        for (const order of result.orders || []) {
-          // Don't log successful orders here — fill handler in index.ts logs confirmed fills
-          if (!order.success && order.error) console.error(`[Failed] ${order.error}`);
-        }
-      } else if (result.skipReason) {
-        console.log(`[Skip] ${result.skipReason}`);
-      }
-      if (!result.executed && result.orders) {
-        for (const order of result.orders) {
-          if (!order.success && order.error) console.error(`[Failed] ${order.error}`);
+    for (const { name, engine, competitionTracker } of this.accountSources()) {
+      const tag = name ? `[${name}] ` : '';
+      engine.on('cycle', (_marketId: string, result: any) => {
+        if (result.executed) {
+          for (const order of result.orders || []) {
+            // Don't log successful orders here — fill handler in index.ts logs confirmed fills
+            if (!order.success && order.error) console.error(`${tag}[Failed] ${order.error}`);
+          }
+        } else if (result.skipReason) {
+          console.log(`${tag}[Skip] ${result.skipReason}`);
         }
-      }
-    });
-    this.engine.on('error', (marketId: string, err: Error) => {
-      console.error(`[Error] ${marketId}: ${err.message}`);
-    });
-
-    // Competition status in headless mode
-    if (this.competitionTracker) {
-      this.competitionTracker.on('update', (state: any) => {
-        if (!state?.competition || !state.userEntry) return;
-        const comp = state.competition;
-        const u = state.userEntry;
-        const title = this.stripHtmlTags(comp.title);
-        const remainMs = state.timeRemainingMs;
-        const days = Math.floor(remainMs / 86400000);
-        const hrs = Math.floor((remainMs % 86400000) / 3600000);
-        const timeStr = days > 0 ? `${days}d${hrs}h` : `${hrs}h`;
-        let compLine = `[Competition] ${title} | Rank: #${u.rank} | Vol: $${this.fmtBigNum(String(u.volume))} | P&L: $${this.fmtBigNum(String(u.pnl))} | ${timeStr}`;
-        const subs = state.subRankings;
-        if (subs?.taker) compLine += ` | Taker: #${subs.taker.rank} $${this.fmtBigNum(String(subs.taker.volume))}`;
-        if (subs?.maker) compLine += ` | Maker: #${subs.maker.rank} $${this.fmtBigNum(String(subs.maker.volume))}`;
-        console.log(compLine);
-
-        const streakInfo = this.competitionTracker?.getStreakInfo();
-        if (streakInfo) {
-          let streakMsg = `[Competition] Streak: ${streakInfo.streakCount}`;
-          if (streakInfo.currentPeriodProgress) {
-            const prog = streakInfo.currentPeriodProgress;
-            const volNum = parseFloat(prog.volume) || 0;
-            const tgtNum = parseFloat(prog.target) || 0;
-            const pct = tgtNum > 0 ? Math.round((volNum / tgtNum) * 100) : 0;
-            streakMsg += ` | Day ${streakInfo.currentPeriodIndex + 1}: ${pct}% ($${this.fmtBigNum(String(prog.volume))}/$${this.fmtBigNum(String(prog.target))})`;
-            if (prog.met) streakMsg += ' [MET]';
+        if (!result.executed && result.orders) {
+          for (const order of result.orders) {
+            if (!order.success && order.error) console.error(`${tag}[Failed] ${order.error}`);
           }
-          if (streakInfo.superBoostStatus) streakMsg += ` | SB: ${streakInfo.superBoostStatus}`;
-          console.log(streakMsg);
         }
       });
-
-      this.competitionTracker.on('streakAtRisk', (info: any) => {
-        console.warn(`[Competition] WARNING: Streak at risk! Day ${info.periodIndex + 1}, ${info.progress}% elapsed, $${info.volume}/$${info.target}`);
+      engine.on('error', (marketId: string, err: Error) => {
+        console.error(`${tag}[Error] ${marketId}: ${err.message}`);
       });
+
+      // Competition status in headless mode
+      if (competitionTracker) this.logCompetition(competitionTracker, tag);
     }
   }
 
+  private logCompetition(tracker: CompetitionTracker, tag: string): void {
+    tracker.on('update', (state: any) => {
+      if (!state?.competition || !state.userEntry) return;
+      const comp = state.competition;
+      const u = state.userEntry;
+      const title = this.stripHtmlTags(comp.title);
+      const remainMs = state.timeRemainingMs;
+      const days = Math.floor(remainMs / 86400000);
+      const hrs = Math.floor((remainMs % 86400000) / 3600000);
+      const timeStr = days > 0 ? `${days}d${hrs}h` : `${hrs}h`;
+      let compLine = `[Competition] ${title} | Rank: #${u.rank} | Vol: $${this.fmtBigNum(String(u.volume))} | P&L: $${this.fmtBigNum(String(u.pnl))} | ${timeStr}`;
+      const subs = state.subRankings;
+      if (subs?.taker) compLine += ` | Taker: #${subs.taker.rank} $${this.fmtBigNum(String(subs.taker.volume))}`;
+      if (subs?.maker) compLine += ` | Maker: #${subs.maker.rank} $${this.fmtBigNum(String(subs.maker.volume))}`;
+      console.log(tag + compLine);
+
+      const streakInfo = tracker.getStreakInfo();
+      if (streakInfo) {
+        let streakMsg = `[Competition] Streak: ${streakInfo.streakCount}`;
+        if (streakInfo.currentPeriodProgress) {
+          const prog = streakInfo.currentPeriodProgress;
+          const volNum = parseFloat(prog.volume) || 0;
+          const tgtNum = parseFloat(prog.target) || 0;
+          const pct = tgtNum > 0 ? Math.round((volNum / tgtNum) * 100) : 0;
+          streakMsg += ` | Day ${streakInfo.currentPeriodIndex + 1}: ${pct}% ($${this.fmtBigNum(String(prog.volume))}/$${this.fmtBigNum(String(prog.target))})`;
+          if (prog.met) streakMsg += ' [MET]';
+        }
+        if (streakInfo.superBoostStatus) streakMsg += ` | SB: ${streakInfo.superBoostStatus}`;
+        console.log(tag + streakMsg);
+      }
+    });
+
+    tracker.on('streakAtRisk', (info: any) => {
+      console.warn(`${tag}[Competition] WARNING: Streak at risk! Day ${info.periodIndex + 1}, ${info.progress}% elapsed, $${info.volume}/$${info.target}`);
+    });
+  }
+
   private startTuiMode(): void {
     this.screen = blessed.screen({
       smartCSR: true,
@@ -486,10 +588,11 @@ export class Dashboard {
 
     // ─── Key bindings ───────────────────────────────────
     // q is suppressed when a modal is open so it can be used to dismiss
-    // the modal. C-c always quits as a hard exit.
-    this.screen.key(['q'], () => { if (this.modalActive) return; if (this.onQuit) this.onQuit(); });
-    this.screen.key(['C-c'], () => { if (this.onQuit) this.onQuit(); });
-    this.screen.key(['p'], () => {
+    // the modal. C-c always quits as a hard exit. Handlers run in the shown
+    // account's database scope (see key()).
+    this.key(['q'], () => { if (this.modalActive) return; if (this.onQuit) this.onQuit(); });
+    this.key(['C-c'], () => { if (this.onQuit) this.onQuit(); });
+    this.key(['p'], () => {
       if (this.modalActive) return;
       if (this.engine.isRunning) { this.engine.stop(); this.addLog('{yellow-fg}Bot paused{/yellow-fg}'); }
       else {
@@ -498,7 +601,7 @@ export class Dashboard {
         this.addLog('{green-fg}Bot resumed{/green-fg}');
       }
     });
-    this.screen.key(['['], () => {
+    this.key(['['], () => {
       if (this.modalActive) return;
       if (this.markets.length > 1) {
         this.currentMarketIndex = (this.currentMarketIndex - 1 + this.markets.length) % this.markets.length;
@@ -507,7 +610,7 @@ export class Dashboard {
         this.addLog(`Switched to ${this.currentMarket?.base.symbol}/${this.currentMarket?.quote.symbol}`);
       }
     });
-    this.screen.key([']'], () => {
+    this.key([']'], () => {
       if (this.modalActive) return;
       if (this.markets.length > 1) {
         this.currentMarketIndex = (this.currentMarketIndex + 1) % this.markets.length;
@@ -516,13 +619,13 @@ export class Dashboard {
         this.addLog(`Switched to ${this.currentMarket?.base.symbol}/${this.currentMarket?.quote.symbol}`);
       }
     });
-    this.screen.key(['r'], () => {
+    this.key(['r'], () => {
       if (this.modalActive) return;
       this.resolutionIndex = (this.resolutionIndex + 1) % RESOLUTIONS.length;
       this.lastBarFetch = 0;
       this.addLog(`Chart resolution: ${RESOLUTIONS[this.resolutionIndex]}`);
     });
-    this.screen.key(['s'], () => {
+    this.key(['s'], () => {
       if (this.modalActive) return;
       this.currentPresetIndex = (this.currentPresetIndex + 1) % STRATEGY_PRESETS.length;
       const preset = STRATEGY_PRESETS[this.currentPresetIndex];
@@ -533,7 +636,7 @@ export class Dashboard {
       }
       this.addLog(`{cyan-fg}Strategy switched to: ${label}{/cyan-fg}`);
     });
-    this.screen.key(['h'], () => {
+    this.key(['h'], () => {
       if (this.modalActive) return;
       this.viewMode = this.viewMode === 'log' ? 'history' : 'log';
       if (this.viewMode === 'history') {
@@ -544,7 +647,7 @@ export class Dashboard {
       }
       this.screen?.render();
     });
-    this.screen.key(['c'], async () => {
+    this.key(['c'], async () => {
       if (this.modalActive) return;
       const market = this.currentMarket;
       if (!market || !this.orderManager) return;
@@ -558,72 +661,92 @@ export class Dashboard {
     });
 
     // ─── New modal-driven keybindings (additive) ──────────
-    this.screen.key(['?'], () => {
+    this.key(['?'], () => {
       if (this.modalActive) return;
       void this.openHelpOverlay();
     });
-    this.screen.key(['S'], () => {
+    this.key(['S'], () => {
       if (this.modalActive) return;
       void this.openStrategyPicker();
     });
-    this.screen.key(['e'], () => {
+    this.key(['e'], () => {
       if (this.modalActive) return;
       void this.openStrategyEditor();
     });
-    this.screen.key(['o'], () => {
+    this.key(['o'], () => {
       if (this.modalActive) return;
       void this.openManualOrderModal();
     });
-    this.screen.key(['f'], () => {
+    this.key(['f'], () => {
       if (this.modalActive) return;
       void this.openFlattenConfirm();
     });
-    this.screen.key(['C'], () => {
+    this.key(['C'], () => {
       if (this.modalActive) return;
       void this.openCancelAllConfirm();
     });
-    this.screen.key(['P'], () => {
+    this.key(['P'], () => {
       if (this.modalActive) return;
       void this.toggleMarketPause();
     });
-    this.screen.key(['O'], () => {
+    this.key(['O'], () => {
       if (this.modalActive) return;
       void this.openCancelOrderPicker();
     });
+    this.key(['A'], () => {
+      if (this.modalActive) return;
+      void this.openAmendOrderPicker();
+    });
+    this.key(['tab'], () => {
+      if (this.modalActive) return;
+      this.switchAccount(1);
+    });
+    this.key(['S-tab'], () => {
+      if (this.modalActive) return;
+      this.switchAccount(-1);
+    });
+    this.key(['g'], () => {
+      if (this.modalActive) return;
+      void this.openPortfolioOverlay();
+    });
 
     // ─── Event handlers ─────────────────────────────────
     this.logger.onLog((_level, msg) => this.addLog(msg));
-    this.engine.on('cycle', (_mId: string, result: any) => {
-      if (result.executed) {
-        for (const o of result.orders || []) {
-          if (o.success) {
-            // Don't log here — the fill handler in index.ts logs the confirmed fill.
-            // Only add to tape for the visual trades panel.
-            this.addTapeFill({
-              time: Date.now(),
-              side: o.side,
-              price: o.priceHuman || '?',
-              quantity: o.quantityHuman || '?',
-              pair: o.marketPair || '?',
-              isNew: true,
-            });
-          } else if (o.error) {
-            this.addLog(`{red-fg}Failed: ${o.error}{/red-fg}`);
+    for (const { name, engine } of this.accountSources()) {
+      const tag = name ? `[${name}] ` : '';
+      engine.on('cycle', (_mId: string, result: any) => {
+        if (result.executed) {
+          for (const o of result.orders || []) {
+            if (o.success) {
+              // Don't log here — the fill handler in index.ts logs the confirmed fill.
+              // Only add to tape for the visual trades panel, and only for the shown account.
+              if (engine !== this.engine) continue;
+              this.addTapeFill({
+                time: Date.now(),
+                side: o.side,
+                price: o.priceHuman || '?',
+                quantity: o.quantityHuman || '?',
+                pair: o.marketPair || '?',
+                isNew: true,
+              });
+            } else if (o.error) {
+              this.addLog(`{red-fg}${tag}Failed: ${o.error}{/red-fg}`);
+            }
           }
+        } else if (result.skipReason) {
+          this.addLog(`{yellow-fg}${tag}Skip: ${result.skipReason}{/yellow-fg}`);
         }
-      } else if (result.skipReason) {
-        this.addLog(`{yellow-fg}Skip: ${result.skipReason}{/yellow-fg}`);
-      }
-      if (!result.executed && result.orders) {
-        for (const o of result.orders) {
-          if (!o.success && o.error) this.addLog(`{red-fg}Failed: ${o.error}{/red-fg}`);
+        if (!result.executed && result.orders) {
+          for (const o of result.orders) {
+            if (!o.success && o.error) this.addLog(`{red-fg}${tag}Failed: ${o.error}{/red-fg}`);
+          }
         }
-      }
-    });
-    this.engine.on('error', (mId: string, err: Error) => {
-      this.addLog(`{red-fg}Error [${mId}]: ${err.message}{/red-fg}`);
-      this.lastWsError = `${mId}: ${err.message}`;
-    });
+      });
+      engine.on('error', (mId: string, err: Error) => {
+        this.addLog(`{red-fg}${tag}Error [${mId}]: ${err.message}{/red-fg}`);
+        this.lastWsError = `${tag}${mId}: ${err.message}`;
+      });
+    }
 
     // ─── WS health tracking ───────────────────────────────
     if (this.wsClient) {
@@ -635,13 +758,17 @@ export class Dashboard {
       });
     }
 
-    this.loadTapeFromDb();
-    this.updateInterval = setInterval(() => this.render(), 1000);
+    this.inAccount(() => this.loadTapeFromDb());
+    this.updateInterval = setInterval(() => this.inAccount(() => this.render()), 1000);
     this.fetchBars();
-    this.render();
+    this.inAccount(() => this.render());
     this.screen.render();
   }
 
+  private key(keys: string[], handler: () => void | Promise<void>): void {
+    this.screen!.key(keys, () => this.inAccount(handler));
+  }
+
   // ─── Tape management ─────────────────────────────────
   private addTapeFill(fill: TapeFill): void {
     this.tapeFills.unshift(fill);
@@ -751,7 +878,7 @@ export class Dashboard {
     const statusColor = this.engine.isRunning ? T.buy : (this.watchMode && !this.engine.isRunning ? T.accent : T.warn);
     const statusText = this.engine.isRunning ? 'RUNNING' : (this.watchMode ? 'WATCHING' : 'PAUSED');
     const statusDot = this.engine.isRunning ? DOT : (this.watchMode ? '◉' : DOT);
-    const status = tc(statusColor, `${statusDot} ${statusText}`);
+    const status = tc(statusColor, `${statusDot} ${statusText}`) + (this.paperMode ? ` ${tcB(T.accent, 'PAPER')}` : '');
     const wsColor = this.wsClient?.isConnected ? T.buy : T.sell;
     const wsStr = tc(wsColor, 'WS');
 
@@ -771,12 +898,15 @@ export class Dashboard {
       }
     }
     const acctStr = this.tradeAccountId ? ` ${tc(T.dim, `Acct:${this.tradeAccountId.slice(0, 8)}..`)}` : '';
+    const accountNav = this.account
+      ? `${tcB(T.accent2, this.account.name)} ${tc(T.muted, `(${this.accountIndex + 1}/${this.accounts.length})`)}  `
+      : '';
 
     // High/Low/Vol in muted color
     const hlv = tc(T.muted, `H:$${high} L:$${low}  Vol:${vol}`);
 
     // Line 1
-    const line1 = `${brand}  ${tcB(T.fg, pair)}${marketNav}  ${priceStr}  ${changeStr}${sparkSection}  ${hlv}  ${tc(T.dim, VLINE)}  ${status} ${wsStr}${sessionStr}${acctStr}  ${tc(T.dim, uptime)}`;
+    const line1 = `${brand}  ${accountNav}${tcB(T.fg, pair)}${marketNav}  ${priceStr}  ${changeStr}${sparkSection}  ${hlv}  ${tc(T.dim, VLINE)}  ${status} ${wsStr}${sessionStr}${acctStr}  ${tc(T.dim, uptime)}`;
 
     // Line 2: Controls
     const res = RESOLUTIONS[this.resolutionIndex];
@@ -793,6 +923,7 @@ export class Dashboard {
       tc(T.dim, '[c]ancel'),
     ];
     if (this.markets.length > 1) controls.push(tc(T.dim, '[[]prev []]next'));
+    if (this.accounts.length > 1) controls.push(tc(T.dim, '[tab]acct [g]portfolio'));
     let line2 = controls.join(' ');
 
     const compState = this.competitionTracker?.getState();
@@ -1349,7 +1480,7 @@ export class Dashboard {
     const quoteHuman = this.balanceTracker.getQuoteBalanceHuman(mId);
     const aggPnl = this.pnlCalc.getSnapshot();
     const contexts = this.engine.getContexts();
-    const ctx = contexts.find(c => c.marketId === mId);
+    const ctx = contexts.find(c => c.strategyKey === mId);
     const midPrice = this.marketData.getMidPrice(mId) || 0;
     const baseUsd = baseHuman * midPrice;
     const totalUsd = quoteHuman + baseUsd;
@@ -1382,16 +1513,47 @@ export class Dashboard {
     if (baseHuman > 0 && aggPnl.averageBuyPrice > 0) {
       const unrlStr = `${pnlSign(unrealizedPnl)}$${Math.abs(unrealizedPnl).toFixed(4)}`;
       content += `  ${tc(T.muted, 'Unrl.')}  ${tc(pnlClr(unrealizedPnl), unrlStr)}`;
-      content += `  ${tc(T.muted, 'Fee')} ${tc(T.fg, `$${aggPnl.totalFees.toFixed(4)}`)}\n`;
+      content += `  ${tc(T.muted, 'Fee')} ${tc(T.fg, `$${aggPnl.totalFees.toFixed(4)}`)} ${tc(T.dim, `M${aggPnl.makerCount}/T${aggPnl.takerCount}`)}\n`;
       const totStr = `${pnlSign(totalPnl)}$${Math.abs(totalPnl).toFixed(4)}`;
       content += `  ${tcB(T.muted, 'Total')}  ${tcB(pnlClr(totalPnl), totStr)}\n`;
     } else {
-      content += `  ${tc(T.muted, 'Fee')} ${tc(T.fg, `$${aggPnl.totalFees.toFixed(4)}`)}\n`;
+      content += `  ${tc(T.muted, 'Fee')} ${tc(T.fg, `$${aggPnl.totalFees.toFixed(4)}`)} ${tc(T.dim, `M${aggPnl.makerCount}/T${aggPnl.takerCount}`)}\n`;
     }
     content += `  ${tc(T.muted, 'Trades')} ${tc(T.fg, `${aggPnl.tradeCount}`)} ${tc(T.dim, `(${aggPnl.buyCount}B/${aggPnl.sellCount}S)`)}`;
     if (aggPnl.averageBuyPrice > 0) content += ` ${tc(T.muted, 'AvgB:')}${tc(T.fg, `$${fmtPrice(aggPnl.averageBuyPrice)}`)}`;
     content += '\n';
 
+    // Capital — allocated vs used across the market's strategies (as of their last cycle)
+    if (this.capitalAllocator) {
+      const usages = this.engine.getStrategyKeys(mId)
+        .map(key => this.capitalAllocator!.getLastUsage(key))
+        .filter((u): u is NonNullable<typeof u> => !!u);
+      if (usages.length > 0) {
+        const allocated = usages.reduce((n, u) => n + u.allocatedUsd, 0);
+        const used = usages.reduce((n, u) => n + u.usedUsd, 0);
+        const pct = allocated > 0 ? (used / allocated) * 100 : 0;
+        content += `\n${tcB(T.accent, `${TRI} Capital`)}\n`;
+        content += `  ${tc(T.muted, 'Alloc')}  ${tc(T.fg, fmtUsd(allocated))}  ${tc(T.muted, 'Used')} ${tc(pct >= 100 ? T.warn : T.fg, fmtUsd(used))} ${tc(T.dim, `(${pct.toFixed(0)}%)`)}\n`;
+      }
+    }
+
+    // Equity — account and this market over the tracker's last 24h
+    if (this.equityTracker) {
+      const lines = [
+        { label: 'Acct', curve: this.equityTracker.getCurve(), stats: this.equityTracker.getStats() },
+        { label: 'Mkt', curve: this.equityTracker.getCurve(mId), stats: this.equityTracker.getStats(mId) },
+      ].filter(l => l.stats);
+      if (lines.length > 0) {
+        content += `\n${tcB(T.accent, `${TRI} Equity`)}\n`;
+        for (const { label, curve, stats } of lines) {
+          const s = stats!;
+          const spark = sparkline(equitySeries(curve, 16), 16);
+          const dd = s.drawdownPercent > 0 ? tc(T.sell, `-${s.drawdownPercent.toFixed(1)}%`) : tc(T.buy, 'HWM');
+          content += `  ${tc(T.muted, label.padEnd(5))} ${tc(T.fg, fmtUsd(s.endEquity).padStart(9))} ${spark} ${dd} ${tc(T.dim, `max -${s.maxDrawdownPercent.toFixed(1)}%`)}\n`;
+        }
+      }
+    }
+
     // Strategy
     if (ctx) {
       const cfg = this.engine.getStrategyConfig(mId);
@@ -1427,6 +1589,7 @@ export class Dashboard {
         const nextRun = this.engine.getNextRunTime(mId);
         const countdown = nextRun ? Math.max(0, Math.ceil((nextRun - Date.now()) / 1000)) : 0;
         content += `  ${tc(T.muted, 'Cycle:')} ${tc(T.fg, `${(cfg.timing.cycleIntervalMinMs / 1000).toFixed(0)}-${(cfg.timing.cycleIntervalMaxMs / 1000).toFixed(0)}s`)}`;
+        if (this.engine.getEventTriggers(mId)?.enabled) content += ` ${tc(T.accent, '+events')}`;
         if (cfg.orderConfig.maxSpreadPercent > 0) content += ` ${tc(T.muted, `Spread<${cfg.orderConfig.maxSpreadPercent}%`)}`;
         if (countdown > 0) content += `  ${tc(T.warn, `Next:${countdown}s`)}`;
         content += '\n';
@@ -1435,6 +1598,18 @@ export class Dashboard {
       }
     }
 
+    // Additional tagged strategies on this market — one line each
+    const slots = contexts.filter(c => c.marketId === mId);
+    if (slots.length > 1) {
+      content += `\n${tcB(T.accent, `${TRI} Strategies (${slots.length})`)}\n`;
+      for (const slot of slots) {
+        const slotPnl = this.pnlCalc.getStrategySnapshot(slot.strategyKey).realizedPnl;
+        const state = slot.paused ? tc(T.warn, 'PAUSED') : slot.isActive ? tc(T.buy, 'ON') : tc(T.sell, 'OFF');
+        content += `  ${tc(T.fg, (slot.strategyTag ?? 'primary').padEnd(10))} ${tc(T.muted, slot.strategy.slice(0, 14).padEnd(14))} ${state}`;
+        content += `  ${tc(pnlClr(slotPnl), `${pnlSign(slotPnl)}$${Math.abs(slotPnl).toFixed(4)}`)}\n`;
+      }
+    }
+
     // Open Orders — detailed table (up to 10) with id/side/price/qty/fill%/age/dist
     if (this.openOrders.length > 0) {
       const qScale = 10 ** market.quote.decimals;
@@ -1622,8 +1797,11 @@ export class Dashboard {
     return this.competitionTracker;
   }
 
-  updateSessionExpiry(expiry: number): void {
-    this.sessionExpiry = expiry;
+  /** New session expiry of the single account, or of the named one. */
+  updateSessionExpiry(expiry: number, accountName?: string): void {
+    const account = accountName !== undefined ? this.accounts.find(a => a.name === accountName) : undefined;
+    if (account) account.sessionExpiry = expiry;
+    if (!account || account === this.account) this.sessionExpiry = expiry;
   }
 
   addLog(message: string): void {
@@ -1660,6 +1838,12 @@ export class Dashboard {
           { key: ']', description: 'Next market' },
           { key: 'r', description: 'Cycle chart resolution' },
           { key: 'h', description: 'Toggle Activity ↔ Trade History' },
+          ...(this.accounts.length > 1
+            ? [
+              { key: 'Tab', description: 'Next account' },
+              { key: 'S-Tab', description: 'Previous account' },
+            ]
+            : []),
         ],
       },
       {
@@ -1672,19 +1856,21 @@ export class Dashboard {
           { key: 'c', description: 'Cancel all orders (immediate)' },
           { key: 'C', description: 'Cancel all orders (confirm)' },
           { key: 'O', description: 'Cancel a single order (picker)' },
+          { key: 'A', description: 'Amend a single order (cancel-replace)' },
           { key: 'f', description: 'Flatten position (cancel + sell)' },
         ],
       },
       {
         title: 'View',
         entries: [
+          { key: 'g', description: 'Portfolio across accounts' },
           { key: '?', description: 'This help overlay' },
         ],
       },
       {
         title: 'System',
         entries: [
-          { key: 'p', description: 'Pause / resume bot (global)' },
+          { key: 'p', description: this.accounts.length > 1 ? 'Pause / resume shown account' : 'Pause / resume bot (global)' },
           { key: 'P', description: 'Pause / resume current market only' },
           { key: 'q', description: 'Quit' },
           { key: 'Ctrl-C', description: 'Quit' },
@@ -1694,6 +1880,76 @@ export class Dashboard {
     await this.withModal(() => showHelpOverlay(this.screen!, sections));
   }
 
+  /**
+   * Value, session P&L and open orders of every account with the combined
+   * total, and the assets they hold between them. Values are in USD where a
+   * market prices the asset; accounts holding unpriced assets are marked.
+   */
+  private async openPortfolioOverlay(): Promise<void> {
+    if (!this.screen) return;
+    const accounts = this.accounts.length > 0
+      ? this.accounts
+      : [{ name: 'account', engine: this.engine, pnlCalc: this.pnlCalc, balanceTracker: this.balanceTracker, orderManager: this.orderManager, markets: this.markets }];
+
+    await this.withModal(async () => {
+      const rows: string[] = [];
+      const assets = new Map<string, { symbol: string; total: number; usdPrice: number | null }>();
+      let totalValue = 0;
+      let totalPnl = 0;
+      let totalVolume = 0;
+      let totalOrders = 0;
+      let unpriced = false;
+
+      for (const a of accounts) {
+        const holdings = await getAccountHoldings(a.markets, a.balanceTracker, this.marketData).catch(() => []);
+        const partial = holdings.some(h => h.total > 0 && !h.usdPrice);
+        const value = holdings.reduce((sum, h) => sum + (h.usdPrice ? h.total * h.usdPrice : 0), 0);
+        for (const h of holdings) {
+          const entry = assets.get(h.asset) ?? { symbol: h.symbol, total: 0, usdPrice: h.usdPrice };
+          entry.total += h.total;
+          assets.set(h.asset, entry);
+        }
+        let orders = 0;
+        for (const m of a.markets) {
+          orders += (await a.orderManager?.getOpenOrders(m).catch(() => []))?.length ?? 0;
+        }
+        const pnl = a.pnlCalc.getSnapshot();
+        totalValue += value;
+        totalPnl += pnl.realizedPnl;
+        totalVolume += pnl.totalVolume;
+        totalOrders += orders;
+        unpriced ||= partial;
+
+        const status = a.engine.isRunning ? tc(T.buy, 'RUNNING') : tc(T.warn, 'PAUSED ');
+        const marker = a === this.account || accounts.length === 1 ? tc(T.accent2, TRI) : ' ';
+        rows.push(
+          `${marker} ${a.name.slice(0, 14).padEnd(14)} ${status} ${(fmtUsd(value) + (partial ? '*' : ' ')).padStart(11)} ` +
+          `${tc(pnlClr(pnl.realizedPnl), `${pnl.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(pnl.realizedPnl).toFixed(4)}`.padStart(12))} ` +
+          `${fmtUsd(pnl.totalVolume).padStart(10)} ${String(pnl.tradeCount).padStart(6)} ${String(orders).padStart(6)}`
+        );
+      }
+
+      const lines = [
+        tcB(T.accent, `  ${'Account'.padEnd(14)} Status  ${'Value'.padStart(11)} ${'Real. P&L'.padStart(12)} ${'Volume'.padStart(10)} ${'Trades'.padStart(6)} ${'Orders'.padStart(6)}`),
+        ...rows,
+      ];
+      if (accounts.length > 1) {
+        lines.push(
+          tcB(T.gold, `  ${'Total'.padEnd(14)}         ${(fmtUsd(totalValue) + (unpriced ? '*' : ' ')).padStart(11)} ` +
+            `${`${totalPnl >= 0 ? '+' : '-'}$${Math.abs(totalPnl).toFixed(4)}`.padStart(12)} ${fmtUsd(totalVolume).padStart(10)} ` +
+            `${''.padStart(6)} ${String(totalOrders).padStart(6)}`)
+        );
+      }
+      lines.push('', tcB(T.accent, `  ${'Asset'.padEnd(8)} ${'Held'.padStart(14)} ${'USD'.padStart(11)}`));
+      for (const h of [...assets.values()].filter(h => h.total > 0).sort((x, y) => (y.total * (y.usdPrice ?? 0)) - (x.total * (x.usdPrice ?? 0)))) {
+        lines.push(`  ${h.symbol.padEnd(8)} ${fmtQty(h.total).padStart(14)} ${(h.usdPrice ? fmtUsd(h.total * h.usdPrice) : '—').padStart(11)}`);
+      }
+      if (unpriced) lines.push('', tc(T.muted, '  * holds assets no traded market prices in USD (left out of the value)'));
+
+      await showTextOverlay(this.screen!, { title: 'Portfolio', lines, closeKey: 'g' });
+    });
+  }
+
   private async openStrategyPicker(): Promise<void> {
     if (!this.screen) return;
     const market = this.currentMarket;
@@ -1818,6 +2074,7 @@ export class Dashboard {
           : cfg.riskManagement.stopLossPercent,
       },
       timing: {
+        ...cfg.timing,
         cycleIntervalMinMs: Number(result.cycleIntervalMinMs),
         cycleIntervalMaxMs: Number(result.cycleIntervalMaxMs),
       },
@@ -2006,25 +2263,11 @@ export class Dashboard {
       this.addLog(`{yellow-fg}No open orders to cancel.{/yellow-fg}`);
       return;
     }
-    const qScale = 10 ** market.quote.decimals;
-    const bScale = 10 ** market.base.decimals;
-    const items = this.openOrders.map((o) => {
-      const idShort = (o.order_id || '').slice(0, 8);
-      const priceN = parseFloat(o.price) / qScale;
-      const qtyN = parseFloat(o.quantity) / bScale;
-      const ageMs = Math.max(0, Date.now() - (o.created_at || Date.now()));
-      const ageMin = Math.floor(ageMs / 60000);
-      const ageSec = Math.floor((ageMs % 60000) / 1000);
-      return {
-        label: `${idShort}  ${o.side.padEnd(4)}  ${fmtPrice(priceN).padStart(10)}  ${fmtQty(qtyN).padStart(8)}  ${ageMin}m${ageSec}s`,
-        value: o.order_id,
-      };
-    });
 
     const picked = await this.withModal(() =>
       showPickerModal<string>(this.screen!, {
         title: `Cancel order — ${market.base.symbol}/${market.quote.symbol}`,
-        items,
+        items: this.openOrderPickerItems(market),
       })
     );
     if (!picked) return;
@@ -2046,6 +2289,96 @@ export class Dashboard {
     }
   }
 
+  // Amend a resting order's price / quantity. The cancel and the new order are
+  // one transaction, so a rejected amend leaves the original order untouched.
+  private async openAmendOrderPicker(): Promise<void> {
+    if (!this.screen) return;
+    const market = this.currentMarket;
+    if (!market || !this.orderManager) return;
+
+    if (this.openOrders.length === 0) {
+      this.addLog(`{yellow-fg}No open orders to amend.{/yellow-fg}`);
+      return;
+    }
+
+    const picked = await this.withModal(() =>
+      showPickerModal<string>(this.screen!, {
+        title: `Amend order — ${market.base.symbol}/${market.quote.symbol}`,
+        items: this.openOrderPickerItems(market),
+      })
+    );
+    if (!picked) return;
+    const order = this.openOrders.find((o) => o.order_id === picked);
+    if (!order) {
+      this.addLog(`{yellow-fg}Order ${picked.slice(0, 12)} is no longer open.{/yellow-fg}`);
+      return;
+    }
+
+    const qScale = 10 ** market.quote.decimals;
+    const bScale = 10 ** market.base.decimals;
+    const currentPrice = parseFloat(order.price) / qScale;
+    const remainingQty = (parseFloat(order.quantity) - parseFloat(order.quantity_fill || '0')) / bScale;
+    const result = await this.withModal(() =>
+      showFormModal<{ price: string; quantity: string }>(this.screen!, {
+        title: `Amend ${order.side} ${picked.slice(0, 8)}`,
+        fields: [
+          { key: 'price', label: `Price (${market.quote.symbol})`, initial: String(currentPrice), type: 'number' },
+          { key: 'quantity', label: `Quantity (${market.base.symbol})`, initial: String(remainingQty), type: 'number', helper: 'unfilled remainder' },
+        ],
+        validate: (values) => {
+          if (!(Number(values.price) > 0)) return 'price: must be > 0';
+          if (!(Number(values.quantity) > 0)) return 'quantity: must be > 0';
+          return null;
+        },
+      })
+    );
+    if (!result) return;
+
+    const priceN = Number(result.price);
+    const qtyN = Number(result.quantity);
+    const confirmed = await this.withModal(() =>
+      showConfirmModal(this.screen!, {
+        title: 'Confirm amend',
+        message: `Replace ${order.side} ${fmtQty(remainingQty)} @ ${fmtPrice(currentPrice)}\nwith ${order.side} ${fmtQty(qtyN)} @ ${fmtPrice(priceN)}?`,
+      })
+    );
+    if (!confirmed) return;
+
+    const orderType = order.order_type === 'PostOnly' ? 'PostOnly' : 'Spot';
+    this.addLog(`{yellow-fg}Amending order ${picked.slice(0, 12)}...{/yellow-fg}`);
+    try {
+      const resp = await this.orderManager.replaceOrder(
+        market,
+        picked,
+        order.side,
+        orderType,
+        String(Math.floor(priceN * qScale)),
+        String(Math.floor(qtyN * bScale)),
+      );
+      const newId = resp.orders?.[0]?.order_id;
+      this.addLog(`{green-fg}Order amended${newId ? ` → ${newId.slice(0, 12)}` : ''}{/green-fg}`);
+    } catch (err: any) {
+      this.addLog(`{red-fg}Amend failed: ${err.message}{/red-fg}`);
+    }
+  }
+
+  private openOrderPickerItems(market: Market): Array<{ label: string; value: string }> {
+    const qScale = 10 ** market.quote.decimals;
+    const bScale = 10 ** market.base.decimals;
+    return this.openOrders.map((o) => {
+      const idShort = (o.order_id || '').slice(0, 8);
+      const priceN = parseFloat(o.price) / qScale;
+      const qtyN = parseFloat(o.quantity) / bScale;
+      const ageMs = Math.max(0, Date.now() - (o.created_at || Date.now()));
+      const ageMin = Math.floor(ageMs / 60000);
+      const ageSec = Math.floor((ageMs % 60000) / 1000);
+      return {
+        label: `${idShort}  ${o.side.padEnd(4)}  ${fmtPrice(priceN).padStart(10)}  ${fmtQty(qtyN).padStart(8)}  ${ageMin}m${ageSec}s`,
+        value: o.order_id,
+      };
+    });
+  }
+
   shutdown(): void {
     if (this.updateInterval) { clearInterval(this.updateInterval); this.updateInterval = null; }
     if (this.screen) { this.screen.destroy(); this.screen = null; }
@@ -7,6 +7,7 @@ export class Logger {
   private logFile: string | null = null;
   private level: LogLevel = 'info';
   private listeners: Array<(level: LogLevel, message: string) => void> = [];
+  private tag: string | null = null;
   private levelPriority: Record<LogLevel, number> = {
     debug: 0,
     info: 1,
@@ -30,6 +31,15 @@ export class Logger {
     this.level = level;
   }
 
+  /** A logger that writes through this one with `tag` before every context (e.g. an account name). */
+  tagged(tag: string): Logger {
+    const child = new Logger(undefined, this.level);
+    child.logFile = this.logFile;
+    child.listeners = this.listeners;
+    child.tag = this.tag ? `${this.tag}/${tag}` : tag;
+    return child;
+  }
+
   onLog(listener: (level: LogLevel, message: string) => void): void {
     this.listeners.push(listener);
   }
@@ -54,7 +64,8 @@ export class Logger {
     if (this.levelPriority[level] < this.levelPriority[this.level]) return;
 
     const timestamp = new Date().toISOString().slice(11, 23);
-    const prefix = context ? `[${context}]` : '';
+    const tagged = this.tag ? (context ? `${this.tag}/${context}` : this.tag) : context;
+    const prefix = tagged ? `[${tagged}]` : '';
     const formatted = `${timestamp} ${level.toUpperCase().padEnd(5)} ${prefix} ${message}`;
 
     // Write to log file
@@ -681,6 +681,63 @@ export function showHelpOverlay(
   });
 }
 
+// ─── Text overlay ─────────────────────────────────────────
+// Read-only panel of preformatted lines (blessed tags allowed). Closes on
+// Esc, q or the key that opened it.
+export function showTextOverlay(
+  screen: blessed.Widgets.Screen,
+  opts: { title: string; lines: string[]; width?: number; closeKey?: string }
+): Promise<void> {
+  return new Promise((resolve) => {
+    const previousFocus = (screen as any).focused as blessed.Widgets.BlessedElement | null;
+    const shade = attachShade(screen);
+    const height = Math.min(30, opts.lines.length + 5);
+    const box = centerBox(screen, { title: opts.title, width: opts.width ?? 86, height });
+
+    blessed.box({
+      parent: box,
+      top: 0,
+      left: 0,
+      width: '100%-2',
+      height: '100%-3',
+      content: opts.lines.join('\n'),
+      tags: true,
+      scrollable: true,
+      style: { fg: COLOR.fg, bg: COLOR.bg },
+    });
+
+    const keys = ['escape', 'q', ...(opts.closeKey ? [opts.closeKey] : [])];
+    blessed.text({
+      parent: box,
+      bottom: 0,
+      left: 0,
+      content: `{gray-fg}${keys.map((k) => (k === 'escape' ? 'Esc' : k)).join(' / ')}  to close{/gray-fg}`,
+      style: { fg: COLOR.muted, bg: COLOR.bg },
+      tags: true,
+    });
+
+    const scope: ModalScope = {
+      cleanup: () => {
+        box.removeAllListeners();
+        shade.removeAllListeners();
+        box.detach();
+        shade.detach();
+      },
+    };
+    let finished = false;
+    const close = (): void => {
+      if (finished) return;
+      finished = true;
+      teardown(scope, screen, previousFocus);
+      resolve();
+    };
+
+    box.key(keys, close);
+    box.focus();
+    screen.render();
+  });
+}
+
 // ─── Order entry modal (manual buy/sell) ──────────────────
 // A rich, live-updating order ticket modeled on the O2 web app:
 //   - Always-visible balances, market prices, fees and min-order
@@ -41,6 +41,17 @@ export interface SessionActionsResponse {
   orders?: Array<{ order_id: string }>;
 }
 
+// Emitted as 'actionsSubmitted' by whatever submits session actions (SessionManager
+// live, SimulatedExchange in paper/backtest), once per attempt, including retries.
+export interface SessionActionsSubmission {
+  nonce: string | null; // null when the submitter has no nonce (simulated)
+  groups: Array<{ market_id: string; actions: SessionAction[] }>;
+  txId?: string;
+  error?: string;
+  retry: boolean;
+  timestamp: number;
+}
+
 export interface CreateSessionRequest {
   nonce: string;
   contract_id: string;
@@ -0,0 +1,102 @@
+import type { SessionAction } from './api.js';
+import type { CycleTrigger, ExecutionDiagnostics, SkipCategory } from './strategy.js';
+
+// ============================================
+// AUDIT EVENTS
+// ============================================
+// One JSON object per line in data/audit/audit-YYYY-MM-DD.jsonl. `ts` is ms
+// epoch; `market` is the pair tag (ETH_USDC) so captures stay readable offline.
+
+export type AuditEventType =
+  | 'cycle'
+  | 'actions'
+  | 'fill'
+  | 'config_reload'
+  | 'auto_pause'
+  | 'market_pause'
+  | 'market_resume'
+  | 'engine_start'
+  | 'engine_stop'
+  | 'error';
+
+interface AuditEventBase {
+  ts: number;
+  type: AuditEventType;
+  market?: string;
+  marketId?: string;
+  strategy?: string; // Tag of a non-primary strategy on the market
+  paper?: boolean;
+}
+
+export interface AuditCycleEvent extends AuditEventBase {
+  type: 'cycle';
+  executed: boolean;
+  skipReason?: string;
+  skipCategory?: SkipCategory;
+  trigger?: CycleTrigger; // Event that pulled the cycle forward (timer when absent)
+  orders: Array<{
+    orderId: string;
+    side: 'Buy' | 'Sell';
+    success: boolean;
+    price?: string; // Human units
+    quantity?: string; // Human units
+    error?: string;
+  }>;
+  diagnostics?: ExecutionDiagnostics;
+}
+
+export interface AuditActionsEvent extends AuditEventBase {
+  type: 'actions';
+  markets: string[]; // Pair tags, in request order
+  nonce: string | null;
+  txId?: string;
+  error?: string;
+  retry: boolean;
+  groups: Array<{ market_id: string; actions: SessionAction[] }>;
+}
+
+export interface AuditFillEvent extends AuditEventBase {
+  type: 'fill';
+  orderId: string;
+  side: string;
+  price: number; // Human units
+  quantity: number; // Human units
+  liquidity?: 'maker' | 'taker';
+  fee?: number; // Quote units, estimated at the maker or taker rate
+}
+
+export interface AuditConfigReloadEvent extends AuditEventBase {
+  type: 'config_reload';
+  preset: string;
+}
+
+export interface AuditAutoPauseEvent extends AuditEventBase {
+  type: 'auto_pause';
+  reason: string;
+  detail?: string; // Breached limits, for portfolio risk stops
+}
+
+export interface AuditErrorEvent extends AuditEventBase {
+  type: 'error';
+  message: string;
+}
+
+export interface AuditLifecycleEvent extends AuditEventBase {
+  type: 'market_pause' | 'market_resume' | 'engine_start' | 'engine_stop';
+}
+
+export type AuditEvent =
+  | AuditCycleEvent
+  | AuditActionsEvent
+  | AuditFillEvent
+  | AuditConfigReloadEvent
+  | AuditAutoPauseEvent
+  | AuditErrorEvent
+  | AuditLifecycleEvent;
+
+export interface AuditFilter {
+  market?: string; // Pair tag (case-insensitive) or market-id prefix
+  since?: number; // ms epoch, inclusive
+  until?: number; // ms epoch, exclusive
+  types?: AuditEventType[];
+}
@@ -21,6 +21,15 @@ export enum OrderStatus {
   PartiallyFilled = 'partially_filled',
 }
 
+// Side of the pair a fill's fee is charged in. Assumed, not reported: neither
+// the order nor the trade payload names a fee asset. The fee is taken to come
+// out of what the fill pays out (base for buys, quote for sells); fee
+// reconciliation and the tax exports both attribute it through this table.
+export const FEE_ASSET_SIDE: Record<OrderSide, 'base' | 'quote'> = {
+  [OrderSide.Buy]: 'base',
+  [OrderSide.Sell]: 'quote',
+};
+
 export interface Order {
   order_id: string;
   market_id: string;
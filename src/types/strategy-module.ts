@@ -0,0 +1,95 @@
+import type { OrderTypeName, StrategyConfig } from './strategy.js';
+
+// ============================================
+// CUSTOM STRATEGY MODULES
+// ============================================
+// A `.js` / `.mjs` / `.ts` file in the strategies directory whose default export
+// (or `strategy` export) implements StrategyModule. All prices and quantities
+// exchanged with a module are human units (e.g. 2500.5 USDC, 0.02 ETH).
+
+export interface StrategyModuleBookLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface StrategyModuleBook {
+  bids: StrategyModuleBookLevel[]; // Best first
+  asks: StrategyModuleBookLevel[]; // Best first
+  bestBid: number | null;
+  bestAsk: number | null;
+  midPrice: number | null;
+}
+
+export interface StrategyModuleOpenOrder {
+  orderId: string;
+  side: 'Buy' | 'Sell';
+  price: number;
+  quantity: number;
+  filledQuantity: number;
+  createdAt: number; // ms epoch
+}
+
+export interface StrategyModuleContext {
+  market: {
+    marketId: string;
+    pair: string; // e.g. "ETH/USDC"
+    baseSymbol: string;
+    quoteSymbol: string;
+    tickSize?: string;
+    stepSize?: string;
+  };
+  now: number; // ms epoch
+  config: StrategyConfig; // Snapshot of the market's config (risk knobs, sizing, timing)
+  book: StrategyModuleBook;
+  balances: {
+    base: { available: number; locked: number };
+    quote: { available: number; locked: number };
+  };
+  openOrders: StrategyModuleOpenOrder[];
+  pnl: {
+    realizedPnl: number;
+    unrealizedPnl: number; // Base held at mid vs averageBuyPrice (0 when unknown)
+    totalTrades: number;
+    totalVolume: number;
+    totalFees: number;
+    averageBuyPrice: number | null;
+    averageSellPrice: number | null;
+  };
+}
+
+/** New order. Price is required for limit-style order types; marketable ones default to the opposite top of book. */
+export interface OrderIntent {
+  side: 'Buy' | 'Sell';
+  quantity: number | string; // Base units
+  price?: number | string;
+  orderType?: OrderTypeName; // Default: config.orderConfig.orderType
+}
+
+/** Cancel one of the market's open orders. */
+export interface CancelIntent {
+  cancelOrderId: string;
+}
+
+export type StrategyIntent = OrderIntent | CancelIntent;
+
+export interface StrategyModuleFill {
+  orderId: string;
+  marketId: string;
+  side: 'Buy' | 'Sell';
+  price: number;
+  quantity: number;
+  timestamp: number;
+}
+
+export interface StrategyModule {
+  name?: string;
+  // Merged over the default config: position sizing, risk management and timing
+  // apply to the module's intents the same way they do to built-in quotes
+  config?: Partial<StrategyConfig>;
+  // Called once per cycle; the context is frozen
+  onCycle(context: Readonly<StrategyModuleContext>): StrategyIntent[] | Promise<StrategyIntent[]>;
+  // Called for every fill on a market the module runs on
+  onFill?(fill: StrategyModuleFill): void | Promise<void>;
+  // Called on every order-book update for a market the module runs on
+  onDepth?(book: StrategyModuleBook, marketId: string): void | Promise<void>;
+}
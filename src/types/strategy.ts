@@ -41,6 +41,26 @@ export interface OrderConfig {
   inventorySkewEnabled?: boolean;
   inventoryTargetBaseRatio?: number; // 0..1, target fraction of equity held in base (0.5 = balanced)
   inventoryMaxSkewPercent?: number; // max additional offset added when fully imbalanced
+
+  // Avellaneda–Stoikov quoting: replaces priceMode's reference price, priceOffsetPercent,
+  // vol-adaptive spread and inventory skew with a reservation price and optimal half-spread
+  marketMakingModel?: 'none' | 'avellanedaStoikov';
+  asRiskAversion?: number; // gamma, per % (default 0.5); higher = stronger inventory pull, wider quotes
+  asHorizonSeconds?: number; // tau, inventory-risk horizon (default 300)
+  asVolatilityLookback?: number; // mid samples for sigma (default volatilityLookbackBars, then 30)
+  asTradeLookback?: number; // recent trades used to estimate arrival intensity (default 100)
+  asMinHalfSpreadPercent?: number; // floor on each side's distance from the reservation price (default 0.01)
+  asMaxHalfSpreadPercent?: number; // cap on half-spread and reservation shift (default 2)
+
+  // Layered quoting: one order per layer and side instead of a single quote, all
+  // submitted in one request. Layer offsets replace priceOffsetPercent (with
+  // Avellaneda–Stoikov they are added to the model's half-spread).
+  quoteLayers?: QuoteLayer[];
+}
+
+export interface QuoteLayer {
+  offsetPercent: number; // % from the reference price
+  sizeWeight?: number; // Share of the side's order size relative to the other layers (default 1)
 }
 
 // ============================================
@@ -118,6 +138,139 @@ export interface TimingConfig {
   // Execution Interval
   cycleIntervalMinMs: number; // Minimum time between order cycles (ms)
   cycleIntervalMaxMs: number; // Maximum time between order cycles (ms)
+
+  // Event-driven re-evaluation on top of the timer. Fields left out take
+  // DEFAULT_EVENT_TRIGGERS; `enabled` defaults to the --event-driven flag.
+  eventTriggers?: Partial<EventTriggerConfig>;
+}
+
+export interface EventTriggerConfig {
+  enabled: boolean;
+  onDepth: boolean; // Best bid or ask moved
+  onFill: boolean; // One of our orders on the market filled
+  onTrade: boolean; // A large public print on the market
+  depthMoveBps: number; // Minimum best bid/ask move to count, in basis points (0 = any change)
+  largeTradeNotional: number; // Minimum print size for onTrade, in quote units
+  debounceMs: number; // Triggers within this window of the first one collapse into one run
+  minIntervalMs: number; // Never re-run a strategy sooner than this after its last run
+  maxPerMinute: number; // Event-triggered runs per strategy per rolling minute
+}
+
+export const DEFAULT_EVENT_TRIGGERS: EventTriggerConfig = {
+  enabled: false,
+  onDepth: true,
+  onFill: true,
+  onTrade: true,
+  depthMoveBps: 0,
+  largeTradeNotional: 1000,
+  debounceMs: 150,
+  minIntervalMs: 500,
+  maxPerMinute: 60,
+};
+
+// ============================================
+// GRID MODE
+// ============================================
+export interface GridConfig {
+  lowerPrice: number; // Lowest grid line (human price)
+  upperPrice: number; // Highest grid line (human price)
+  gridLevels: number; // Number of grid lines between (and including) the bounds, >= 2
+  spacing?: 'fixed' | 'geometric'; // fixed = equal price step, geometric = equal % step (default fixed)
+  ordersPerSide?: number; // Resting orders kept on each side of the price (default 5)
+  orderSizeUsd?: number; // Notional per grid order (default positionSizing.fixedUsdAmount, then minOrderSizeUsd)
+}
+
+// ============================================
+// DCA / TWAP MODE
+// ============================================
+export interface DcaConfig {
+  side: 'Buy' | 'Sell';
+  targetQuantity?: number; // Total base quantity to buy/sell
+  targetNotionalUsd?: number; // Total quote notional, used when targetQuantity is unset
+  durationMinutes: number; // Time to spread the target over
+  slices?: number; // Child orders over the duration (default: one per timing cycle interval)
+  sizeRandomizationPercent?: number; // +/-% jitter on each child's size
+  timingRandomizationPercent?: number; // +/-% jitter on the interval between children
+  limitPrice?: number; // Never buy above / sell below this price
+}
+
+// Runtime progress of a DCA run, persisted with the config so it survives restarts
+export interface DcaProgress {
+  key: string; // Identifies the dcaConfig this progress belongs to; a new key restarts the run
+  startedAt: number; // ms epoch
+  filledQuantity: string; // Base units (human) from settled child orders
+  filledNotional: string; // Quote units (human) from settled child orders
+  childOrderIds: string[]; // Child orders not yet settled
+  unresolvedRuns?: number; // Consecutive runs a child was off the book without a final status
+  slicesPlaced: number;
+  completedAt?: number; // ms epoch, set once the target is reached
+}
+
+// ============================================
+// STRATEGY BUDGET
+// ============================================
+// Caps what one strategy may commit at a time (resting orders plus what it is
+// about to place), in human units. Lets strategies sharing a market's balances
+// run side by side without one draining the other.
+export interface StrategyBudget {
+  quote?: number; // Max quote committed to buy orders
+  base?: number; // Max base committed to sell orders
+}
+
+// ============================================
+// CAPITAL ALLOCATION
+// ============================================
+// Portfolio-level share of the trade account for one market/strategy (keyed
+// by strategyKey), set with `--allocate`. Capital in use is the quote locked
+// in the strategy's open buys plus its net bought inventory at mid.
+export interface CapitalAllocation {
+  usd?: number; // Fixed USD amount
+  percent?: number; // Share of the account's USD value (0-100)
+}
+
+export interface CapitalUsage {
+  allocatedUsd: number;
+  usedUsd: number;
+  remainingUsd: number; // Floored at 0
+  updatedAt: number;
+}
+
+// ============================================
+// PORTFOLIO RISK
+// ============================================
+// Account-wide limits checked by the TradingEngine across all markets (the
+// per-strategy ones live in RiskManagementConfig). Unset limits are off.
+export type PortfolioRiskAction = 'pause' | 'cancel' | 'flatten';
+
+export interface PortfolioRiskConfig {
+  maxExposureUsd?: number; // Value of non-stable assets held
+  maxDrawdownPercent?: number; // From the equity peak since the engine started
+  maxDrawdownUsd?: number;
+  maxOpenNotionalUsd?: number; // Value resting in open orders across all books
+  maxConcentrationPercent?: number; // Largest asset (or correlated group) as a share of equity
+  correlatedAssets?: string[][]; // Symbol groups counted together for concentration
+  action: PortfolioRiskAction; // pause: stop the engine; cancel: also cancel all orders; flatten: also sell all base
+  checkIntervalMs: number;
+}
+
+export type PortfolioRiskLimit = 'exposure' | 'drawdown' | 'open_notional' | 'concentration';
+
+export interface PortfolioRiskSnapshot {
+  equityUsd: number;
+  peakEquityUsd: number;
+  drawdownUsd: number;
+  drawdownPercent: number;
+  exposureUsd: number;
+  openNotionalUsd: number;
+  concentration: { assets: string[]; percent: number } | null; // Largest group
+  updatedAt: number;
+}
+
+export interface PortfolioRiskBreach {
+  limit: PortfolioRiskLimit;
+  value: number;
+  threshold: number;
+  message: string;
 }
 
 // ============================================
@@ -128,6 +281,21 @@ export interface StrategyConfig {
   marketId: string;
   name?: string;
 
+  // Set on additional strategies running on a market next to its primary one
+  // (undefined for the primary). Tags the strategy's orders and trades and keys
+  // its persisted config; see strategyKey().
+  strategyTag?: string;
+  budget?: StrategyBudget;
+
+  // Strategy mode: 'offset' (default) quotes around a reference price each cycle,
+  // 'grid' maintains a fixed price ladder described by gridConfig,
+  // 'dca' works a target quantity/notional into the book over time per dcaConfig,
+  // 'module' runs the custom strategy module named by strategyModule
+  strategyMode?: 'offset' | 'grid' | 'dca' | 'module';
+  gridConfig?: GridConfig;
+  dcaConfig?: DcaConfig;
+  strategyModule?: string; // File name (without extension) of the module in the strategies directory
+
   // Core Configurations
   orderConfig: OrderConfig;
   positionSizing: PositionSizingConfig;
@@ -150,6 +318,9 @@ export interface StrategyConfig {
   dailyLossWindowStart?: number; // ms epoch
   dailyRealizedPnl?: number; // USD, signed
 
+  // DCA/TWAP run progress (strategyMode 'dca')
+  dcaProgress?: DcaProgress;
+
   // Competition: prefer markets that currently have a volume boost multiplier when scheduling
   preferBoostedMarkets?: boolean;
 
@@ -162,6 +333,14 @@ export interface StrategyConfig {
   updatedAt: number;
 }
 
+/**
+ * Identifies one strategy on one market: the market id for the market's
+ * primary strategy, `<marketId>:<tag>` for an additional tagged one.
+ */
+export function strategyKey(marketId: string, strategyTag?: string): string {
+  return strategyTag ? `${marketId}:${strategyTag}` : marketId;
+}
+
 export interface StrategyConfigStore {
   id: string;
   marketId: string;
@@ -389,8 +568,11 @@ export interface StrategyExecutionResult {
   skipReason?: string; // Human-readable reason why execution was skipped (e.g., spread exceeded)
   skipCategory?: SkipCategory; // Stable, machine-readable category for UI grouping
   diagnostics?: ExecutionDiagnostics; // Optional structured diagnostics for the dashboard
+  trigger?: CycleTrigger; // Set by the engine for event-triggered runs; absent for timer runs
 }
 
+export type CycleTrigger = 'depth' | 'fill' | 'trade';
+
 // Stable categories for skip reasons. Used by the TUI to render colored chips and group state.
 export type SkipCategory =
   | 'spread_exceeded'
@@ -406,6 +588,7 @@ export type SkipCategory =
   | 'aggregate_cap_hit'
   | 'slippage_exceeded'
   | 'cooldown'
+  | 'target_reached'
   | 'other';
 
 export interface ExecutionDiagnostics {
@@ -422,5 +605,14 @@ export interface ExecutionDiagnostics {
   aggregateOpenUsd?: number; // notional of all open orders
   trailingPeak?: string;
   dailyPnlUsd?: number;
+  gridActiveLevels?: number; // grid levels with a resting order
+  gridPendingFlips?: number; // filled levels whose opposite order is not yet placed
+  dcaProgressPercent?: number; // share of the DCA target filled so far
+  reservationPrice?: string; // Avellaneda–Stoikov reservation price
+  asHalfSpreadPercent?: number; // Avellaneda–Stoikov half-spread around the reservation price
+  asArrivalK?: number; // estimated arrival-intensity decay per % from mid
+  asTradeRatePerMin?: number; // observed public trade rate
+  moduleIntents?: number; // intents returned by a strategy module this cycle
+  moduleRejectedIntents?: number; // order intents refused by the risk checks
   reasonDetail?: string;
 }
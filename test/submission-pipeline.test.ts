@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SubmissionPipeline } from '../src/engine/submission-pipeline.js';
+import { SubmissionNotExecutedError } from '../src/auth/session-manager.js';
+import type { OrderActionSubmitter } from '../src/engine/order-manager.js';
+import type { Market } from '../src/types/market.js';
+import type { SessionAction } from '../src/types/api.js';
+
+const market = {} as Market;
+const create = (price: string): SessionAction => ({
+  CreateOrder: { side: 'Buy', order_type: 'Spot', price, quantity: '1' },
+} as SessionAction);
+
+// Two markets' requests, held by the window so they go out as one combined request
+function combinedFailure(error: unknown) {
+  const calls = { submitActions: 0, submitBatch: 0, sendAlone: 0 };
+  const submitter: OrderActionSubmitter = {
+    tradeAccount: '0xaccount',
+    submitActions: async () => {
+      calls.submitActions++;
+      return { tx_id: '0xalone', orders: [{ order_id: '0xorder' }] };
+    },
+    submitBatch: async () => {
+      calls.submitBatch++;
+      throw error;
+    },
+  } as unknown as OrderActionSubmitter;
+  const pipeline = new SubmissionPipeline(submitter, { windowMs: 5 });
+  const sendAlone = (pipeline as any).sendAlone.bind(pipeline);
+  (pipeline as any).sendAlone = (r: unknown) => {
+    calls.sendAlone++;
+    return sendAlone(r);
+  };
+  const results = Promise.allSettled([
+    pipeline.submitActions('0xeth', market, [create('100')]),
+    pipeline.submitActions('0xfuel', market, [create('200')]),
+  ]);
+  return { calls, results, pipeline };
+}
+
+test('a combined request that may have landed is not re-sent', async () => {
+  const unknown = new Error('Submission outcome unknown: nonce 7 was used, but its orders could not all be found; not resubmitted');
+  const { calls, results, pipeline } = combinedFailure(unknown);
+
+  const settled = await results;
+  assert.equal(calls.submitBatch, 1);
+  assert.equal(calls.sendAlone, 0);
+  assert.equal(calls.submitActions, 0);
+  for (const s of settled) {
+    assert.equal(s.status, 'rejected');
+    assert.equal((s as PromiseRejectedResult).reason, unknown);
+  }
+  assert.equal(pipeline.getStats().fallbacks, 0);
+});
+
+test('a combined request that did not execute is re-sent one by one', async () => {
+  const { calls, results, pipeline } = combinedFailure(new SubmissionNotExecutedError(new Error('Revert(NotEnoughBalance)')));
+
+  const settled = await results;
+  assert.equal(calls.submitBatch, 1);
+  assert.equal(calls.sendAlone, 2);
+  assert.equal(calls.submitActions, 2);
+  assert.deepEqual(settled.map((s) => s.status), ['fulfilled', 'fulfilled']);
+  assert.equal(pipeline.getStats().fallbacks, 1);
+});